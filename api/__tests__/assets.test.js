@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import handler, { putBucketBlob } from '../assets.js';
+
+const bytes = Buffer.from('body { color: red; }');
+const hash = crypto.createHash('sha256').update(bytes).digest('hex');
+
+function call(req) {
+  const res = {
+    statusCode: 200,
+    body: undefined,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+  return handler(req, res).then(() => res);
+}
+
+describe('api/assets bucket writes', () => {
+  it('should refuse bytes that do not match the hash', async () => {
+    await expect(putBucketBlob(hash, Buffer.from('something else'))).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should need a signed-in user', async () => {
+    const res = await call({ method: 'PUT', path: `/api/assets/${hash}/bucket`, params: { hash }, headers: {}, body: bytes });
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('should only accept PUT', async () => {
+    const res = await call({ method: 'POST', path: `/api/assets/${hash}/bucket`, params: { hash }, headers: {} });
+    expect(res.statusCode).toBe(405);
+  });
+});
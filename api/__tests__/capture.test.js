@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getAuthContextOptions, installAuthHeaders } from '../capture.js';
+
+const auth = {
+  basic: { username: 'editor', password: 'secret' },
+  headers: { Authorization: 'Bearer token', 'X-Api-Key': 'key' },
+};
+
+describe('api/capture credentials', () => {
+  it('should only answer basic auth for the target origin', () => {
+    expect(getAuthContextOptions(auth, 'https://staging.example.com/page')).toEqual({
+      httpCredentials: { username: 'editor', password: 'secret', origin: 'https://staging.example.com' },
+    });
+    expect(getAuthContextOptions({ headers: auth.headers }, 'https://staging.example.com/')).toEqual({});
+  });
+
+  it('should send custom headers to the target origin only', async () => {
+    let handler;
+    const context = { route: vi.fn(async (_pattern, routeHandler) => { handler = routeHandler; }) };
+    await installAuthHeaders(context, auth, 'https://staging.example.com/page');
+
+    const route = (url) => ({
+      request: () => ({ url: () => url, headers: () => ({ accept: '*/*' }) }),
+      fallback: vi.fn(),
+    });
+
+    const sameOrigin = route('https://staging.example.com/app.js');
+    await handler(sameOrigin);
+    expect(sameOrigin.fallback).toHaveBeenCalledWith({
+      headers: { accept: '*/*', Authorization: 'Bearer token', 'X-Api-Key': 'key' },
+    });
+
+    const thirdParty = route('https://cdn.example.net/lib.js');
+    await handler(thirdParty);
+    expect(thirdParty.fallback).toHaveBeenCalledWith();
+  });
+
+  it('should not route requests when there are no custom headers', async () => {
+    const context = { route: vi.fn() };
+    await installAuthHeaders(context, { basic: auth.basic }, 'https://staging.example.com/');
+    expect(context.route).not.toHaveBeenCalled();
+  });
+});
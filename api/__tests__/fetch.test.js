@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import http from 'http';
+import dns from 'dns/promises';
+import handler, { checkRateLimit, isPrivateAddress } from '../fetch.js';
+
+function call(req) {
+  const res = {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    setHeader(name, value) {
+      this.headers[name.toLowerCase()] = value;
+    },
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+    end() {
+      return this;
+    },
+  };
+  return handler(req, res).then(() => res);
+}
+
+describe('api/fetch', () => {
+  describe('isPrivateAddress', () => {
+    it('should block private IPv4 addresses', () => {
+      for (const ip of ['127.0.0.1', '10.1.2.3', '169.254.169.254', '192.168.1.1', '0.0.0.0']) {
+        expect(isPrivateAddress(ip)).toBe(true);
+      }
+      expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    });
+
+    it('should decode every form of IPv6 address that embeds IPv4', () => {
+      const embedded = [
+        '::127.0.0.1', '::7f00:1', // IPv4-compatible
+        '::ffff:127.0.0.1', '::ffff:7f00:1', // IPv4-mapped
+        '::ffff:0:10.0.0.1', '::ffff:0:a00:1', // IPv4-translated
+        '64:ff9b::a9fe:a9fe', // NAT64
+        '2002:c0a8:101::1', // 6to4
+      ];
+      for (const ip of embedded) {
+        expect(isPrivateAddress(ip)).toBe(true);
+      }
+
+      for (const ip of ['::8.8.8.8', '::ffff:8.8.8.8', '::ffff:0:808:808', '64:ff9b::808:808', '2002:808:808::1']) {
+        expect(isPrivateAddress(ip)).toBe(false);
+      }
+    });
+
+    it('should block loopback, local and reserved IPv6 ranges', () => {
+      for (const ip of ['::', '::1', 'fe80::1', 'fd00::1', 'ff02::1', '2001:db8::1', '64:ff9b:1::1']) {
+        expect(isPrivateAddress(ip)).toBe(true);
+      }
+      expect(isPrivateAddress('2606:4700:4700::1111')).toBe(false);
+    });
+  });
+
+  describe('responses', () => {
+    let server;
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should serve upstream bodies as sandboxed attachments', async () => {
+      server = http.createServer((_req, upstreamRes) => {
+        upstreamRes.setHeader('Content-Type', 'text/html; charset=utf-8');
+        upstreamRes.end('<script>alert(document.cookie)</script>');
+      });
+      await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address();
+
+      // Resolve to a public address, then connect to the local server instead
+      vi.spyOn(dns, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      const request = http.request;
+      vi.spyOn(http, 'request').mockImplementation((url, options) => request(url, {
+        ...options,
+        lookup: (_hostname, lookupOptions, callback) => lookupOptions?.all
+          ? callback(null, [{ address: '127.0.0.1', family: 4 }])
+          : callback(null, '127.0.0.1', 4),
+      }));
+
+      const res = await call({
+        method: 'GET',
+        query: { url: `http://upstream.example:${port}/page` },
+        headers: {},
+        socket: { remoteAddress: '127.0.0.1' },
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.headers['content-type']).toBe('application/octet-stream');
+      expect(res.headers['x-upstream-content-type']).toBe('text/html; charset=utf-8');
+      expect(res.headers['x-content-type-options']).toBe('nosniff');
+      expect(res.headers['content-security-policy']).toBe('sandbox');
+      expect(res.headers['content-disposition']).toBe('attachment');
+    });
+  });
+
+  describe('rate limiting', () => {
+    const request = (remoteAddress, headers = {}) => ({ headers, socket: { remoteAddress } });
+
+    it('should limit each client address per window', () => {
+      const now = 1_000;
+      let retryAfter = 0;
+      for (let i = 0; i < 600; i++) {
+        retryAfter = checkRateLimit(request('203.0.113.10'), now);
+      }
+      expect(retryAfter).toBe(0);
+      expect(checkRateLimit(request('203.0.113.10'), now)).toBe(60);
+      expect(checkRateLimit(request('203.0.113.11'), now)).toBe(0);
+      expect(checkRateLimit(request('203.0.113.10'), now + 60_000)).toBe(0);
+    });
+
+    it('should not limit the clone workers on this server', () => {
+      for (let i = 0; i < 700; i++) {
+        expect(checkRateLimit(request('127.0.0.1'), 1_000)).toBe(0);
+      }
+    });
+
+    it('should answer 429 once the limit is reached', async () => {
+      for (let i = 0; i < 600; i++) {
+        checkRateLimit(request('203.0.113.12'));
+      }
+
+      const res = await call({ method: 'GET', query: { url: 'https://example.com/' }, ...request('203.0.113.12') });
+
+      expect(res.statusCode).toBe(429);
+      expect(res.headers['x-proxy-error']).toBe('1');
+      expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    });
+  });
+});
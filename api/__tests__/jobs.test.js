@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { EventEmitter } from 'events';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const workers = [];
+
+vi.mock('child_process', () => ({
+  fork: vi.fn(() => {
+    const child = new EventEmitter();
+    child.messages = [];
+    child.send = (message) => child.messages.push(message);
+    workers.push(child);
+    return child;
+  }),
+}));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: async (token) => (token.startsWith('user-')
+        ? { data: { user: { id: token } }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }),
+    },
+  }),
+}));
+
+function call(handler, { method = 'GET', token, id, path: requestPath = '/api/jobs', body } = {}) {
+  const req = {
+    method,
+    path: requestPath,
+    params: id ? { id } : {},
+    query: {},
+    body,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  };
+  return new Promise((resolve) => {
+    const res = {
+      status(code) {
+        this.statusCode = code;
+        return this;
+      },
+      json(payload) {
+        resolve({ status: this.statusCode, body: payload });
+        return this;
+      },
+    };
+    handler(req, res);
+  });
+}
+
+describe('api/jobs', () => {
+  let directory;
+  let runnerPath;
+  let handler;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'jobs-test-'));
+    runnerPath = path.join(directory, 'cloneRunner.js');
+    process.env.JOB_STORE_DIR = path.join(directory, 'jobs');
+    process.env.CLONE_RUNNER_PATH = runnerPath;
+    process.env.SUPABASE_URL = 'https://project.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role';
+    ({ default: handler } = await import('../jobs.js'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const urlJob = { options: { type: 'url', source: 'https://example.com' } };
+
+  it('should require a valid session', async () => {
+    expect((await call(handler)).status).toBe(401);
+    expect((await call(handler, { token: 'forged' })).status).toBe(401);
+  });
+
+  it('should report server clones as unavailable until the runner is built', async () => {
+    const list = await call(handler, { token: 'user-a' });
+    expect(list.body).toEqual({ jobs: [], available: false });
+
+    const created = await call(handler, { method: 'POST', token: 'user-a', body: urlJob });
+    expect(created.status).toBe(503);
+    expect(workers).toHaveLength(0);
+  });
+
+  it('should reject uploads', async () => {
+    const created = await call(handler, { method: 'POST', token: 'user-a', body: { options: { type: 'upload', source: 'site.zip' } } });
+    expect(created.status).toBe(400);
+  });
+
+  it('should run a job in a worker and keep credentials out of the job', async () => {
+    await writeFile(runnerPath, 'export {};');
+
+    const created = await call(handler, {
+      method: 'POST',
+      token: 'user-a',
+      body: { ...urlJob, auth: { headers: { 'X-Token': 'secret' } } },
+    });
+    expect(created.status).toBe(202);
+    expect(workers).toHaveLength(1);
+
+    const [run] = workers[0].messages;
+    expect(run.type).toBe('run');
+    expect(run.request).toMatchObject({ projectId: created.body.id, userId: 'user-a', auth: { headers: { 'X-Token': 'secret' } } });
+    expect(run.request.options).toEqual(urlJob.options);
+    const saved = await readFile(path.join(directory, 'jobs', `${created.body.id}.json`), 'utf8');
+    expect(saved).not.toContain('secret');
+
+    workers[0].emit('message', { type: 'progress', progress: 40, step: 'Downloading assets' });
+    const status = await call(handler, { token: 'user-a', id: created.body.id, path: `/api/jobs/${created.body.id}` });
+    expect(status.body).toMatchObject({ status: 'running', progress: 40, step: 'Downloading assets' });
+  });
+
+  it("should hide other users' jobs", async () => {
+    const { body } = await call(handler, { token: 'user-a' });
+    const [job] = body.jobs;
+
+    expect((await call(handler, { token: 'user-b' })).body.jobs).toEqual([]);
+    expect((await call(handler, { token: 'user-b', id: job.id, path: `/api/jobs/${job.id}` })).status).toBe(404);
+    expect((await call(handler, { method: 'DELETE', token: 'user-b', id: job.id, path: `/api/jobs/${job.id}` })).status).toBe(404);
+  });
+
+  it('should ask the worker to stop when the owner cancels', async () => {
+    const { body } = await call(handler, { token: 'user-a' });
+    const [job] = body.jobs;
+
+    const cancelled = await call(handler, { method: 'DELETE', token: 'user-a', id: job.id, path: `/api/jobs/${job.id}` });
+    expect(cancelled.body.step).toBe('Cancelling');
+    expect(workers[0].messages.at(-1)).toEqual({ type: 'cancel' });
+
+    workers[0].emit('message', { type: 'done', status: 'cancelled', progress: 40, step: 'Cancelled' });
+    const status = await call(handler, { token: 'user-a', id: job.id, path: `/api/jobs/${job.id}` });
+    expect(status.body.status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,275 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+
+export const config = {
+  maxDuration: 60,
+};
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+const STORE_DIR = process.env.ASSET_STORE_DIR || path.join(process.cwd(), 'data', 'assets');
+const BUCKET = 'assets';
+
+// Blobs written or touched more recently than this are never collected, so a
+// clone that has uploaded or reused assets but not yet saved its project row
+// keeps them
+const GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+function blobPath(hash) {
+  return path.join(STORE_DIR, hash.slice(0, 2), hash);
+}
+
+function sha256(bytes) {
+  return crypto.createHash('sha256').update(bytes).digest('hex');
+}
+
+function serviceClient() {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return url && key ? createClient(url, key, { auth: { persistSession: false } }) : null;
+}
+
+function httpError(status, message) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+/**
+ * Writes and garbage collection need a signed-in user's Supabase token
+ */
+async function authenticate(req) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  if (!token) {
+    throw httpError(401, 'Sign in to write to the asset store');
+  }
+
+  const supabase = serviceClient();
+  if (!supabase) {
+    throw httpError(503, 'SUPABASE_SERVICE_ROLE_KEY is required to check sessions');
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw httpError(401, 'Invalid or expired session');
+  }
+  return data.user.id;
+}
+
+/**
+ * Store a blob on disk under its SHA-256. Returns false when it already existed.
+ */
+export async function putBlob(hash, bytes) {
+  if (sha256(bytes) !== hash) {
+    throw httpError(400, 'Content does not match hash');
+  }
+
+  const target = blobPath(hash);
+  try {
+    await fs.access(target);
+    return false;
+  } catch {
+    // Not stored yet
+  }
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, bytes);
+  await fs.rename(temp, target);
+  return true;
+}
+
+/**
+ * Store a blob in the Supabase bucket under its SHA-256. Users cannot write to
+ * the bucket themselves, so nobody can plant other bytes under a hash that a
+ * later upload would then skip. Returns false when it already existed.
+ */
+export async function putBucketBlob(hash, bytes) {
+  if (sha256(bytes) !== hash) {
+    throw httpError(400, 'Content does not match hash');
+  }
+
+  const supabase = serviceClient();
+  if (!supabase) {
+    throw httpError(503, 'SUPABASE_SERVICE_ROLE_KEY is required to write to the asset bucket');
+  }
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(`${hash.slice(0, 2)}/${hash}`, bytes, { contentType: 'application/octet-stream', upsert: false });
+
+  // Another project uploaded the same file first
+  if (error && /exists|duplicate/i.test(error.message)) return false;
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * Mark a stored blob as just used, restarting its garbage collection grace
+ * period. Returns false when the blob is not stored.
+ */
+export async function touchBlob(hash) {
+  const now = new Date();
+  try {
+    await fs.utimes(blobPath(hash), now, now);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getBlob(hash) {
+  try {
+    return await fs.readFile(blobPath(hash));
+  } catch {
+    return null;
+  }
+}
+
+async function listDiskBlobs() {
+  const blobs = [];
+  let shards = [];
+  try {
+    shards = await fs.readdir(STORE_DIR);
+  } catch {
+    return blobs;
+  }
+
+  for (const shard of shards) {
+    const files = await fs.readdir(path.join(STORE_DIR, shard)).catch(() => []);
+    for (const file of files) {
+      if (!HASH_PATTERN.test(file)) continue;
+      const stats = await fs.stat(path.join(STORE_DIR, shard, file));
+      blobs.push({ hash: file, lastUsedAt: stats.mtimeMs });
+    }
+  }
+
+  return blobs;
+}
+
+async function listBucketBlobs(supabase) {
+  const blobs = [];
+  const { data: shards, error } = await supabase.storage.from(BUCKET).list('', { limit: 1000 });
+  if (error) throw error;
+
+  for (const shard of shards || []) {
+    for (let offset = 0; ; offset += 1000) {
+      const { data: files, error: listError } = await supabase.storage
+        .from(BUCKET)
+        .list(shard.name, { limit: 1000, offset });
+      if (listError) throw listError;
+
+      for (const file of files || []) {
+        if (!HASH_PATTERN.test(file.name)) continue;
+        // touch_asset_blob() moves updated_at forward when a blob is reused
+        blobs.push({ hash: file.name, lastUsedAt: new Date(file.updated_at || file.created_at).getTime() });
+      }
+      if (!files || files.length < 1000) break;
+    }
+  }
+
+  return blobs;
+}
+
+/**
+ * Delete blobs no project references any more, from disk and from the bucket
+ */
+export async function collectGarbage({ graceMs = GC_GRACE_MS } = {}) {
+  const supabase = serviceClient();
+  if (!supabase) {
+    throw httpError(503, 'SUPABASE_SERVICE_ROLE_KEY is required to find referenced assets');
+  }
+
+  const { data, error } = await supabase.rpc('referenced_asset_hashes');
+  if (error) throw error;
+
+  const referenced = new Set((data || []).map(row => row.hash));
+  const cutoff = Date.now() - graceMs;
+  const isGarbage = (blob) => !referenced.has(blob.hash) && blob.lastUsedAt < cutoff;
+
+  const diskGarbage = (await listDiskBlobs()).filter(isGarbage);
+  for (const blob of diskGarbage) {
+    await fs.unlink(blobPath(blob.hash)).catch(() => {});
+  }
+
+  const bucketGarbage = (await listBucketBlobs(supabase)).filter(isGarbage);
+  for (let i = 0; i < bucketGarbage.length; i += 100) {
+    const paths = bucketGarbage.slice(i, i + 100).map(blob => `${blob.hash.slice(0, 2)}/${blob.hash}`);
+    const { error: removeError } = await supabase.storage.from(BUCKET).remove(paths);
+    if (removeError) throw removeError;
+  }
+
+  console.log(`🧹 [ASSETS] Garbage collection removed ${diskGarbage.length} disk and ${bucketGarbage.length} bucket blobs (${referenced.size} referenced)`);
+  return { referenced: referenced.size, deletedFromDisk: diskGarbage.length, deletedFromBucket: bucketGarbage.length };
+}
+
+export default async function handler(req, res) {
+  try {
+    if (req.path.endsWith('/gc')) {
+      if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+      }
+      await authenticate(req);
+      return res.status(200).json(await collectGarbage());
+    }
+
+    const hash = req.params?.hash;
+    if (!hash || !HASH_PATTERN.test(hash)) {
+      return res.status(400).json({ error: 'A lowercase hex SHA-256 hash is required' });
+    }
+
+    if (req.path.endsWith('/touch')) {
+      if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+      }
+      await authenticate(req);
+      const touched = await touchBlob(hash);
+      return touched
+        ? res.status(200).json({ hash, touched })
+        : res.status(404).json({ error: 'Asset not found' });
+    }
+
+    if (req.path.endsWith('/bucket')) {
+      if (req.method !== 'PUT') {
+        return res.status(405).json({ error: 'Method not allowed' });
+      }
+      await authenticate(req);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Request body must be the raw asset bytes' });
+      }
+      const created = await putBucketBlob(hash, req.body);
+      return res.status(created ? 201 : 200).json({ hash, created });
+    }
+
+    if (req.method === 'PUT') {
+      await authenticate(req);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Request body must be the raw asset bytes' });
+      }
+      const created = await putBlob(hash, req.body);
+      return res.status(created ? 201 : 200).json({ hash, created });
+    }
+
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      const bytes = await getBlob(hash);
+      if (!bytes) {
+        return res.status(404).json({ error: 'Asset not found' });
+      }
+
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Length', bytes.length);
+      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+      return req.method === 'HEAD' ? res.status(200).end() : res.status(200).end(bytes);
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('❌ [ASSETS] Request failed:', error);
+    return res.status(error.status || 500).json({
+      error: 'Asset store request failed',
+      message: error.message,
+    });
+  }
+}
@@ -0,0 +1,278 @@
+import { createServer } from 'net';
+import { chromium } from 'playwright';
+
+/**
+ * Shared Chromium pool for the Playwright endpoints.
+ *
+ * Each request gets a fresh browser context (its own cookies, storage and
+ * viewport) on one of at most BROWSER_POOL_SIZE browsers. Browsers close after
+ * sitting idle, are retired after a number of contexts to bound memory growth,
+ * and are replaced when they crash. Tools such as Lighthouse take a browser
+ * to themselves with acquireExclusiveBrowser(); only those browsers listen on
+ * a local DevTools port, and they never serve shared contexts.
+ */
+
+const MAX_BROWSERS = Math.max(1, Number(process.env.BROWSER_POOL_SIZE) || 2);
+const MAX_CONTEXTS_PER_BROWSER = Math.max(1, Number(process.env.BROWSER_MAX_CONTEXTS) || 4);
+const IDLE_TIMEOUT_MS = Number(process.env.BROWSER_IDLE_TIMEOUT_MS) || 60 * 1000;
+const MAX_USES_PER_BROWSER = Number(process.env.BROWSER_MAX_USES) || 100;
+const ACQUIRE_TIMEOUT_MS = Number(process.env.BROWSER_ACQUIRE_TIMEOUT_MS) || 60 * 1000;
+
+const LAUNCH_OPTIONS = {
+  headless: true,
+  args: [
+    '--disable-dev-shm-usage',
+    '--disable-setuid-sandbox',
+    '--no-sandbox',
+  ],
+};
+
+const entries = [];
+const waiters = [];
+const stats = { launches: 0, crashes: 0, retired: 0, contextsServed: 0, exclusiveLeases: 0, acquireTimeouts: 0 };
+let nextId = 1;
+
+// A port the OS reports free; Chromium binds it a moment later
+function findFreePort() {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function launch({ debuggable = false } = {}) {
+  const entry = {
+    id: nextId++,
+    browser: null,
+    ready: null,
+    active: 0,
+    uses: 0,
+    launchedAt: Date.now(),
+    lastUsedAt: Date.now(),
+    idleTimer: null,
+    closing: false,
+    exclusive: false,
+    debuggable,
+    debuggingPort: null,
+  };
+
+  const startTime = Date.now();
+  console.log(`🌐 [POOL] Launching ${debuggable ? 'debuggable ' : ''}browser #${entry.id} (${entries.length + 1}/${MAX_BROWSERS})...`);
+  const launched = debuggable
+    ? findFreePort().then((port) => {
+      entry.debuggingPort = port;
+      return chromium.launch({
+        ...LAUNCH_OPTIONS,
+        args: [...LAUNCH_OPTIONS.args, `--remote-debugging-port=${port}`],
+      });
+    })
+    : chromium.launch(LAUNCH_OPTIONS);
+  entry.ready = launched.then((browser) => {
+    entry.browser = browser;
+    stats.launches++;
+    if (entry.closing) {
+      browser.close().catch(() => {});
+      return browser;
+    }
+    console.log(`✅ [POOL] Browser #${entry.id} launched in ${Date.now() - startTime}ms`);
+
+    browser.on('disconnected', () => {
+      if (!entry.closing) {
+        stats.crashes++;
+        console.error(`💥 [POOL] Browser #${entry.id} disconnected unexpectedly, it will be replaced`);
+      }
+      remove(entry);
+    });
+    return browser;
+  });
+
+  // A failed launch frees its slot for the next attempt
+  entry.ready.catch((error) => {
+    console.error(`❌ [POOL] Browser #${entry.id} failed to launch:`, error.message);
+    remove(entry);
+  });
+
+  entries.push(entry);
+  return entry;
+}
+
+function remove(entry) {
+  clearTimeout(entry.idleTimer);
+  const index = entries.indexOf(entry);
+  if (index !== -1) {
+    entries.splice(index, 1);
+    wakeWaiters();
+  }
+}
+
+async function retire(entry, reason) {
+  if (entry.closing) return;
+  entry.closing = true;
+  remove(entry);
+  stats.retired++;
+  console.log(`🧹 [POOL] Closing browser #${entry.id} (${reason})`);
+  await entry.browser?.close().catch(() => {});
+}
+
+// Every waiter checks again: a freed slot may suit a context but not an
+// exclusive request, or the other way round
+function wakeWaiters() {
+  waiters.splice(0).forEach(wake => wake());
+}
+
+/**
+ * Reserve a context slot on the least busy browser, launching one if the
+ * pool is not full, otherwise waiting for a slot to free up. An exclusive
+ * reservation needs a debuggable browser with nothing else running and keeps
+ * others off it until released. When the pool is full, an idle browser of the
+ * other kind is closed to make room.
+ */
+async function reserveBrowser(deadline, { exclusive = false } = {}) {
+  for (;;) {
+    const available = entries
+      .filter(entry => !entry.closing && !entry.exclusive && entry.uses < MAX_USES_PER_BROWSER)
+      .filter(entry => entry.debuggable === exclusive)
+      .filter(entry => (exclusive ? entry.active === 0 : entry.active < MAX_CONTEXTS_PER_BROWSER))
+      .sort((a, b) => a.active - b.active)[0];
+
+    if (!available && entries.length >= MAX_BROWSERS) {
+      const idle = entries.find(entry => !entry.closing && entry.active === 0 && entry.debuggable !== exclusive);
+      if (idle) retire(idle, `making room for a ${exclusive ? 'debuggable' : 'shared'} browser`);
+    }
+    const entry = available || (entries.length < MAX_BROWSERS ? launch({ debuggable: exclusive }) : null);
+
+    if (entry) {
+      entry.active++;
+      entry.uses++;
+      entry.exclusive = exclusive;
+      clearTimeout(entry.idleTimer);
+      try {
+        await entry.ready;
+        return entry;
+      } catch (error) {
+        entry.active--;
+        entry.exclusive = false;
+        throw error;
+      }
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      stats.acquireTimeouts++;
+      throw new Error(`No browser available after ${ACQUIRE_TIMEOUT_MS}ms (${MAX_BROWSERS} browsers busy)`);
+    }
+    await new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        waiters.splice(waiters.indexOf(wake), 1);
+        resolve();
+      }, remaining);
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      waiters.push(wake);
+    });
+  }
+}
+
+function releaseSlot(entry) {
+  entry.active--;
+  entry.exclusive = false;
+  entry.lastUsedAt = Date.now();
+
+  // Crashed browsers have already left the pool
+  if (entry.active === 0 && !entry.closing && entries.includes(entry)) {
+    if (entry.uses >= MAX_USES_PER_BROWSER) {
+      retire(entry, `served ${entry.uses} contexts`);
+    } else {
+      entry.idleTimer = setTimeout(() => retire(entry, 'idle'), IDLE_TIMEOUT_MS);
+      entry.idleTimer.unref?.();
+    }
+  }
+  wakeWaiters();
+}
+
+/**
+ * Get a fresh browser context from the pool. Always call release() when done;
+ * it closes the context and hands the slot to the next request.
+ */
+export async function acquireContext(contextOptions = {}) {
+  const entry = await reserveBrowser(Date.now() + ACQUIRE_TIMEOUT_MS);
+
+  let context;
+  try {
+    context = await entry.browser.newContext(contextOptions);
+  } catch (error) {
+    releaseSlot(entry);
+    throw error;
+  }
+  stats.contextsServed++;
+
+  let released = false;
+  return {
+    browser: entry.browser,
+    context,
+    release: async () => {
+      if (released) return;
+      released = true;
+      await context.close().catch(() => {});
+      releaseSlot(entry);
+    },
+  };
+}
+
+/**
+ * Get a whole browser and its DevTools port, with no other context running
+ * on it. For tools that open their own pages and whose timings would suffer
+ * from a neighbour, such as Lighthouse.
+ */
+export async function acquireExclusiveBrowser() {
+  const entry = await reserveBrowser(Date.now() + ACQUIRE_TIMEOUT_MS, { exclusive: true });
+  stats.exclusiveLeases++;
+
+  let released = false;
+  return {
+    browser: entry.browser,
+    debuggingPort: entry.debuggingPort,
+    release: async () => {
+      if (released) return;
+      released = true;
+      releaseSlot(entry);
+    },
+  };
+}
+
+export function getPoolHealth() {
+  const now = Date.now();
+  const activeContexts = entries.reduce((sum, entry) => sum + entry.active, 0);
+
+  return {
+    status: entries.length >= MAX_BROWSERS && activeContexts >= MAX_BROWSERS * MAX_CONTEXTS_PER_BROWSER ? 'saturated' : 'ok',
+    browsers: entries.length,
+    maxBrowsers: MAX_BROWSERS,
+    activeContexts,
+    maxContextsPerBrowser: MAX_CONTEXTS_PER_BROWSER,
+    waiting: waiters.length,
+    idleTimeoutMs: IDLE_TIMEOUT_MS,
+    ...stats,
+    pool: entries.map(entry => ({
+      id: entry.id,
+      connected: entry.browser?.isConnected() ?? false,
+      activeContexts: entry.active,
+      exclusive: entry.exclusive,
+      debuggable: entry.debuggable,
+      uses: entry.uses,
+      ageMs: now - entry.launchedAt,
+      idleMs: entry.active === 0 ? now - entry.lastUsedAt : 0,
+    })),
+  };
+}
+
+export async function closePool() {
+  await Promise.all([...entries].map(entry => retire(entry, 'shutdown')));
+}
@@ -1,4 +1,11 @@
-import { chromium } from 'playwright';
+import { acquireContext } from './browser-pool.js';
+import { normalizeRules, describeRules, installInterception, removeBlockedElements } from './interception.js';
+import { dismissOverlays } from './consent.js';
+import { normalizeProfile, describeProfile, getEmulationContextOptions } from './emulation.js';
+import { normalizeExpansion, expandPage } from './expansion.js';
+import { serializePage } from './dom-serializer.js';
+import { trackDiagnostics, describeDiagnostics } from './diagnostics.js';
+import { createHarRecorder } from './har.js';
 
 export const config = {
   maxDuration: 300, // 5 minutes - Railway has no strict timeout
@@ -14,6 +21,102 @@ const DEFAULT_BREAKPOINTS = [
   { name: 'desktop-4k', width: 2560, height: 1440, label: 'Desktop 4K' },
 ];
 
+const LOGIN_STEP_TIMEOUT_MS = 30000;
+
+/**
+ * Browser context options for the credentials sent with a capture.
+ * Secrets stay in memory for this request and are never logged. Basic auth is
+ * only answered for the target's origin.
+ */
+export function getAuthContextOptions(auth, url) {
+  const options = {};
+  if (auth?.basic?.username) {
+    options.httpCredentials = {
+      username: auth.basic.username,
+      password: auth.basic.password || '',
+      origin: new URL(url).origin,
+    };
+  }
+  return options;
+}
+
+/**
+ * Add the capture's custom headers to requests for the target's origin.
+ * Context-wide extraHTTPHeaders would hand them to every CDN, analytics and
+ * ad host the page loads. Register after other routes so this runs first
+ * and falls back to them.
+ */
+export async function installAuthHeaders(context, auth, url) {
+  const headers = auth?.headers;
+  if (!headers || Object.keys(headers).length === 0) return;
+
+  const origin = new URL(url).origin;
+  await context.route('**/*', (route) => {
+    const request = route.request();
+    if (new URL(request.url()).origin !== origin) {
+      return route.fallback();
+    }
+    return route.fallback({ headers: { ...request.headers(), ...headers } });
+  });
+}
+
+function describeAuth(auth) {
+  if (!auth) return 'none';
+  const methods = [];
+  if (auth.basic?.username) methods.push('basic');
+  if (auth.headers && Object.keys(auth.headers).length > 0) methods.push(`${Object.keys(auth.headers).length} header(s)`);
+  if (auth.cookies?.length) methods.push(`${auth.cookies.length} cookie(s)`);
+  if (auth.loginSteps?.length) methods.push(`${auth.loginSteps.length} login step(s)`);
+  return methods.join(', ') || 'none';
+}
+
+/**
+ * Run a declarative login script (goto, fill, click, press, wait). The page
+ * starts on the target URL unless the script navigates first, so password
+ * gates on the page itself work without a goto step.
+ */
+async function runLoginSteps(page, steps, url) {
+  if (steps[0]?.action !== 'goto') {
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+  }
+
+  for (const [index, step] of steps.entries()) {
+    const label = `Login step ${index + 1} (${step.action}${step.selector ? ` ${step.selector}` : ''})`;
+    console.log(`🔑 [LOGIN] ${label}`);
+
+    try {
+      switch (step.action) {
+        case 'goto':
+          await page.goto(new URL(step.value, page.url() === 'about:blank' ? url : page.url()).href, { waitUntil: 'domcontentloaded', timeout: 60000 });
+          break;
+        case 'fill':
+          await page.fill(step.selector, step.value || '', { timeout: LOGIN_STEP_TIMEOUT_MS });
+          break;
+        case 'click':
+          await page.click(step.selector, { timeout: LOGIN_STEP_TIMEOUT_MS });
+          break;
+        case 'press':
+          await page.press(step.selector, step.value, { timeout: LOGIN_STEP_TIMEOUT_MS });
+          break;
+        case 'wait':
+          if (step.selector) {
+            await page.waitForSelector(step.selector, { timeout: step.timeoutMs || LOGIN_STEP_TIMEOUT_MS });
+          } else {
+            await page.waitForLoadState('networkidle', { timeout: LOGIN_STEP_TIMEOUT_MS }).catch(() => {});
+            await page.waitForTimeout(Math.min(step.timeoutMs || 1000, LOGIN_STEP_TIMEOUT_MS));
+          }
+          break;
+        default:
+          throw new Error(`unknown action "${step.action}"`);
+      }
+    } catch (error) {
+      throw new Error(`${label} failed: ${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'}`);
+    }
+  }
+
+  console.log(`✅ [LOGIN] Login script finished on ${page.url()}`);
+}
+
 export default async function handler(req, res) {
   // Only allow POST requests
   if (req.method !== 'POST') {
@@ -30,46 +133,74 @@ export default async function handler(req, res) {
     extractStyles = true,
     takeScreenshot = false,
     fullPage = false,
-    breakpoints = DEFAULT_BREAKPOINTS
+    breakpoints = DEFAULT_BREAKPOINTS,
+    auth = null,
+    interception: interceptionRules = null,
+    dismissPopups = true,
+    emulation: emulationProfile = null,
+    expansion: expansionOptions = null,
+    shadowDom = 'declarative',
+    captureFrames = true,
+    recordHar = true
   } = req.body;
 
   if (!url) {
     return res.status(400).json({ error: 'URL is required' });
   }
 
-  let browser;
+  let lease;
+  let har;
 
   try {
     console.log('🚀 [CAPTURE] Starting capture for:', url);
     console.log('⚙️  [CAPTURE] Options:', { responsive, interactive, animations, styleAnalysis, navigation, extractStyles, takeScreenshot, fullPage });
-
-    const startTime = Date.now();
-    console.log('🌐 [BROWSER] Launching Chromium browser...');
-
-    // Launch full Chromium with Playwright (Railway supports this!)
-    browser = await chromium.launch({
-      headless: true,
-      args: [
-        '--disable-dev-shm-usage',
-        '--disable-setuid-sandbox',
-        '--no-sandbox',
-      ],
-    });
-    console.log(`✅ [BROWSER] Browser launched in ${Date.now() - startTime}ms`);
+    console.log('🔐 [CAPTURE] Authentication:', describeAuth(auth));
+    const rules = normalizeRules(interceptionRules);
+    console.log('🚧 [CAPTURE] Interception:', describeRules(rules));
+
+    let emulation;
+    try {
+      emulation = normalizeProfile(emulationProfile);
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.log('🎭 [CAPTURE] Emulation:', describeProfile(emulation));
 
     const contextStart = Date.now();
-    console.log('📱 [BROWSER] Creating browser context...');
-    const context = await browser.newContext({
-      viewport: { width: 1920, height: 1080 },
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    console.log('📱 [BROWSER] Creating browser context from the pool...');
+    har = recordHar ? await createHarRecorder() : null;
+    lease = await acquireContext({
+      ...getAuthContextOptions(auth, url),
+      ...getEmulationContextOptions(emulation),
+      ...(har ? har.contextOptions : {}),
     });
+    const { context } = lease;
+    if (auth?.cookies?.length) {
+      await context.addCookies(auth.cookies.map(cookie => ({ ...cookie, path: cookie.path || '/' })));
+    }
     console.log(`✅ [BROWSER] Context created in ${Date.now() - contextStart}ms`);
 
+    // Routes apply to every page of the context, including the login steps
+    const interception = rules ? await installInterception(context, rules) : null;
+    await installAuthHeaders(context, auth, url);
+
     const pageStart = Date.now();
     console.log('📄 [BROWSER] Creating new page...');
     const page = await context.newPage();
     console.log(`✅ [BROWSER] Page created in ${Date.now() - pageStart}ms`);
 
+    // Log in before resource tracking so the login page's requests are not captured
+    if (auth?.loginSteps?.length) {
+      await runLoginSteps(page, auth.loginSteps, url);
+    }
+
+    if (har) {
+      await har.attach(page);
+    }
+
+    // Console output, page errors and failed requests explain clones that render wrong
+    const diagnostics = trackDiagnostics(page, { isBlocked: interception ? interception.isBlocked : undefined });
+
     // Track resources
     const resources = {
       images: [],
@@ -105,6 +236,14 @@ export default async function handler(req, res) {
     await page.waitForTimeout(2000);
     console.log(`✅ [WAIT] Wait completed in ${Date.now() - waitStart}ms`);
 
+    // Cookie banners and modals would otherwise end up in the HTML and screenshots
+    const dismissal = dismissPopups
+      ? await dismissOverlays(page).catch((error) => {
+        console.warn('⚠️  [DISMISS] Overlay dismissal failed:', error.message);
+        return null;
+      })
+      : null;
+
     console.log('🖼️  [IMAGES] Waiting for images to fully load...');
     const imgStart = Date.now();
     const imgResult = await page.evaluate(() => {
@@ -146,32 +285,26 @@ export default async function handler(req, res) {
     });
     console.log(`✅ [IMAGES] ${imgResult.total} total images (${imgResult.incomplete} were incomplete) - completed in ${Date.now() - imgStart}ms`);
 
-    console.log('📜 [SCROLL] Scrolling to trigger lazy loading...');
-    const scrollStart = Date.now();
-    await page.evaluate(async () => {
-      await new Promise((resolve) => {
-        let totalHeight = 0;
-        const distance = 100;
-        const timer = setInterval(() => {
-          const scrollHeight = document.body.scrollHeight;
-          window.scrollBy(0, distance);
-          totalHeight += distance;
-
-          if (totalHeight >= scrollHeight) {
-            clearInterval(timer);
-            resolve();
-          }
-        }, 100);
-      });
-    });
-    console.log(`✅ [SCROLL] Scrolling completed in ${Date.now() - scrollStart}ms`);
+    // Scroll, click "load more" and swap lazy placeholders so the DOM is complete
+    const expansionSettings = normalizeExpansion(expansionOptions);
+    const expansion = expansionSettings
+      ? await expandPage(page, expansionSettings).catch((error) => {
+        console.warn('⚠️  [EXPAND] Page expansion failed:', error.message);
+        return null;
+      })
+      : null;
+    if (expansion) {
+      console.log(`✅ [EXPAND] Page grew from ${expansion.initialHeight}px to ${expansion.finalHeight}px in ${expansion.durationMs}ms`);
+    }
 
-    console.log('⬆️  [SCROLL] Scrolling back to top...');
-    await page.evaluate(() => window.scrollTo(0, 0));
+    if (interception) {
+      const removed = await removeBlockedElements(page, interception);
+      console.log(`🚧 [INTERCEPT] Removed ${removed} elements pointing at blocked URLs`);
+    }
 
     console.log('📝 [EXTRACT] Extracting HTML...');
     const htmlStart = Date.now();
-    const html = await page.evaluate(() => {
+    await page.evaluate(() => {
       // Convert all SVGs to inline to preserve them
       document.querySelectorAll('svg').forEach(svg => {
         svg.setAttribute('data-svg-preserved', 'true');
@@ -213,10 +346,19 @@ export default async function handler(req, res) {
           el.setAttribute('data-detected-menu-icon', 'true');
         });
       });
+    });
 
-      return document.documentElement.outerHTML;
+    // Shadow roots and same-origin frames are lost in outerHTML
+    const serialized = await serializePage(page, { shadowDom, frames: captureFrames }).catch(async (error) => {
+      console.warn('⚠️  [EXTRACT] Shadow DOM and frame serialization failed, using outerHTML:', error.message);
+      return { html: await page.evaluate(() => document.documentElement.outerHTML), frames: [], report: null };
     });
+    const html = serialized.html;
     console.log(`✅ [EXTRACT] HTML extracted (${(html.length / 1024).toFixed(2)} KB) in ${Date.now() - htmlStart}ms`);
+    if (serialized.report) {
+      const { shadowRoots, framePages, inlinedFrames } = serialized.report;
+      console.log(`🧩 [EXTRACT] ${shadowRoots} shadow roots (${serialized.report.shadowDom}), ${framePages} frame pages, ${inlinedFrames} inlined frames`);
+    }
 
     console.log('🎨 [EXTRACT] Extracting CSS styles...');
     const cssStart = Date.now();
@@ -1312,7 +1454,32 @@ export default async function handler(req, res) {
       console.log(`📊 By type:`, navigationData.byType);
     }
 
-    await browser.close();
+    const diagnosticsReport = diagnostics.getReport();
+    console.log(`🩺 [DIAGNOSTICS] ${describeDiagnostics(diagnosticsReport)}`);
+
+    if (har) {
+      await har.collectPageTimings(page);
+    }
+
+    // Closing the context is what writes the HAR file
+    await lease.release();
+
+    let harLog = null;
+    if (har) {
+      harLog = await har.read({ redact: Object.keys(auth?.headers || {}) }).catch((error) => {
+        console.warn('⚠️  [HAR] Could not read the recording:', error.message);
+        return null;
+      });
+      await har.cleanup();
+      if (harLog) console.log(`🌊 [HAR] Recorded ${harLog.entries.length} requests`);
+    }
+
+    if (interception) {
+      // Blocked requests were still announced to the resource tracker
+      for (const type of Object.keys(resources)) {
+        resources[type] = resources[type].filter(resourceUrl => !interception.isBlocked(resourceUrl));
+      }
+    }
 
     const response = {
       url,
@@ -1326,6 +1493,14 @@ export default async function handler(req, res) {
       elements: elements || [],
       meta: pageMeta || {},
       screenshot: screenshot || null,
+      interception: interception ? interception.getReport() : null,
+      dismissed: dismissal ? dismissal.dismissed : null,
+      emulation,
+      expansion,
+      frames: serialized.frames,
+      serialization: serialized.report,
+      diagnostics: diagnosticsReport,
+      har: harLog,
     };
 
     // Add responsive data if captured
@@ -1367,10 +1542,13 @@ export default async function handler(req, res) {
     console.error('============================');
     console.error('');
 
-    if (browser) {
-      console.log('🧹 Closing browser...');
-      await browser.close();
-      console.log('✅ Browser closed');
+    if (lease) {
+      console.log('🧹 Closing browser context...');
+      await lease.release();
+      console.log('✅ Browser context closed');
+    }
+    if (har) {
+      await har.cleanup();
     }
 
     return res.status(500).json({
@@ -0,0 +1,143 @@
+import { JSDOM } from 'jsdom';
+
+/**
+ * Clone worker process, forked by api/jobs.js for one job at a time.
+ *
+ * CloneService is browser code, so this installs the few browser globals it
+ * relies on (DOM, storage, FileReader) before loading the SSR build of
+ * src/server/cloneRunner.ts. Relative URLs such as /api/capture and
+ * /api/assets are sent to this app server.
+ */
+
+const APP_ORIGIN = process.env.CLONE_WORKER_APP_URL || `http://127.0.0.1:${process.env.PORT || 3000}`;
+const RUNNER_PATH = process.env.CLONE_RUNNER_PATH || '../dist-ssr/cloneRunner.js';
+
+class MemoryStorage {
+  #items = new Map();
+
+  get length() {
+    return this.#items.size;
+  }
+
+  key(index) {
+    return [...this.#items.keys()][index] ?? null;
+  }
+
+  getItem(key) {
+    return this.#items.has(key) ? this.#items.get(key) : null;
+  }
+
+  setItem(key, value) {
+    this.#items.set(key, String(value));
+  }
+
+  removeItem(key) {
+    this.#items.delete(key);
+  }
+
+  clear() {
+    this.#items.clear();
+  }
+}
+
+// jsdom's FileReader only reads jsdom Blobs, not the ones fetch() returns
+class BlobReader {
+  result = null;
+  error = null;
+  onload = null;
+  onloadend = null;
+  onerror = null;
+
+  readAsDataURL(blob) {
+    this.#read(blob, async () => {
+      const base64 = Buffer.from(await blob.arrayBuffer()).toString('base64');
+      return `data:${blob.type || 'application/octet-stream'};base64,${base64}`;
+    });
+  }
+
+  readAsText(blob) {
+    this.#read(blob, () => blob.text());
+  }
+
+  readAsArrayBuffer(blob) {
+    this.#read(blob, () => blob.arrayBuffer());
+  }
+
+  #read(blob, read) {
+    read().then(
+      (result) => {
+        this.result = result;
+        this.onload?.({ target: this });
+        this.onloadend?.({ target: this });
+      },
+      (error) => {
+        this.error = error;
+        this.onerror?.(error);
+        this.onloadend?.({ target: this });
+      }
+    );
+  }
+}
+
+function installBrowserGlobals() {
+  const { window } = new JSDOM('<!DOCTYPE html><html><head></head><body></body></html>', { url: APP_ORIGIN });
+  const define = (name, value) => Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+
+  define('window', window);
+  define('document', window.document);
+  define('navigator', window.navigator);
+  define('location', window.location);
+  define('DOMParser', window.DOMParser);
+  define('Node', window.Node);
+  define('Element', window.Element);
+  define('HTMLElement', window.HTMLElement);
+  define('getComputedStyle', window.getComputedStyle.bind(window));
+  define('localStorage', new MemoryStorage());
+  define('sessionStorage', new MemoryStorage());
+  define('FileReader', BlobReader);
+
+  const nodeFetch = globalThis.fetch;
+  define('fetch', (input, init) => {
+    const url = typeof input === 'string' && input.startsWith('/') ? new URL(input, APP_ORIGIN).href : input;
+    return nodeFetch(url, init);
+  });
+}
+
+let controller = null;
+
+function send(message) {
+  if (process.connected) process.send(message);
+}
+
+async function run(request) {
+  controller = new AbortController();
+  installBrowserGlobals();
+
+  const { runCloneJob } = await import(RUNNER_PATH);
+  const project = await runCloneJob(request, {
+    signal: controller.signal,
+    onProgress: (progress, step) => send({ type: 'progress', progress, step }),
+  });
+
+  send({
+    type: 'done',
+    status: project.status,
+    progress: project.progress,
+    step: project.currentStep,
+  });
+}
+
+process.on('message', (message) => {
+  if (message?.type === 'run') {
+    run(message.request)
+      .catch((error) => send({ type: 'error', message: error?.message || 'Clone worker failed' }))
+      .finally(() => setTimeout(() => process.exit(0), 100));
+  } else if (message?.type === 'cancel') {
+    controller?.abort();
+  }
+});
+
+process.on('disconnect', () => {
+  controller?.abort();
+  process.exit(0);
+});
@@ -0,0 +1,269 @@
+/**
+ * Consent banner and popup dismissal for captures.
+ *
+ * Known consent management platforms are answered with their reject (or
+ * close) button, in the page and in its frames; other cookie banners and
+ * newsletter or promo modals are closed by their buttons; whatever still
+ * covers the page afterwards is removed from the DOM. Every step is
+ * reported so the capture result shows what was dismissed.
+ */
+
+const CLICK_TIMEOUT_MS = 2000;
+const SETTLE_MS = 500;
+
+// Reject first, close as a fallback; accepting is never clicked
+const CONSENT_PLATFORMS = [
+  {
+    name: 'OneTrust',
+    detect: '#onetrust-banner-sdk, #onetrust-consent-sdk',
+    reject: ['#onetrust-reject-all-handler', '.ot-pc-refuse-all-handler'],
+    close: ['#onetrust-close-btn-container button', '.onetrust-close-btn-handler'],
+  },
+  {
+    name: 'Cookiebot',
+    detect: '#CybotCookiebotDialog',
+    reject: ['#CybotCookiebotDialogBodyButtonDecline', '#CybotCookiebotDialogBodyLevelButtonLevelOptinDeclineAll'],
+    close: ['#CybotCookiebotDialogBodyButtonClose'],
+  },
+  {
+    name: 'Complianz',
+    detect: '#cmplz-cookiebanner-container, .cmplz-cookiebanner',
+    reject: ['.cmplz-btn.cmplz-deny', '.cmplz-deny'],
+    close: ['.cmplz-close'],
+  },
+  {
+    name: 'CookieYes',
+    detect: '.cky-consent-container, #cookie-law-info-bar',
+    reject: ['.cky-btn-reject', '#cookie_action_close_header_reject'],
+    close: ['.cky-banner-btn-close', '#cookie_action_close_header'],
+  },
+  {
+    name: 'Usercentrics',
+    detect: '#usercentrics-root, #usercentrics-cmp-ui',
+    reject: ['[data-testid="uc-deny-all-button"]', '#deny'],
+    close: ['[data-testid="uc-close-button"]'],
+  },
+  {
+    name: 'Didomi',
+    detect: '#didomi-host, #didomi-notice',
+    reject: ['#didomi-notice-disagree-button', '.didomi-continue-without-agreeing'],
+    close: ['.didomi-popup-close'],
+  },
+  {
+    name: 'Quantcast Choice',
+    detect: '#qc-cmp2-container, .qc-cmp2-summary-buttons',
+    reject: ['.qc-cmp2-summary-buttons button[mode="secondary"]', 'button[aria-label="DISAGREE"]'],
+    close: ['.qc-cmp2-close-icon'],
+  },
+  {
+    name: 'TrustArc',
+    detect: '#truste-consent-track, #consent_blackbar, .truste_overlay',
+    reject: ['#truste-consent-required', '.call[aria-label*="Decline" i]'],
+    close: ['#truste-consent-close', '.truste-close-button'],
+  },
+  {
+    name: 'Osano',
+    detect: '.osano-cm-window, .osano-cm-dialog',
+    reject: ['.osano-cm-denyAll', '.osano-cm-button--type_denyAll'],
+    close: ['.osano-cm-dialog__close'],
+  },
+  {
+    name: 'Iubenda',
+    detect: '#iubenda-cs-banner',
+    reject: ['.iubenda-cs-reject-btn'],
+    close: ['.iubenda-cs-close-btn'],
+  },
+  {
+    name: 'Termly',
+    detect: '[data-tid="banner-root"], #termly-code-snippet-support',
+    reject: ['[data-tid="banner-decline"]'],
+    close: ['[data-tid="banner-close"]'],
+  },
+  {
+    name: 'Cookie Notice',
+    detect: '#cookie-notice',
+    reject: ['#cn-refuse-cookie'],
+    close: ['#cn-close-notice'],
+  },
+  {
+    name: 'Borlabs Cookie',
+    detect: '#BorlabsCookieBox, #BorlabsCookieWidget',
+    reject: ['[data-cookie-refuse]', 'a._brlbs-refuse-btn'],
+    close: [],
+  },
+  {
+    name: 'Klaro',
+    detect: '.klaro .cookie-notice, .klaro .cookie-modal',
+    reject: ['.klaro .cm-btn-decline', '.klaro .cn-decline'],
+    close: ['.klaro .hide'],
+  },
+  {
+    name: 'Sourcepoint',
+    detect: '[id^="sp_message_container"], .message-container',
+    reject: ['button[title*="Reject" i]', 'button.sp_choice_type_13'],
+    close: ['button.sp_choice_type_12', 'button[aria-label*="close" i]'],
+  },
+];
+
+const CONSENT_CONTAINERS = [
+  '[id*="cookie" i]', '[class*="cookie" i]',
+  '[id*="consent" i]', '[class*="consent" i]',
+  '[id*="gdpr" i]', '[class*="gdpr" i]',
+  '[aria-label*="cookie" i]', '[aria-label*="consent" i]',
+].join(', ');
+const REJECT_TEXT = /^\s*(reject( all)?|decline( all)?|deny( all)?|refuse( all)?|(use |accept )?(only )?(strictly )?necessary( cookies)?( only)?|continue without accepting|ablehnen|alle ablehnen|refuser|tout refuser|rechazar|rifiuta)\s*$/i;
+
+const POPUP_CONTAINER_LIST = [
+  '[role="dialog"]', '[aria-modal="true"]', '.modal.show', '.modal.in', '.modal.is-open',
+  '[class*="popup" i]', '[class*="newsletter" i]', '[class*="modal" i][class*="open" i]',
+  '[id*="popup" i]', '[id*="newsletter" i]', '.klaviyo-form',
+];
+const POPUP_CONTAINERS = POPUP_CONTAINER_LIST.join(', ');
+const CLOSE_BUTTONS = [
+  '[aria-label*="close" i]', '[aria-label*="dismiss" i]', '[title*="close" i]',
+  '[class*="close" i]', '[data-dismiss="modal"]', '[data-bs-dismiss="modal"]',
+].join(', ');
+const CLOSE_TEXT = /^\s*(×|✕|x|close|no,? thanks?|not now|maybe later|skip|dismiss)\s*$/i;
+
+async function clickFirstVisible(frame, selectors) {
+  for (const selector of selectors) {
+    try {
+      const button = frame.locator(selector).first();
+      if (await button.isVisible()) {
+        await button.click({ timeout: CLICK_TIMEOUT_MS });
+        return selector;
+      }
+    } catch {
+      // Detached or covered; try the next selector
+    }
+  }
+  return null;
+}
+
+async function clickByText(frame, container, buttonText) {
+  try {
+    const button = frame.locator(container)
+      .locator('button, a, [role="button"], input[type="button"], input[type="submit"]')
+      .filter({ hasText: buttonText })
+      .first();
+    if (await button.isVisible()) {
+      const label = (await button.innerText().catch(() => '')).trim().slice(0, 40);
+      await button.click({ timeout: CLICK_TIMEOUT_MS });
+      return label;
+    }
+  } catch {
+    // Nothing clickable matched
+  }
+  return null;
+}
+
+async function dismissKnownPlatforms(page, dismissed) {
+  for (const frame of page.frames()) {
+    for (const platform of CONSENT_PLATFORMS) {
+      const present = await frame.locator(platform.detect).first().count().catch(() => 0);
+      if (!present) continue;
+
+      const rejected = await clickFirstVisible(frame, platform.reject);
+      const closed = rejected ? null : await clickFirstVisible(frame, platform.close);
+      if (rejected || closed) {
+        dismissed.push({
+          kind: 'consent',
+          provider: platform.name,
+          action: rejected ? 'reject' : 'close',
+          selector: rejected || closed,
+          frame: frame === page.mainFrame() ? undefined : frame.url(),
+        });
+      }
+    }
+  }
+}
+
+async function dismissGenericBanners(page, dismissed) {
+  const rejected = await clickByText(page, CONSENT_CONTAINERS, REJECT_TEXT);
+  if (rejected) {
+    dismissed.push({ kind: 'consent', action: 'reject', selector: `button "${rejected}"` });
+  }
+
+  const closed = await clickByText(page, POPUP_CONTAINERS, CLOSE_TEXT) ||
+    await clickFirstVisible(page, POPUP_CONTAINER_LIST.map(container => `${container} :is(${CLOSE_BUTTONS})`));
+  if (closed) {
+    dismissed.push({ kind: 'popup', action: 'close', selector: closed });
+  } else if (await page.locator(POPUP_CONTAINERS).first().isVisible().catch(() => false)) {
+    // Many modals close on Escape even without a labelled button
+    await page.keyboard.press('Escape').catch(() => {});
+    dismissed.push({ kind: 'popup', action: 'escape' });
+  }
+}
+
+/**
+ * Remove what still covers the page: consent and popup containers, and
+ * fixed full-screen backdrops. Headers and sticky navigation stay.
+ */
+async function removeLeftoverOverlays(page) {
+  return page.evaluate(({ consentContainers, popupContainers }) => {
+    const removed = [];
+    const viewportArea = window.innerWidth * window.innerHeight;
+    const describe = (element) => {
+      const id = element.id ? `#${element.id}` : '';
+      const className = typeof element.className === 'string' && element.className.trim()
+        ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+        : '';
+      return `${element.tagName.toLowerCase()}${id}${className}`;
+    };
+
+    const isOverlay = (element) => {
+      if (element.matches('header, nav, [role="banner"], [role="navigation"]') || element.querySelector('nav')) return false;
+      const style = window.getComputedStyle(element);
+      if (style.display === 'none' || style.visibility === 'hidden' || Number(style.opacity) === 0) return false;
+      if (style.position !== 'fixed' && style.position !== 'sticky') return false;
+
+      const rect = element.getBoundingClientRect();
+      const coverage = (Math.max(0, rect.width) * Math.max(0, rect.height)) / viewportArea;
+      const isKnown = element.matches(consentContainers) || element.matches(popupContainers) ||
+        /backdrop|overlay|modal|popup|lightbox/i.test(`${element.id} ${element.className}`);
+      // Unlabelled full-screen layers only count when empty, so fixed app shells stay
+      return (isKnown && coverage > 0.02) || (coverage > 0.9 && !element.innerText?.trim());
+    };
+
+    document.querySelectorAll('body *').forEach((element) => {
+      if (!element.isConnected || !isOverlay(element)) return;
+      removed.push(describe(element));
+      element.remove();
+    });
+
+    // Modals lock scrolling; unlock it so full-page screenshots and lazy loading work
+    for (const root of [document.documentElement, document.body]) {
+      if (window.getComputedStyle(root).overflow === 'hidden') {
+        root.style.setProperty('overflow', 'auto', 'important');
+      }
+      root.classList.remove('modal-open', 'no-scroll', 'noscroll', 'overflow-hidden');
+    }
+
+    return removed;
+  }, { consentContainers: CONSENT_CONTAINERS, popupContainers: POPUP_CONTAINERS });
+}
+
+/**
+ * Dismiss consent banners and popups on a loaded page
+ */
+export async function dismissOverlays(page, { removeLeftovers = true } = {}) {
+  const startTime = Date.now();
+  const dismissed = [];
+
+  await dismissKnownPlatforms(page, dismissed);
+  await dismissGenericBanners(page, dismissed);
+
+  if (dismissed.length > 0) {
+    // Some platforms reload the page after a choice is made
+    await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+    await page.waitForTimeout(SETTLE_MS);
+  }
+
+  const removedOverlays = removeLeftovers ? await removeLeftoverOverlays(page).catch(() => []) : [];
+  for (const element of removedOverlays) {
+    dismissed.push({ kind: 'overlay', action: 'remove', selector: element });
+  }
+
+  console.log(`🍪 [DISMISS] ${dismissed.length} overlays handled in ${Date.now() - startTime}ms`);
+  return { dismissed, durationMs: Date.now() - startTime };
+}
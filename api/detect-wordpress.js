@@ -1,4 +1,4 @@
-import { chromium } from 'playwright';
+import { acquireContext } from './browser-pool.js';
 
 export const config = {
   maxDuration: 60, // 1 minute timeout
@@ -15,24 +15,16 @@ export default async function handler(req, res) {
     return res.status(400).json({ error: 'URL is required' });
   }
 
-  let browser;
+  let lease;
 
   try {
     console.log('[WordPress] Detecting WordPress at:', url);
 
-    browser = await chromium.launch({
-      headless: true,
-      args: [
-        '--disable-dev-shm-usage',
-        '--disable-setuid-sandbox',
-        '--no-sandbox',
-      ],
-    });
-
-    const context = await browser.newContext({
+    lease = await acquireContext({
       viewport: { width: 1920, height: 1080 },
       userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
     });
+    const { context } = lease;
 
     const page = await context.newPage();
 
@@ -86,7 +78,7 @@ export default async function handler(req, res) {
       };
     });
 
-    await browser.close();
+    await lease.release();
 
     console.log('[WordPress] Detection complete:', wpInfo.isWordPress ? 'Yes' : 'No');
     if (wpInfo.isWordPress) {
@@ -98,8 +90,8 @@ export default async function handler(req, res) {
   } catch (error) {
     console.error('[WordPress] Detection error:', error);
 
-    if (browser) {
-      await browser.close();
+    if (lease) {
+      await lease.release();
     }
 
     return res.status(500).json({
@@ -0,0 +1,98 @@
+/**
+ * Diagnostics for a capture: console warnings and errors, uncaught page
+ * errors, Content Security Policy violations, failed requests and the HTTP
+ * status codes the page received. Explains a clone that renders wrong
+ * without opening the source page by hand.
+ */
+
+const MAX_ENTRIES = 100;
+const MAX_TEXT_LENGTH = 500;
+const CONSOLE_TYPES = ['error', 'warning', 'assert'];
+const CSP_MESSAGE = /Content Security Policy|Content-Security-Policy/i;
+
+const truncate = text => (text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text);
+
+/**
+ * Listen to a page until getReport() is called. Requests aborted by the
+ * capture's own interception rules are not failures and are left out.
+ */
+export function trackDiagnostics(page, { isBlocked = () => false } = {}) {
+  const report = {
+    console: [],
+    pageErrors: [],
+    cspViolations: [],
+    failedRequests: [],
+    statusCodes: {},
+    totalRequests: 0,
+    truncated: false,
+  };
+
+  const push = (list, entry) => {
+    if (list.length < MAX_ENTRIES) {
+      list.push(entry);
+    } else {
+      report.truncated = true;
+    }
+  };
+
+  page.on('console', (message) => {
+    const text = message.text();
+    if (CSP_MESSAGE.test(text)) {
+      push(report.cspViolations, truncate(text));
+      return;
+    }
+    if (!CONSOLE_TYPES.includes(message.type())) return;
+
+    const location = message.location();
+    push(report.console, {
+      type: message.type() === 'assert' ? 'error' : message.type(),
+      text: truncate(text),
+      source: location?.url ? `${location.url}:${location.lineNumber + 1}` : undefined,
+    });
+  });
+
+  page.on('pageerror', (error) => {
+    push(report.pageErrors, {
+      message: truncate(error.message),
+      stack: error.stack ? error.stack.split('\n').slice(1, 4).map(line => line.trim()).join('\n') : undefined,
+    });
+  });
+
+  page.on('request', () => {
+    report.totalRequests++;
+  });
+
+  page.on('requestfailed', (request) => {
+    if (isBlocked(request.url())) return;
+    push(report.failedRequests, {
+      url: request.url(),
+      resourceType: request.resourceType(),
+      method: request.method(),
+      error: request.failure()?.errorText || 'Request failed',
+    });
+  });
+
+  page.on('response', (response) => {
+    const status = response.status();
+    report.statusCodes[status] = (report.statusCodes[status] || 0) + 1;
+    if (status < 400) return;
+
+    const request = response.request();
+    push(report.failedRequests, {
+      url: response.url(),
+      resourceType: request.resourceType(),
+      method: request.method(),
+      status,
+      error: response.statusText() || `HTTP ${status}`,
+    });
+  });
+
+  return {
+    getReport: () => ({ ...report, statusCodes: { ...report.statusCodes } }),
+  };
+}
+
+export function describeDiagnostics(report) {
+  return `${report.pageErrors.length} page errors, ${report.console.filter(entry => entry.type === 'error').length} console errors, ` +
+    `${report.failedRequests.length} failed requests, ${report.cspViolations.length} CSP violations`;
+}
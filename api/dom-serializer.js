@@ -0,0 +1,213 @@
+/**
+ * HTML serialization for captures that keeps what outerHTML drops: open
+ * shadow roots (as declarative shadow DOM, or flattened into the light DOM
+ * with their styles scoped to the host), adopted stylesheets, and the
+ * documents of same-origin iframes. Closed shadow roots cannot be read.
+ */
+
+const SHADOW_DOM_MODES = ['declarative', 'flatten', 'off'];
+const MAX_FRAMES = 10;
+
+/**
+ * Runs in the page. Kept self-contained because Playwright only sends the
+ * function's source to the browser.
+ */
+function serializeInPage({ mode, frameSources }) {
+  const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+  const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript']);
+  const stats = { shadowRoots: 0, adoptedStyleSheets: 0 };
+  let nextHostId = 0;
+
+  const escapeText = text => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\u00a0/g, '&nbsp;');
+  const escapeAttribute = value => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/\u00a0/g, '&nbsp;');
+  const isInShadow = element => element.getRootNode() instanceof ShadowRoot;
+  const isStylesheetLink = element => element.localName === 'link' && /\bstylesheet\b/i.test(element.getAttribute('rel') || '');
+
+  const readRules = (sheet) => {
+    try {
+      return Array.from(sheet.cssRules);
+    } catch {
+      // Cross-origin sheet
+      return [];
+    }
+  };
+
+  const adoptedStyles = (root) => (root.adoptedStyleSheets || []).map((sheet) => {
+    stats.adoptedStyleSheets++;
+    return `<style data-adopted-stylesheet>${readRules(sheet).map(rule => rule.cssText).join('\n')}</style>`;
+  }).join('');
+
+  // Rewrite shadow-scoped selectors so they only match inside the flattened host
+  const scopeSelector = (selectorText, host) => selectorText.split(',').map((part) => {
+    const selector = part.trim().replace(/::slotted\(([^)]*)\)/g, '$1');
+    if (!selector.includes(':host')) return `${host} ${selector}`;
+    return selector
+      .replace(/:host-context\(([^)]*)\)/g, `$1 ${host}`)
+      .replace(/:host\(([^)]*)\)/g, `${host}$1`)
+      .replace(/:host\b/g, host);
+  }).join(', ');
+
+  const scopeRules = (rules, host) => rules.map((rule) => {
+    if (rule instanceof CSSStyleRule) return `${scopeSelector(rule.selectorText, host)} { ${rule.style.cssText} }`;
+    if (rule instanceof CSSMediaRule) return `@media ${rule.conditionText} { ${scopeRules(Array.from(rule.cssRules), host)} }`;
+    if (rule instanceof CSSSupportsRule) return `@supports ${rule.conditionText} { ${scopeRules(Array.from(rule.cssRules), host)} }`;
+    return rule.cssText; // @keyframes, @font-face and friends are global anyway
+  }).join('\n');
+
+  const shadowSheets = (root) => [
+    ...Array.from(root.querySelectorAll('style, link[rel~="stylesheet" i]')).map(element => element.sheet).filter(Boolean),
+    ...(root.adoptedStyleSheets || []),
+  ];
+
+  const serializeChildren = parent => Array.from(parent.childNodes).map(serialize).join('');
+
+  function serializeAttributes(element) {
+    const frameSource = frameSources[element.getAttribute('data-capture-frame-id')];
+    const attributes = Array.from(element.attributes)
+      .filter(attribute => attribute.name !== 'data-capture-frame-id')
+      .filter(attribute => !frameSource || (attribute.name !== 'src' && attribute.name !== 'srcdoc'))
+      .map(attribute => ` ${attribute.name}="${escapeAttribute(attribute.value)}"`);
+
+    // Captured frames point at their page in the clone, or carry their document inline
+    if (frameSource?.src) attributes.push(` src="${escapeAttribute(frameSource.src)}"`);
+    if (frameSource?.srcdoc) attributes.push(` srcdoc="${escapeAttribute(frameSource.srcdoc)}"`);
+    return attributes.join('');
+  }
+
+  function serializeElement(element) {
+    const tag = element.localName;
+
+    if (mode === 'flatten' && isInShadow(element)) {
+      // Slots are replaced by what was slotted into them (or their fallback content)
+      if (tag === 'slot') return element.assignedNodes({ flatten: true }).map(serialize).join('');
+      // Shadow styles are emitted once, scoped, at the top of the host
+      if (tag === 'style' || isStylesheetLink(element)) return '';
+    }
+
+    let attributes = serializeAttributes(element);
+    const root = mode !== 'off' ? element.shadowRoot : null;
+    let content;
+
+    if (tag === 'template') {
+      content = serializeChildren(element.content);
+    } else if (root && mode === 'declarative') {
+      stats.shadowRoots++;
+      const delegatesFocus = root.delegatesFocus ? ' shadowrootdelegatesfocus' : '';
+      content = `<template shadowrootmode="${root.mode}"${delegatesFocus}>${adoptedStyles(root)}${serializeChildren(root)}</template>` +
+        serializeChildren(element);
+    } else if (root && mode === 'flatten') {
+      stats.shadowRoots++;
+      stats.adoptedStyleSheets += (root.adoptedStyleSheets || []).length;
+      const hostId = ++nextHostId;
+      const host = `[data-shadow-host="${hostId}"]`;
+      attributes += ` data-shadow-host="${hostId}"`;
+      const css = shadowSheets(root).map(sheet => scopeRules(readRules(sheet), host)).join('\n');
+      // Light DOM children only show up through the slots
+      content = (css ? `<style data-shadow-styles>${css}</style>` : '') + serializeChildren(root);
+    } else {
+      content = serializeChildren(element);
+    }
+
+    if (tag === 'head' && mode !== 'off') {
+      content += adoptedStyles(document);
+    }
+
+    if (VOID_ELEMENTS.has(tag)) return `<${tag}${attributes}>`;
+    return `<${tag}${attributes}>${content}</${tag}>`;
+  }
+
+  function serialize(node) {
+    switch (node.nodeType) {
+      case Node.ELEMENT_NODE:
+        return serializeElement(node);
+      case Node.TEXT_NODE:
+        return RAW_TEXT_ELEMENTS.has(node.parentNode?.localName) ? node.data : escapeText(node.data);
+      case Node.COMMENT_NODE:
+        return `<!--${node.data}-->`;
+      default:
+        return '';
+    }
+  }
+
+  return { html: serialize(document.documentElement), ...stats };
+}
+
+function isSameOrigin(url, origin) {
+  if (url === 'about:blank' || url === 'about:srcdoc') return true;
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Tag the elements of same-origin frames so the serializer can find them.
+ * Frames with a URL become separate pages; about:blank frames filled by
+ * script are inlined through srcdoc.
+ */
+async function markFrames(page) {
+  const origin = new URL(page.url()).origin;
+  const marked = [];
+
+  for (const frame of page.frames()) {
+    if (frame === page.mainFrame() || frame.isDetached() || marked.length >= MAX_FRAMES) continue;
+    const url = frame.url();
+    if (!isSameOrigin(url, origin)) continue;
+
+    const isBlank = url.startsWith('about:');
+    if (isBlank && !await frame.evaluate(() => !!document.body?.childNodes.length).catch(() => false)) continue;
+
+    const element = await frame.frameElement().catch(() => null);
+    if (!element) continue;
+    const frameId = String(marked.length + 1);
+    await element.evaluate((el, id) => el.setAttribute('data-capture-frame-id', id), frameId);
+    marked.push({ frame, frameId, url, isBlank });
+  }
+
+  return marked;
+}
+
+export function normalizeShadowDomMode(mode) {
+  return SHADOW_DOM_MODES.includes(mode) ? mode : 'declarative';
+}
+
+/**
+ * Serialize the page, its open shadow roots and its same-origin frames.
+ * Returns the entry document's HTML, the frame documents captured as pages
+ * and counts for the capture report.
+ */
+export async function serializePage(page, { shadowDom = 'declarative', frames: captureFrames = true } = {}) {
+  const mode = normalizeShadowDomMode(shadowDom);
+  const marked = captureFrames ? await markFrames(page) : [];
+  const frameSources = {};
+  const framePages = [];
+  const report = { shadowDom: mode, shadowRoots: 0, adoptedStyleSheets: 0, framePages: 0, inlinedFrames: 0 };
+
+  const serializeFrame = async (frame) => {
+    const result = await frame.evaluate(serializeInPage, { mode, frameSources });
+    report.shadowRoots += result.shadowRoots;
+    report.adoptedStyleSheets += result.adoptedStyleSheets;
+    return result.html;
+  };
+
+  // Children are listed after their parents; serialize them first so a parent can inline them
+  for (const { frame, frameId, url, isBlank } of [...marked].reverse()) {
+    try {
+      const html = await serializeFrame(frame);
+      if (isBlank) {
+        frameSources[frameId] = { srcdoc: html };
+        report.inlinedFrames++;
+      } else {
+        frameSources[frameId] = { src: url };
+        framePages.push({ url, title: await frame.title().catch(() => ''), html });
+        report.framePages++;
+      }
+    } catch (error) {
+      console.warn(`⚠️  [SERIALIZE] Could not capture frame ${url}:`, error.message);
+    }
+  }
+
+  const html = await serializeFrame(page.mainFrame());
+  return { html, frames: framePages.reverse(), report };
+}
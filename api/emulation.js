@@ -0,0 +1,117 @@
+/**
+ * Emulation profiles for captures: color scheme, reduced motion, locale,
+ * timezone, geolocation, device scale factor and user agent. A profile is
+ * applied to the whole browser context, so media queries, Intl formatting
+ * and Accept-Language negotiation all see the same environment.
+ */
+
+const DEFAULT_VIEWPORT = { width: 1920, height: 1080 };
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+const COLOR_SCHEMES = ['light', 'dark', 'no-preference'];
+const REDUCED_MOTION = ['reduce', 'no-preference'];
+
+const IPHONE_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+// Keep in sync with EMULATION_PROFILES in src/services/BrowserService.ts
+const EMULATION_PROFILES = {
+  default: { name: 'default', label: 'Default' },
+  dark: { name: 'dark', label: 'Dark mode', colorScheme: 'dark' },
+  'reduced-motion': { name: 'reduced-motion', label: 'Reduced motion', reducedMotion: 'reduce' },
+  'de-DE': { name: 'de-DE', label: 'German (Berlin)', locale: 'de-DE', timezoneId: 'Europe/Berlin', geolocation: { latitude: 52.52, longitude: 13.405 } },
+  'fr-FR': { name: 'fr-FR', label: 'French (Paris)', locale: 'fr-FR', timezoneId: 'Europe/Paris', geolocation: { latitude: 48.8566, longitude: 2.3522 } },
+  'es-ES': { name: 'es-ES', label: 'Spanish (Madrid)', locale: 'es-ES', timezoneId: 'Europe/Madrid', geolocation: { latitude: 40.4168, longitude: -3.7038 } },
+  'ja-JP': { name: 'ja-JP', label: 'Japanese (Tokyo)', locale: 'ja-JP', timezoneId: 'Asia/Tokyo', geolocation: { latitude: 35.6762, longitude: 139.6503 } },
+  retina: { name: 'retina', label: 'Retina (2x)', deviceScaleFactor: 2 },
+  'mobile-dark': {
+    name: 'mobile-dark',
+    label: 'Mobile, dark mode',
+    colorScheme: 'dark',
+    viewport: { width: 390, height: 844 },
+    deviceScaleFactor: 3,
+    userAgent: IPHONE_USER_AGENT,
+  },
+};
+
+/**
+ * Resolve a profile name or object into a profile with only valid fields;
+ * null when nothing would change from the default context
+ */
+export function normalizeProfile(profile) {
+  if (!profile) return null;
+
+  const source = typeof profile === 'string' ? EMULATION_PROFILES[profile] : profile;
+  if (!source) {
+    throw new Error(`Unknown emulation profile "${profile}"`);
+  }
+
+  const normalized = { name: String(source.name || 'custom') };
+  if (source.label) normalized.label = String(source.label);
+  if (COLOR_SCHEMES.includes(source.colorScheme)) normalized.colorScheme = source.colorScheme;
+  if (REDUCED_MOTION.includes(source.reducedMotion)) normalized.reducedMotion = source.reducedMotion;
+  if (source.locale) normalized.locale = String(source.locale);
+  if (source.timezoneId) normalized.timezoneId = String(source.timezoneId);
+  if (Number.isFinite(source.geolocation?.latitude) && Number.isFinite(source.geolocation?.longitude)) {
+    normalized.geolocation = {
+      latitude: source.geolocation.latitude,
+      longitude: source.geolocation.longitude,
+      accuracy: Number(source.geolocation.accuracy) || 100,
+    };
+  }
+  if (Number(source.deviceScaleFactor) > 0) normalized.deviceScaleFactor = Number(source.deviceScaleFactor);
+  if (source.userAgent) normalized.userAgent = String(source.userAgent);
+  if (Number(source.viewport?.width) > 0 && Number(source.viewport?.height) > 0) {
+    normalized.viewport = { width: Number(source.viewport.width), height: Number(source.viewport.height) };
+  }
+
+  return Object.keys(normalized).some(key => key !== 'name' && key !== 'label') ? normalized : null;
+}
+
+export function describeProfile(profile) {
+  if (!profile) return 'default';
+  const parts = [];
+  if (profile.colorScheme) parts.push(`color-scheme: ${profile.colorScheme}`);
+  if (profile.reducedMotion) parts.push(`reduced-motion: ${profile.reducedMotion}`);
+  if (profile.locale) parts.push(`locale: ${profile.locale}`);
+  if (profile.timezoneId) parts.push(`timezone: ${profile.timezoneId}`);
+  if (profile.geolocation) parts.push('geolocation');
+  if (profile.deviceScaleFactor) parts.push(`scale: ${profile.deviceScaleFactor}x`);
+  if (profile.viewport) parts.push(`viewport: ${profile.viewport.width}x${profile.viewport.height}`);
+  if (profile.userAgent) parts.push('custom user agent');
+  return `${profile.name} (${parts.join(', ')})`;
+}
+
+/**
+ * Browser context options for a profile. Accept-Language follows the
+ * profile's locale.
+ */
+export function getEmulationContextOptions(profile) {
+  const options = {
+    viewport: profile?.viewport || DEFAULT_VIEWPORT,
+    userAgent: profile?.userAgent || DEFAULT_USER_AGENT,
+  };
+  if (!profile) return options;
+
+  if (profile.colorScheme) options.colorScheme = profile.colorScheme;
+  if (profile.reducedMotion) options.reducedMotion = profile.reducedMotion;
+  if (profile.timezoneId) options.timezoneId = profile.timezoneId;
+  if (profile.deviceScaleFactor) options.deviceScaleFactor = profile.deviceScaleFactor;
+  if (profile.geolocation) {
+    options.geolocation = profile.geolocation;
+    options.permissions = ['geolocation'];
+  }
+  if (profile.userAgent && /Mobile|iPhone|Android/i.test(profile.userAgent)) {
+    options.isMobile = true;
+    options.hasTouch = true;
+  }
+
+  if (profile.locale) {
+    options.locale = profile.locale;
+    const language = profile.locale.split('-')[0];
+    options.extraHTTPHeaders = {
+      'Accept-Language': language !== profile.locale ? `${profile.locale},${language};q=0.9` : profile.locale,
+    };
+  }
+
+  return options;
+}
@@ -0,0 +1,279 @@
+/**
+ * Page expansion before a capture: scroll in fixed steps and wait for the
+ * network to go quiet after each one, click "load more" buttons up to a
+ * limit, and swap lazy-load placeholders (data-src, data-lazy, …) for their
+ * real sources, so the captured DOM holds everything a visitor would see.
+ */
+
+const IDLE_QUIET_MS = 500;
+const IDLE_TIMEOUT_MS = 5000;
+const MAX_PAGE_HEIGHT = 50000; // Infinite feeds stop here
+const CLICK_TIMEOUT_MS = 3000;
+
+// Scrolling and lazy-source swapping are on unless turned off; clicking is opt-in
+const DEFAULTS = {
+  maxScrollSteps: 20,
+  maxLoadMoreClicks: 5,
+  maxDurationMs: 45000,
+};
+
+const LOAD_MORE_TEXT = /^\s*(load|show|see|view) (more|all)( \w+)?\s*$|^\s*(mehr (laden|anzeigen)|voir plus|afficher plus|cargar más|ver más|carica altro|mostra altro)\s*$/i;
+// Elements that do not navigate away when clicked
+const LOAD_MORE_CANDIDATES = 'button, [role="button"], a:not([href]), a[href="#"], a[href^="javascript:"], input[type="button"]';
+
+/**
+ * Fill in defaults for the expansion options sent with a capture; null turns
+ * the stage off completely
+ */
+export function normalizeExpansion(expansion) {
+  if (expansion === false) return null;
+  const source = expansion || {};
+
+  return {
+    scroll: source.scroll !== false,
+    maxScrollSteps: Math.min(Math.max(Number(source.maxScrollSteps) || DEFAULTS.maxScrollSteps, 1), 200),
+    loadMore: !!source.loadMore || !!source.loadMoreSelectors?.length,
+    loadMoreSelectors: (source.loadMoreSelectors || []).map(selector => String(selector).trim()).filter(Boolean),
+    maxLoadMoreClicks: Math.min(Math.max(Number(source.maxLoadMoreClicks) || DEFAULTS.maxLoadMoreClicks, 1), 50),
+    swapLazySources: source.swapLazySources !== false,
+    maxDurationMs: Math.min(Number(source.maxDurationMs) || DEFAULTS.maxDurationMs, 120000),
+  };
+}
+
+/**
+ * Count in-flight requests, so each step can wait for its own requests
+ * rather than the page's first networkidle, which has long passed
+ */
+function trackNetwork(page) {
+  let inflight = 0;
+  let started = 0;
+  let lastActivity = Date.now();
+  const onStart = () => {
+    inflight++;
+    started++;
+    lastActivity = Date.now();
+  };
+  const onEnd = () => {
+    inflight = Math.max(0, inflight - 1);
+    lastActivity = Date.now();
+  };
+
+  page.on('request', onStart);
+  page.on('requestfinished', onEnd);
+  page.on('requestfailed', onEnd);
+
+  return {
+    requestCount: () => started,
+    async waitForIdle(deadline) {
+      const limit = Math.min(Date.now() + IDLE_TIMEOUT_MS, deadline);
+      // Give scroll handlers and observers a moment to fire their requests
+      await page.waitForTimeout(150);
+      while (Date.now() < limit) {
+        if (inflight === 0 && Date.now() - lastActivity >= IDLE_QUIET_MS) return true;
+        await page.waitForTimeout(100);
+      }
+      return false;
+    },
+    dispose() {
+      page.off('request', onStart);
+      page.off('requestfinished', onEnd);
+      page.off('requestfailed', onEnd);
+    },
+  };
+}
+
+function getScrollState(page) {
+  return page.evaluate(() => ({
+    y: window.scrollY,
+    viewportHeight: window.innerHeight,
+    height: Math.max(document.body?.scrollHeight || 0, document.documentElement.scrollHeight),
+  }));
+}
+
+/**
+ * Scroll down one viewport at a time until the bottom stops moving, the step
+ * budget is spent or the page grows past MAX_PAGE_HEIGHT
+ */
+async function scrollToEnd(page, network, state, options, deadline) {
+  let stableSteps = 0;
+  let { height } = await getScrollState(page);
+
+  while (state.scrollSteps < options.maxScrollSteps) {
+    if (Date.now() >= deadline) return 'timeout';
+
+    await page.evaluate(() => window.scrollBy(0, Math.round(window.innerHeight * 0.8)));
+    state.scrollSteps++;
+    await network.waitForIdle(deadline);
+
+    const current = await getScrollState(page);
+    const atBottom = current.y + current.viewportHeight >= current.height - 2;
+    if (current.height > MAX_PAGE_HEIGHT) return 'maxHeight';
+
+    // At the bottom twice without growth: nothing more is coming
+    stableSteps = atBottom && current.height === height ? stableSteps + 1 : 0;
+    height = current.height;
+    if (stableSteps >= 2) return 'bottom';
+  }
+  return 'maxSteps';
+}
+
+async function findLoadMoreButton(page, selectors) {
+  const candidates = [
+    ...selectors.map(selector => page.locator(selector)),
+    page.locator(LOAD_MORE_CANDIDATES).filter({ hasText: LOAD_MORE_TEXT }),
+  ];
+
+  for (const candidate of candidates) {
+    const button = candidate.first();
+    if (await button.isVisible().catch(() => false) && await button.isEnabled().catch(() => false)) {
+      return button;
+    }
+  }
+  return null;
+}
+
+/**
+ * Click "load more" buttons until none is left, the click limit is reached, or
+ * a click neither grows the page nor fires a request
+ */
+async function clickLoadMore(page, network, state, options, deadline) {
+  const startUrl = page.url();
+
+  while (state.loadMoreClicks < options.maxLoadMoreClicks) {
+    if (Date.now() >= deadline) return 'timeout';
+
+    const button = await findLoadMoreButton(page, options.loadMoreSelectors);
+    if (!button) return 'noButton';
+
+    const before = await getScrollState(page);
+    const requestsBefore = network.requestCount();
+    try {
+      await button.scrollIntoViewIfNeeded({ timeout: CLICK_TIMEOUT_MS });
+      await button.click({ timeout: CLICK_TIMEOUT_MS });
+    } catch {
+      return 'noButton';
+    }
+    state.loadMoreClicks++;
+    await network.waitForIdle(deadline);
+
+    if (page.url() !== startUrl) {
+      // The button was a link after all; return to the page being captured
+      await page.goBack({ waitUntil: 'networkidle', timeout: 30000 }).catch(() => {});
+      return 'navigated';
+    }
+
+    const after = await getScrollState(page);
+    if (after.height === before.height && network.requestCount() === requestsBefore) {
+      return 'noEffect';
+    }
+    if (after.height > MAX_PAGE_HEIGHT) return 'maxHeight';
+
+    if (options.scroll) {
+      await scrollToEnd(page, network, state, options, deadline);
+    }
+  }
+  return 'maxClicks';
+}
+
+/**
+ * Copy lazy-load attributes onto the real ones. Placeholder sources (data
+ * URIs, 1x1 spacers, "loading" images) are replaced; real sources are kept.
+ */
+async function swapLazySources(page) {
+  return page.evaluate(() => {
+    const SRC_ATTRIBUTES = ['data-src', 'data-lazy', 'data-lazy-src', 'data-original', 'data-url'];
+    const SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+    const BACKGROUND_ATTRIBUTES = ['data-bg', 'data-background', 'data-bg-src', 'data-background-image'];
+    const isPlaceholder = (value) => !value || value.startsWith('data:') ||
+      /placeholder|blank|spacer|lazy|loading|1x1|pixel\.gif|transparent\.(gif|png)/i.test(value);
+    const first = (element, attributes) => attributes.map(name => element.getAttribute(name)).find(Boolean);
+    const selectorFor = attributes => attributes.map(name => `[${name}]`).join(', ');
+
+    let swapped = 0;
+
+    document.querySelectorAll(selectorFor(SRC_ATTRIBUTES)).forEach((element) => {
+      if (!['IMG', 'IFRAME', 'SOURCE', 'VIDEO', 'AUDIO', 'EMBED'].includes(element.tagName)) return;
+      const lazy = first(element, SRC_ATTRIBUTES);
+      const current = element.getAttribute('src');
+      if (lazy && lazy !== current && isPlaceholder(current)) {
+        element.setAttribute('src', lazy);
+        swapped++;
+      }
+    });
+
+    document.querySelectorAll(selectorFor(SRCSET_ATTRIBUTES)).forEach((element) => {
+      const lazy = first(element, SRCSET_ATTRIBUTES);
+      const current = element.getAttribute('srcset');
+      if (lazy && lazy !== current && isPlaceholder(current)) {
+        element.setAttribute('srcset', lazy);
+        swapped++;
+      }
+    });
+
+    document.querySelectorAll(selectorFor(BACKGROUND_ATTRIBUTES)).forEach((element) => {
+      const lazy = first(element, BACKGROUND_ATTRIBUTES);
+      if (lazy && !element.style.backgroundImage) {
+        element.style.backgroundImage = /^url\(/i.test(lazy) ? lazy : `url("${lazy}")`;
+        swapped++;
+      }
+    });
+
+    // Lazy-load libraries hide images until they run
+    document.querySelectorAll('img.lazyload, img.lazy').forEach((element) => {
+      element.classList.add('lazyloaded');
+    });
+
+    return swapped;
+  });
+}
+
+/**
+ * Run the expansion stage on a loaded page and return to the top. Returns the
+ * report sent back with the capture.
+ */
+export async function expandPage(page, options) {
+  const startTime = Date.now();
+  const deadline = startTime + options.maxDurationMs;
+  const network = trackNetwork(page);
+  const state = { scrollSteps: 0, loadMoreClicks: 0 };
+  const { height: initialHeight } = await getScrollState(page);
+
+  let scrollStop = null;
+  let loadMoreStop = null;
+  let lazySourcesSwapped = 0;
+
+  try {
+    if (options.scroll) {
+      scrollStop = await scrollToEnd(page, network, state, options, deadline);
+      console.log(`📜 [EXPAND] Scrolled ${state.scrollSteps} steps (stopped: ${scrollStop})`);
+    }
+
+    if (options.loadMore) {
+      loadMoreStop = await clickLoadMore(page, network, state, options, deadline);
+      console.log(`🖱️  [EXPAND] Clicked "load more" ${state.loadMoreClicks} times (stopped: ${loadMoreStop})`);
+    }
+
+    if (options.swapLazySources) {
+      lazySourcesSwapped = await swapLazySources(page);
+      if (lazySourcesSwapped > 0) {
+        await network.waitForIdle(Date.now() + IDLE_TIMEOUT_MS);
+      }
+      console.log(`🖼️  [EXPAND] Swapped ${lazySourcesSwapped} lazy-load placeholders`);
+    }
+  } finally {
+    network.dispose();
+    await page.evaluate(() => window.scrollTo(0, 0)).catch(() => {});
+  }
+
+  const { height: finalHeight } = await getScrollState(page);
+  return {
+    scrollSteps: state.scrollSteps,
+    scrollStop,
+    loadMoreClicks: state.loadMoreClicks,
+    loadMoreStop,
+    lazySourcesSwapped,
+    initialHeight,
+    finalHeight,
+    durationMs: Date.now() - startTime,
+  };
+}
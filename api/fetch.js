@@ -0,0 +1,415 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns/promises';
+import net from 'net';
+import zlib from 'zlib';
+
+export const config = {
+  maxDuration: 60,
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const MAX_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024; // 25 MB after decompression
+const MAX_REDIRECTS = 5;
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+// Requests each client address may make per window. The endpoint needs no
+// session (the clone workers call it too), so this keeps it from serving as
+// an open proxy. Set TRUST_PROXY when a reverse proxy supplies X-Forwarded-For.
+const RATE_LIMIT_WINDOW_MS = Number(process.env.FETCH_RATE_LIMIT_WINDOW_MS) || 60 * 1000;
+const RATE_LIMIT_MAX_REQUESTS = Number(process.env.FETCH_RATE_LIMIT_MAX_REQUESTS) || 600;
+const TRUST_PROXY = !!process.env.TRUST_PROXY;
+
+const rateLimits = new Map();
+let nextPruneAt = 0;
+
+// Cloud metadata endpoints and internal names that must never be fetched
+const BLOCKED_HOSTNAMES = new Set([
+  'localhost',
+  'metadata',
+  'metadata.google.internal',
+  'metadata.goog',
+  'instance-data',
+  'instance-data.ec2.internal',
+]);
+
+// Upstream headers that describe the connection rather than the resource
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-encoding',
+  'content-length',
+  'set-cookie',
+  'proxy-authenticate',
+  'trailer',
+  'upgrade',
+]);
+
+/**
+ * Error carrying the HTTP status the proxy should answer with
+ */
+function proxyError(status, message) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+function ipv4ToInt(ip) {
+  return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+}
+
+function inIpv4Range(ip, cidr) {
+  const [range, bits] = cidr.split('/');
+  const mask = bits === '0' ? 0 : (~0 << (32 - parseInt(bits, 10))) >>> 0;
+  return (ipv4ToInt(ip) & mask) === (ipv4ToInt(range) & mask);
+}
+
+const PRIVATE_IPV4_RANGES = [
+  '0.0.0.0/8',       // "This" network
+  '10.0.0.0/8',      // Private
+  '100.64.0.0/10',   // Carrier-grade NAT
+  '127.0.0.0/8',     // Loopback
+  '169.254.0.0/16',  // Link-local, includes 169.254.169.254 metadata
+  '172.16.0.0/12',   // Private
+  '192.0.0.0/24',    // IETF protocol assignments
+  '192.0.2.0/24',    // Documentation
+  '192.168.0.0/16',  // Private
+  '198.18.0.0/15',   // Benchmarking
+  '198.51.100.0/24', // Documentation
+  '203.0.113.0/24',  // Documentation
+  '224.0.0.0/4',     // Multicast
+  '240.0.0.0/4',     // Reserved, includes broadcast
+];
+
+/**
+ * The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4
+ * part (::ffff:1.2.3.4) converted to the last two groups
+ */
+function ipv6ToHextets(ip) {
+  let address = ip.toLowerCase().replace(/%.*$/, '');
+
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToInt(dotted[2]);
+    address = `${dotted[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const parse = (part) => (part ? part.split(':').map(hextet => parseInt(hextet, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+  const zeros = tail === undefined ? [] : new Array(8 - start.length - end.length).fill(0);
+  return [...start, ...zeros, ...end];
+}
+
+function hextetsToIpv4(high, low) {
+  return `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+}
+
+/**
+ * True for loopback, private, link-local, reserved and metadata addresses.
+ * IPv6 addresses that embed an IPv4 address are judged by that address.
+ */
+export function isPrivateAddress(ip) {
+  if (net.isIPv4(ip)) {
+    return PRIVATE_IPV4_RANGES.some(range => inIpv4Range(ip, range));
+  }
+
+  if (!net.isIPv6(ip)) {
+    return true;
+  }
+
+  const h = ipv6ToHextets(ip);
+  const zeroUntil = (end) => h.slice(0, end).every(hextet => hextet === 0);
+
+  // IPv4-compatible (::a.b.c.d, which includes :: and ::1), IPv4-mapped
+  // (::ffff:a.b.c.d), IPv4-translated (::ffff:0:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  if (zeroUntil(6) ||
+      (zeroUntil(5) && h[5] === 0xffff) ||
+      (zeroUntil(4) && h[4] === 0xffff && h[5] === 0) ||
+      (h[0] === 0x64 && h[1] === 0xff9b && h.slice(2, 6).every(hextet => hextet === 0))) {
+    return isPrivateAddress(hextetsToIpv4(h[6], h[7]));
+  }
+
+  // 6to4 (2002:aabb:ccdd::) carries the IPv4 address in the second and third groups
+  if (h[0] === 0x2002) {
+    return isPrivateAddress(hextetsToIpv4(h[1], h[2]));
+  }
+
+  // Teredo (2001:0::) carries the server address and the client address (inverted)
+  if (h[0] === 0x2001 && h[1] === 0) {
+    return isPrivateAddress(hextetsToIpv4(h[2], h[3])) ||
+      isPrivateAddress(hextetsToIpv4(h[6] ^ 0xffff, h[7] ^ 0xffff));
+  }
+
+  if (h[0] === 0x64 && h[1] === 0xff9b && h[2] === 1) return true; // 64:ff9b:1::/48 local-use NAT64
+  if ((h[0] & 0xfe00) === 0xfc00) return true; // fc00::/7 unique local
+  if ((h[0] & 0xffc0) === 0xfe80) return true; // fe80::/10 link-local
+  if ((h[0] & 0xffc0) === 0xfec0) return true; // fec0::/10 site-local
+  if ((h[0] & 0xff00) === 0xff00) return true; // ff00::/8 multicast
+  if (h[0] === 0x2001 && h[1] === 0xdb8) return true; // Documentation
+  if (h[0] === 0x100 && h.slice(1, 4).every(hextet => hextet === 0)) return true; // 100::/64 discard
+
+  return false;
+}
+
+function getClientAddress(req) {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  if (TRUST_PROXY && forwarded) {
+    return String(forwarded).split(',')[0].trim();
+  }
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Count a request against its client's window. Returns the seconds to wait
+ * when the client is over the limit, otherwise 0. Loopback requests without
+ * a forwarding proxy come from the clone workers on this server.
+ */
+export function checkRateLimit(req, now = Date.now()) {
+  const address = getClientAddress(req);
+  if (!req.headers?.['x-forwarded-for'] && ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(address)) {
+    return 0;
+  }
+
+  if (now >= nextPruneAt) {
+    for (const [key, entry] of rateLimits) {
+      if (entry.resetAt <= now) rateLimits.delete(key);
+    }
+    nextPruneAt = now + RATE_LIMIT_WINDOW_MS;
+  }
+
+  const current = rateLimits.get(address);
+  const entry = current && current.resetAt > now ? current : { count: 0, resetAt: now + RATE_LIMIT_WINDOW_MS };
+  entry.count++;
+  rateLimits.set(address, entry);
+
+  return entry.count > RATE_LIMIT_MAX_REQUESTS ? Math.ceil((entry.resetAt - now) / 1000) : 0;
+}
+
+/**
+ * Validate a URL and resolve its host to a public address. The returned
+ * address is pinned for the connection so DNS cannot be rebound in between.
+ */
+export async function resolvePublicTarget(rawUrl) {
+  let url;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw proxyError(400, 'Invalid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw proxyError(400, `Unsupported protocol: ${url.protocol}`);
+  }
+
+  if (url.username || url.password) {
+    throw proxyError(400, 'URLs with credentials are not allowed');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (BLOCKED_HOSTNAMES.has(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw proxyError(403, `Blocked host: ${hostname}`);
+  }
+
+  let addresses;
+  try {
+    addresses = net.isIP(hostname)
+      ? [{ address: hostname, family: net.isIPv6(hostname) ? 6 : 4 }]
+      : await dns.lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw proxyError(502, `Could not resolve host: ${hostname}`);
+  }
+
+  if (addresses.length === 0) {
+    throw proxyError(502, `Could not resolve host: ${hostname}`);
+  }
+
+  // Reject the host if any record is private, so mixed records cannot be abused
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw proxyError(403, `Blocked private address for ${hostname}: ${blocked.address}`);
+  }
+
+  return { url, address: addresses[0].address, family: addresses[0].family };
+}
+
+function decompress(stream, encoding) {
+  switch ((encoding || '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return stream.pipe(zlib.createGunzip());
+    case 'deflate':
+      return stream.pipe(zlib.createInflate());
+    case 'br':
+      return stream.pipe(zlib.createBrotliDecompress());
+    default:
+      return stream;
+  }
+}
+
+function requestOnce(target, { method, deadline, maxBytes }) {
+  const { url, address, family } = target;
+  const transport = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      reject(proxyError(504, 'Upstream request timed out'));
+      return;
+    }
+
+    const req = transport.request(url, {
+      method,
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': '*/*',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+      // Pin the connection to the address we validated
+      lookup: (_hostname, options, callback) => {
+        if (options && options.all) {
+          callback(null, [{ address, family }]);
+        } else {
+          callback(null, address, family);
+        }
+      },
+    });
+
+    const timer = setTimeout(() => {
+      req.destroy(proxyError(504, 'Upstream request timed out'));
+    }, remaining);
+
+    req.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error.status ? error : proxyError(502, `Upstream request failed: ${error.message}`));
+    });
+
+    req.on('response', (res) => {
+      const declaredLength = parseInt(res.headers['content-length'] || '0', 10);
+      if (!res.headers['content-encoding'] && declaredLength > maxBytes) {
+        res.destroy();
+        req.destroy(proxyError(413, `Response exceeds ${maxBytes} bytes`));
+        return;
+      }
+
+      if (method === 'HEAD' || (res.statusCode >= 300 && res.statusCode < 400)) {
+        res.resume();
+        clearTimeout(timer);
+        resolve({ status: res.statusCode, headers: res.headers, body: Buffer.alloc(0) });
+        return;
+      }
+
+      const chunks = [];
+      let received = 0;
+      const body = decompress(res, res.headers['content-encoding']);
+
+      body.on('data', (chunk) => {
+        received += chunk.length;
+        if (received > maxBytes) {
+          body.destroy();
+          req.destroy(proxyError(413, `Response exceeds ${maxBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      body.on('end', () => {
+        clearTimeout(timer);
+        resolve({ status: res.statusCode, headers: res.headers, body: Buffer.concat(chunks) });
+      });
+
+      body.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error.status ? error : proxyError(502, `Failed to read upstream body: ${error.message}`));
+      });
+    });
+
+    req.end();
+  });
+}
+
+/**
+ * Fetch a URL server-side with SSRF protection, following redirects manually
+ * so every hop is validated.
+ */
+export async function fetchUpstream(rawUrl, options = {}) {
+  const method = options.method === 'HEAD' ? 'HEAD' : 'GET';
+  const timeoutMs = Math.min(options.timeoutMs || DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+  const maxBytes = options.maxBytes || DEFAULT_MAX_BYTES;
+  const deadline = Date.now() + timeoutMs;
+
+  let currentUrl = rawUrl;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const target = await resolvePublicTarget(currentUrl);
+    const response = await requestOnce(target, { method, deadline, maxBytes });
+
+    const location = response.headers.location;
+    if (response.status >= 300 && response.status < 400 && location) {
+      currentUrl = new URL(location, target.url).href;
+      continue;
+    }
+
+    return { ...response, finalUrl: target.url.href, redirects };
+  }
+
+  throw proxyError(508, `Too many redirects (max ${MAX_REDIRECTS})`);
+}
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const retryAfter = checkRateLimit(req);
+  if (retryAfter > 0) {
+    res.setHeader('X-Proxy-Error', '1');
+    res.setHeader('Retry-After', String(retryAfter));
+    return res.status(429).json({ error: 'Too many requests', message: `Fetch proxy rate limit reached; retry in ${retryAfter}s` });
+  }
+
+  const url = req.query?.url;
+  if (!url || typeof url !== 'string') {
+    res.setHeader('X-Proxy-Error', '1');
+    return res.status(400).json({ error: 'URL is required' });
+  }
+
+  const timeoutMs = parseInt(req.query.timeout, 10) || undefined;
+
+  try {
+    const startTime = Date.now();
+    const upstream = await fetchUpstream(url, { method: req.method, timeoutMs });
+
+    console.log(`🔁 [FETCH] ${req.method} ${url} → ${upstream.status} (${upstream.body.length} bytes, ${upstream.redirects} redirects) in ${Date.now() - startTime}ms`);
+
+    // Expose upstream headers under a prefix so they cannot affect this response
+    for (const [name, value] of Object.entries(upstream.headers)) {
+      if (HOP_BY_HOP_HEADERS.has(name) || value === undefined) continue;
+      res.setHeader(`X-Upstream-${name}`, value);
+    }
+
+    // Never let the body render on our origin: a proxied HTML page would run its
+    // scripts next to the user's session. Callers read the real type from
+    // X-Upstream-Content-Type.
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    res.setHeader('Content-Disposition', 'attachment');
+    res.setHeader('X-Final-Url', upstream.finalUrl);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(upstream.status);
+
+    return req.method === 'HEAD' ? res.end() : res.end(upstream.body);
+  } catch (error) {
+    const status = error.status || 500;
+    console.error(`❌ [FETCH] ${url} failed (${status}):`, error.message);
+
+    res.setHeader('X-Proxy-Error', '1');
+    return res.status(status).json({
+      error: 'Fetch failed',
+      message: error.message,
+    });
+  }
+}
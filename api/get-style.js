@@ -1,4 +1,4 @@
-import { chromium } from 'playwright';
+import { acquireContext } from './browser-pool.js';
 
 export const config = {
   maxDuration: 60,
@@ -15,19 +15,15 @@ export default async function handler(req, res) {
     return res.status(400).json({ error: 'URL and selector are required' });
   }
 
-  let browser;
+  let lease;
 
   try {
     console.log(`Getting computed style for ${selector} at ${url}`);
 
-    browser = await chromium.launch({
-      headless: true,
-      args: ['--disable-dev-shm-usage', '--disable-setuid-sandbox', '--no-sandbox'],
-    });
-
-    const context = await browser.newContext({
+    lease = await acquireContext({
       viewport: { width: 1920, height: 1080 },
     });
+    const { context } = lease;
 
     const page = await context.newPage();
 
@@ -55,14 +51,14 @@ export default async function handler(req, res) {
       };
     });
 
-    await browser.close();
+    await lease.release();
 
     return res.status(200).json({ style });
   } catch (error) {
     console.error('Get style error:', error);
 
-    if (browser) {
-      await browser.close();
+    if (lease) {
+      await lease.release();
     }
 
     return res.status(500).json({
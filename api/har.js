@@ -0,0 +1,143 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+/**
+ * HAR recording for captures. Playwright writes the HAR (timings, sizes,
+ * headers, response bodies) when the context closes; Chromium's DevTools
+ * protocol adds what Playwright leaves out - resource type, priority and
+ * initiator - and the page's Resource Timing entries say which requests
+ * blocked rendering. Credentials in headers and cookies are redacted before
+ * the HAR leaves the server. Bodies are the bytes the browser received,
+ * after content decoding, base64-encoded as HAR content text.
+ */
+
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token'];
+const REDACTED = '[redacted]';
+const MAX_ENTRIES = 500;
+const MAX_BODY_BYTES = Number(process.env.HAR_MAX_BODY_BYTES) || 10 * 1024 * 1024;
+const MAX_TOTAL_BODY_BYTES = Number(process.env.HAR_MAX_TOTAL_BODY_BYTES) || 40 * 1024 * 1024;
+
+function describeInitiator(initiator) {
+  if (!initiator) return undefined;
+  const frame = initiator.stack?.callFrames?.[0];
+  const url = initiator.url || frame?.url;
+  return {
+    type: initiator.type,
+    url: url || undefined,
+    lineNumber: initiator.lineNumber ?? frame?.lineNumber,
+  };
+}
+
+function redactHeaders(headers, extraNames) {
+  return (headers || []).map(header => (
+    extraNames.has(header.name.toLowerCase()) ? { ...header, value: REDACTED } : header
+  ));
+}
+
+/**
+ * Create a recorder for one capture. Spread `contextOptions` into the
+ * browser context, call attach() with the page, and read() after the
+ * context is closed.
+ */
+export async function createHarRecorder() {
+  const directory = await mkdtemp(path.join(tmpdir(), 'capture-har-'));
+  const harPath = path.join(directory, 'capture.har');
+  const requestInfo = new Map(); // url -> details from DevTools, in request order
+  let renderBlocking = new Map();
+
+  const remember = (url, info) => {
+    if (!requestInfo.has(url)) requestInfo.set(url, []);
+    requestInfo.get(url).push(info);
+  };
+
+  return {
+    contextOptions: {
+      // Bodies are written next to the HAR and inlined by read()
+      recordHar: { path: harPath, content: 'attach', mode: 'full' },
+    },
+
+    async attach(page) {
+      try {
+        const client = await page.context().newCDPSession(page);
+        await client.send('Network.enable');
+        client.on('Network.requestWillBeSent', (event) => {
+          remember(event.request.url, {
+            resourceType: event.type?.toLowerCase(),
+            priority: event.request.initialPriority,
+            initiator: describeInitiator(event.initiator),
+          });
+        });
+      } catch (error) {
+        // Not Chromium; the HAR is still recorded without the extra fields
+        console.warn('⚠️  [HAR] DevTools session unavailable:', error.message);
+      }
+    },
+
+    /**
+     * Resource Timing knows which resources blocked the first render; read
+     * it before the page goes away
+     */
+    async collectPageTimings(page) {
+      const entries = await page.evaluate(() => performance.getEntriesByType('resource')
+        .map(entry => [entry.name, entry.renderBlockingStatus === 'blocking'])).catch(() => []);
+      renderBlocking = new Map(entries);
+    },
+
+    async read({ redact = [] } = {}) {
+      const sensitive = new Set([...SENSITIVE_HEADERS, ...redact.map(name => name.toLowerCase())]);
+      const har = JSON.parse(await readFile(harPath, 'utf8'));
+      const log = har.log;
+      let bodyBytes = 0;
+      let omittedBodies = 0;
+
+      const readBody = async (content) => {
+        const { _file: file, ...rest } = content;
+        if (!file) return rest;
+
+        const bytes = await readFile(path.join(directory, file)).catch(() => null);
+        if (!bytes) return rest;
+        if (bytes.length > MAX_BODY_BYTES || bodyBytes + bytes.length > MAX_TOTAL_BODY_BYTES) {
+          omittedBodies++;
+          return { ...rest, _bodyOmitted: true };
+        }
+
+        bodyBytes += bytes.length;
+        return { ...rest, size: bytes.length, text: bytes.toString('base64'), encoding: 'base64' };
+      };
+
+      const entries = [];
+      for (const entry of log.entries.slice(0, MAX_ENTRIES)) {
+        const info = requestInfo.get(entry.request.url)?.shift();
+        entries.push({
+          ...entry,
+          request: {
+            ...entry.request,
+            headers: redactHeaders(entry.request.headers, sensitive),
+            cookies: (entry.request.cookies || []).map(cookie => ({ ...cookie, value: REDACTED })),
+          },
+          response: {
+            ...entry.response,
+            headers: redactHeaders(entry.response.headers, sensitive),
+            cookies: (entry.response.cookies || []).map(cookie => ({ ...cookie, value: REDACTED })),
+            content: await readBody(entry.response.content || {}),
+          },
+          _resourceType: info?.resourceType,
+          _priority: info?.priority,
+          _initiator: info?.initiator,
+          _renderBlocking: renderBlocking.has(entry.request.url) ? renderBlocking.get(entry.request.url) : undefined,
+        });
+      }
+
+      if (omittedBodies > 0) {
+        console.warn(`⚠️  [HAR] Left out ${omittedBodies} response bodies over the size limits`);
+      }
+      log.entries = entries;
+      return log;
+    },
+
+    async cleanup() {
+      await rm(directory, { recursive: true, force: true }).catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Request interception for captures: block resource types, URL patterns and
+ * known tracker/ad domains, and answer matching requests with stub responses.
+ * Elements pointing at blocked URLs are removed from the captured HTML too,
+ * so clones do not carry the beacons along.
+ */
+
+const RESOURCE_TYPES = ['document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch', 'eventsource', 'websocket', 'manifest', 'other'];
+const MAX_REPORTED_URLS = 50;
+
+// Analytics, session replay and tag managers
+const TRACKER_DOMAINS = [
+  'google-analytics.com',
+  'analytics.google.com',
+  'googletagmanager.com',
+  'stats.g.doubleclick.net',
+  'connect.facebook.net',
+  'facebook.com/tr',
+  'hotjar.com',
+  'hotjar.io',
+  'clarity.ms',
+  'segment.com',
+  'segment.io',
+  'mixpanel.com',
+  'amplitude.com',
+  'heap.io',
+  'heapanalytics.com',
+  'fullstory.com',
+  'mouseflow.com',
+  'crazyegg.com',
+  'quantserve.com',
+  'scorecardresearch.com',
+  'bat.bing.com',
+  'snap.licdn.com',
+  'px.ads.linkedin.com',
+  'analytics.tiktok.com',
+  'static.ads-twitter.com',
+  'plausible.io',
+  'cdn.matomo.cloud',
+  'newrelic.com',
+  'nr-data.net',
+];
+
+// Ad networks and ad exchanges
+const AD_DOMAINS = [
+  'doubleclick.net',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'adservice.google.com',
+  'amazon-adsystem.com',
+  'adnxs.com',
+  'criteo.com',
+  'criteo.net',
+  'taboola.com',
+  'outbrain.com',
+  'pubmatic.com',
+  'rubiconproject.com',
+  'openx.net',
+  'casalemedia.com',
+  'adsrvr.org',
+  'moatads.com',
+  'media.net',
+  'smartadserver.com',
+  'yieldmo.com',
+  'sharethrough.com',
+];
+
+/**
+ * Turn a URL glob ("*://*.example.com/*", "**\/*.mp4") into a regular
+ * expression. Patterns without wildcards match anywhere in the URL.
+ */
+function globToRegExp(pattern) {
+  if (!pattern.includes('*')) {
+    return new RegExp(pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+  const source = pattern
+    .split(/\*+/)
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function matchesDomain(url, domains) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase();
+  const pathname = parsed.pathname.toLowerCase();
+
+  // Entries such as "facebook.com/tr" also match on the path
+  return domains.find((domain) => {
+    const [domainHost, ...path] = domain.split('/');
+    return (host === domainHost || host.endsWith(`.${domainHost}`)) && pathname.startsWith(`/${path.join('/')}`);
+  }) || null;
+}
+
+function isMainFrameNavigation(request) {
+  try {
+    return request.isNavigationRequest() && request.frame().parentFrame() === null;
+  } catch {
+    // Service worker requests have no frame
+    return false;
+  }
+}
+
+/**
+ * Keep the known fields of the rules sent with a capture; null when nothing is set
+ */
+export function normalizeRules(rules) {
+  if (!rules) return null;
+
+  const normalized = {
+    blockResourceTypes: (rules.blockResourceTypes || []).filter(type => RESOURCE_TYPES.includes(type)),
+    blockPatterns: (rules.blockPatterns || []).map(pattern => String(pattern).trim()).filter(Boolean),
+    blockTrackers: !!rules.blockTrackers,
+    blockAds: !!rules.blockAds,
+    stubs: (rules.stubs || []).filter(stub => stub?.pattern).map(stub => ({
+      pattern: String(stub.pattern).trim(),
+      status: Number(stub.status) || 200,
+      contentType: stub.contentType || 'text/plain',
+      body: typeof stub.body === 'string' ? stub.body : '',
+    })),
+  };
+
+  const isEmpty = normalized.blockResourceTypes.length === 0 && normalized.blockPatterns.length === 0 &&
+    !normalized.blockTrackers && !normalized.blockAds && normalized.stubs.length === 0;
+  return isEmpty ? null : normalized;
+}
+
+export function describeRules(rules) {
+  if (!rules) return 'none';
+  const parts = [];
+  if (rules.blockResourceTypes.length) parts.push(`types: ${rules.blockResourceTypes.join(', ')}`);
+  if (rules.blockPatterns.length) parts.push(`${rules.blockPatterns.length} pattern(s)`);
+  if (rules.blockTrackers) parts.push('trackers');
+  if (rules.blockAds) parts.push('ads');
+  if (rules.stubs.length) parts.push(`${rules.stubs.length} stub(s)`);
+  return parts.join(', ');
+}
+
+/**
+ * Route every request of a browser context through the rules. Returns the
+ * matcher used to clean the captured HTML and the report sent back with it.
+ */
+export async function installInterception(context, rules) {
+  const patterns = rules.blockPatterns.map(globToRegExp);
+  const stubs = rules.stubs.map(stub => ({ ...stub, regex: globToRegExp(stub.pattern) }));
+  const domains = [
+    ...(rules.blockTrackers ? TRACKER_DOMAINS : []),
+    ...(rules.blockAds ? AD_DOMAINS : []),
+  ];
+
+  const report = { blocked: 0, stubbed: 0, byReason: {}, blockedUrls: [] };
+  const blockedUrls = new Set();
+
+  // Reason a URL is blocked regardless of resource type, or null
+  const matchUrl = (url) => {
+    const domain = matchesDomain(url, domains);
+    if (domain) return TRACKER_DOMAINS.includes(domain) ? 'tracker' : 'ad';
+    return patterns.some(regex => regex.test(url)) ? 'pattern' : null;
+  };
+
+  const count = (reason, url) => {
+    report.blocked++;
+    report.byReason[reason] = (report.byReason[reason] || 0) + 1;
+    blockedUrls.add(url);
+    if (report.blockedUrls.length < MAX_REPORTED_URLS) report.blockedUrls.push(url);
+  };
+
+  await context.route('**/*', async (route) => {
+    const request = route.request();
+    const url = request.url();
+
+    // Stubs win over blocking, so a blocked script can be replaced with a no-op
+    const stub = stubs.find(candidate => candidate.regex.test(url));
+    if (stub) {
+      report.stubbed++;
+      return route.fulfill({ status: stub.status, contentType: stub.contentType, body: stub.body });
+    }
+
+    // Never block the page being captured itself
+    if (isMainFrameNavigation(request)) {
+      return route.continue();
+    }
+
+    const reason = rules.blockResourceTypes.includes(request.resourceType()) ? 'resourceType' : matchUrl(url);
+    if (reason) {
+      count(reason, url);
+      return route.abort('blockedbyclient');
+    }
+    return route.continue();
+  });
+
+  return {
+    isBlocked: (url) => blockedUrls.has(url) || !!matchUrl(url),
+    urlRules: { patterns: patterns.map(regex => [regex.source, regex.flags]), domains },
+    getReport: () => ({ rules, ...report }),
+  };
+}
+
+/**
+ * Remove scripts, frames, pixels and media whose URL matches a block rule.
+ * Resource-type rules only speed up the capture and keep their elements.
+ */
+export async function removeBlockedElements(page, interception) {
+  const { patterns, domains } = interception.urlRules;
+  if (patterns.length === 0 && domains.length === 0) return 0;
+
+  return page.evaluate(({ patterns, domains }) => {
+    const regexes = patterns.map(([source, flags]) => new RegExp(source, flags));
+    const isBlocked = (value) => {
+      if (!value) return false;
+      let url;
+      try {
+        url = new URL(value, document.baseURI);
+      } catch {
+        return false;
+      }
+      const host = url.hostname.toLowerCase();
+      const pathname = url.pathname.toLowerCase();
+      return domains.some((domain) => {
+        const [domainHost, ...path] = domain.split('/');
+        return (host === domainHost || host.endsWith(`.${domainHost}`)) && pathname.startsWith(`/${path.join('/')}`);
+      }) || regexes.some(regex => regex.test(url.href));
+    };
+
+    let removed = 0;
+    const selectors = 'script[src], iframe[src], img[src], link[href], source[src], video[src], audio[src], embed[src]';
+    document.querySelectorAll(selectors).forEach((element) => {
+      if (isBlocked(element.getAttribute('src') || element.getAttribute('href'))) {
+        element.remove();
+        removed++;
+      }
+    });
+    return removed;
+  }, { patterns, domains });
+}
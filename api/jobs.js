@@ -0,0 +1,359 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { fork } from 'child_process';
+import { fileURLToPath } from 'url';
+import { createClient } from '@supabase/supabase-js';
+
+export const config = {
+  maxDuration: 60,
+};
+
+const STORE_DIR = process.env.JOB_STORE_DIR || path.join(process.cwd(), 'data', 'jobs');
+const WORKER_PATH = fileURLToPath(new URL('./clone-worker.js', import.meta.url));
+// Same default as the worker: the SSR build of src/server/cloneRunner.ts
+const RUNNER_PATH = fileURLToPath(new URL(process.env.CLONE_RUNNER_PATH || '../dist-ssr/cloneRunner.js', import.meta.url));
+const MAX_WORKERS = Math.max(1, Number(process.env.CLONE_WORKERS) || 2);
+const MAX_ACTIVE_PER_USER = Math.max(1, Number(process.env.CLONE_JOBS_PER_USER) || 3);
+const HEARTBEAT_MS = 15 * 1000;
+// Finished jobs are only needed until the browser has picked up the result
+const KEEP_FINISHED_MS = 7 * 24 * 60 * 60 * 1000;
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+const ACTIVE = ['queued', 'running'];
+
+const jobs = new Map();
+const workers = new Map();
+const listeners = new Map();
+const writes = new Map();
+// Login credentials stay in this process and are never written to the job file
+const credentials = new Map();
+let restoring = null;
+
+function jobPath(id) {
+  return path.join(STORE_DIR, `${id}.json`);
+}
+
+function serviceClient() {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return url && key ? createClient(url, key, { auth: { persistSession: false } }) : null;
+}
+
+/**
+ * Workers need the SSR build, which `vite` dev servers and plain `vite build`
+ * deploys do not have
+ */
+export async function isRunnerBuilt() {
+  try {
+    await fs.access(RUNNER_PATH);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function httpError(status, message) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+async function writeJob(job) {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  const target = jobPath(job.id);
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(job, null, 2));
+  await fs.rename(temp, target);
+}
+
+// Progress arrives faster than the disk, so writes for one job run one after another
+function persist(job) {
+  job.updatedAt = new Date().toISOString();
+  const write = (writes.get(job.id) || Promise.resolve()).then(() => writeJob(job));
+  writes.set(job.id, write.catch(() => {}));
+  return write;
+}
+
+function toStatus(job) {
+  return {
+    id: job.id,
+    projectId: job.id,
+    source: job.source,
+    status: job.status,
+    progress: job.progress,
+    step: job.step,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+function broadcast(job, event = 'progress') {
+  const payload = `event: ${event}\ndata: ${JSON.stringify(toStatus(job))}\n\n`;
+  for (const res of listeners.get(job.id) || []) {
+    res.write(payload);
+    if (event === 'done') res.end();
+  }
+  if (event === 'done') listeners.delete(job.id);
+}
+
+async function update(job, patch, event) {
+  Object.assign(job, patch);
+  broadcast(job, event);
+  await persist(job).catch((error) => console.error(`❌ [JOBS] Could not save job ${job.id}:`, error));
+}
+
+async function finish(job, status, step, error) {
+  workers.delete(job.id);
+  credentials.delete(job.id);
+  await update(job, {
+    status,
+    step,
+    error,
+    progress: status === 'completed' ? 100 : job.progress,
+    finishedAt: new Date().toISOString(),
+  }, 'done');
+  console.log(`🏁 [JOBS] Job ${job.id} ${status}${error ? `: ${error}` : ''}`);
+  schedule();
+}
+
+function start(job) {
+  const child = fork(WORKER_PATH, [], { stdio: ['ignore', 'inherit', 'inherit', 'ipc'] });
+  workers.set(job.id, child);
+  let settled = false;
+
+  child.on('message', (message) => {
+    if (message?.type === 'progress') {
+      update(job, { progress: message.progress, step: message.step });
+    } else if (message?.type === 'done') {
+      settled = true;
+      // CloneService reports failures on the project instead of throwing
+      const status = ['completed', 'cancelled'].includes(message.status) ? message.status : 'error';
+      finish(job, status, message.step, status === 'error' ? message.step : undefined);
+    } else if (message?.type === 'error') {
+      settled = true;
+      finish(job, 'error', 'Failed', message.message);
+    }
+  });
+
+  child.on('exit', (code) => {
+    if (!settled) {
+      finish(job, 'error', 'Failed', `Clone worker exited with code ${code}`);
+    }
+  });
+
+  child.send({
+    type: 'run',
+    request: { projectId: job.id, userId: job.userId, options: job.options, auth: credentials.get(job.id) },
+  });
+
+  console.log(`⚙️  [JOBS] Started job ${job.id} for ${job.source} (${workers.size}/${MAX_WORKERS} workers)`);
+  return update(job, { status: 'running', startedAt: new Date().toISOString(), step: 'Starting' });
+}
+
+/**
+ * Start queued jobs, oldest first, while workers are free
+ */
+function schedule() {
+  const queued = [...jobs.values()]
+    .filter(job => job.status === 'queued')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const job of queued) {
+    if (workers.size >= MAX_WORKERS) break;
+    start(job).catch((error) => console.error(`❌ [JOBS] Could not start job ${job.id}:`, error));
+  }
+}
+
+/**
+ * Load the queue from disk after a restart. Jobs that were running continue
+ * from their clone checkpoint; jobs that needed credentials cannot, because
+ * the credentials were only held in memory.
+ */
+export function restoreJobs() {
+  restoring ??= loadJobs();
+  return restoring;
+}
+
+async function loadJobs() {
+  const files = await fs.readdir(STORE_DIR).catch(() => []);
+  const cutoff = Date.now() - KEEP_FINISHED_MS;
+  let requeued = 0;
+
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    let job;
+    try {
+      job = JSON.parse(await fs.readFile(path.join(STORE_DIR, file), 'utf8'));
+    } catch {
+      continue;
+    }
+
+    if (!ACTIVE.includes(job.status)) {
+      if (new Date(job.finishedAt || job.updatedAt).getTime() < cutoff) {
+        await fs.unlink(path.join(STORE_DIR, file)).catch(() => {});
+      } else {
+        jobs.set(job.id, job);
+      }
+      continue;
+    }
+
+    jobs.set(job.id, job);
+    if (job.authenticated) {
+      await finish(job, 'error', 'Interrupted', 'The server restarted and the login credentials were not kept. Resume the clone from the dashboard.');
+    } else {
+      await update(job, { status: 'queued', step: 'Waiting to resume' });
+      requeued++;
+    }
+  }
+
+  console.log(`📋 [JOBS] Restored ${jobs.size} jobs, ${requeued} queued to resume`);
+  schedule();
+}
+
+async function authenticate(req) {
+  const header = req.headers.authorization || '';
+  // EventSource cannot send headers, so the events stream takes the token as a query parameter
+  const token = header.startsWith('Bearer ') ? header.slice(7) : req.query?.access_token;
+  if (!token) {
+    throw httpError(401, 'Sign in to use clone jobs');
+  }
+
+  const supabase = serviceClient();
+  if (!supabase) {
+    throw httpError(503, 'SUPABASE_SERVICE_ROLE_KEY is required to run clone jobs');
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw httpError(401, 'Invalid or expired session');
+  }
+  return data.user.id;
+}
+
+function getOwnJob(id, userId) {
+  const job = ID_PATTERN.test(id || '') ? jobs.get(id) : null;
+  if (!job || job.userId !== userId) {
+    throw httpError(404, 'Job not found');
+  }
+  return job;
+}
+
+async function createJob(req, userId) {
+  const body = req.body || {};
+  const options = { ...(body.options || {}) };
+  delete options.files;
+  delete options.auth;
+  delete options.signal;
+  delete options.onProgress;
+  delete options.projectId;
+
+  if (options.type !== 'url' || typeof options.source !== 'string' || !options.source) {
+    throw httpError(400, 'Only URL clones can run on the server; clone uploads in the browser');
+  }
+  if (!await isRunnerBuilt()) {
+    throw httpError(503, 'Server clones need the dist-ssr build (npm run build); clone in the browser instead');
+  }
+
+  const active = [...jobs.values()].filter(job => job.userId === userId && ACTIVE.includes(job.status));
+  if (active.length >= MAX_ACTIVE_PER_USER) {
+    throw httpError(429, `You already have ${active.length} clones in progress`);
+  }
+
+  const job = {
+    id: crypto.randomUUID(),
+    userId,
+    source: options.source,
+    options,
+    authenticated: Boolean(body.auth),
+    status: 'queued',
+    progress: 0,
+    step: 'Queued',
+    createdAt: new Date().toISOString(),
+  };
+
+  jobs.set(job.id, job);
+  if (body.auth) credentials.set(job.id, body.auth);
+  await persist(job);
+  console.log(`📥 [JOBS] Queued job ${job.id} for ${job.source}`);
+  schedule();
+  return job;
+}
+
+function streamEvents(req, res, job) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  if (!ACTIVE.includes(job.status)) {
+    res.end(`event: done\ndata: ${JSON.stringify(toStatus(job))}\n\n`);
+    return;
+  }
+
+  res.write(`event: progress\ndata: ${JSON.stringify(toStatus(job))}\n\n`);
+  if (!listeners.has(job.id)) listeners.set(job.id, new Set());
+  listeners.get(job.id).add(res);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    listeners.get(job.id)?.delete(res);
+  });
+}
+
+async function cancelJob(job) {
+  if (job.status === 'queued') {
+    await finish(job, 'cancelled', 'Cancelled');
+  } else if (job.status === 'running') {
+    // The worker saves a checkpoint and reports back as cancelled
+    workers.get(job.id)?.send({ type: 'cancel' });
+    await update(job, { step: 'Cancelling' });
+  }
+}
+
+export default async function handler(req, res) {
+  try {
+    await restoreJobs();
+    const userId = await authenticate(req);
+    const id = req.params?.id;
+
+    if (!id) {
+      if (req.method === 'POST') {
+        return res.status(202).json(toStatus(await createJob(req, userId)));
+      }
+      if (req.method === 'GET') {
+        const own = [...jobs.values()]
+          .filter(job => job.userId === userId)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        return res.status(200).json({ jobs: own.map(toStatus), available: await isRunnerBuilt() });
+      }
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const job = getOwnJob(id, userId);
+
+    if (req.method === 'GET' && req.path.endsWith('/events')) {
+      return streamEvents(req, res, job);
+    }
+    if (req.method === 'GET') {
+      return res.status(200).json(toStatus(job));
+    }
+    if (req.method === 'DELETE') {
+      await cancelJob(job);
+      return res.status(202).json(toStatus(job));
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (!error.status) console.error('❌ [JOBS] Request failed:', error);
+    return res.status(error.status || 500).json({
+      error: 'Clone job request failed',
+      message: error.message,
+    });
+  }
+}
@@ -0,0 +1,164 @@
+import lighthouse, { desktopConfig } from 'lighthouse';
+import { computeMedianRun } from 'lighthouse/core/lib/median-run.js';
+import { acquireExclusiveBrowser } from './browser-pool.js';
+
+/**
+ * Lighthouse audits on a pooled Chromium. The browser is leased exclusively
+ * so no capture competes for the CPU mid-audit. Several URLs in one request
+ * are audited in turns (A, B, A, B, ...) on the same browser with the same
+ * settings, and each URL reports its median run, so a before/after
+ * comparison measures the pages rather than the machine.
+ */
+
+export const config = {
+  maxDuration: 300,
+};
+
+const CATEGORIES = ['performance', 'accessibility', 'best-practices', 'seo'];
+const FORM_FACTORS = ['mobile', 'desktop'];
+const MAX_URLS = 2;
+const MAX_RUNS = Number(process.env.LIGHTHOUSE_MAX_RUNS) || 5;
+const MAX_OPPORTUNITIES = 10;
+const MAX_DIAGNOSTICS = 10;
+
+const score = category => Math.round((category?.score ?? 0) * 100);
+const numeric = (lhr, id) => lhr.audits[id]?.numericValue ?? 0;
+// Lighthouse descriptions end with "[Learn more](https://...)" links
+const plainText = markdown => (markdown || '').replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').trim();
+
+function getImpact(savingsMs) {
+  if (savingsMs >= 1000) return 'high';
+  if (savingsMs >= 300) return 'medium';
+  return 'low';
+}
+
+function getOpportunities(lhr) {
+  return Object.values(lhr.audits)
+    .filter(audit => audit.details?.type === 'opportunity' && audit.score !== null && audit.score < 1)
+    .map(audit => ({
+      title: audit.title,
+      description: plainText(audit.description),
+      savings: Math.round((audit.details.overallSavingsBytes || 0) / 1024),
+      savingsMs: Math.round(audit.details.overallSavingsMs || 0),
+      impact: getImpact(audit.details.overallSavingsMs || 0),
+    }))
+    .filter(opportunity => opportunity.savings > 0 || opportunity.savingsMs > 0)
+    .sort((a, b) => b.savingsMs - a.savingsMs || b.savings - a.savings)
+    .slice(0, MAX_OPPORTUNITIES);
+}
+
+function getDiagnostics(lhr) {
+  const refs = lhr.categories.performance?.auditRefs || [];
+  return refs
+    .filter(ref => ref.group === 'diagnostics')
+    .map(ref => lhr.audits[ref.id])
+    .filter(audit => audit && audit.score !== null && audit.score < 1 && audit.displayValue)
+    .map(audit => ({
+      title: audit.title,
+      description: plainText(audit.description),
+      value: audit.displayValue,
+    }))
+    .slice(0, MAX_DIAGNOSTICS);
+}
+
+/**
+ * Shape a Lighthouse result like the LighthouseResults the app stores
+ */
+function toResults(lhr, formFactor, runs) {
+  return {
+    source: 'local',
+    formFactor,
+    runs,
+    lighthouseVersion: lhr.lighthouseVersion,
+    fetchedAt: lhr.fetchTime,
+    performanceScore: score(lhr.categories.performance),
+    accessibilityScore: score(lhr.categories.accessibility),
+    bestPracticesScore: score(lhr.categories['best-practices']),
+    seoScore: score(lhr.categories.seo),
+    metrics: {
+      lcp: Math.round(numeric(lhr, 'largest-contentful-paint')),
+      fcp: Math.round(numeric(lhr, 'first-contentful-paint')),
+      cls: Number(numeric(lhr, 'cumulative-layout-shift').toFixed(3)),
+      // A page load has no interactions; the longest task's potential delay stands in for INP
+      inp: Math.round(numeric(lhr, 'max-potential-fid')),
+      tbt: Math.round(numeric(lhr, 'total-blocking-time')),
+      speedIndex: Math.round(numeric(lhr, 'speed-index')),
+      tti: Math.round(numeric(lhr, 'interactive')),
+      ttfb: Math.round(numeric(lhr, 'server-response-time')),
+    },
+    opportunities: getOpportunities(lhr),
+    diagnostics: getDiagnostics(lhr),
+  };
+}
+
+function isAuditableUrl(value) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { url, urls = url ? [url] : [], formFactor = 'mobile', runs = 1 } = req.body;
+
+  if (!Array.isArray(urls) || urls.length === 0 || urls.length > MAX_URLS || !urls.every(isAuditableUrl)) {
+    return res.status(400).json({ error: `Between 1 and ${MAX_URLS} http(s) URLs are required` });
+  }
+  if (!FORM_FACTORS.includes(formFactor)) {
+    return res.status(400).json({ error: `Unknown form factor "${formFactor}", expected one of: ${FORM_FACTORS.join(', ')}` });
+  }
+  const runCount = Math.min(Math.max(1, Math.floor(Number(runs)) || 1), MAX_RUNS);
+
+  let lease;
+
+  try {
+    console.log(`🔦 [LIGHTHOUSE] Auditing ${urls.join(' and ')} (${formFactor}, ${runCount} run(s) each)`);
+    const startTime = Date.now();
+    lease = await acquireExclusiveBrowser();
+
+    const flags = {
+      port: lease.debuggingPort,
+      logLevel: 'error',
+      output: 'json',
+      onlyCategories: CATEGORIES,
+    };
+    const lighthouseConfig = formFactor === 'desktop' ? desktopConfig : undefined;
+    const runsByUrl = urls.map(() => []);
+
+    for (let run = 0; run < runCount; run++) {
+      for (const [index, target] of urls.entries()) {
+        const result = await lighthouse(target, flags, lighthouseConfig);
+        if (!result?.lhr) {
+          throw new Error(`Lighthouse returned no result for ${target}`);
+        }
+        if (result.lhr.runtimeError) {
+          throw new Error(`Lighthouse could not audit ${target}: ${result.lhr.runtimeError.message}`);
+        }
+        runsByUrl[index].push(result.lhr);
+      }
+    }
+
+    await lease.release();
+
+    const results = runsByUrl.map(lhrs => toResults(computeMedianRun(lhrs), formFactor, lhrs.length));
+    console.log(`✅ [LIGHTHOUSE] Finished in ${Date.now() - startTime}ms: performance ${results.map(result => result.performanceScore).join(' / ')}`);
+
+    return res.status(200).json({ results });
+  } catch (error) {
+    console.error('❌ [LIGHTHOUSE] Audit failed:', error);
+
+    if (lease) {
+      await lease.release();
+    }
+
+    return res.status(500).json({
+      error: 'Lighthouse audit failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
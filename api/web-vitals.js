@@ -0,0 +1,364 @@
+import { acquireContext } from './browser-pool.js';
+import { getAuthContextOptions, installAuthHeaders } from './capture.js';
+
+/**
+ * Lab measurement of Core Web Vitals. Loads the page in a fresh context
+ * with the network and CPU throttled like Lighthouse's presets, records the
+ * browser's own performance entries with PerformanceObserver, clicks an
+ * inert spot of the page once so INP has an interaction, and returns the raw
+ * entries. Scoring happens in WebVitalsService.
+ */
+
+export const config = {
+  maxDuration: 120,
+};
+
+const THROTTLING_PROFILES = {
+  mobile: {
+    label: 'Mobile, Slow 4G, 4x CPU slowdown',
+    latencyMs: 150,
+    downloadKbps: 1638.4,
+    uploadKbps: 750,
+    cpuSlowdown: 4,
+    context: {
+      viewport: { width: 412, height: 823 },
+      deviceScaleFactor: 1.75,
+      isMobile: true,
+      hasTouch: true,
+      userAgent: 'Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Mobile Safari/537.36',
+    },
+  },
+  desktop: {
+    label: 'Desktop, cable connection, no CPU slowdown',
+    latencyMs: 40,
+    downloadKbps: 10240,
+    uploadKbps: 10240,
+    cpuSlowdown: 1,
+    context: {
+      viewport: { width: 1350, height: 940 },
+      deviceScaleFactor: 1,
+    },
+  },
+};
+
+const NAVIGATION_TIMEOUT_MS = 60000;
+const QUIET_WINDOW_MS = 5000; // TTI needs this long without a long task
+const MAX_SETTLE_MS = 20000;
+const INTERACTION_SETTLE_MS = 1000;
+
+/**
+ * Installed before any page script runs. Entries land on window.__webVitals
+ * and are read back with readVitals().
+ */
+function observeVitals() {
+  const selectorFor = (node) => {
+    const parts = [];
+    let element = node && node.nodeType === Node.ELEMENT_NODE ? node : node?.parentElement;
+    while (element && element.nodeType === Node.ELEMENT_NODE && parts.length < 4) {
+      let part = element.localName;
+      if (element.id) {
+        parts.unshift(`${part}#${CSS.escape(element.id)}`);
+        break;
+      }
+      const classes = Array.from(element.classList).slice(0, 2).map(name => `.${CSS.escape(name)}`).join('');
+      part += classes;
+      parts.unshift(part);
+      if (element.localName === 'body') break;
+      element = element.parentElement;
+    }
+    return parts.join(' > ') || '(unknown)';
+  };
+  const rect = r => ({ x: Math.round(r.x), y: Math.round(r.y), width: Math.round(r.width), height: Math.round(r.height) });
+
+  const store = window.__webVitals = {
+    fcp: undefined,
+    lcp: undefined,
+    layoutShifts: [],
+    longTasks: [],
+    longAnimationFrames: [],
+    interactions: {},
+  };
+
+  const observe = (type, onEntry, options = {}) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(onEntry)).observe({ type, buffered: true, ...options });
+    } catch {
+      // Entry type not supported by this browser
+    }
+  };
+
+  observe('paint', (entry) => {
+    if (entry.name === 'first-contentful-paint') store.fcp = entry.startTime;
+  });
+
+  observe('largest-contentful-paint', (entry) => {
+    store.lcp = {
+      startTime: entry.startTime,
+      renderTime: entry.renderTime,
+      loadTime: entry.loadTime,
+      size: entry.size,
+      url: entry.url || undefined,
+      element: entry.element ? selectorFor(entry.element) : undefined,
+    };
+  });
+
+  observe('layout-shift', (entry) => {
+    if (entry.hadRecentInput) return;
+    store.layoutShifts.push({
+      value: entry.value,
+      startTime: entry.startTime,
+      sources: (entry.sources || []).map(source => ({
+        element: source.node ? selectorFor(source.node) : '(removed)',
+        previousRect: rect(source.previousRect),
+        currentRect: rect(source.currentRect),
+      })),
+    });
+  });
+
+  observe('longtask', (entry) => {
+    const attribution = entry.attribution?.[0];
+    store.longTasks.push({
+      startTime: entry.startTime,
+      duration: entry.duration,
+      container: attribution?.containerSrc || attribution?.containerName || undefined,
+    });
+  });
+
+  // Long animation frames say which scripts made a task long
+  observe('long-animation-frame', (entry) => {
+    store.longAnimationFrames.push({
+      startTime: entry.startTime,
+      duration: entry.duration,
+      blockingDuration: entry.blockingDuration,
+      scripts: (entry.scripts || []).map(script => ({
+        sourceUrl: script.sourceURL,
+        sourceFunctionName: script.sourceFunctionName || undefined,
+        invoker: script.invoker || undefined,
+        duration: script.duration,
+      })),
+    });
+  });
+
+  observe('event', (entry) => {
+    if (!entry.interactionId) return;
+    const previous = store.interactions[entry.interactionId];
+    if (previous && previous.duration >= entry.duration) return;
+    store.interactions[entry.interactionId] = {
+      duration: entry.duration,
+      eventType: entry.name,
+      target: entry.target ? selectorFor(entry.target) : '(unknown)',
+      startTime: entry.startTime,
+    };
+  }, { durationThreshold: 16 });
+}
+
+/**
+ * Runs in the page after load. Self-contained like observeVitals, so the
+ * helpers live inside it.
+ */
+function readVitals() {
+  /**
+   * Visual progress in the style of RUM SpeedIndex: the viewport's text and
+   * backgrounds count as painted at FCP, each visible image when its response
+   * finished.
+   */
+  function measureVisualProgress(fcp) {
+    const viewportArea = innerWidth * innerHeight;
+    const responseEnd = new Map(performance.getEntriesByType('resource').map(entry => [entry.name, entry.responseEnd]));
+    const paints = [];
+    let imageArea = 0;
+
+    const visibleArea = (element) => {
+      const box = element.getBoundingClientRect();
+      const width = Math.min(box.right, innerWidth) - Math.max(box.left, 0);
+      const height = Math.min(box.bottom, innerHeight) - Math.max(box.top, 0);
+      return width > 0 && height > 0 ? width * height : 0;
+    };
+
+    for (const element of Array.from(document.querySelectorAll('body *')).slice(0, 5000)) {
+      let url;
+      if (element instanceof HTMLImageElement) {
+        url = element.currentSrc || element.src;
+      } else if (element instanceof HTMLVideoElement) {
+        url = element.poster;
+      } else {
+        url = getComputedStyle(element).backgroundImage.match(/url\(["']?([^"')]+)["']?\)/)?.[1];
+      }
+      if (!url) continue;
+      const area = visibleArea(element);
+      if (area === 0) continue;
+      const absolute = new URL(url, location.href).href;
+      paints.push({ time: Math.max(fcp, responseEnd.get(absolute) ?? fcp), area });
+      imageArea += area;
+    }
+
+    paints.push({ time: fcp, area: Math.max(viewportArea - imageArea, viewportArea * 0.1) });
+    const total = paints.reduce((sum, paint) => sum + paint.area, 0);
+    const progress = [];
+    let painted = 0;
+    for (const paint of paints.sort((a, b) => a.time - b.time)) {
+      painted += paint.area;
+      const point = { timestamp: Math.round(paint.time), progress: Math.round((painted / total) * 100) };
+      if (progress.length && progress[progress.length - 1].timestamp === point.timestamp) {
+        progress[progress.length - 1] = point;
+      } else {
+        progress.push(point);
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * First moment after `from` with at most two requests in flight for the
+   * next five seconds
+   */
+  function findNetworkQuiet(from) {
+    const requests = [performance.getEntriesByType('navigation')[0], ...performance.getEntriesByType('resource')]
+      .filter(Boolean)
+      .map(entry => ({ start: entry.startTime, end: entry.responseEnd || entry.startTime }));
+    const candidates = [from, ...requests.map(request => request.end).filter(end => end > from)].sort((a, b) => a - b);
+    return candidates.find(time => requests.filter(request => request.start < time + 5000 && request.end > time).length <= 2);
+  }
+
+  const store = window.__webVitals;
+  const navigation = performance.getEntriesByType('navigation')[0];
+  const fcp = store.fcp;
+  return {
+    navigation: {
+      responseStart: navigation ? navigation.responseStart : 0,
+      domContentLoaded: navigation ? navigation.domContentLoadedEventEnd : 0,
+      load: navigation ? navigation.loadEventEnd : 0,
+    },
+    fcp,
+    lcp: store.lcp,
+    layoutShifts: store.layoutShifts,
+    longTasks: store.longTasks,
+    longAnimationFrames: store.longAnimationFrames,
+    interactions: Object.values(store.interactions),
+    visualProgress: fcp !== undefined ? measureVisualProgress(fcp) : [],
+    networkQuiet: findNetworkQuiet(fcp || 0),
+  };
+}
+
+async function applyThrottling(context, page, throttling) {
+  const client = await context.newCDPSession(page);
+  await client.send('Network.enable');
+  await client.send('Network.emulateNetworkConditions', {
+    offline: false,
+    latency: throttling.latencyMs,
+    downloadThroughput: (throttling.downloadKbps * 1024) / 8,
+    uploadThroughput: (throttling.uploadKbps * 1024) / 8,
+  });
+  await client.send('Emulation.setCPUThrottlingRate', { rate: throttling.cpuSlowdown });
+}
+
+/**
+ * Wait until no long task ran for QUIET_WINDOW_MS, so TTI and TBT see the
+ * whole start-up, or give up after MAX_SETTLE_MS
+ */
+async function waitForQuietMainThread(page) {
+  const deadline = Date.now() + MAX_SETTLE_MS;
+  while (Date.now() < deadline) {
+    const quietFor = await page.evaluate(() => {
+      const tasks = window.__webVitals.longTasks;
+      const lastEnd = tasks.length ? Math.max(...tasks.map(task => task.startTime + task.duration)) : 0;
+      return performance.now() - lastEnd;
+    });
+    if (quietFor >= QUIET_WINDOW_MS) return;
+    await page.waitForTimeout(Math.min(QUIET_WINDOW_MS - quietFor, deadline - Date.now()) + 50);
+  }
+}
+
+/**
+ * Click somewhere that is not a link or a control, so the interaction
+ * cannot navigate away or submit anything
+ */
+async function interactSafely(page) {
+  const point = await page.evaluate(() => {
+    const inert = element => element && !element.closest(
+      'a, button, input, select, textarea, label, summary, iframe, video, audio, [onclick], [role="button"], [role="link"], [contenteditable=""], [contenteditable="true"]'
+    );
+    const candidates = [[0.5, 0.5], [0.5, 0.2], [0.1, 0.5], [0.9, 0.5], [0.5, 0.8]];
+    for (const [fx, fy] of candidates) {
+      const x = Math.round(innerWidth * fx);
+      const y = Math.round(innerHeight * fy);
+      if (inert(document.elementFromPoint(x, y))) return { x, y };
+    }
+    return null;
+  });
+  if (!point) return false;
+
+  const startUrl = page.url();
+  await page.mouse.click(point.x, point.y);
+  await page.waitForTimeout(INTERACTION_SETTLE_MS);
+  return page.url() === startUrl;
+}
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { url, profile = 'mobile', auth = null } = req.body;
+
+  if (!url) {
+    return res.status(400).json({ error: 'URL is required' });
+  }
+  const settings = THROTTLING_PROFILES[profile];
+  if (!settings) {
+    return res.status(400).json({ error: `Unknown throttling profile "${profile}", expected one of: ${Object.keys(THROTTLING_PROFILES).join(', ')}` });
+  }
+  const { context: contextOptions, ...throttling } = settings;
+
+  let lease;
+
+  try {
+    console.log(`⏱️  [VITALS] Measuring ${url} (${throttling.label})`);
+    const startTime = Date.now();
+
+    lease = await acquireContext({ ...contextOptions, ...getAuthContextOptions(auth, url) });
+    const { context } = lease;
+    await installAuthHeaders(context, auth, url);
+    if (auth?.cookies?.length) {
+      await context.addCookies(auth.cookies.map(cookie => ({ ...cookie, path: cookie.path || '/' })));
+    }
+
+    await context.addInitScript(observeVitals);
+    const page = await context.newPage();
+    await applyThrottling(context, page, throttling);
+
+    await page.goto(url, { waitUntil: 'load', timeout: NAVIGATION_TIMEOUT_MS });
+    await waitForQuietMainThread(page);
+
+    // LCP stops at the first input, so it is read before the interaction
+    const vitals = await page.evaluate(readVitals);
+    const interacted = await interactSafely(page).catch(() => false);
+    if (interacted) {
+      vitals.interactions = await page.evaluate(() => Object.values(window.__webVitals.interactions));
+    }
+
+    await lease.release();
+
+    console.log(`✅ [VITALS] Measured in ${Date.now() - startTime}ms: LCP ${Math.round(vitals.lcp?.startTime ?? 0)}ms, ` +
+      `${vitals.layoutShifts.length} layout shifts, ${vitals.longTasks.length} long tasks, ${vitals.interactions.length} interactions`);
+
+    return res.status(200).json({
+      url,
+      profile,
+      throttling,
+      measuredAt: new Date().toISOString(),
+      ...vitals,
+    });
+  } catch (error) {
+    console.error('❌ [VITALS] Measurement failed:', error);
+
+    if (lease) {
+      await lease.release();
+    }
+
+    return res.status(500).json({
+      error: 'Failed to measure Web Vitals',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
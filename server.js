@@ -40,12 +40,21 @@ app.use((req, res, next) => {
 app.use(express.json());
 
 // Health check endpoints (must be BEFORE static middleware)
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  let browserPool;
+  try {
+    const { getPoolHealth } = await import('./api/browser-pool.js');
+    browserPool = getPoolHealth();
+  } catch (error) {
+    browserPool = { status: 'unavailable', message: error.message };
+  }
+
   res.status(200).json({
     status: 'ok',
     message: 'Website Cloner Pro API is running',
     timestamp: new Date().toISOString(),
-    uptime: process.uptime()
+    uptime: process.uptime(),
+    browserPool
   });
 });
 
@@ -114,6 +123,104 @@ app.post('/api/is-visible', async (req, res) => {
   }
 });
 
+// API route for lab Core Web Vitals measurement
+app.post('/api/web-vitals', async (req, res) => {
+  try {
+    console.log('📥 Web Vitals request for:', req.body?.url);
+    const { default: measureWebVitals } = await import('./api/web-vitals.js');
+    await measureWebVitals(req, res);
+  } catch (error) {
+    console.error('❌ Web Vitals error:', error);
+    res.status(500).json({
+      error: 'Web Vitals measurement failed',
+      message: error.message
+    });
+  }
+});
+
+// API route for Lighthouse audits on the browser pool
+app.post('/api/lighthouse', async (req, res) => {
+  try {
+    console.log('📥 Lighthouse request for:', req.body?.urls || req.body?.url);
+    const { default: runLighthouse } = await import('./api/lighthouse.js');
+    await runLighthouse(req, res);
+  } catch (error) {
+    console.error('❌ Lighthouse error:', error);
+    res.status(500).json({
+      error: 'Lighthouse audit failed',
+      message: error.message
+    });
+  }
+});
+
+// API route for the self-hosted fetch proxy (GET also answers HEAD)
+app.get('/api/fetch', async (req, res) => {
+  try {
+    const { default: fetchProxy } = await import('./api/fetch.js');
+    await fetchProxy(req, res);
+  } catch (error) {
+    console.error('❌ Fetch proxy error:', error);
+    res.status(500).json({
+      error: 'Fetch proxy failed',
+      message: error.message
+    });
+  }
+});
+
+// API routes for the content-addressed asset store
+app.post('/api/assets/gc', async (req, res) => {
+  try {
+    const { default: assetStore } = await import('./api/assets.js');
+    await assetStore(req, res);
+  } catch (error) {
+    console.error('❌ Asset garbage collection error:', error);
+    res.status(500).json({
+      error: 'Asset garbage collection failed',
+      message: error.message
+    });
+  }
+});
+
+app.post('/api/assets/:hash/touch', async (req, res) => {
+  try {
+    const { default: assetStore } = await import('./api/assets.js');
+    await assetStore(req, res);
+  } catch (error) {
+    console.error('❌ Asset store error:', error);
+    res.status(500).json({
+      error: 'Asset store request failed',
+      message: error.message
+    });
+  }
+});
+
+app.all(['/api/assets/:hash', '/api/assets/:hash/bucket'], express.raw({ type: '*/*', limit: '30mb' }), async (req, res) => {
+  try {
+    const { default: assetStore } = await import('./api/assets.js');
+    await assetStore(req, res);
+  } catch (error) {
+    console.error('❌ Asset store error:', error);
+    res.status(500).json({
+      error: 'Asset store request failed',
+      message: error.message
+    });
+  }
+});
+
+// API routes for server-side clone jobs (progress streams over Server-Sent Events)
+app.all(['/api/jobs', '/api/jobs/:id', '/api/jobs/:id/events'], async (req, res) => {
+  try {
+    const { default: cloneJobs } = await import('./api/jobs.js');
+    await cloneJobs(req, res);
+  } catch (error) {
+    console.error('❌ Clone job error:', error);
+    res.status(500).json({
+      error: 'Clone job request failed',
+      message: error.message
+    });
+  }
+});
+
 // Serve static files from the dist directory
 // This will serve index.html for '/' automatically
 app.use(express.static(join(__dirname, 'dist')));
@@ -141,7 +248,31 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log(`   POST /api/detect-wordpress - Detect WordPress`);
   console.log(`   POST /api/get-style - Get computed style`);
   console.log(`   POST /api/is-visible - Check element visibility`);
-  console.log(`💚 Health check: GET /health`);
+  console.log(`   GET  /api/fetch?url= - Fetch a public URL server-side`);
+  console.log(`   PUT/GET /api/assets/:hash - Store or read an asset by SHA-256`);
+  console.log(`   PUT  /api/assets/:hash/bucket - Store an asset in the Supabase bucket`);
+  console.log(`   POST /api/assets/:hash/touch - Keep a reused asset from garbage collection`);
+  console.log(`   POST /api/assets/gc - Delete unreferenced assets`);
+  console.log(`   POST/GET /api/jobs - Queue or list server-side clone jobs`);
+  console.log(`   GET/DELETE /api/jobs/:id - Job status or cancel`);
+  console.log(`   GET  /api/jobs/:id/events - Stream job progress (SSE)`);
+  console.log(`💚 Health check: GET /health (includes browser pool status)`);
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   console.log('');
+
+  // Pick up clone jobs that were queued or running before a restart
+  import('./api/jobs.js')
+    .then(({ restoreJobs }) => restoreJobs())
+    .catch((error) => console.error('❌ Could not restore clone jobs:', error));
+});
+
+// Close pooled browsers before the platform stops the container
+process.on('SIGTERM', async () => {
+  console.log('🛑 SIGTERM received, closing browser pool...');
+  try {
+    const { closePool } = await import('./api/browser-pool.js');
+    await closePool();
+  } finally {
+    process.exit(0);
+  }
 });
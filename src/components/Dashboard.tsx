@@ -1,17 +1,26 @@
-import { useState, useEffect } from 'react';
-import { Globe, Zap, BarChart3, Download, FileText, Clock, CheckCircle, Terminal, Search, Archive, Trash2, Copy, Workflow } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Globe, Zap, BarChart3, Download, FileText, Clock, CheckCircle, Terminal, Search, Archive, Trash2, Copy, Workflow, Upload, FolderOpen, X, RotateCcw } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
 import { LogViewer } from './dashboard/LogViewer';
+import { SitemapPagePicker } from './clone/SitemapPagePicker';
+import { CloneAuthSettings } from './clone/CloneAuthSettings';
+import { InterceptionSettings } from './clone/InterceptionSettings';
+import { EmulationSettings } from './clone/EmulationSettings';
+import { ExpansionSettings } from './clone/ExpansionSettings';
 import { DonutChart } from './dashboard/DonutChart';
 import { WebsiteInfo } from './dashboard/WebsiteInfo';
 import { ConfirmDialog } from './ui/ConfirmDialog';
 import { Toast } from './ui/Toast';
 import { loggingService } from '../services/LoggingService';
 import { cloneService } from '../services/CloneService';
+import { cloneAuthService } from '../services/CloneAuthService';
+import { cloneJobService } from '../services/CloneJobService';
+import { cloneQueueService } from '../services/CloneQueueService';
 import { useProjectStore } from '../stores/projectStore';
 import { WordPressDetectionBadge } from './wordpress/WordPressDetectionBadge';
+import type { CloneAuth, CloneJobStatus, CloneOptions, CloneProject, EmulationProfile, ExpansionOptions, InterceptionRules, ShadowDomMode, WebVitalsProfile } from '../types';
 
 interface DashboardProps {
   initialUrl?: string;
@@ -20,7 +29,13 @@ interface DashboardProps {
 export function Dashboard({ initialUrl }: DashboardProps) {
   const navigate = useNavigate();
   const [url, setUrl] = useState(initialUrl || '');
+  const [uploadFiles, setUploadFiles] = useState<File[]>([]);
   const [isCloning, setIsCloning] = useState(false);
+  const [cloneController, setCloneController] = useState<AbortController | null>(null);
+  const [resumableIds, setResumableIds] = useState<string[]>([]);
+  const [runOnServer, setRunOnServer] = useState(false);
+  const [serverClonesAvailable, setServerClonesAvailable] = useState(false);
+  const [serverJobs, setServerJobs] = useState<CloneJobStatus[]>([]);
   const [showLogs, setShowLogs] = useState(false);
   const [showArchived, setShowArchived] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; projectId: string | null }>({ isOpen: false, projectId: null });
@@ -30,6 +45,7 @@ export function Dashboard({ initialUrl }: DashboardProps) {
 
   // Analysis checkbox states
   const [performanceChecked, setPerformanceChecked] = useState(true); // Default checked
+  const [vitalsProfile, setVitalsProfile] = useState<WebVitalsProfile>('mobile');
   const [seoChecked, setSeoChecked] = useState(false);
   const [securityChecked, setSecurityChecked] = useState(false);
   const [technologyChecked, setTechnologyChecked] = useState(false);
@@ -45,28 +61,84 @@ export function Dashboard({ initialUrl }: DashboardProps) {
     captureAnimations: false,
     captureStyleAnalysis: false,
     captureNavigation: false,
+    followLinks: false,
+    dismissPopups: true,
   });
+  const [selectedPages, setSelectedPages] = useState<string[]>([]);
+  const [thirdPartyScripts, setThirdPartyScripts] = useState<'keep' | 'localize' | 'strip'>('keep');
+  const [shadowDom, setShadowDom] = useState<ShadowDomMode>('declarative');
+  const [captureFrames, setCaptureFrames] = useState(true);
+  const [cloneAuth, setCloneAuth] = useState<{ auth?: CloneAuth; remember: boolean }>({ remember: false });
+  const [interception, setInterception] = useState<InterceptionRules | undefined>(undefined);
+  const [expansion, setExpansion] = useState<ExpansionOptions | false | undefined>(undefined);
+  const [emulation, setEmulation] = useState<{ main?: EmulationProfile; snapshots: EmulationProfile[] }>({ snapshots: [] });
+  const previousInterception = projects.find(project => project.source === url && project.metadata?.interception)?.metadata?.interception?.rules;
 
   useEffect(() => {
     loadProjects();
+    cloneJobService.listResumable().then(setResumableIds);
+    cloneQueueService.isAvailable().then(setServerClonesAvailable);
   }, [loadProjects]);
 
+  const followServerJob = useCallback((jobId: string) => cloneQueueService.subscribe(
+    jobId,
+    job => setServerJobs(jobs => jobs.map(current => current.id === job.id ? job : current)),
+    async job => {
+      setServerJobs(jobs => jobs.filter(current => current.id !== job.id));
+      await loadProjects();
+      setResumableIds(await cloneJobService.listResumable());
+      setToast({
+        show: true,
+        title: job.status === 'completed' ? 'Server Clone Finished' : job.status === 'cancelled' ? 'Server Clone Cancelled' : 'Server Clone Failed',
+        message: `${job.source}\n\n${job.error || job.step}`,
+        type: job.status === 'completed' ? 'success' : job.status === 'cancelled' ? 'info' : 'error'
+      });
+    }
+  ), [loadProjects]);
+
+  // Pick up server clones that are still running from an earlier visit
+  useEffect(() => {
+    const subscriptions: Array<{ close: () => void }> = [];
+    cloneQueueService.list()
+      .then(jobs => {
+        const active = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+        setServerJobs(active);
+        active.forEach(job => followServerJob(job.id).then(sub => subscriptions.push(sub)));
+      })
+      .catch(error => loggingService.warning('clone', 'Could not load server clone jobs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }));
+    return () => subscriptions.forEach(sub => sub.close());
+  }, [followServerJob]);
+
   useEffect(() => {
     if (initialUrl) {
       setUrl(initialUrl);
     }
   }, [initialUrl]);
 
+  const handleCancelServerJob = async (jobId: string) => {
+    try {
+      const job = await cloneQueueService.cancel(jobId);
+      setServerJobs(jobs => jobs.map(current => current.id === job.id ? job : current));
+    } catch (error) {
+      alert(`Failed to cancel clone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleAnalyze = async () => {
     console.log('handleAnalyze called, URL:', url);
 
-    if (!url.trim()) {
+    const isUpload = uploadFiles.length > 0;
+    const sourceLabel = isUpload ? uploadFiles[0].webkitRelativePath.split('/')[0] || uploadFiles[0].name : url;
+
+    if (!url.trim() && !isUpload) {
       console.log('URL is empty, returning');
       return;
     }
 
     // Check if Convert to GHL is selected - redirect to converter page
-    if (convertToGHLChecked) {
+    if (convertToGHLChecked && !isUpload) {
       const encodedUrl = encodeURIComponent(url);
       navigate(`/ghl-converter?url=${encodedUrl}`);
       return;
@@ -89,8 +161,8 @@ export function Dashboard({ initialUrl }: DashboardProps) {
 
     try {
       setIsCloning(true);
-      console.log('Starting analysis for:', url);
-      loggingService.info('analyze', `Starting analysis for ${url}`, {
+      console.log('Starting analysis for:', sourceLabel);
+      loggingService.info('analyze', `Starting analysis for ${sourceLabel}`, {
         performance: performanceChecked,
         seo: seoChecked,
         security: securityChecked,
@@ -99,9 +171,17 @@ export function Dashboard({ initialUrl }: DashboardProps) {
         convertToGHL: convertToGHLChecked
       });
 
-      const project = await cloneService.cloneWebsite({
-        source: url,
-        type: 'url',
+      const controller = new AbortController();
+      setCloneController(controller);
+
+      if (!isUpload && cloneAuth.auth && cloneAuth.remember) {
+        cloneAuthService.save(url, cloneAuth.auth);
+      }
+
+      const options: CloneOptions = {
+        source: isUpload ? sourceLabel : url,
+        type: isUpload ? 'upload' : 'url',
+        files: isUpload ? uploadFiles : undefined,
         // Use selected clone options if clone checkbox is selected, otherwise use defaults for analysis
         includeAssets: cloneChecked ? cloneOptions.includeAssets : (performanceChecked || seoChecked || securityChecked || technologyChecked),
         useBrowserAutomation: cloneChecked ? cloneOptions.useBrowserAutomation : (performanceChecked || seoChecked || securityChecked || technologyChecked),
@@ -110,41 +190,117 @@ export function Dashboard({ initialUrl }: DashboardProps) {
         captureAnimations: cloneChecked ? cloneOptions.captureAnimations : false,
         captureStyleAnalysis: cloneChecked ? cloneOptions.captureStyleAnalysis : false,
         captureNavigation: cloneChecked ? cloneOptions.captureNavigation : false,
+        followLinks: cloneChecked ? cloneOptions.followLinks : false,
+        dismissPopups: cloneChecked ? cloneOptions.dismissPopups : true,
+        depth: 1,
+        pages: cloneChecked && selectedPages.length > 0 ? selectedPages : undefined,
+        thirdPartyScripts: cloneChecked ? thirdPartyScripts : 'keep',
+        auth: isUpload ? undefined : cloneAuth.auth,
+        interception: cloneChecked && !isUpload ? interception : undefined,
+        emulation: cloneChecked && !isUpload ? emulation.main : undefined,
+        snapshotProfiles: cloneChecked && !isUpload && emulation.snapshots.length > 0 ? emulation.snapshots : undefined,
+        expansion: cloneChecked && !isUpload ? expansion : undefined,
+        shadowDom: cloneChecked ? shadowDom : 'declarative',
+        captureFrames: cloneChecked ? captureFrames : true,
+        signal: controller.signal,
         // Pass analysis options
         performanceAnalysis: performanceChecked,
+        vitalsProfile,
         seoAnalysis: seoChecked,
         securityScan: securityChecked,
         technologyDetection: technologyChecked,
         onProgress: (progress, step) => {
           console.log(`Analysis progress: ${progress}% - ${step}`);
         }
-      });
+      };
+
+      // URL clones run on the server and keep going when this tab is closed
+      if (!isUpload && runOnServer && serverClonesAvailable) {
+        const job = await cloneQueueService.submit(options);
+        setServerJobs(jobs => [job, ...jobs]);
+        await followServerJob(job.id);
+        setToast({
+          show: true,
+          title: 'Clone Queued',
+          message: `${sourceLabel}\n\nIt runs on the server, so you can close this tab and find the project here when it is done.`,
+          type: 'info'
+        });
+        return;
+      }
+
+      const project = await cloneService.cloneWebsite(options);
 
       console.log('Analysis completed, project:', project);
-      loggingService.success('analyze', `Analysis completed for ${url}`, { projectId: project.id });
+      loggingService.success('analyze', `Analysis completed for ${sourceLabel}`, { projectId: project.id });
 
       console.log('Reloading projects from database...');
       await loadProjects();
+      setResumableIds(await cloneJobService.listResumable());
       console.log('Projects reloaded, current project count:', projects.length);
 
       setCurrentProject(project);
 
+      if (project.status === 'cancelled') {
+        setToast({
+          show: true,
+          title: 'Analysis Cancelled',
+          message: `${sourceLabel}\n\n${project.currentStep}. Use Resume in Recent Projects to pick up where it stopped.`,
+          type: 'info'
+        });
+        return;
+      }
+
       setToast({
         show: true,
         title: 'Website Analyzed Successfully!',
-        message: `${url}\n\nPerformance Score: ${project.originalScore || 'N/A'}\n\nView it in the Recent Projects section below.`,
+        message: `${sourceLabel}\n\nPerformance Score: ${project.originalScore || 'N/A'}\n\nView it in the Recent Projects section below.`,
         type: 'success'
       });
     } catch (error) {
       console.error('Analysis error:', error);
       loggingService.error('analyze', 'Failed to start analysis', {
-        url,
+        url: sourceLabel,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       alert(`Failed to analyze website: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsCloning(false);
+      setCloneController(null);
       setUrl('');
+      setUploadFiles([]);
+      setSelectedPages([]);
+    }
+  };
+
+  const handleResume = async (id: string) => {
+    const controller = new AbortController();
+    setIsCloning(true);
+    setCloneController(controller);
+
+    try {
+      const project = await cloneService.resumeClone(id, {
+        files: uploadFiles.length > 0 ? uploadFiles : undefined,
+        signal: controller.signal,
+      });
+      await loadProjects();
+      setResumableIds(await cloneJobService.listResumable());
+      setCurrentProject(project);
+
+      setToast({
+        show: true,
+        title: project.status === 'completed' ? 'Analysis Resumed and Completed' : 'Analysis Stopped',
+        message: `${getProjectName(project)}\n\n${project.currentStep}`,
+        type: project.status === 'completed' ? 'success' : project.status === 'cancelled' ? 'info' : 'error'
+      });
+    } catch (error) {
+      loggingService.error('analyze', 'Failed to resume analysis', {
+        projectId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      alert(`Failed to resume analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsCloning(false);
+      setCloneController(null);
     }
   };
 
@@ -193,7 +349,7 @@ export function Dashboard({ initialUrl }: DashboardProps) {
   const confirmArchive = async () => {
     if (archiveConfirm.projectId) {
       const project = projects.find(p => p.id === archiveConfirm.projectId);
-      const projectName = project ? new URL(project.source).hostname.replace('www.', '') : 'Project';
+      const projectName = project ? getProjectName(project) : 'Project';
 
       await archiveProject(archiveConfirm.projectId);
       setArchiveConfirm({ isOpen: false, projectId: null });
@@ -209,7 +365,7 @@ export function Dashboard({ initialUrl }: DashboardProps) {
 
   const handleUnarchive = async (id: string) => {
     const project = projects.find(p => p.id === id);
-    const projectName = project ? new URL(project.source).hostname.replace('www.', '') : 'Project';
+    const projectName = project ? getProjectName(project) : 'Project';
 
     await unarchiveProject(id);
 
@@ -228,7 +384,7 @@ export function Dashboard({ initialUrl }: DashboardProps) {
   const confirmDelete = async () => {
     if (deleteConfirm.projectId) {
       const project = projects.find(p => p.id === deleteConfirm.projectId);
-      const projectName = project ? new URL(project.source).hostname.replace('www.', '') : 'Project';
+      const projectName = project ? getProjectName(project) : 'Project';
 
       await deleteProject(deleteConfirm.projectId);
       setDeleteConfirm({ isOpen: false, projectId: null });
@@ -247,7 +403,7 @@ export function Dashboard({ initialUrl }: DashboardProps) {
     .slice(0, 5)
     .map(project => ({
       id: project.id,
-      name: new URL(project.source).hostname.replace('www.', ''),
+      name: getProjectName(project),
       url: project.source,
       status: project.status,
       score: project.originalScore || 0,
@@ -258,13 +414,17 @@ export function Dashboard({ initialUrl }: DashboardProps) {
     .filter(p => p.archived)
     .map(project => ({
       id: project.id,
-      name: new URL(project.source).hostname.replace('www.', ''),
+      name: getProjectName(project),
       url: project.source,
       status: project.status,
       score: project.originalScore || 0,
       date: formatDate(project.createdAt),
     }));
 
+  function getProjectName(project: CloneProject): string {
+    return project.metadata?.upload?.fileName || new URL(project.source).hostname.replace('www.', '');
+  }
+
   function formatDate(date: Date): string {
     const now = new Date();
     const diffMs = now.getTime() - date.getTime();
@@ -279,7 +439,7 @@ export function Dashboard({ initialUrl }: DashboardProps) {
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
-      {showLogs && <LogViewer onClose={() => setShowLogs(false)} />}
+      {showLogs && <LogViewer onClose={() => setShowLogs(false)} projects={projects} />}
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <div className="mb-8 flex items-center justify-between">
@@ -359,20 +519,83 @@ export function Dashboard({ initialUrl }: DashboardProps) {
             </label>
           </div>
 
+          {performanceChecked && (
+            <div className="mb-4 flex items-center gap-2">
+              <label htmlFor="vitals-profile" className="text-xs sm:text-sm text-gray-700">Measure Core Web Vitals as</label>
+              <select
+                id="vitals-profile"
+                value={vitalsProfile}
+                onChange={(e) => setVitalsProfile(e.target.value as WebVitalsProfile)}
+                className="px-2 py-1 text-xs sm:text-sm border border-gray-300 rounded bg-white"
+              >
+                <option value="mobile">Mobile on Slow 4G, 4x slower CPU</option>
+                <option value="desktop">Desktop on cable</option>
+              </select>
+            </div>
+          )}
+
           <div className="flex gap-3">
             <div className="flex-1">
+              {uploadFiles.length > 0 ? (
+                <div className="w-full px-4 py-3 border border-blue-300 bg-blue-50 rounded-lg flex items-center justify-between">
+                  <span className="text-sm text-blue-900 truncate">
+                    <Upload size={16} className="inline mr-2" />
+                    {uploadFiles[0].webkitRelativePath.split('/')[0] || uploadFiles[0].name}
+                    {uploadFiles.length > 1 && ` (${uploadFiles.length} files)`}
+                  </span>
+                  <button
+                    onClick={() => setUploadFiles([])}
+                    className="text-blue-400 hover:text-blue-600 transition-colors"
+                    title="Clear upload"
+                  >
+                    <X size={18} />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  onKeyPress={(e) => e.key === 'Enter' && handleAnalyze()}
+                />
+              )}
+            </div>
+            <label
+              className="flex items-center px-4 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 cursor-pointer transition-colors"
+              title="Upload a ZIP archive, HTML files, or an MHTML/HAR/WARC capture"
+            >
+              <Upload size={18} />
               <input
-                type="url"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                placeholder="https://example.com"
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                onKeyPress={(e) => e.key === 'Enter' && handleAnalyze()}
+                type="file"
+                accept=".zip,.html,.htm,.mhtml,.mht,.har,.warc,.gz,.css,.js,image/*,font/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  setUploadFiles(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
               />
-            </div>
+            </label>
+            <label
+              className="flex items-center px-4 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 cursor-pointer transition-colors"
+              title="Upload a folder"
+            >
+              <FolderOpen size={18} />
+              <input
+                type="file"
+                ref={(el) => el?.setAttribute('webkitdirectory', '')}
+                className="hidden"
+                onChange={(e) => {
+                  setUploadFiles(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
+              />
+            </label>
             <Button
               onClick={handleAnalyze}
-              disabled={!url.trim() || isCloning}
+              disabled={(!url.trim() && uploadFiles.length === 0) || isCloning}
               size="lg"
               className="px-8"
             >
@@ -388,9 +611,56 @@ export function Dashboard({ initialUrl }: DashboardProps) {
                 </>
               )}
             </Button>
+            {cloneController && (
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={() => cloneController.abort()}
+                className="text-red-600 hover:bg-red-50"
+              >
+                <X className="mr-2" size={18} />
+                Cancel
+              </Button>
+            )}
           </div>
+          {serverJobs.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {serverJobs.map(job => (
+                <div key={job.id} className="flex items-center gap-3 px-4 py-2 bg-blue-50 border border-blue-200 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between text-xs text-gray-700 mb-1">
+                      <span className="truncate font-medium">{job.source}</span>
+                      <span className="flex-shrink-0 ml-2">{job.status === 'queued' ? 'Queued' : `${Math.round(job.progress)}%`}</span>
+                    </div>
+                    <div className="w-full bg-blue-100 rounded-full h-1.5">
+                      <div className="bg-blue-600 h-1.5 rounded-full transition-all" style={{ width: `${job.progress}%` }} />
+                    </div>
+                    <div className="text-[10px] text-gray-500 mt-1 truncate">{job.step}</div>
+                  </div>
+                  <button
+                    onClick={() => handleCancelServerJob(job.id)}
+                    className="text-blue-400 hover:text-red-600 transition-colors"
+                    title="Cancel clone"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {serverClonesAvailable && (
+            <label className="flex items-center gap-2 cursor-pointer mt-3">
+              <input
+                type="checkbox"
+                checked={runOnServer}
+                onChange={(e) => setRunOnServer(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-600">Run URL clones on the server (keeps going after you close the browser)</span>
+            </label>
+          )}
           <p className="text-sm text-gray-500 mt-3">
-            Get comprehensive performance analysis, Core Web Vitals, and technology detection
+            Get comprehensive performance analysis, Core Web Vitals, and technology detection, or upload a ZIP, folder, HTML file, or an MHTML/HAR/WARC capture of a site we cannot reach
           </p>
         </Card>
 
@@ -432,6 +702,8 @@ export function Dashboard({ initialUrl }: DashboardProps) {
                         captureAnimations: !allSelected,
                         captureStyleAnalysis: !allSelected,
                         captureNavigation: !allSelected,
+                        followLinks: !allSelected,
+                        dismissPopups: !allSelected,
                       });
                     }}
                     className="text-xs sm:text-sm text-purple-600 hover:text-purple-700 font-medium hover:underline transition-colors"
@@ -524,6 +796,70 @@ export function Dashboard({ initialUrl }: DashboardProps) {
                     <div className="text-[10px] sm:text-xs text-gray-600">Multi-level detection of navigation menus & components (+1 second)</div>
                   </div>
                 </label>
+                <label className="flex items-start gap-2 sm:gap-3 cursor-pointer p-3 sm:p-4 bg-purple-50 rounded-lg hover:bg-purple-100 transition-colors border border-purple-200">
+                  <input
+                    type="checkbox"
+                    checked={cloneOptions.followLinks}
+                    onChange={(e) => setCloneOptions({...cloneOptions, followLinks: e.target.checked})}
+                    className="w-4 h-4 sm:w-5 sm:h-5 mt-0.5 text-purple-600 rounded flex-shrink-0"
+                  />
+                  <div className="flex-1">
+                    <div className="text-xs sm:text-sm text-gray-900 font-medium mb-1">🔗 Clone Linked Pages</div>
+                    <div className="text-[10px] sm:text-xs text-gray-600">Follow same-site links and clone up to 20 pages in one project (shared assets are downloaded once)</div>
+                  </div>
+                </label>
+                <label className="flex items-start gap-2 sm:gap-3 cursor-pointer p-3 sm:p-4 bg-purple-50 rounded-lg hover:bg-purple-100 transition-colors border border-purple-200">
+                  <input
+                    type="checkbox"
+                    checked={cloneOptions.dismissPopups}
+                    onChange={(e) => setCloneOptions({...cloneOptions, dismissPopups: e.target.checked})}
+                    className="w-4 h-4 sm:w-5 sm:h-5 mt-0.5 text-purple-600 rounded flex-shrink-0"
+                  />
+                  <div className="flex-1">
+                    <div className="text-xs sm:text-sm text-gray-900 font-medium mb-1">🍪 Dismiss Cookie Banners & Popups</div>
+                    <div className="text-[10px] sm:text-xs text-gray-600">Reject consent banners (OneTrust, Cookiebot, Complianz, CookieYes…) and close newsletter modals before capturing</div>
+                  </div>
+                </label>
+                <div className="p-3 sm:p-4 bg-purple-50 rounded-lg border border-purple-200">
+                  <div className="text-xs sm:text-sm text-gray-900 font-medium mb-1">📜 Third-Party Scripts</div>
+                  <div className="text-[10px] sm:text-xs text-gray-600 mb-2">Scripts from the cloned site are always downloaded. Choose what happens to scripts served by other domains (analytics, widgets, CDNs).</div>
+                  <select
+                    value={thirdPartyScripts}
+                    onChange={(e) => setThirdPartyScripts(e.target.value as 'keep' | 'localize' | 'strip')}
+                    className="w-full px-2 py-1.5 text-xs sm:text-sm border border-gray-300 rounded bg-white"
+                  >
+                    <option value="keep">Keep - load from the original host</option>
+                    <option value="localize">Localize - download into the clone</option>
+                    <option value="strip">Strip - remove from the clone</option>
+                  </select>
+                </div>
+                <div className="p-3 sm:p-4 bg-purple-50 rounded-lg border border-purple-200">
+                  <div className="text-xs sm:text-sm text-gray-900 font-medium mb-1">🧩 Web Components & Frames</div>
+                  <div className="text-[10px] sm:text-xs text-gray-600 mb-2">Content inside shadow roots and same-origin iframes is kept in browser captures.</div>
+                  <select
+                    value={shadowDom}
+                    onChange={(e) => setShadowDom(e.target.value as ShadowDomMode)}
+                    className="w-full px-2 py-1.5 text-xs sm:text-sm border border-gray-300 rounded bg-white mb-2"
+                  >
+                    <option value="declarative">Declarative shadow DOM - keep components as they are</option>
+                    <option value="flatten">Flatten - move shadow content and its styles into the page</option>
+                    <option value="off">Off - drop shadow root content</option>
+                  </select>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={captureFrames}
+                      onChange={(e) => setCaptureFrames(e.target.checked)}
+                      className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+                    />
+                    <span className="text-[10px] sm:text-xs text-gray-700">Clone same-origin iframes as linked pages</span>
+                  </label>
+                </div>
+                <SitemapPagePicker siteUrl={url} selected={selectedPages} onChange={setSelectedPages} />
+                <CloneAuthSettings siteUrl={url} onChange={(auth, remember) => setCloneAuth({ auth, remember })} />
+                <InterceptionSettings previousRules={previousInterception} onChange={setInterception} />
+                <EmulationSettings onChange={(main, snapshots) => setEmulation({ main, snapshots })} />
+                <ExpansionSettings onChange={setExpansion} />
                 </div>
               </div>
 
@@ -662,6 +998,17 @@ export function Dashboard({ initialUrl }: DashboardProps) {
                         </div>
 
                         <div className="flex gap-2 flex-wrap">
+                          {resumableIds.includes(project.id) && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleResume(project.id)}
+                              disabled={isCloning}
+                              title={fullProject?.type === 'upload' ? 'Select the uploaded files again before resuming' : undefined}
+                            >
+                              <RotateCcw size={16} className="mr-2" />
+                              Resume
+                            </Button>
+                          )}
                           <Button
                             size="sm"
                             onClick={() => {
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Button } from '../ui/Button';
+import { cloneAuthService } from '../../services/CloneAuthService';
+import type { CloneAuth, LoginStep } from '../../types';
+
+export interface CloneAuthSettingsProps {
+  siteUrl: string;
+  onChange: (auth: CloneAuth | undefined, remember: boolean) => void;
+}
+
+interface AuthFields {
+  username: string;
+  password: string;
+  headers: string;
+  cookies: string;
+  loginSteps: string;
+  remember: boolean;
+}
+
+const EMPTY_FIELDS: AuthFields = { username: '', password: '', headers: '', cookies: '', loginSteps: '', remember: false };
+
+const LOGIN_PLACEHOLDER = `[
+  { "action": "goto", "value": "/login" },
+  { "action": "fill", "selector": "#email", "value": "me@example.com" },
+  { "action": "fill", "selector": "#password", "value": "••••••" },
+  { "action": "click", "selector": "button[type=submit]" },
+  { "action": "wait", "selector": ".account-menu" }
+]`;
+
+export function CloneAuthSettings({ siteUrl, onChange }: CloneAuthSettingsProps) {
+  const [fields, setFields] = useState<AuthFields>(EMPTY_FIELDS);
+  const [summary, setSummary] = useState('');
+  const [error, setError] = useState('');
+
+  const getSiteUrl = (): string | null => {
+    try {
+      return new URL(siteUrl).href;
+    } catch {
+      return null;
+    }
+  };
+
+  const buildAuth = (next: AuthFields): CloneAuth | undefined => {
+    const auth: CloneAuth = {};
+    const site = getSiteUrl() || 'https://example.com/';
+
+    if (next.username) {
+      auth.basic = { username: next.username, password: next.password };
+    }
+
+    const headerLines = next.headers.split('\n').map(line => line.trim()).filter(Boolean);
+    if (headerLines.length > 0) {
+      auth.headers = {};
+      for (const line of headerLines) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) throw new Error(`Header "${line}" must look like "Name: value"`);
+        auth.headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+      }
+    }
+
+    const cookies = cloneAuthService.parseCookies(next.cookies, site);
+    if (cookies.length > 0) {
+      auth.cookies = cookies;
+    }
+
+    if (next.loginSteps.trim()) {
+      let steps: LoginStep[];
+      try {
+        steps = JSON.parse(next.loginSteps);
+      } catch {
+        throw new Error('Login steps are not valid JSON');
+      }
+      if (!Array.isArray(steps)) throw new Error('Login steps must be a JSON array');
+      auth.loginSteps = steps;
+    }
+
+    cloneAuthService.validate(auth);
+    return cloneAuthService.describe(auth).length > 0 ? auth : undefined;
+  };
+
+  const update = (patch: Partial<AuthFields>) => {
+    const next = { ...fields, ...patch };
+    setFields(next);
+
+    try {
+      const auth = buildAuth(next);
+      setError('');
+      setSummary(auth
+        ? `Using ${cloneAuthService.describe(auth).join(', ')}${auth.cookies ? ` (${auth.cookies.length} cookies)` : ''}`
+        : '');
+      onChange(auth, next.remember);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid credentials');
+      setSummary('');
+      onChange(undefined, false);
+    }
+  };
+
+  const handleLoadSaved = () => {
+    const site = getSiteUrl();
+    const saved = site ? cloneAuthService.get(site) : null;
+    if (!saved) {
+      setError(site ? 'No saved credentials for this site' : 'Enter a website URL first');
+      return;
+    }
+
+    update({
+      username: saved.basic?.username || '',
+      password: saved.basic?.password || '',
+      headers: Object.entries(saved.headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n'),
+      cookies: saved.cookies ? JSON.stringify(saved.cookies, null, 2) : '',
+      loginSteps: saved.loginSteps ? JSON.stringify(saved.loginSteps, null, 2) : '',
+      remember: true,
+    });
+  };
+
+  const handleForget = () => {
+    const site = getSiteUrl();
+    if (site) cloneAuthService.remove(site);
+    update(EMPTY_FIELDS);
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-xs border border-gray-300 rounded bg-white';
+
+  return (
+    <div className="p-3 sm:p-4 bg-purple-50 rounded-lg border border-purple-200">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div>
+          <div className="text-xs sm:text-sm text-gray-900 font-medium">🔐 Login Required</div>
+          <div className="text-[10px] sm:text-xs text-gray-600">
+            {summary || 'Clone member areas, staging sites and password-gated pages in the browser'}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleLoadSaved} type="button">Load Saved</Button>
+          <Button size="sm" variant="outline" onClick={handleForget} type="button">Forget</Button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={fields.username}
+            onChange={(e) => update({ username: e.target.value })}
+            placeholder="Basic auth username"
+            autoComplete="off"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={fields.password}
+            onChange={(e) => update({ password: e.target.value })}
+            placeholder="Basic auth password"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+        </div>
+        <textarea
+          value={fields.headers}
+          onChange={(e) => update({ headers: e.target.value })}
+          placeholder="Extra headers, one per line - e.g. Authorization: Bearer …"
+          rows={2}
+          className={`${inputClass} font-mono`}
+        />
+        <textarea
+          value={fields.cookies}
+          onChange={(e) => update({ cookies: e.target.value })}
+          placeholder="Cookies - paste a JSON export, cookies.txt, or a Cookie header"
+          rows={3}
+          className={`${inputClass} font-mono`}
+        />
+        <textarea
+          value={fields.loginSteps}
+          onChange={(e) => update({ loginSteps: e.target.value })}
+          placeholder={LOGIN_PLACEHOLDER}
+          rows={5}
+          className={`${inputClass} font-mono`}
+        />
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={fields.remember}
+            onChange={(e) => update({ remember: e.target.checked })}
+            className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+          />
+          <span className="text-[10px] sm:text-xs text-gray-600">
+            Remember for this site (encrypted in this browser, never saved with the project)
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
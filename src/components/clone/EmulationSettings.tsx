@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { EMULATION_PROFILES } from '../../services/BrowserService';
+import type { EmulationProfile } from '../../types';
+
+export interface EmulationSettingsProps {
+  onChange: (emulation: EmulationProfile | undefined, snapshotProfiles: EmulationProfile[]) => void;
+}
+
+function describeProfile(profile: EmulationProfile): string {
+  const parts: string[] = [];
+  if (profile.colorScheme) parts.push(`${profile.colorScheme} scheme`);
+  if (profile.reducedMotion === 'reduce') parts.push('reduced motion');
+  if (profile.locale) parts.push(profile.locale);
+  if (profile.timezoneId) parts.push(profile.timezoneId);
+  if (profile.viewport) parts.push(`${profile.viewport.width}×${profile.viewport.height}`);
+  if (profile.deviceScaleFactor) parts.push(`${profile.deviceScaleFactor}x`);
+  return parts.join(', ') || '1920×1080, light scheme';
+}
+
+export function EmulationSettings({ onChange }: EmulationSettingsProps) {
+  const [mainProfile, setMainProfile] = useState('default');
+  const [snapshotNames, setSnapshotNames] = useState<string[]>([]);
+
+  const update = (nextMain: string, nextSnapshots: string[]) => {
+    setMainProfile(nextMain);
+    setSnapshotNames(nextSnapshots);
+
+    const main = EMULATION_PROFILES.find(profile => profile.name === nextMain);
+    onChange(
+      nextMain === 'default' ? undefined : main,
+      EMULATION_PROFILES.filter(profile => nextSnapshots.includes(profile.name) && profile.name !== nextMain)
+    );
+  };
+
+  const toggleSnapshot = (name: string, checked: boolean) => {
+    update(mainProfile, checked ? [...snapshotNames, name] : snapshotNames.filter(current => current !== name));
+  };
+
+  return (
+    <div className="p-3 sm:p-4 bg-purple-50 rounded-lg border border-purple-200">
+      <div className="text-xs sm:text-sm text-gray-900 font-medium mb-1">🎭 Emulation Profiles</div>
+      <div className="text-[10px] sm:text-xs text-gray-600 mb-2">
+        Capture the page in dark mode, another locale or on a high-density screen; extra profiles are stored as snapshots on the project
+      </div>
+
+      <select
+        value={mainProfile}
+        onChange={(e) => update(e.target.value, snapshotNames)}
+        className="w-full px-2 py-1.5 text-xs sm:text-sm border border-gray-300 rounded bg-white mb-2"
+      >
+        {EMULATION_PROFILES.map(profile => (
+          <option key={profile.name} value={profile.name}>
+            Clone as: {profile.label || profile.name}
+          </option>
+        ))}
+      </select>
+
+      <div className="text-[10px] sm:text-xs text-gray-700 font-medium mb-1">Also capture snapshots</div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {EMULATION_PROFILES.filter(profile => profile.name !== mainProfile).map(profile => (
+          <label key={profile.name} className="flex items-center gap-2 cursor-pointer" title={describeProfile(profile)}>
+            <input
+              type="checkbox"
+              checked={snapshotNames.includes(profile.name)}
+              onChange={(e) => toggleSnapshot(profile.name, e.target.checked)}
+              className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+            />
+            <span className="text-[10px] sm:text-xs text-gray-700">{profile.label || profile.name}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
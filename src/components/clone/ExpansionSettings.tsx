@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import type { ExpansionOptions } from '../../types';
+
+export interface ExpansionSettingsProps {
+  onChange: (expansion: ExpansionOptions | false) => void;
+}
+
+interface ExpansionFields {
+  scroll: boolean;
+  maxScrollSteps: number;
+  loadMore: boolean;
+  maxLoadMoreClicks: number;
+  loadMoreSelectors: string;
+  swapLazySources: boolean;
+}
+
+const DEFAULT_FIELDS: ExpansionFields = {
+  scroll: true,
+  maxScrollSteps: 20,
+  loadMore: false,
+  maxLoadMoreClicks: 5,
+  loadMoreSelectors: '',
+  swapLazySources: true,
+};
+
+export function ExpansionSettings({ onChange }: ExpansionSettingsProps) {
+  const [fields, setFields] = useState<ExpansionFields>(DEFAULT_FIELDS);
+
+  const update = (patch: Partial<ExpansionFields>) => {
+    const next = { ...fields, ...patch };
+    setFields(next);
+
+    if (!next.scroll && !next.loadMore && !next.swapLazySources) {
+      onChange(false);
+      return;
+    }
+    const selectors = next.loadMoreSelectors.split('\n').map(line => line.trim()).filter(Boolean);
+    onChange({
+      scroll: next.scroll,
+      maxScrollSteps: next.maxScrollSteps,
+      loadMore: next.loadMore,
+      maxLoadMoreClicks: next.maxLoadMoreClicks,
+      loadMoreSelectors: next.loadMore && selectors.length > 0 ? selectors : undefined,
+      swapLazySources: next.swapLazySources,
+    });
+  };
+
+  const numberClass = 'w-16 px-2 py-1 text-xs border border-gray-300 rounded bg-white';
+
+  return (
+    <div className="p-3 sm:p-4 bg-purple-50 rounded-lg border border-purple-200">
+      <div className="text-xs sm:text-sm text-gray-900 font-medium mb-1">📜 Page Expansion</div>
+      <div className="text-[10px] sm:text-xs text-gray-600 mb-2">
+        Before the browser capture, scroll until nothing more loads, open "load more" sections and replace lazy-load placeholders with real images
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={fields.scroll}
+            onChange={(e) => update({ scroll: e.target.checked })}
+            className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+          />
+          <span className="text-[10px] sm:text-xs text-gray-700">Scroll through the page, up to</span>
+          <input
+            type="number"
+            min={1}
+            max={200}
+            value={fields.maxScrollSteps}
+            onChange={(e) => update({ maxScrollSteps: Number(e.target.value) || DEFAULT_FIELDS.maxScrollSteps })}
+            className={numberClass}
+          />
+          <span className="text-[10px] sm:text-xs text-gray-700">steps</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={fields.loadMore}
+            onChange={(e) => update({ loadMore: e.target.checked })}
+            className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+          />
+          <span className="text-[10px] sm:text-xs text-gray-700">Click "load more" buttons, up to</span>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={fields.maxLoadMoreClicks}
+            onChange={(e) => update({ maxLoadMoreClicks: Number(e.target.value) || DEFAULT_FIELDS.maxLoadMoreClicks })}
+            className={numberClass}
+          />
+          <span className="text-[10px] sm:text-xs text-gray-700">times</span>
+        </label>
+        {fields.loadMore && (
+          <textarea
+            value={fields.loadMoreSelectors}
+            onChange={(e) => update({ loadMoreSelectors: e.target.value })}
+            placeholder="Extra selectors for the site's own buttons, one per line - e.g. .pagination__next"
+            rows={2}
+            className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded bg-white font-mono"
+          />
+        )}
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={fields.swapLazySources}
+            onChange={(e) => update({ swapLazySources: e.target.checked })}
+            className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+          />
+          <span className="text-[10px] sm:text-xs text-gray-700">Replace data-src / data-lazy placeholders with real sources</span>
+        </label>
+      </div>
+    </div>
+  );
+}
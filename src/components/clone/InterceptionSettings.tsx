@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Button } from '../ui/Button';
+import type { InterceptedResourceType, InterceptionRules, InterceptionStub } from '../../types';
+
+export interface InterceptionSettingsProps {
+  previousRules?: InterceptionRules; // Rules saved with the last clone of this URL
+  onChange: (rules: InterceptionRules | undefined) => void;
+}
+
+interface InterceptionFields {
+  blockTrackers: boolean;
+  blockAds: boolean;
+  blockResourceTypes: InterceptedResourceType[];
+  blockPatterns: string;
+  stubs: string;
+}
+
+const EMPTY_FIELDS: InterceptionFields = { blockTrackers: false, blockAds: false, blockResourceTypes: [], blockPatterns: '', stubs: '' };
+
+const RESOURCE_TYPE_OPTIONS: Array<{ type: InterceptedResourceType; label: string }> = [
+  { type: 'media', label: 'Video & audio' },
+  { type: 'font', label: 'Fonts' },
+  { type: 'image', label: 'Images' },
+  { type: 'websocket', label: 'WebSockets' },
+];
+
+const STUBS_PLACEHOLDER = `[
+  { "pattern": "*/cookie-consent.js", "contentType": "application/javascript", "body": "" }
+]`;
+
+export function InterceptionSettings({ previousRules, onChange }: InterceptionSettingsProps) {
+  const [fields, setFields] = useState<InterceptionFields>(EMPTY_FIELDS);
+  const [error, setError] = useState('');
+
+  const buildRules = (next: InterceptionFields): InterceptionRules | undefined => {
+    const rules: InterceptionRules = {};
+    if (next.blockTrackers) rules.blockTrackers = true;
+    if (next.blockAds) rules.blockAds = true;
+    if (next.blockResourceTypes.length > 0) rules.blockResourceTypes = next.blockResourceTypes;
+
+    const patterns = next.blockPatterns.split('\n').map(line => line.trim()).filter(Boolean);
+    if (patterns.length > 0) rules.blockPatterns = patterns;
+
+    if (next.stubs.trim()) {
+      let stubs: InterceptionStub[];
+      try {
+        stubs = JSON.parse(next.stubs);
+      } catch {
+        throw new Error('Stub responses are not valid JSON');
+      }
+      if (!Array.isArray(stubs) || stubs.some(stub => !stub?.pattern)) {
+        throw new Error('Stub responses must be an array of objects with a pattern');
+      }
+      rules.stubs = stubs;
+    }
+
+    return Object.keys(rules).length > 0 ? rules : undefined;
+  };
+
+  const update = (patch: Partial<InterceptionFields>) => {
+    const next = { ...fields, ...patch };
+    setFields(next);
+
+    try {
+      onChange(buildRules(next));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid rules');
+      onChange(undefined);
+    }
+  };
+
+  const toggleResourceType = (type: InterceptedResourceType, checked: boolean) => {
+    update({
+      blockResourceTypes: checked
+        ? [...fields.blockResourceTypes, type]
+        : fields.blockResourceTypes.filter(current => current !== type),
+    });
+  };
+
+  const handleLoadPrevious = () => {
+    if (!previousRules) return;
+    update({
+      blockTrackers: !!previousRules.blockTrackers,
+      blockAds: !!previousRules.blockAds,
+      blockResourceTypes: previousRules.blockResourceTypes || [],
+      blockPatterns: (previousRules.blockPatterns || []).join('\n'),
+      stubs: previousRules.stubs?.length ? JSON.stringify(previousRules.stubs, null, 2) : '',
+    });
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-xs border border-gray-300 rounded bg-white font-mono';
+
+  return (
+    <div className="p-3 sm:p-4 bg-purple-50 rounded-lg border border-purple-200">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div>
+          <div className="text-xs sm:text-sm text-gray-900 font-medium">🚧 Request Blocking</div>
+          <div className="text-[10px] sm:text-xs text-gray-600">
+            Block trackers, ads and heavy media during the browser capture; blocked scripts are left out of the clone
+          </div>
+        </div>
+        {previousRules && (
+          <Button size="sm" variant="outline" onClick={handleLoadPrevious} type="button">Use Last Rules</Button>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fields.blockTrackers}
+              onChange={(e) => update({ blockTrackers: e.target.checked })}
+              className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+            />
+            <span className="text-[10px] sm:text-xs text-gray-700">Analytics & trackers</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fields.blockAds}
+              onChange={(e) => update({ blockAds: e.target.checked })}
+              className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+            />
+            <span className="text-[10px] sm:text-xs text-gray-700">Ad networks</span>
+          </label>
+          {RESOURCE_TYPE_OPTIONS.map(({ type, label }) => (
+            <label key={type} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={fields.blockResourceTypes.includes(type)}
+                onChange={(e) => toggleResourceType(type, e.target.checked)}
+                className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+              />
+              <span className="text-[10px] sm:text-xs text-gray-700">{label}</span>
+            </label>
+          ))}
+        </div>
+        <textarea
+          value={fields.blockPatterns}
+          onChange={(e) => update({ blockPatterns: e.target.value })}
+          placeholder="URL patterns to block, one per line - e.g. *://*.intercom.io/* or *.mp4"
+          rows={2}
+          className={inputClass}
+        />
+        <textarea
+          value={fields.stubs}
+          onChange={(e) => update({ stubs: e.target.value })}
+          placeholder={STUBS_PLACEHOLDER}
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
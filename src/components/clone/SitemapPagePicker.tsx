@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Button } from '../ui/Button';
+import { sitemapService } from '../../services/SitemapService';
+import type { SitemapEntry } from '../../types';
+
+export interface SitemapPagePickerProps {
+  siteUrl: string;
+  selected: string[];
+  onChange: (pages: string[]) => void;
+}
+
+export function SitemapPagePicker({ siteUrl, selected, onChange }: SitemapPagePickerProps) {
+  const [entries, setEntries] = useState<SitemapEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [filter, setFilter] = useState('');
+
+  const handleLoad = async () => {
+    if (!siteUrl.trim()) {
+      setError('Enter a website URL first');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const result = await sitemapService.load(siteUrl);
+      setEntries(result.entries);
+      if (result.entries.length === 0) {
+        setError(result.errors.length > 0
+          ? `Could not read sitemap: ${result.errors[0].error}`
+          : 'No sitemap found for this site');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sitemap');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visible = entries.filter(entry => entry.loc.toLowerCase().includes(filter.toLowerCase()));
+  const allVisibleSelected = visible.length > 0 && visible.every(entry => selected.includes(entry.loc));
+
+  const toggle = (loc: string) => {
+    onChange(selected.includes(loc) ? selected.filter(url => url !== loc) : [...selected, loc]);
+  };
+
+  const toggleVisible = () => {
+    const visibleUrls = visible.map(entry => entry.loc);
+    onChange(allVisibleSelected
+      ? selected.filter(url => !visibleUrls.includes(url))
+      : Array.from(new Set([...selected, ...visibleUrls])));
+  };
+
+  return (
+    <div className="p-3 sm:p-4 bg-purple-50 rounded-lg border border-purple-200">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div>
+          <div className="text-xs sm:text-sm text-gray-900 font-medium">🗺️ Pages from Sitemap</div>
+          <div className="text-[10px] sm:text-xs text-gray-600">
+            {selected.length > 0 ? `${selected.length} page(s) selected` : 'Pick the exact pages to clone'}
+          </div>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleLoad} loading={loading} type="button">
+          {entries.length > 0 ? 'Reload' : 'Load Sitemap'}
+        </Button>
+      </div>
+
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      {entries.length > 0 && (
+        <>
+          <div className="flex items-center gap-2 mb-2">
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter URLs..."
+              className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded"
+            />
+            <button
+              type="button"
+              onClick={toggleVisible}
+              className="text-xs text-purple-600 hover:text-purple-700 font-medium hover:underline"
+            >
+              {allVisibleSelected ? 'Deselect All' : 'Select All'}
+            </button>
+          </div>
+
+          <div className="max-h-56 overflow-y-auto bg-white rounded border border-gray-200 divide-y divide-gray-100">
+            {visible.map((entry) => (
+              <label key={entry.loc} className="flex items-center gap-2 px-2 py-1.5 cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entry.loc)}
+                  onChange={() => toggle(entry.loc)}
+                  className="w-4 h-4 text-purple-600 rounded flex-shrink-0"
+                />
+                <span className="flex-1 text-xs text-gray-800 truncate" title={entry.loc}>
+                  {entry.loc}
+                </span>
+                {entry.lastmod && (
+                  <span className="text-[10px] text-gray-500 whitespace-nowrap">
+                    {new Date(entry.lastmod).toLocaleDateString()}
+                  </span>
+                )}
+                {entry.priority !== undefined && (
+                  <span className="text-[10px] text-gray-500 w-8 text-right">{entry.priority.toFixed(1)}</span>
+                )}
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
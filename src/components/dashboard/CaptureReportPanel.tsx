@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, Info, ShieldAlert, Unlink, Link2 } from 'lucide-react';
+import { Badge } from '../ui/Badge';
+import type { CaptureDiagnostics, CloneProject } from '../../types';
+
+interface CaptureReportPanelProps {
+  projects: CloneProject[];
+}
+
+function SummaryBadge({ label, count, tone }: { label: string; count: number; tone: 'red' | 'orange' | 'gray' }) {
+  const colors = {
+    red: 'bg-red-100 text-red-700 border-red-300',
+    orange: 'bg-orange-100 text-orange-700 border-orange-300',
+    gray: 'bg-gray-100 text-gray-700 border-gray-300',
+  };
+  return (
+    <Badge className={`${count > 0 ? colors[tone] : colors.gray} border`}>
+      {count} {label}
+    </Badge>
+  );
+}
+
+function DiagnosticsDetails({ diagnostics }: { diagnostics: CaptureDiagnostics }) {
+  const consoleErrors = diagnostics.console.filter(entry => entry.type === 'error');
+  const consoleWarnings = diagnostics.console.filter(entry => entry.type === 'warning');
+  const statusCodes = Object.entries(diagnostics.statusCodes).sort(([a], [b]) => Number(a) - Number(b));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <SummaryBadge label="page errors" count={diagnostics.pageErrors.length} tone="red" />
+        <SummaryBadge label="console errors" count={consoleErrors.length} tone="red" />
+        <SummaryBadge label="failed requests" count={diagnostics.failedRequests.length} tone="red" />
+        <SummaryBadge label="CSP violations" count={diagnostics.cspViolations.length} tone="orange" />
+        <SummaryBadge label="warnings" count={consoleWarnings.length} tone="orange" />
+        <Badge variant="neutral">{diagnostics.totalRequests} requests</Badge>
+      </div>
+
+      {statusCodes.length > 0 && (
+        <div className="text-xs text-gray-600">
+          Responses: {statusCodes.map(([status, count]) => `${status} × ${count}`).join(', ')}
+        </div>
+      )}
+
+      {diagnostics.failedRequests.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Failed requests</h4>
+          <div className="space-y-1">
+            {diagnostics.failedRequests.map((request, idx) => (
+              <div key={idx} className="flex items-start gap-2 p-2 bg-gray-50 rounded text-xs">
+                <Badge className="bg-red-100 text-red-700 border border-red-300 flex-shrink-0">
+                  {request.status || 'ERR'}
+                </Badge>
+                <Badge variant="neutral" className="flex-shrink-0">{request.resourceType}</Badge>
+                <div className="flex-1 min-w-0">
+                  <div className="font-mono text-gray-900 break-all">{request.url}</div>
+                  <div className="text-gray-500">{request.error}</div>
+                  {request.assetPath && (
+                    <div className="flex items-center gap-1 text-green-700 mt-0.5">
+                      <Link2 size={12} /> Recovered in the clone as <span className="font-mono">{request.assetPath}</span>
+                    </div>
+                  )}
+                  {request.assetMissing && (
+                    <div className="flex items-center gap-1 text-red-700 mt-0.5">
+                      <Unlink size={12} /> Missing from the clone
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.pageErrors.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Uncaught page errors</h4>
+          <div className="space-y-1">
+            {diagnostics.pageErrors.map((error, idx) => (
+              <div key={idx} className="p-2 bg-red-50 rounded text-xs">
+                <div className="flex items-center gap-1 text-red-800 font-medium">
+                  <AlertCircle size={12} /> {error.message}
+                </div>
+                {error.stack && <pre className="mt-1 text-gray-600 whitespace-pre-wrap">{error.stack}</pre>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.console.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Console</h4>
+          <div className="space-y-1">
+            {diagnostics.console.map((entry, idx) => (
+              <div key={idx} className={`p-2 rounded text-xs ${entry.type === 'error' ? 'bg-red-50' : 'bg-orange-50'}`}>
+                <div className="flex items-start gap-1 text-gray-900">
+                  {entry.type === 'error' ? <AlertCircle size={12} className="mt-0.5 text-red-600" /> : <AlertTriangle size={12} className="mt-0.5 text-orange-600" />}
+                  <span className="break-all">{entry.text}</span>
+                </div>
+                {entry.source && <div className="text-gray-500 font-mono break-all mt-0.5">{entry.source}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.cspViolations.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Content Security Policy</h4>
+          <div className="space-y-1">
+            {diagnostics.cspViolations.map((violation, idx) => (
+              <div key={idx} className="flex items-start gap-1 p-2 bg-orange-50 rounded text-xs text-gray-900">
+                <ShieldAlert size={12} className="mt-0.5 text-orange-600 flex-shrink-0" />
+                <span className="break-all">{violation}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.truncated && (
+        <p className="text-xs text-gray-500">Some lists were cut off at 100 entries.</p>
+      )}
+    </div>
+  );
+}
+
+export function CaptureReportPanel({ projects }: CaptureReportPanelProps) {
+  const captured = projects.filter(project => project.diagnostics);
+  const [selectedId, setSelectedId] = useState<string>(captured[0]?.id || '');
+  const selected = captured.find(project => project.id === selectedId) || captured[0];
+
+  if (!selected?.diagnostics) {
+    return (
+      <div className="text-center py-12">
+        <Info size={48} className="mx-auto text-gray-400 mb-4" />
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">No capture reports yet</h3>
+        <p className="text-gray-600">Clones made with browser automation record the source page's errors here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <select
+        value={selected.id}
+        onChange={(e) => setSelectedId(e.target.value)}
+        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        {captured.map(project => (
+          <option key={project.id} value={project.id}>
+            {project.source} - {project.createdAt.toLocaleString()}
+          </option>
+        ))}
+      </select>
+      <DiagnosticsDetails diagnostics={selected.diagnostics} />
+    </div>
+  );
+}
@@ -3,13 +3,17 @@ import { X, AlertCircle, Info, CheckCircle, AlertTriangle, Bug, Trash2, RefreshC
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { Badge } from '../ui/Badge';
+import { CaptureReportPanel } from './CaptureReportPanel';
 import { loggingService, LogEntry, LogLevel } from '../../services/LoggingService';
+import type { CloneProject } from '../../types';
 
 interface LogViewerProps {
   onClose: () => void;
+  projects?: CloneProject[]; // Their capture reports are listed next to the logs
 }
 
-export function LogViewer({ onClose }: LogViewerProps) {
+export function LogViewer({ onClose, projects = [] }: LogViewerProps) {
+  const [view, setView] = useState<'logs' | 'captures'>('logs');
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [filter, setFilter] = useState<LogLevel | 'all'>('all');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
@@ -95,11 +99,33 @@ export function LogViewer({ onClose }: LogViewerProps) {
               Monitor errors and track system activity
             </p>
           </div>
-          <Button variant="outline" size="sm" onClick={onClose}>
-            <X size={16} />
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={view === 'logs' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setView('logs')}
+            >
+              Logs
+            </Button>
+            <Button
+              variant={view === 'captures' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setView('captures')}
+            >
+              Capture Reports
+            </Button>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              <X size={16} />
+            </Button>
+          </div>
         </div>
 
+        {view === 'captures' ? (
+          <div className="flex-1 overflow-y-auto px-4 sm:px-6 py-3 sm:py-4">
+            <CaptureReportPanel projects={projects} />
+          </div>
+        ) : (
+        <>
         {/* Filters Section - Fixed */}
         <div className="px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200 space-y-3 sm:space-y-4 flex-shrink-0">
           <div className="flex flex-wrap gap-3">
@@ -236,6 +262,8 @@ export function LogViewer({ onClose }: LogViewerProps) {
         <div className="px-4 sm:px-6 py-3 sm:py-4 border-t border-gray-200 bg-gray-50 text-center text-xs sm:text-sm text-gray-600 flex-shrink-0">
           Showing {filteredLogs.length} of {logs.length} logs
         </div>
+        </>
+        )}
       </Card>
     </div>
   );
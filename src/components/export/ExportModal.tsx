@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { X, Download, FileCode, Globe, Box, Zap } from 'lucide-react';
+import { X, Download, FileCode, Globe, Box, Zap, Archive } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
 import { WordPressExportService } from '../../services/wordpress/WordPressExportService';
@@ -27,7 +27,7 @@ const WORDPRESS_BUILDERS = [
 ];
 
 export function ExportModal({ project, onClose }: ExportModalProps) {
-  const [format, setFormat] = useState<'html' | 'wordpress-builder' | 'wordpress-theme' | 'static-site' | 'react'>('wordpress-builder');
+  const [format, setFormat] = useState<'html' | 'warc' | 'wordpress-builder' | 'wordpress-theme' | 'static-site' | 'react'>('wordpress-builder');
   const [selectedBuilder, setSelectedBuilder] = useState('elementor');
   const [includeAssets, setIncludeAssets] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
@@ -43,6 +43,10 @@ export function ExportModal({ project, onClose }: ExportModalProps) {
         setExportProgress('Exporting HTML package...');
         await exportService.exportProject(project);
         alert('Website exported successfully as ZIP file with all assets!');
+      } else if (format === 'warc') {
+        setExportProgress('Writing WARC records...');
+        await exportService.exportProject(project, 'warc');
+        alert('Website exported as a WARC archive. Open it in pywb or ReplayWeb.page to replay the capture.');
       } else if (format === 'wordpress-builder' && project.optimizedHtml) {
         // Map UI builder IDs to PageBuilder types
         const builderMap: Record<string, PageBuilder> = {
@@ -240,6 +244,24 @@ export function ExportModal({ project, onClose }: ExportModalProps) {
                 </div>
               </label>
 
+              <label className="flex items-center gap-4 p-4 border-2 border-gray-200 rounded-lg cursor-pointer hover:border-blue-400 transition-colors">
+                <input
+                  type="radio"
+                  name="format"
+                  value="warc"
+                  checked={format === 'warc'}
+                  onChange={() => setFormat('warc')}
+                  className="w-4 h-4 text-blue-600"
+                />
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Archive size={20} className="text-gray-600" />
+                    <span className="font-semibold text-gray-900">Web Archive (WARC)</span>
+                  </div>
+                  <p className="text-sm text-gray-600">Every captured request and response, for replay tools and record keeping</p>
+                </div>
+              </label>
+
               <label className="flex items-center gap-4 p-4 border-2 border-blue-600 rounded-lg cursor-pointer bg-blue-50">
                 <input
                   type="radio"
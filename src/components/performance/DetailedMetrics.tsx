@@ -60,8 +60,14 @@ export function DetailedMetrics({ metrics }: DetailedMetricsProps) {
               )}
               {metrics.coreWebVitals.lcp.size && (
                 <div>
-                  <span className="text-gray-600">Size:</span>
-                  <span className="ml-2 font-medium">{(metrics.coreWebVitals.lcp.size / 1024).toFixed(1)}KB</span>
+                  <span className="text-gray-600">Painted Area:</span>
+                  <span className="ml-2 font-medium">{Math.round(metrics.coreWebVitals.lcp.size).toLocaleString()}px²</span>
+                </div>
+              )}
+              {metrics.coreWebVitals.lcp.url && (
+                <div className="col-span-2">
+                  <span className="text-gray-600">Resource:</span>
+                  <span className="ml-2 text-xs text-gray-900 break-all">{metrics.coreWebVitals.lcp.url}</span>
                 </div>
               )}
             </div>
@@ -106,6 +112,11 @@ export function DetailedMetrics({ metrics }: DetailedMetricsProps) {
                   <div key={i} className="text-xs bg-gray-50 p-2 rounded">
                     <div>Score: {shift.value.toFixed(4)} at {shift.timestamp}ms</div>
                     <div className="text-gray-600">Elements: {shift.elements.join(', ')}</div>
+                    {shift.sources?.map((source, j) => (
+                      <div key={j} className="text-gray-500 font-mono">
+                        {source.element}: ({source.previousRect.x}, {source.previousRect.y}) → ({source.currentRect.x}, {source.currentRect.y})
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -254,7 +265,11 @@ export function DetailedMetrics({ metrics }: DetailedMetricsProps) {
             <h4 className="font-semibold text-gray-900 mb-2">Long Tasks ({metrics.resourceMetrics.longTasks.length})</h4>
             <div className="max-h-48 overflow-y-auto space-y-2">
               {metrics.resourceMetrics.longTasks.map((task, i) => (
-                <div key={i} className="text-xs bg-red-50 p-2 rounded flex items-center justify-between">
+                <div
+                  key={i}
+                  className="text-xs bg-red-50 p-2 rounded flex items-center justify-between"
+                  title={task.scripts?.map(script => `${Math.round(script.duration)}ms ${script.invoker || script.sourceFunctionName || 'script'} ${script.sourceUrl}`).join('\n')}
+                >
                   <div>
                     <span className="font-medium text-red-900">Task #{i + 1}</span>
                     {task.attribution && (
@@ -41,8 +41,18 @@ export function LighthouseResults({ results }: LighthouseResultsProps) {
             Google Lighthouse Audit
           </h2>
           <p className="text-sm text-gray-600 mt-1">
-            Official performance, accessibility, and best practices analysis
+            {results.source === 'simulated'
+              ? 'Simulated scores, not a real audit'
+              : 'Official performance, accessibility, and best practices analysis'}
           </p>
+          {results.source && results.source !== 'simulated' && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              <Badge variant="neutral">{results.source === 'local' ? 'Local Lighthouse' : 'Edge function'}</Badge>
+              {results.formFactor && <Badge variant="neutral">{results.formFactor}</Badge>}
+              {results.runs && results.runs > 1 && <Badge variant="neutral">Median of {results.runs} runs</Badge>}
+              {results.lighthouseVersion && <Badge variant="neutral">v{results.lighthouseVersion}</Badge>}
+            </div>
+          )}
         </div>
         <a
           href="https://developers.google.com/web/tools/lighthouse"
@@ -54,6 +64,16 @@ export function LighthouseResults({ results }: LighthouseResultsProps) {
         </a>
       </div>
 
+      {results.source === 'simulated' && (
+        <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+          <span>
+            Lighthouse could not run, so these scores are random placeholders
+            {results.simulatedReason ? ` (${results.simulatedReason})` : ''}. Do not compare them with other audits.
+          </span>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card className={`text-center ${getScoreBg(results.performanceScore)}`}>
           <div className="text-xs font-medium text-gray-600 mb-2 uppercase">Performance</div>
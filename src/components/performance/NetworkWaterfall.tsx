@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Badge } from '../ui/Badge';
+import type { HarTimings, NetworkRequest, ResourceMetrics } from '../../types';
+
+interface NetworkWaterfallProps {
+  resourceMetrics: ResourceMetrics;
+}
+
+const PHASES: { key: keyof HarTimings; label: string; color: string }[] = [
+  { key: 'blocked', label: 'Queued', color: 'bg-gray-300' },
+  { key: 'dns', label: 'DNS', color: 'bg-teal-400' },
+  { key: 'connect', label: 'Connect', color: 'bg-orange-400' },
+  { key: 'send', label: 'Send', color: 'bg-blue-300' },
+  { key: 'wait', label: 'Waiting (TTFB)', color: 'bg-green-500' },
+  { key: 'receive', label: 'Download', color: 'bg-blue-600' },
+];
+
+const TYPE_FILTERS = ['all', 'document', 'stylesheet', 'script', 'image', 'font', 'other'] as const;
+
+function getType(request: NetworkRequest): string {
+  const type = request.resourceType || 'other';
+  return (TYPE_FILTERS as readonly string[]).includes(type) ? type : 'other';
+}
+
+function getPhaseDurations(timings: HarTimings) {
+  // connect includes ssl in a HAR; the bar shows them as one phase
+  return PHASES.map(phase => ({ ...phase, duration: Math.max(0, timings[phase.key] ?? 0) }));
+}
+
+function formatSize(bytes: number): string {
+  if (bytes === 0) return '—';
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function shortenUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const name = parsed.pathname.split('/').filter(Boolean).pop() || parsed.hostname;
+    return name + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+export function NetworkWaterfall({ resourceMetrics }: NetworkWaterfallProps) {
+  const [filter, setFilter] = useState<typeof TYPE_FILTERS[number]>('all');
+  const requests = resourceMetrics.networkRequests.filter(request => request.startTime !== undefined);
+
+  if (resourceMetrics.source !== 'har' || requests.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        No network recording for this project. Clones made with browser automation record every request the page makes.
+      </p>
+    );
+  }
+
+  const visible = requests.filter(request => filter === 'all' || getType(request) === filter);
+  const { onContentLoad, onLoad } = resourceMetrics.pageTimings || {};
+  const end = Math.max(1, onLoad || 0, ...requests.map(request => (request.startTime || 0) + request.duration));
+  const percent = (ms: number) => `${(ms / end) * 100}%`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {TYPE_FILTERS.map(type => (
+          <button
+            key={type}
+            onClick={() => setFilter(type)}
+            className={`px-2 py-1 text-xs rounded border ${filter === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}
+          >
+            {type === 'all' ? `All (${requests.length})` : type}
+          </button>
+        ))}
+        <div className="ml-auto flex flex-wrap gap-3 text-xs text-gray-600">
+          {PHASES.map(phase => (
+            <span key={phase.key} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-2 rounded-sm ${phase.color}`} /> {phase.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border border-gray-200 rounded">
+        {visible.map((request, idx) => {
+          const phases = request.timings ? getPhaseDurations(request.timings) : [];
+          const title = [
+            request.url,
+            `${request.method} ${request.status}${request.mimeType ? ` · ${request.mimeType}` : ''}`,
+            `Started at ${request.startTime} ms, took ${request.duration} ms`,
+            ...phases.filter(phase => phase.duration > 0).map(phase => `${phase.label}: ${Math.round(phase.duration)} ms`),
+            request.initiator ? `Initiator: ${request.initiator.type}${request.initiator.url ? ` ${request.initiator.url}` : ''}` : '',
+            request.cacheControl ? `Cache-Control: ${request.cacheControl}` : '',
+          ].filter(Boolean).join('\n');
+
+          return (
+            <div key={idx} className="flex items-center text-xs border-b border-gray-100 last:border-b-0 hover:bg-gray-50" title={title}>
+              <div className="w-64 flex-shrink-0 flex items-center gap-1 px-2 py-1 min-w-0">
+                <span className={`font-mono ${request.status >= 400 || request.status === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                  {request.status || 'ERR'}
+                </span>
+                <span className="truncate text-gray-900">{shortenUrl(request.url)}</span>
+              </div>
+              <div className="w-40 flex-shrink-0 flex items-center gap-1 px-1">
+                {request.priority && <Badge variant="neutral" className="text-[10px]">{request.priority}</Badge>}
+                {request.blocking && <Badge className="bg-orange-100 text-orange-700 text-[10px]">Blocking</Badge>}
+                {request.cached && <Badge className="bg-blue-100 text-blue-700 text-[10px]">Cached</Badge>}
+              </div>
+              <div className="w-16 flex-shrink-0 text-right text-gray-600 px-1">{formatSize(request.size)}</div>
+              <div className="relative flex-1 h-5 mx-2">
+                {onContentLoad !== undefined && (
+                  <div className="absolute top-0 bottom-0 border-l border-blue-500" style={{ left: percent(onContentLoad) }} />
+                )}
+                {onLoad !== undefined && (
+                  <div className="absolute top-0 bottom-0 border-l border-red-500" style={{ left: percent(onLoad) }} />
+                )}
+                <div
+                  className="absolute top-1 h-3 flex"
+                  style={{ left: percent(request.startTime || 0), width: percent(Math.max(request.duration, end / 500)) }}
+                >
+                  {phases.length > 0
+                    ? phases.filter(phase => phase.duration > 0).map(phase => (
+                        <div key={phase.key} className={phase.color} style={{ flexGrow: phase.duration }} />
+                      ))
+                    : <div className="bg-blue-400 flex-1" />}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-4 text-xs text-gray-600">
+        <span>{requests.length} requests</span>
+        <span>{(resourceMetrics.totalPageSize.total / 1024).toFixed(0)} KB transferred</span>
+        {onContentLoad !== undefined && <span className="text-blue-600">DOMContentLoaded: {onContentLoad} ms</span>}
+        {onLoad !== undefined && <span className="text-red-600">Load: {onLoad} ms</span>}
+      </div>
+    </div>
+  );
+}
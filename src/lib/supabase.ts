@@ -1,26 +1,66 @@
 import { createClient } from '@supabase/supabase-js';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// Server-side clone workers (see src/server/cloneRunner.ts) have no user
+// session: they use the service role key and act for the job's owner. The
+// service role bypasses row-level security, so every query the pipeline runs
+// filters by the owner's user_id itself (see requireUserId).
+const isServer = import.meta.env.SSR;
+const supabaseUrl = isServer
+  ? process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+  : import.meta.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = isServer ? process.env.SUPABASE_SERVICE_ROLE_KEY : import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 // Validate environment variables are present
 if (!supabaseUrl || !supabaseAnonKey) {
   console.error('Missing Supabase environment variables!');
   console.error('VITE_SUPABASE_URL:', supabaseUrl ? 'Set' : 'Missing');
-  console.error('VITE_SUPABASE_ANON_KEY:', supabaseAnonKey ? 'Set' : 'Missing');
+  console.error(isServer ? 'SUPABASE_SERVICE_ROLE_KEY:' : 'VITE_SUPABASE_ANON_KEY:', supabaseAnonKey ? 'Set' : 'Missing');
 }
 
 export const supabase = createClient(
   supabaseUrl || 'https://placeholder.supabase.co',
   supabaseAnonKey || 'placeholder-key',
   {
-    auth: {
-      persistSession: true, // Keep sessions in localStorage
-      autoRefreshToken: true, // Auto-refresh tokens before expiry
-      detectSessionInUrl: true, // Detect auth redirects
-      storage: typeof window !== 'undefined' ? window.localStorage : undefined,
-      storageKey: 'supabase.auth.token', // Consistent storage key
-      flowType: 'pkce', // Use PKCE flow for better security
-    },
+    auth: isServer
+      ? { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false }
+      : {
+        persistSession: true, // Keep sessions in localStorage
+        autoRefreshToken: true, // Auto-refresh tokens before expiry
+        detectSessionInUrl: true, // Detect auth redirects
+        storage: typeof window !== 'undefined' ? window.localStorage : undefined,
+        storageKey: 'supabase.auth.token', // Consistent storage key
+        flowType: 'pkce', // Use PKCE flow for better security
+      },
   }
 );
+
+let actingUserId: string | null = null;
+
+/**
+ * Make a server-side worker save rows on behalf of the user who queued the job
+ */
+export function actAsUser(userId: string | null): void {
+  actingUserId = userId;
+}
+
+/**
+ * Owner for new rows: the job's user on the server, the signed-in user in the browser
+ */
+export async function getCurrentUserId(): Promise<string | null> {
+  if (actingUserId) return actingUserId;
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id ?? null;
+}
+
+/**
+ * The user to scope a query to. Use it for every read, update and delete
+ * of user-owned rows: in the browser it repeats what row-level security
+ * already enforces, on the server it is the only thing scoping the query.
+ */
+export async function requireUserId(): Promise<string> {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+  return userId;
+}
@@ -4,6 +4,7 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { loggingService } from '../services/LoggingService';
+import { fetchProxyService } from '../services/FetchProxyService';
 import { wordPressDetectionService } from '../services/wordpress/WordPressDetectionService';
 import { wordPressParserService } from '../services/wordpress/WordPressParserService';
 import { ghlConversionService } from '../services/ghl/GHLConversionService';
@@ -52,31 +53,12 @@ export function GHLConverterPage() {
       if (url.trim()) {
         loggingService.info('ghl-converter', `Fetching HTML from ${url}`);
 
-        // Use CORS proxy to fetch the URL
-        const corsProxy = 'https://api.allorigins.win/raw?url=';
-        const proxyUrl = `${corsProxy}${encodeURIComponent(url)}`;
-
         try {
-          const response = await fetch(proxyUrl);
-          if (!response.ok) {
-            throw new Error(`Failed to fetch URL: ${response.statusText}`);
-          }
-          pageHTML = await response.text();
+          pageHTML = await fetchProxyService.fetchText(url);
           loggingService.success('ghl-converter', 'Successfully fetched HTML');
         } catch (fetchError) {
-          loggingService.error('ghl-converter', 'Fetch failed, trying alternative method', fetchError);
-
-          // Fallback: Try direct fetch (may fail due to CORS)
-          try {
-            const directResponse = await fetch(url);
-            if (!directResponse.ok) {
-              throw new Error(`Failed to fetch URL: ${directResponse.statusText}`);
-            }
-            pageHTML = await directResponse.text();
-            loggingService.success('ghl-converter', 'Successfully fetched HTML (direct)');
-          } catch (directError) {
-            throw new Error('Failed to fetch URL. Please paste the HTML directly instead.');
-          }
+          loggingService.error('ghl-converter', 'Fetch failed', fetchError);
+          throw new Error('Failed to fetch URL. Please paste the HTML directly instead.');
         }
       }
 
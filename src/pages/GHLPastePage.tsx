@@ -5,6 +5,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { loggingService } from '../services/LoggingService';
+import { fetchProxyService } from '../services/FetchProxyService';
 import { wordPressDetectionService } from '../services/wordpress/WordPressDetectionService';
 import { wordPressParserService } from '../services/wordpress/WordPressParserService';
 import { ghlConversionService } from '../services/ghl/GHLConversionService';
@@ -102,8 +103,7 @@ export function GHLPastePage() {
     // Fetch HTML if URL provided
     let html = htmlInput;
     if (url.trim()) {
-      const corsProxy = 'https://api.allorigins.win/raw?url=';
-      const response = await fetch(`${corsProxy}${encodeURIComponent(url)}`);
+      const response = await fetchProxyService.fetch(url);
       if (!response.ok) throw new Error('Failed to fetch URL');
       html = await response.text();
     }
@@ -12,6 +12,7 @@ import { MetricCard } from '../components/performance/MetricCard';
 import { MetricBar } from '../components/performance/MetricBar';
 import { DetailedMetrics } from '../components/performance/DetailedMetrics';
 import { LighthouseResults } from '../components/performance/LighthouseResults';
+import { NetworkWaterfall } from '../components/performance/NetworkWaterfall';
 
 export function PerformancePage() {
   const { projectId } = useParams();
@@ -282,7 +283,22 @@ export function PerformancePage() {
 
         <Card className="mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Core Web Vitals</h2>
-          <p className="text-sm text-gray-600 mb-6">Real-world performance metrics measuring user experience</p>
+          <p className="text-sm text-gray-600 mb-2">Real-world performance metrics measuring user experience</p>
+          {metrics.webVitals?.source === 'lab' && (
+            <p className="text-xs text-gray-500 mb-6">
+              Measured in a lab browser: {metrics.webVitals.throttling?.label || metrics.webVitals.profile}
+              {metrics.webVitals.measuredAt && `, ${new Date(metrics.webVitals.measuredAt).toLocaleString()}`}
+            </p>
+          )}
+          {metrics.webVitals?.source === 'unavailable' && (
+            <div className="flex items-start gap-2 p-3 mb-6 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+              <span>
+                These values are placeholders: the page could not be measured ({metrics.webVitals.error}).
+              </span>
+            </div>
+          )}
+          {!metrics.webVitals && <div className="mb-4" />}
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <MetricBar
@@ -401,6 +417,12 @@ export function PerformancePage() {
           </Card>
         </div>
 
+        <Card className="mb-8">
+          <h3 className="text-xl font-bold text-gray-900 mb-1">Network Waterfall</h3>
+          <p className="text-sm text-gray-600 mb-4">Every request the page made while it was captured, with its timing phases</p>
+          <NetworkWaterfall resourceMetrics={metrics.resourceMetrics} />
+        </Card>
+
         <Card>
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-xl font-bold text-gray-900">Detailed Metrics & Resource Analysis</h3>
@@ -0,0 +1,42 @@
+import { actAsUser } from '../lib/supabase';
+import { cloneService } from '../services/CloneService';
+import { cloneJobService } from '../services/CloneJobService';
+import type { CloneAuth, CloneJobOptions, CloneProject } from '../types';
+
+/**
+ * Clone Runner
+ *
+ * Entry point of the server-side clone workers (api/clone-worker.js). It is
+ * built with `vite build --ssr` into dist-ssr/cloneRunner.js and runs the same
+ * CloneService pipeline as the browser, on top of jsdom globals, saving the
+ * project for the user who queued the job.
+ */
+
+export interface CloneRunRequest {
+  projectId: string;
+  userId: string;
+  options: CloneJobOptions;
+  auth?: CloneAuth;
+}
+
+export interface CloneRunHandlers {
+  signal: AbortSignal;
+  onProgress: (progress: number, step: string) => void;
+}
+
+export async function runCloneJob(request: CloneRunRequest, handlers: CloneRunHandlers): Promise<CloneProject> {
+  actAsUser(request.userId);
+
+  // A job picked up again after a restart continues from its checkpoint
+  const checkpoint = await cloneJobService.get(request.projectId);
+  if (checkpoint) {
+    return cloneService.resumeClone(request.projectId, { auth: request.auth, ...handlers });
+  }
+
+  return cloneService.cloneWebsite({
+    ...request.options,
+    projectId: request.projectId,
+    auth: request.auth,
+    ...handlers,
+  });
+}
@@ -0,0 +1,261 @@
+import { loggingService } from './LoggingService';
+
+export interface ArchiveSnapshot {
+  format: 'mhtml' | 'har' | 'warc';
+  entryUrl: string; // URL of the saved page
+  title?: string;
+  resources: Map<string, Blob>; // Response bodies keyed by absolute URL (fragment removed)
+}
+
+// The parts of a HAR 1.2 file the importer reads
+interface HarFile {
+  log?: {
+    pages?: Array<{ title?: string }>;
+    entries?: Array<{
+      request?: { method?: string; url?: string };
+      response?: {
+        status?: number;
+        content?: { mimeType?: string; text?: string; encoding?: string };
+      };
+    }>;
+  };
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // Raw part body, one character per byte
+}
+
+/**
+ * Archive Import Service
+ *
+ * Reads pages saved from a browser - MHTML ("Save page as… single file")
+ * and HAR recordings from DevTools - back into the page URL and the body of
+ * every response they captured, so sites our server cannot reach can still
+ * be cloned and analyzed.
+ */
+export class ArchiveImportService {
+  /**
+   * Parse a multipart/related MHTML file
+   */
+  parseMhtml(bytes: Uint8Array): ArchiveSnapshot {
+    const raw = this.bytesToBinaryString(bytes);
+    const { headers, body } = this.splitPart(raw);
+
+    const boundary = this.getParam(headers.get('content-type') || '', 'boundary');
+    if (!boundary) {
+      throw new Error('Not an MHTML file: missing multipart boundary');
+    }
+
+    const resources = new Map<string, Blob>();
+    let entryUrl = headers.get('snapshot-content-location') || '';
+    let firstHtmlUrl = '';
+
+    for (const part of this.splitMultipart(body, boundary)) {
+      const location = part.headers.get('content-location');
+      const contentId = part.headers.get('content-id')?.replace(/^<|>$/g, '');
+      const contentType = part.headers.get('content-type') || 'application/octet-stream';
+      const mimeType = contentType.split(';')[0].trim().toLowerCase();
+      const charset = this.getParam(contentType, 'charset');
+
+      // Text parts are stored as UTF-8 so later reads need not know the charset
+      let bytes = this.decodeBody(part);
+      if (charset && !/^utf-?8$/i.test(charset)) {
+        bytes = this.toUtf8(bytes, charset);
+      }
+
+      const blob = new Blob([bytes], { type: mimeType });
+      const url = location ? this.normalizeKey(location) : null;
+
+      if (url && !resources.has(url)) {
+        resources.set(url, blob);
+        if (!firstHtmlUrl && mimeType === 'text/html') {
+          firstHtmlUrl = url;
+        }
+      }
+      // Frames are referenced as cid:<id> from the main document
+      if (contentId) {
+        resources.set(`cid:${contentId}`, blob);
+      }
+    }
+
+    entryUrl = entryUrl ? this.normalizeKey(entryUrl) : firstHtmlUrl;
+    if (!entryUrl || !resources.has(entryUrl)) {
+      throw new Error('The MHTML file does not contain an HTML page');
+    }
+
+    const title = this.decodeHeaderWord(headers.get('subject') || '') || undefined;
+    loggingService.info('archive', `Parsed MHTML for ${entryUrl}: ${resources.size} parts`);
+    return { format: 'mhtml', entryUrl, title, resources };
+  }
+
+  /**
+   * Parse a HAR 1.2 recording. Only successful GET responses with a recorded
+   * body are kept; the first HTML document is the entry page.
+   */
+  parseHar(text: string): ArchiveSnapshot {
+    let har: HarFile;
+    try {
+      har = JSON.parse(text);
+    } catch {
+      throw new Error('Not a HAR file: invalid JSON');
+    }
+
+    const entries = har?.log?.entries;
+    if (!Array.isArray(entries)) {
+      throw new Error('Not a HAR file: missing log.entries');
+    }
+
+    const resources = new Map<string, Blob>();
+    let entryUrl = '';
+    let withoutBody = 0;
+
+    for (const entry of entries) {
+      const request = entry.request || {};
+      const response = entry.response || {};
+      const content = response.content || {};
+      const status = response.status ?? 0;
+
+      if (request.method !== 'GET' || status < 200 || status >= 300) continue;
+      if (typeof content.text !== 'string') {
+        withoutBody++;
+        continue;
+      }
+
+      const url = this.normalizeKey(request.url || '');
+      if (!url || resources.has(url)) continue;
+
+      const mimeType = String(content.mimeType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+      const body = content.encoding === 'base64'
+        ? this.base64ToBytes(content.text)
+        : new TextEncoder().encode(content.text);
+
+      resources.set(url, new Blob([body], { type: mimeType }));
+      if (!entryUrl && mimeType === 'text/html') {
+        entryUrl = url;
+      }
+    }
+
+    if (!entryUrl) {
+      throw new Error('The HAR file does not contain an HTML page with a recorded body');
+    }
+    if (withoutBody > 0) {
+      loggingService.warning('archive', `${withoutBody} HAR responses have no recorded body and were skipped`);
+    }
+
+    const title = har.log?.pages?.[0]?.title;
+    loggingService.info('archive', `Parsed HAR for ${entryUrl}: ${resources.size} responses`);
+    return { format: 'har', entryUrl, title: typeof title === 'string' ? title : undefined, resources };
+  }
+
+  /**
+   * Key used to look up resources: the absolute URL without its fragment
+   */
+  normalizeKey(url: string): string {
+    if (url.startsWith('cid:')) return url;
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed.href;
+    } catch {
+      return '';
+    }
+  }
+
+  private splitPart(raw: string): { headers: Map<string, string>; body: string } {
+    const match = raw.match(/\r?\n\r?\n/);
+    const headerEnd = match?.index ?? raw.length;
+    const headers = new Map<string, string>();
+
+    // Folded header lines continue with leading whitespace
+    const headerText = raw.slice(0, headerEnd).replace(/\r?\n[ \t]+/g, ' ');
+    for (const line of headerText.split(/\r?\n/)) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+      }
+    }
+
+    return { headers, body: match ? raw.slice(headerEnd + match[0].length) : '' };
+  }
+
+  private splitMultipart(body: string, boundary: string): MimePart[] {
+    const parts: MimePart[] = [];
+    const delimiter = `--${boundary}`;
+
+    for (const chunk of body.split(delimiter).slice(1)) {
+      if (chunk.startsWith('--')) break; // Closing delimiter
+      const part = this.splitPart(chunk.replace(/^[ \t]*\r?\n/, ''));
+      part.body = part.body.replace(/\r?\n$/, '');
+      parts.push(part);
+    }
+
+    return parts;
+  }
+
+  private decodeBody(part: MimePart): Uint8Array {
+    const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase();
+
+    if (encoding === 'base64') {
+      return this.base64ToBytes(part.body);
+    }
+    if (encoding === 'quoted-printable') {
+      const decoded = part.body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_match, hex) => String.fromCharCode(parseInt(hex, 16)));
+      return this.binaryStringToBytes(decoded);
+    }
+    return this.binaryStringToBytes(part.body);
+  }
+
+  /**
+   * Decode an RFC 2047 encoded-word header such as =?utf-8?Q?Caf=C3=A9?=
+   */
+  private decodeHeaderWord(value: string): string {
+    return value.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset, type, text) => {
+      const binary = type.toUpperCase() === 'B'
+        ? atob(text)
+        : text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m: string, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      try {
+        return new TextDecoder(charset).decode(this.binaryStringToBytes(binary));
+      } catch {
+        return binary;
+      }
+    });
+  }
+
+  private toUtf8(bytes: Uint8Array, charset: string): Uint8Array {
+    try {
+      return new TextEncoder().encode(new TextDecoder(charset).decode(bytes));
+    } catch {
+      return bytes;
+    }
+  }
+
+  private getParam(header: string, name: string): string | null {
+    const match = header.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+    return match ? match[1] ?? match[2] : null;
+  }
+
+  private base64ToBytes(base64: string): Uint8Array {
+    return this.binaryStringToBytes(atob(base64.replace(/\s+/g, '')));
+  }
+
+  private binaryStringToBytes(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private bytesToBinaryString(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return binary;
+  }
+}
+
+export const archiveImportService = new ArchiveImportService();
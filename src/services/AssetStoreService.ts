@@ -0,0 +1,408 @@
+import { supabase } from '../lib/supabase';
+import type { CaptureSnapshot, ClonedAsset, HarLog } from '../types';
+import { loggingService } from './LoggingService';
+
+const ASSET_BUCKET = 'assets';
+const ASSET_ENDPOINT = '/api/assets';
+const UPLOAD_CONCURRENCY = 6;
+// How long a blob counts as recently used. Garbage collection spares blobs
+// used within its grace period (a day), which must stay well above this.
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Where asset bytes live. Blobs are immutable and keyed by their SHA-256,
+ * so `put` for a hash that already exists is a no-op. `touch` marks an
+ * existing blob as just used, so garbage collection's grace period starts
+ * over, and returns false when the blob is not stored.
+ */
+export interface AssetStoreBackend {
+  readonly name: string;
+  touch(hash: string): Promise<boolean>;
+  put(hash: string, bytes: Uint8Array): Promise<void>;
+  get(hash: string): Promise<Uint8Array | null>;
+}
+
+function blobPath(hash: string): string {
+  return `${hash.slice(0, 2)}/${hash}`;
+}
+
+/**
+ * Writes to the app server's store need the signed-in user's token
+ */
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+/**
+ * Upload a blob through the app server, which checks its SHA-256 before
+ * storing it
+ */
+async function putThroughServer(url: string, bytes: Uint8Array): Promise<void> {
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream', ...await authHeaders() },
+    body: bytes,
+  });
+  if (!response.ok) {
+    const details = await response.json().catch(() => null);
+    throw new Error(details?.message || details?.error || `Asset upload failed with HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Blobs in the private `assets` Supabase storage bucket. Users may read it
+ * directly, but only the server writes to it.
+ */
+export class SupabaseAssetBackend implements AssetStoreBackend {
+  readonly name = 'supabase';
+
+  async touch(hash: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('touch_asset_blob', { blob_hash: hash });
+    if (error) throw error;
+    return data === true;
+  }
+
+  async put(hash: string, bytes: Uint8Array): Promise<void> {
+    await putThroughServer(`${ASSET_ENDPOINT}/${hash}/bucket`, bytes);
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const { data, error } = await supabase.storage.from(ASSET_BUCKET).download(blobPath(hash));
+    if (error || !data) return null;
+    return new Uint8Array(await data.arrayBuffer());
+  }
+}
+
+/**
+ * Blobs on the app server's disk, through /api/assets/:hash
+ */
+export class DiskAssetBackend implements AssetStoreBackend {
+  readonly name = 'disk';
+
+  async touch(hash: string): Promise<boolean> {
+    const response = await fetch(`${ASSET_ENDPOINT}/${hash}/touch`, {
+      method: 'POST',
+      headers: await authHeaders(),
+    });
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new Error(`Asset touch failed with HTTP ${response.status}`);
+    }
+    return true;
+  }
+
+  async put(hash: string, bytes: Uint8Array): Promise<void> {
+    await putThroughServer(`${ASSET_ENDPOINT}/${hash}`, bytes);
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const response = await fetch(`${ASSET_ENDPOINT}/${hash}`);
+    if (!response.ok) return null;
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Asset Store Service
+ *
+ * Content-addressed storage for cloned assets. Saving a project moves each
+ * asset's content into the store under its SHA-256 and keeps only the hash
+ * in the project row, so a logo or font shared by many projects is stored
+ * once. Loading puts the content back. Blobs no project references are
+ * removed by the server's garbage collection.
+ */
+export class AssetStoreService {
+  private backend: AssetStoreBackend;
+  // When each hash was last uploaded or touched by this instance
+  private touchedAt = new Map<string, number>();
+
+  constructor(backend?: AssetStoreBackend) {
+    this.backend = backend || (import.meta.env.VITE_ASSET_STORE === 'disk'
+      ? new DiskAssetBackend()
+      : new SupabaseAssetBackend());
+  }
+
+  /**
+   * Upload asset contents and return copies that reference them by hash
+   * instead of carrying the content. Assets that fail to upload keep their
+   * content inline, so saving never loses data.
+   */
+  async storeAssets(assets: ClonedAsset[]): Promise<ClonedAsset[]> {
+    const stored: ClonedAsset[] = new Array(assets.length);
+    let uploaded = 0;
+    let reused = 0;
+    let failed = 0;
+
+    for (let i = 0; i < assets.length; i += UPLOAD_CONCURRENCY) {
+      const batch = assets.slice(i, i + UPLOAD_CONCURRENCY);
+
+      await Promise.all(batch.map(async (asset, offset) => {
+        const index = i + offset;
+        if (!asset.content) {
+          stored[index] = asset;
+          return;
+        }
+
+        try {
+          const { hash, mimeType, uploaded: isNew } = await this.putContent(asset.content);
+          if (isNew) {
+            uploaded++;
+          } else {
+            reused++;
+          }
+
+          const reference: ClonedAsset = mimeType ? { ...asset, hash, mimeType } : { ...asset, hash };
+          delete reference.content;
+          stored[index] = reference;
+        } catch (error) {
+          failed++;
+          stored[index] = asset;
+          loggingService.warning('assets', `Could not store ${asset.originalUrl}, keeping it inline`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }));
+    }
+
+    console.log(`📦 [AssetStore] ${uploaded} uploaded, ${reused} already stored, ${failed} kept inline (${this.backend.name})`);
+    return stored;
+  }
+
+  /**
+   * Fill in the content of assets that reference the store by hash
+   */
+  async loadAssets(assets: ClonedAsset[]): Promise<ClonedAsset[]> {
+    return Promise.all(assets.map(async asset => {
+      if (asset.content || !asset.hash) return asset;
+
+      const content = await this.getContent(asset.hash, asset.mimeType, asset.originalUrl);
+      return content === null ? asset : { ...asset, content };
+    }));
+  }
+
+  /**
+   * Move the response bodies of a capture's HAR into the store. Bodies that
+   * fail to upload stay inline.
+   */
+  async storeHarBodies(har: HarLog): Promise<HarLog> {
+    const entries = [];
+
+    for (let i = 0; i < har.entries.length; i += UPLOAD_CONCURRENCY) {
+      entries.push(...await Promise.all(har.entries.slice(i, i + UPLOAD_CONCURRENCY).map(async entry => {
+        const { text, encoding, ...content } = entry.response.content;
+        if (text === undefined || encoding !== 'base64') return entry;
+
+        try {
+          const { hash } = await this.putContent(`data:application/octet-stream;base64,${text}`);
+          return { ...entry, response: { ...entry.response, content: { ...content, _hash: hash } } };
+        } catch (error) {
+          loggingService.warning('assets', `Could not store the response body of ${entry.request.url}, keeping it inline`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return entry;
+        }
+      })));
+    }
+
+    return { ...har, entries };
+  }
+
+  /**
+   * Put stored response bodies back into a HAR
+   */
+  async loadHarBodies(har: HarLog): Promise<HarLog> {
+    const entries = await Promise.all(har.entries.map(async entry => {
+      const { _hash: hash, ...content } = entry.response.content;
+      if (!hash || content.text !== undefined) return entry;
+
+      const dataUri = await this.getContent(hash, 'application/octet-stream', entry.request.url);
+      if (dataUri === null) return entry;
+      return {
+        ...entry,
+        response: { ...entry.response, content: { ...content, text: dataUri.slice(dataUri.indexOf(',') + 1), encoding: 'base64' as const } },
+      };
+    }));
+
+    return { ...har, entries };
+  }
+
+  /**
+   * Move the page, styles and screenshot of each snapshot into the store.
+   * Parts that fail to upload stay inline.
+   */
+  async storeSnapshots(snapshots: CaptureSnapshot[]): Promise<CaptureSnapshot[]> {
+    const fields = [
+      ['html', 'htmlHash'],
+      ['styles', 'stylesHash'],
+      ['screenshot', 'screenshotHash'],
+    ] as const;
+
+    return Promise.all(snapshots.map(async snapshot => {
+      const stored: CaptureSnapshot = { ...snapshot };
+      for (const [field, hashField] of fields) {
+        const content = snapshot[field];
+        if (!content) continue;
+
+        try {
+          stored[hashField] = (await this.putContent(content)).hash;
+          delete stored[field];
+        } catch (error) {
+          loggingService.warning('assets', `Could not store the ${field} of the ${snapshot.profile.name} snapshot, keeping it inline`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      return stored;
+    }));
+  }
+
+  /**
+   * Fill in the parts of snapshots that reference the store by hash
+   */
+  async loadSnapshots(snapshots: CaptureSnapshot[]): Promise<CaptureSnapshot[]> {
+    return Promise.all(snapshots.map(async snapshot => {
+      const label = `the ${snapshot.profile.name} snapshot`;
+      const [html, styles, screenshot] = await Promise.all([
+        snapshot.html ?? (snapshot.htmlHash ? this.getContent(snapshot.htmlHash, undefined, label) : null),
+        snapshot.styles ?? (snapshot.stylesHash ? this.getContent(snapshot.stylesHash, undefined, label) : null),
+        snapshot.screenshot ?? (snapshot.screenshotHash ? this.getContent(snapshot.screenshotHash, 'image/png', label) : null),
+      ]);
+
+      return {
+        ...snapshot,
+        ...(html !== null && { html }),
+        ...(styles !== null && { styles }),
+        ...(screenshot !== null && { screenshot }),
+      };
+    }));
+  }
+
+  /**
+   * Store a HAR as one JSON blob, after its response bodies went in with
+   * storeHarBodies(). Returns the blob's hash and the body hashes the HAR
+   * refers to, or null when the upload failed and the HAR should stay inline.
+   */
+  async storeHar(har: HarLog): Promise<{ hash: string; bodyHashes: string[] } | null> {
+    try {
+      const { hash } = await this.putContent(JSON.stringify(har));
+      const bodyHashes = har.entries
+        .map(entry => entry.response.content._hash)
+        .filter((bodyHash): bodyHash is string => !!bodyHash);
+      return { hash, bodyHashes: Array.from(new Set(bodyHashes)) };
+    } catch (error) {
+      loggingService.warning('assets', 'Could not store the recorded HAR, keeping it inline', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Read a HAR saved with storeHar(). Its response bodies stay in the store
+   * until loadHarBodies() is called.
+   */
+  async loadHar(hash: string): Promise<HarLog | null> {
+    const json = await this.getContent(hash, undefined, 'the recorded HAR');
+    if (json === null) return null;
+
+    try {
+      return JSON.parse(json) as HarLog;
+    } catch {
+      loggingService.error('assets', `Stored HAR ${hash} is not valid JSON`);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the server to delete blobs no project references any more
+   */
+  async collectGarbage(): Promise<void> {
+    this.touchedAt.clear();
+    const response = await fetch(`${ASSET_ENDPOINT}/gc`, { method: 'POST', headers: await authHeaders() });
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(result?.message || `Asset garbage collection failed with HTTP ${response.status}`);
+    }
+    loggingService.info('assets', 'Asset garbage collection finished', result);
+  }
+
+  /**
+   * Store one piece of content, touching it instead when it is already stored
+   */
+  private async putContent(content: string): Promise<{ hash: string; mimeType?: string; uploaded: boolean }> {
+    const { bytes, mimeType } = this.encodeContent(content);
+    const hash = await this.hash(bytes);
+    let uploaded = false;
+
+    // A blob used recently is safe from garbage collection; an older one
+    // is touched first, so a collection running before this project's
+    // row is saved cannot delete it
+    const recentlyTouched = Date.now() - (this.touchedAt.get(hash) ?? 0) < TOUCH_INTERVAL_MS;
+    if (!recentlyTouched && !await this.backend.touch(hash)) {
+      await this.backend.put(hash, bytes);
+      uploaded = true;
+    }
+    this.touchedAt.set(hash, Date.now());
+
+    return { hash, mimeType, uploaded };
+  }
+
+  private async getContent(hash: string, mimeType: string | undefined, url: string): Promise<string | null> {
+    const bytes = await this.backend.get(hash);
+    if (!bytes) {
+      loggingService.warning('assets', `Asset ${hash} for ${url} is missing from the store`);
+      return null;
+    }
+
+    if (await this.hash(bytes) !== hash) {
+      loggingService.error('assets', `Asset ${hash} for ${url} failed its integrity check`);
+      return null;
+    }
+
+    return this.decodeContent(bytes, mimeType);
+  }
+
+  async hash(bytes: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Asset content is either a data URI (binary assets) or plain text (CSS, JS).
+   * Data URIs are stored as their decoded bytes so the hash follows the file,
+   * not its encoding.
+   */
+  private encodeContent(content: string): { bytes: Uint8Array; mimeType?: string } {
+    const match = content.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+    if (!match) {
+      return { bytes: new TextEncoder().encode(content) };
+    }
+
+    const mimeType = match[1] || 'application/octet-stream';
+    if (!match[2]) {
+      return { bytes: new TextEncoder().encode(decodeURIComponent(match[3])), mimeType };
+    }
+
+    const binary = atob(match[3]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return { bytes, mimeType };
+  }
+
+  private decodeContent(bytes: Uint8Array, mimeType?: string): string {
+    if (!mimeType) {
+      return new TextDecoder().decode(bytes);
+    }
+
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+  }
+}
+
+export const assetStoreService = new AssetStoreService();
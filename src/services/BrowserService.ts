@@ -1,3 +1,5 @@
+import type { CaptureDiagnostics, CapturedFrame, CloneAuth, DismissedOverlay, EmulationProfile, ExpansionOptions, ExpansionReport, HarLog, InterceptionReport, InterceptionRules, SerializationReport, ShadowDomMode } from '../types';
+
 export interface BrowserOptions {
   headless?: boolean;
   timeout?: number;
@@ -21,6 +23,28 @@ export const DEFAULT_BREAKPOINTS: Breakpoint[] = [
   { name: 'desktop-4k', width: 2560, height: 1440, label: 'Desktop 4K' },
 ];
 
+const IPHONE_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+// Named profiles the capture endpoint also accepts by name (api/emulation.js)
+export const EMULATION_PROFILES: EmulationProfile[] = [
+  { name: 'default', label: 'Default' },
+  { name: 'dark', label: 'Dark mode', colorScheme: 'dark' },
+  { name: 'reduced-motion', label: 'Reduced motion', reducedMotion: 'reduce' },
+  { name: 'de-DE', label: 'German (Berlin)', locale: 'de-DE', timezoneId: 'Europe/Berlin', geolocation: { latitude: 52.52, longitude: 13.405 } },
+  { name: 'fr-FR', label: 'French (Paris)', locale: 'fr-FR', timezoneId: 'Europe/Paris', geolocation: { latitude: 48.8566, longitude: 2.3522 } },
+  { name: 'es-ES', label: 'Spanish (Madrid)', locale: 'es-ES', timezoneId: 'Europe/Madrid', geolocation: { latitude: 40.4168, longitude: -3.7038 } },
+  { name: 'ja-JP', label: 'Japanese (Tokyo)', locale: 'ja-JP', timezoneId: 'Asia/Tokyo', geolocation: { latitude: 35.6762, longitude: 139.6503 } },
+  { name: 'retina', label: 'Retina (2x)', deviceScaleFactor: 2 },
+  {
+    name: 'mobile-dark',
+    label: 'Mobile, dark mode',
+    colorScheme: 'dark',
+    viewport: { width: 390, height: 844 },
+    deviceScaleFactor: 3,
+    userAgent: IPHONE_USER_AGENT,
+  },
+];
+
 export interface ResponsiveStyles {
   breakpoint: string;
   width: number;
@@ -49,6 +73,7 @@ export interface ElementWithStyles {
 }
 
 export interface CaptureResult {
+  title?: string;
   html: string;
   styles: string;
   scripts: string[];
@@ -58,6 +83,14 @@ export interface CaptureResult {
     stylesheets: string[];
   };
   elements?: ElementWithStyles[]; // Elements with computed styles
+  interception?: InterceptionReport | null; // Requests blocked or stubbed by the capture's rules
+  dismissed?: DismissedOverlay[] | null; // Cookie banners and popups closed before the capture
+  emulation?: EmulationProfile | null; // Profile the capture ran with; null for the default context
+  expansion?: ExpansionReport | null; // Scrolling and "load more" clicks before the capture; null when skipped
+  frames?: CapturedFrame[]; // Same-origin iframe documents, to be cloned as pages
+  serialization?: SerializationReport | null; // null when the capture fell back to outerHTML
+  diagnostics?: CaptureDiagnostics; // Console, page errors and failed requests during the capture
+  har?: HarLog | null; // null when recording was off or the HAR could not be read
 }
 
 export interface ResponsiveCaptureResult extends CaptureResult {
@@ -174,6 +207,41 @@ export interface NavigationResult extends CaptureResult {
   };
 }
 
+// How the capture endpoint loads and serializes the page, independent of the phases
+export interface CaptureRequestOptions {
+  auth?: CloneAuth;
+  interception?: InterceptionRules;
+  dismissPopups?: boolean; // Default true
+  emulation?: EmulationProfile;
+  expansion?: ExpansionOptions | false;
+  shadowDom?: ShadowDomMode; // Default 'declarative'
+  captureFrames?: boolean; // Same-origin iframes as pages (default true)
+  recordHar?: boolean; // Record the page's network traffic (default true)
+}
+
+export interface CapturePhases {
+  responsive?: boolean;
+  interactive?: boolean;
+  animations?: boolean;
+  styleAnalysis?: boolean;
+  navigation?: boolean;
+  breakpoints?: Breakpoint[];
+}
+
+/**
+ * Result of a combined capture. Each phase's fields are present only when
+ * that phase was requested.
+ */
+export interface CombinedCaptureResult
+  extends CaptureResult,
+    Partial<Omit<ResponsiveCaptureResult, keyof CaptureResult>>,
+    Partial<Omit<InteractiveCaptureResult, keyof CaptureResult>>,
+    Partial<Omit<AnimationCaptureResult, keyof CaptureResult>>,
+    Partial<Omit<StyleAnalysisResult, keyof CaptureResult>>,
+    Partial<Omit<NavigationResult, keyof CaptureResult>> {
+  screenshot?: string | null; // Base64 encoded
+}
+
 export class BrowserService {
   /**
    * Check if browser automation is available
@@ -194,7 +262,7 @@ export class BrowserService {
   /**
    * Navigate to URL and capture full rendered content using Railway API
    */
-  async capturePage(url: string, takeScreenshot: boolean = false): Promise<CaptureResult> {
+  async capturePage(url: string, takeScreenshot: boolean = false, dismissPopups: boolean = true): Promise<CaptureResult> {
     console.log(`🌐 Requesting browser capture for ${url}...`);
 
     try {
@@ -208,7 +276,7 @@ export class BrowserService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url, takeScreenshot }),
+        body: JSON.stringify({ url, takeScreenshot, dismissPopups }),
       });
 
       if (!response.ok) {
@@ -225,6 +293,9 @@ export class BrowserService {
       if (takeScreenshot && (result as any).screenshot) {
         console.log(`📸 Screenshot captured`);
       }
+      if (result.dismissed?.length) {
+        console.log(`🍪 Dismissed ${result.dismissed.length} banners and popups`);
+      }
 
       return result;
     } catch (error) {
@@ -448,6 +519,79 @@ export class BrowserService {
     }
   }
 
+  /**
+   * Run any mix of capture phases against a single page load
+   */
+  async captureCombined(
+    url: string,
+    phases: CapturePhases,
+    takeScreenshot: boolean = false,
+    options: CaptureRequestOptions = {},
+    signal?: AbortSignal
+  ): Promise<CombinedCaptureResult> {
+    const { dismissPopups = true, shadowDom = 'declarative', captureFrames = true, recordHar = true } = options;
+    const requested = (['responsive', 'interactive', 'animations', 'styleAnalysis', 'navigation'] as const)
+      .filter(phase => phases[phase]);
+    console.log(`🧩 Requesting combined capture for ${url} via API (phases: ${requested.join(', ') || 'none'})...`);
+
+    try {
+      const apiUrl = '/api/capture';
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        signal,
+        body: JSON.stringify({
+          url,
+          responsive: !!phases.responsive,
+          interactive: !!phases.interactive,
+          animations: !!phases.animations,
+          styleAnalysis: !!phases.styleAnalysis,
+          navigation: !!phases.navigation,
+          breakpoints: phases.breakpoints || DEFAULT_BREAKPOINTS,
+          takeScreenshot,
+          auth: options.auth,
+          interception: options.interception,
+          dismissPopups,
+          emulation: options.emulation,
+          expansion: options.expansion,
+          shadowDom,
+          captureFrames,
+          recordHar
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `API request failed with status ${response.status}`);
+      }
+
+      const result: CombinedCaptureResult = await response.json();
+
+      console.log('✅ Combined capture completed');
+      console.log(`📄 HTML length: ${result.html.length} chars`);
+      if (result.responsiveStyles) console.log(`📱 Breakpoints captured: ${result.responsiveStyles.length}`);
+      if (result.interactiveElements) console.log(`🎨 Interactive elements: ${result.totalInteractive}`);
+      if (result.animations) console.log(`🎬 Animated elements: ${result.animations.totalAnimatedElements}`);
+      if (result.styleAnalysis) console.log(`🎨 Colors: ${result.styleAnalysis.colors.totalUnique} unique`);
+      if (result.navigation) console.log(`🧭 Total navigations: ${result.navigation.totalNavigations}`);
+      if (result.emulation) console.log(`🎭 Emulated profile: ${result.emulation.name}`);
+      if (result.diagnostics) console.log(`🩺 Capture diagnostics: ${result.diagnostics.pageErrors.length} page errors, ${result.diagnostics.failedRequests.length} failed requests`);
+      if (result.frames?.length) console.log(`🪟 Same-origin frames captured: ${result.frames.length}`);
+      if (result.har) console.log(`🌊 Network requests recorded: ${result.har.entries.length}`);
+      if (result.expansion) console.log(`📜 Expanded page: ${result.expansion.scrollSteps} scroll steps, ${result.expansion.loadMoreClicks} "load more" clicks`);
+
+      return result;
+    } catch (error) {
+      console.error('❌ Failed to run combined capture:', error);
+      throw new Error(
+        `Combined capture failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Close browser instance
    * This is a no-op since Railway API handles browser cleanup automatically
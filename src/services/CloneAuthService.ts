@@ -0,0 +1,166 @@
+import { loggingService } from './LoggingService';
+import { secureLocalStorage } from './SecureStorageService';
+import type { SecureStorageService } from './SecureStorageService';
+import type { AuthCookie, CloneAuth, LoginStep } from '../types';
+
+const STORAGE_PREFIX = 'clone_auth:';
+const REMEMBER_FOR_MS = 30 * 24 * 60 * 60 * 1000;
+const LOGIN_ACTIONS: LoginStep['action'][] = ['goto', 'fill', 'click', 'press', 'wait'];
+
+type AuthMethod = 'basic' | 'headers' | 'cookies' | 'login';
+
+// Cookie shape written by browser extensions and Playwright's storageState
+interface ExportedCookie {
+  name?: string;
+  value?: string;
+  domain?: string;
+  path?: string;
+  expires?: number;
+  expirationDate?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: string;
+}
+
+/**
+ * Clone Auth Service
+ *
+ * Keeps the credentials used to clone pages behind a login. They are stored
+ * per site, encrypted with SecureStorageService in this browser only, and
+ * sent to the capture endpoint with each request - never saved on a project.
+ */
+export class CloneAuthService {
+  constructor(private storage: SecureStorageService = secureLocalStorage) {}
+
+  /**
+   * Remember credentials for every page of a site's origin
+   */
+  save(siteUrl: string, auth: CloneAuth): void {
+    this.validate(auth);
+    this.storage.setItem(this.getKey(siteUrl), auth, { encrypt: true, expiresIn: REMEMBER_FOR_MS });
+    loggingService.info('auth', `Saved credentials for ${new URL(siteUrl).origin}`, { methods: this.describe(auth) });
+  }
+
+  get(siteUrl: string): CloneAuth | null {
+    try {
+      return this.storage.getItem<CloneAuth>(this.getKey(siteUrl));
+    } catch {
+      return null;
+    }
+  }
+
+  remove(siteUrl: string): void {
+    this.storage.removeItem(this.getKey(siteUrl));
+  }
+
+  /**
+   * Which methods a set of credentials uses, safe to log and store on a project
+   */
+  describe(auth: CloneAuth | null | undefined): AuthMethod[] {
+    if (!auth) return [];
+    const methods: AuthMethod[] = [];
+    if (auth.basic?.username) methods.push('basic');
+    if (auth.headers && Object.keys(auth.headers).length > 0) methods.push('headers');
+    if (auth.cookies && auth.cookies.length > 0) methods.push('cookies');
+    if (auth.loginSteps && auth.loginSteps.length > 0) methods.push('login');
+    return methods;
+  }
+
+  /**
+   * Reject login scripts the capture endpoint could not run
+   */
+  validate(auth: CloneAuth): void {
+    for (const [name, value] of Object.entries(auth.headers || {})) {
+      if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name) || /[\r\n]/.test(value)) {
+        throw new Error(`Invalid header: ${name}`);
+      }
+    }
+
+    (auth.loginSteps || []).forEach((step, index) => {
+      const label = `Login step ${index + 1}`;
+      if (!LOGIN_ACTIONS.includes(step.action)) {
+        throw new Error(`${label}: unknown action "${step.action}"`);
+      }
+      if ((step.action === 'fill' || step.action === 'click' || step.action === 'press') && !step.selector) {
+        throw new Error(`${label}: ${step.action} needs a selector`);
+      }
+      if ((step.action === 'goto' || step.action === 'press') && !step.value) {
+        throw new Error(`${label}: ${step.action} needs a value`);
+      }
+    });
+  }
+
+  /**
+   * Read cookies exported from a browser: a JSON array (cookie editor
+   * extensions), Playwright storageState, a Netscape cookies.txt file, or a
+   * plain "name=value; name2=value2" Cookie header for the given site.
+   */
+  parseCookies(text: string, siteUrl: string): AuthCookie[] {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+      let parsed: ExportedCookie[] | { cookies?: ExportedCookie[] };
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch {
+        throw new Error('Cookies are not valid JSON');
+      }
+      const list = Array.isArray(parsed) ? parsed : parsed.cookies || [];
+      return list
+        .filter(cookie => cookie.name && typeof cookie.value === 'string')
+        .map(cookie => this.toAuthCookie(cookie, siteUrl));
+    }
+
+    const lines = trimmed.split(/\r?\n/);
+    if (lines.some(line => line.split('\t').length === 7)) {
+      const cookies: AuthCookie[] = [];
+      for (const line of lines) {
+        // curl and browser exporters mark HttpOnly cookies with a comment-like prefix
+        const httpOnly = line.startsWith('#HttpOnly_');
+        const fields = line.replace(/^#HttpOnly_/, '').split('\t');
+        if (fields.length < 7 || fields[0].startsWith('#')) continue;
+
+        const [domain, , path, secure, expires, name, value] = fields;
+        cookies.push(this.toAuthCookie({
+          name, value, domain, path, httpOnly,
+          secure: secure === 'TRUE',
+          expires: Number(expires) || undefined,
+        }, siteUrl));
+      }
+      return cookies;
+    }
+
+    return trimmed
+      .replace(/^cookie:\s*/i, '')
+      .split(';')
+      .map(pair => pair.trim())
+      .filter(pair => pair.includes('='))
+      .map(pair => {
+        const index = pair.indexOf('=');
+        return this.toAuthCookie({ name: pair.slice(0, index).trim(), value: pair.slice(index + 1).trim() }, siteUrl);
+      });
+  }
+
+  private toAuthCookie(cookie: ExportedCookie, siteUrl: string): AuthCookie {
+    const sameSite = String(cookie.sameSite || '').toLowerCase();
+    const expires = cookie.expires ?? cookie.expirationDate;
+
+    return {
+      name: cookie.name!,
+      value: cookie.value!,
+      domain: cookie.domain || new URL(siteUrl).hostname,
+      path: cookie.path || '/',
+      expires: expires && expires > 0 ? Math.floor(expires) : undefined,
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      sameSite: sameSite === 'strict' ? 'Strict' : sameSite === 'lax' ? 'Lax' : sameSite === 'none' || sameSite === 'no_restriction' ? 'None' : undefined,
+    };
+  }
+
+  private getKey(siteUrl: string): string {
+    return `${STORAGE_PREFIX}${new URL(siteUrl).origin}`;
+  }
+}
+
+export const cloneAuthService = new CloneAuthService();
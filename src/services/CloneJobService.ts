@@ -0,0 +1,113 @@
+import { supabase, requireUserId } from '../lib/supabase';
+import { loggingService } from './LoggingService';
+import type { CloneCheckpoint, CloneJobOptions, CloneJobStep, CloneOptions } from '../types';
+
+/**
+ * Clone Job Service
+ *
+ * Persists a checkpoint for every unfinished clone in `clone_jobs`: the steps
+ * already done, the asset downloads already stored on the project and the
+ * page as fetched. CloneService resumes a job from its checkpoint after it
+ * was cancelled, failed, or the tab running it was closed.
+ */
+export class CloneJobService {
+  create(projectId: string, options: CloneOptions): CloneCheckpoint {
+    return {
+      projectId,
+      options: this.getJobOptions(options),
+      completedSteps: [],
+      assetGroups: {},
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  async save(checkpoint: CloneCheckpoint): Promise<void> {
+    const userId = await requireUserId();
+
+    checkpoint.updatedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('clone_jobs')
+      .upsert({
+        project_id: checkpoint.projectId,
+        user_id: userId,
+        options: checkpoint.options,
+        completed_steps: checkpoint.completedSteps,
+        asset_groups: checkpoint.assetGroups,
+        source_html: checkpoint.sourceHtml ?? null,
+        frames: checkpoint.frames ?? null,
+        updated_at: checkpoint.updatedAt,
+      });
+
+    if (error) throw error;
+  }
+
+  async get(projectId: string): Promise<CloneCheckpoint | null> {
+    const userId = await requireUserId();
+    const { data, error } = await supabase
+      .from('clone_jobs')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      projectId: data.project_id,
+      options: data.options,
+      completedSteps: data.completed_steps || [],
+      assetGroups: data.asset_groups || {},
+      sourceHtml: data.source_html ?? undefined,
+      frames: data.frames ?? undefined,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Ids of the projects whose clone can be resumed
+   */
+  async listResumable(): Promise<string[]> {
+    try {
+      const userId = await requireUserId();
+      const { data, error } = await supabase
+        .from('clone_jobs')
+        .select('project_id')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(row => row.project_id);
+    } catch (error) {
+      loggingService.warning('clone', 'Could not load resumable clone jobs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  async remove(projectId: string): Promise<void> {
+    const userId = await requireUserId();
+    const { error } = await supabase.from('clone_jobs').delete().eq('project_id', projectId).eq('user_id', userId);
+    if (error) throw error;
+  }
+
+  /**
+   * Step after the last finished one, for progress messages
+   */
+  getNextStep(checkpoint: CloneCheckpoint): CloneJobStep | null {
+    const steps: CloneJobStep[] = ['fetch', 'wordpress', 'parse', 'assets', 'analysis'];
+    return steps.find(step => !checkpoint.completedSteps.includes(step)) || null;
+  }
+
+  private getJobOptions(options: CloneOptions): CloneJobOptions {
+    const jobOptions: CloneOptions = { ...options };
+    delete jobOptions.files;
+    delete jobOptions.auth;
+    delete jobOptions.signal;
+    delete jobOptions.onProgress;
+    return jobOptions;
+  }
+}
+
+export const cloneJobService = new CloneJobService();
@@ -0,0 +1,127 @@
+import { supabase } from '../lib/supabase';
+import { loggingService } from './LoggingService';
+import type { CloneAuth, CloneJobStatus, CloneOptions } from '../types';
+
+const JOBS_ENDPOINT = '/api/jobs';
+
+export interface CloneJobSubscription {
+  close: () => void;
+}
+
+/**
+ * Clone Queue Service
+ *
+ * Runs URL clones on the app server instead of in this tab. Jobs are queued
+ * with /api/jobs and keep running when the browser is closed; progress is
+ * streamed back over Server-Sent Events while the page is open.
+ */
+export class CloneQueueService {
+  async submit(options: CloneOptions): Promise<CloneJobStatus> {
+    if (options.type !== 'url') {
+      throw new Error('Only URL clones can run on the server');
+    }
+
+    const jobOptions: CloneOptions = { ...options };
+    const auth: CloneAuth | undefined = jobOptions.auth;
+    delete jobOptions.auth;
+    delete jobOptions.files;
+    delete jobOptions.signal;
+    delete jobOptions.onProgress;
+
+    const job = await this.request<CloneJobStatus>(JOBS_ENDPOINT, {
+      method: 'POST',
+      body: JSON.stringify({ options: jobOptions, auth }),
+    });
+    loggingService.info('clone', `Queued server clone of ${job.source}`, { jobId: job.id });
+    return job;
+  }
+
+  async getStatus(jobId: string): Promise<CloneJobStatus> {
+    return this.request<CloneJobStatus>(`${JOBS_ENDPOINT}/${jobId}`);
+  }
+
+  async list(): Promise<CloneJobStatus[]> {
+    const { jobs } = await this.request<{ jobs: CloneJobStatus[] }>(JOBS_ENDPOINT);
+    return jobs;
+  }
+
+  /**
+   * Whether this app server can run clones: it needs the job API, a service
+   * role key and the SSR build, none of which a `vite` dev server has
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const { available } = await this.request<{ available?: boolean }>(JOBS_ENDPOINT);
+      return available === true;
+    } catch {
+      return false;
+    }
+  }
+
+  async cancel(jobId: string): Promise<CloneJobStatus> {
+    return this.request<CloneJobStatus>(`${JOBS_ENDPOINT}/${jobId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Follow a job's progress until it finishes. The stream reconnects on its own
+   * after network errors; onDone fires once with the final status.
+   */
+  async subscribe(
+    jobId: string,
+    onProgress: (job: CloneJobStatus) => void,
+    onDone: (job: CloneJobStatus) => void
+  ): Promise<CloneJobSubscription> {
+    const token = await this.getAccessToken();
+    const source = new EventSource(`${JOBS_ENDPOINT}/${jobId}/events?access_token=${encodeURIComponent(token)}`);
+
+    source.addEventListener('progress', (event) => {
+      onProgress(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener('done', (event) => {
+      source.close();
+      onDone(JSON.parse((event as MessageEvent).data));
+    });
+
+    return { close: () => source.close() };
+  }
+
+  /**
+   * Resolve when the job finishes, reporting progress like CloneOptions.onProgress
+   */
+  async waitFor(jobId: string, onProgress?: (progress: number, step: string) => void): Promise<CloneJobStatus> {
+    return new Promise((resolve, reject) => {
+      this.subscribe(
+        jobId,
+        job => onProgress?.(job.progress, job.step),
+        resolve
+      ).catch(reject);
+    });
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('User not authenticated');
+    }
+    return session.access_token;
+  }
+
+  private async request<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const token = await this.getAccessToken();
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.message || `Clone job request failed: HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+}
+
+export const cloneQueueService = new CloneQueueService();
@@ -1,33 +1,58 @@
-import type { CloneOptions, CloneProject, ClonedAsset, WebsiteMetadata } from '../types';
+import type { CaptureSnapshot, CapturedFrame, CloneCheckpoint, CloneJobStep, CloneOptions, CloneProject, ClonedAsset, EmulationProfile, ResponsiveImageSource, WebsiteMetadata } from '../types';
 import { loggingService } from './LoggingService';
 import { performanceService } from './PerformanceService';
 import { lighthouseService } from './LighthouseService';
 import { seoAnalysisService } from './SEOAnalysisService';
 import { securityScanService } from './SecurityScanService';
 import { technologyDetectionService } from './TechnologyDetectionService';
-import { supabase } from '../lib/supabase';
+import { supabase, requireUserId } from '../lib/supabase';
 import { validateURL } from '../utils/security/validator';
 import { sanitizeHTML } from '../utils/security/sanitizer';
 import { cloneLimiter } from '../utils/security/rateLimiter';
 import { securityLogger } from './SecurityLogger';
 import { ComponentDetector } from './detection/ComponentDetector';
 import { BrowserService } from './BrowserService';
+import type { CaptureRequestOptions, CombinedCaptureResult } from './BrowserService';
 import { wordPressAPIService } from './wordpress/WordPressAPIService';
 import { smartCloneService } from './SmartCloneService';
+import { crawlerService } from './CrawlerService';
+import { robotsService } from './RobotsService';
+import { politenessService } from './PolitenessService';
+import { fetchProxyService } from './FetchProxyService';
+import { cssResolverService } from './CssResolverService';
+import { SrcsetUtils } from '../utils/srcsetUtils';
+import { assetStoreService } from './AssetStoreService';
+import { uploadImportService } from './UploadImportService';
+import type { UploadBundle } from './UploadImportService';
+import { cloneAuthService } from './CloneAuthService';
+import { cloneJobService } from './CloneJobService';
+
+// Images and fonts downloaded per page from stylesheet url() references
+const MAX_CSS_DEPENDENCIES = 150;
+// External scripts downloaded per page
+const MAX_SCRIPTS = 20;
+// Modules downloaded per page because a module script imports them
+const MAX_MODULE_DEPENDENCIES = 100;
+// Static imports, re-exports and dynamic imports with a string literal
+const MODULE_SPECIFIER = /(\bfrom\s*|\bimport\s*\(?\s*)(["'])([^"'\n]+)\2/g;
 
 export class CloneService {
   private projects: Map<string, CloneProject> = new Map();
-  private userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
 
   async cloneWebsite(options: CloneOptions): Promise<CloneProject> {
     console.log('🚀🚀🚀 CLONESERVICE VERSION: 2025-01-06-v9-URL-NORMALIZE 🚀🚀🚀');
-    console.log('CloneService.cloneWebsite called with options:', options);
-
-    // Validate URL
-    const urlValidation = validateURL(options.source);
-    if (!urlValidation.isValid) {
-      await securityLogger.logValidationFailed('clone_url', urlValidation.error || 'Invalid');
-      throw new Error(urlValidation.error || 'Invalid URL');
+    console.log('CloneService.cloneWebsite called with options:', this.getLoggableOptions(options));
+
+    // Uploads have no URL to validate; their files are served from a local bundle
+    let bundle: UploadBundle | null = null;
+    if (options.type !== 'upload') {
+      const urlValidation = validateURL(options.source);
+      if (!urlValidation.isValid) {
+        await securityLogger.logValidationFailed('clone_url', urlValidation.error || 'Invalid');
+        throw new Error(urlValidation.error || 'Invalid URL');
+      }
+      options = { ...options, source: urlValidation.sanitized || options.source };
+      options = this.getEmulationOptions(this.getInterceptionOptions(this.getAuthOptions(options)));
     }
 
     // Check rate limit (10 clones per hour)
@@ -37,12 +62,16 @@ export class CloneService {
       throw new Error('Too many clone requests. Please try again later.');
     }
 
-    // Use sanitized URL
-    const sanitizedURL = urlValidation.sanitized || options.source;
+    if (options.type === 'upload') {
+      bundle = await uploadImportService.load(options.files || []);
+      options = this.getUploadOptions(options, bundle);
+    }
+
+    const sanitizedURL = options.source;
 
-    loggingService.info('clone', `Starting analysis for ${sanitizedURL}`, { options });
+    loggingService.info('clone', `Starting analysis for ${sanitizedURL}`, { options: this.getLoggableOptions(options) });
 
-    const projectId = this.generateId();
+    const projectId = options.projectId || this.generateId();
     console.log('Generated project ID:', projectId);
 
     const project: CloneProject = {
@@ -56,583 +85,675 @@ export class CloneService {
       assets: [],
     };
 
+    if (bundle) {
+      project.metadata = {
+        upload: {
+          fileName: bundle.name,
+          format: bundle.format,
+          fileCount: bundle.files.size,
+          entryPath: decodeURIComponent(new URL(bundle.entryUrl).pathname.slice(1)),
+        },
+      } as WebsiteMetadata;
+    }
+    if (options.auth) {
+      // Only the methods are kept; the credentials never reach the project row
+      project.metadata = {
+        ...(project.metadata ?? this.createPendingMetadata()),
+        authentication: cloneAuthService.describe(options.auth),
+      };
+    }
+    if (options.interception) {
+      // Saved before the capture reports its counts, so a failed clone still records its rules
+      project.metadata = {
+        ...project.metadata,
+        interception: { rules: options.interception, blocked: 0, stubbed: 0, byReason: {}, blockedUrls: [] },
+      } as WebsiteMetadata;
+    }
+    if (options.emulation) {
+      project.metadata = { ...project.metadata, emulation: options.emulation } as WebsiteMetadata;
+    }
+
     this.projects.set(projectId, project);
     console.log('Project added to map, starting analysis...');
 
+    return this.runJob(project, options, bundle);
+  }
+
+  /**
+   * Continue a cancelled, failed or interrupted clone from its last checkpoint.
+   * Uploads need their files again; saved credentials are looked up as usual.
+   */
+  async resumeClone(
+    projectId: string,
+    resume: Pick<CloneOptions, 'files' | 'auth' | 'signal' | 'onProgress'> = {}
+  ): Promise<CloneProject> {
+    const checkpoint = await cloneJobService.get(projectId);
+    if (!checkpoint) {
+      throw new Error('This clone has no checkpoint to resume from');
+    }
+
+    const project = await this.getProject(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    let options: CloneOptions = { ...checkpoint.options, ...resume };
+    let bundle: UploadBundle | null = null;
+    if (options.type === 'upload') {
+      if (!resume.files?.length) {
+        throw new Error('Select the uploaded files again to resume this clone');
+      }
+      // The bundle gets a new placeholder origin, so the old page URLs are dropped
+      bundle = await uploadImportService.load(resume.files);
+      options = this.getUploadOptions({ ...options, pages: undefined }, bundle);
+    } else {
+      options = this.getEmulationOptions(this.getInterceptionOptions(this.getAuthOptions(options)));
+    }
+
+    loggingService.info('clone', `Resuming ${project.source} at ${cloneJobService.getNextStep(checkpoint) || 'save'}`, {
+      projectId,
+      completedSteps: checkpoint.completedSteps,
+    });
+
+    project.status = 'analyzing';
+    project.currentStep = 'Resuming';
+    return this.runJob(project, options, bundle, checkpoint);
+  }
+
+  /**
+   * Run the pipeline for a new or resumed job. Failures end up on the returned
+   * project instead of being thrown.
+   */
+  private async runJob(
+    project: CloneProject,
+    options: CloneOptions,
+    bundle: UploadBundle | null,
+    checkpoint?: CloneCheckpoint
+  ): Promise<CloneProject> {
     try {
-      await this.startAnalysis(projectId, options, project);
+      await this.startAnalysis(project.id, options, project, checkpoint);
       console.log('Analysis completed successfully');
     } catch (error) {
-      console.error('Analysis failed with error:', error);
-      project.status = 'error';
-      project.currentStep = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (project.status !== 'cancelled') {
+        console.error('Analysis failed with error:', error);
+        project.status = 'error';
+        project.currentStep = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
 
-      loggingService.error('clone', `Analysis failed for ${options.source}`, {
-        projectId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+        loggingService.error('clone', `Analysis failed for ${options.source}`, {
+          projectId: project.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    } finally {
+      if (bundle) {
+        uploadImportService.release(bundle);
+      }
     }
 
     console.log('Returning project:', project);
     return project;
   }
 
-  private generateId(): string {
-    return crypto.randomUUID();
-  }
-
-  private async startAnalysis(projectId: string, options: CloneOptions, project: CloneProject): Promise<void> {
-    let browserService: BrowserService | null = null;
-
-    try {
-      let html: string;
-
-      // Use browser automation if enabled (for dynamic content like React/Vue)
-      if (options.useBrowserAutomation) {
-        console.log('startAnalysis: Browser automation ENABLED - launching browser');
-        project.progress = 5;
-        project.currentStep = 'Launching browser';
-        options.onProgress?.(5, 'Launching browser');
-
-        browserService = new BrowserService();
-        await browserService.launch({ headless: true });
-
-        console.log('startAnalysis: Step 1 - Capturing page with browser automation');
-        project.progress = 10;
-        project.currentStep = 'Loading website in browser';
-        options.onProgress?.(10, 'Loading website in browser');
-
-        // Use responsive capture if enabled (Phase 2)
-        if (options.captureResponsive) {
-          console.log('startAnalysis: Responsive capture ENABLED');
-          project.currentStep = 'Capturing responsive breakpoints';
-          options.onProgress?.(15, 'Capturing responsive breakpoints');
-
-          const responsiveCaptureResult = await browserService.captureResponsive(options.source, undefined, true);
-          html = responsiveCaptureResult.html;
-
-          // Extract screenshot from capture result if available
-          if ((responsiveCaptureResult as any).screenshot) {
-            if (!project.metadata) {
-              project.metadata = {} as WebsiteMetadata;
-            }
-            project.metadata.screenshot = `data:image/png;base64,${(responsiveCaptureResult as any).screenshot}`;
-            console.log('startAnalysis: Screenshot captured with responsive capture');
-          }
-
-          // Store responsive data in project metadata
-          if (project.metadata) {
-            project.metadata.responsiveData = {
-              breakpoints: responsiveCaptureResult.responsiveStyles.length,
-              mediaQueries: responsiveCaptureResult.mediaQueries.length,
-              responsivePercentage: 0, // Will be calculated by ResponsiveAnalyzer
-            };
-          }
+  /**
+   * Attach the credentials saved for the site when none were passed. Pages behind
+   * a login are captured in the browser, where cookies and login steps apply.
+   */
+  private getAuthOptions(options: CloneOptions): CloneOptions {
+    const auth = options.auth ?? cloneAuthService.get(options.source);
+    if (!auth || cloneAuthService.describe(auth).length === 0) {
+      return { ...options, auth: undefined };
+    }
 
-          console.log(`Responsive capture complete: ${responsiveCaptureResult.responsiveStyles.length} breakpoints, ${responsiveCaptureResult.mediaQueries.length} media queries`);
-        } else if (options.captureInteractive) {
-          // Use interactive capture if enabled (Phase 3)
-          console.log('startAnalysis: Interactive capture ENABLED');
-          project.currentStep = 'Capturing interactive states';
-          options.onProgress?.(15, 'Capturing interactive states');
+    cloneAuthService.validate(auth);
+    const methods = cloneAuthService.describe(auth);
+    loggingService.info('clone', `Cloning ${options.source} with credentials (${methods.join(', ')})`);
+    if (options.followLinks || options.pages?.length) {
+      loggingService.warning('clone', 'Linked pages and assets are fetched without the credentials; only the entry page is captured logged in');
+    }
 
-          const interactiveCaptureResult = await browserService.captureInteractiveStates(options.source, true);
-          html = interactiveCaptureResult.html;
+    return { ...options, auth, useBrowserAutomation: true };
+  }
 
-          // Extract screenshot from capture result if available
-          if ((interactiveCaptureResult as any).screenshot) {
-            if (!project.metadata) {
-              project.metadata = {} as WebsiteMetadata;
-            }
-            project.metadata.screenshot = `data:image/png;base64,${(interactiveCaptureResult as any).screenshot}`;
-            console.log('startAnalysis: Screenshot captured with interactive capture');
-          }
+  /**
+   * Drop empty interception rules. The rules run in the capture endpoint's
+   * browser, so a clone that has any is captured with browser automation.
+   */
+  private getInterceptionOptions(options: CloneOptions): CloneOptions {
+    const rules = options.interception;
+    const hasRules = !!rules && (
+      !!rules.blockResourceTypes?.length || !!rules.blockPatterns?.length ||
+      !!rules.blockTrackers || !!rules.blockAds || !!rules.stubs?.length
+    );
+    if (!hasRules) {
+      return { ...options, interception: undefined };
+    }
 
-          // Store interactive data in project metadata
-          if (project.metadata) {
-            project.metadata.interactiveData = {
-              totalInteractive: interactiveCaptureResult.totalInteractive,
-              withHover: interactiveCaptureResult.statesDetected.hover,
-              withFocus: interactiveCaptureResult.statesDetected.focus,
-              withActive: interactiveCaptureResult.statesDetected.active,
-              withPseudoElements: interactiveCaptureResult.interactiveElements.filter(
-                e => e.pseudoElements.before || e.pseudoElements.after
-              ).length,
-            };
-          }
+    loggingService.info('clone', `Capturing ${options.source} with request interception rules`, { rules });
+    return { ...options, useBrowserAutomation: true };
+  }
 
-          console.log(`Interactive capture complete: ${interactiveCaptureResult.totalInteractive} total, ${interactiveCaptureResult.statesDetected.hover} with hover`);
-        } else if (options.captureAnimations) {
-          // Use animation capture if enabled (Phase 4)
-          console.log('startAnalysis: Animation capture ENABLED');
-          project.currentStep = 'Detecting animations';
-          options.onProgress?.(15, 'Detecting animations');
+  /**
+   * Drop profiles that would not change the default capture. Profiles are
+   * applied by the capture endpoint's browser, so any profile turns on
+   * browser automation.
+   */
+  private getEmulationOptions(options: CloneOptions): CloneOptions {
+    const isEmulated = (profile?: EmulationProfile) =>
+      !!profile && Object.keys(profile).some(key => key !== 'name' && key !== 'label');
+
+    const emulation = isEmulated(options.emulation) ? options.emulation : undefined;
+    const snapshotProfiles = (options.snapshotProfiles || [])
+      .filter(profile => profile.name !== emulation?.name && (isEmulated(profile) || emulation));
+    if (!emulation && snapshotProfiles.length === 0) {
+      return { ...options, emulation: undefined, snapshotProfiles: undefined };
+    }
 
-          const animationCaptureResult = await browserService.captureWithAnimations(options.source, true);
-          html = animationCaptureResult.html;
+    loggingService.info('clone', `Capturing ${options.source} with emulation profiles`, {
+      main: emulation?.name || 'default',
+      snapshots: snapshotProfiles.map(profile => profile.name),
+    });
+    return { ...options, emulation, snapshotProfiles, useBrowserAutomation: true };
+  }
 
-          // Extract screenshot from capture result if available
-          if ((animationCaptureResult as any).screenshot) {
-            if (!project.metadata) {
-              project.metadata = {} as WebsiteMetadata;
-            }
-            project.metadata.screenshot = `data:image/png;base64,${(animationCaptureResult as any).screenshot}`;
-            console.log('startAnalysis: Screenshot captured with animation capture');
-          }
+  /**
+   * Options as they may appear in logs, with credentials reduced to their methods
+   */
+  private getLoggableOptions(options: CloneOptions): Omit<CloneOptions, 'auth'> & { auth?: string[] } {
+    return { ...options, auth: options.auth ? cloneAuthService.describe(options.auth) : undefined };
+  }
 
-          // Store animation data in project metadata
-          if (project.metadata) {
-            project.metadata.animationData = {
-              totalAnimated: animationCaptureResult.animations.totalAnimatedElements,
-              withAnimations: animationCaptureResult.animations.elementsWithAnimations,
-              withTransitions: animationCaptureResult.animations.elementsWithTransitions,
-              withTransforms: animationCaptureResult.animations.elementsWithTransforms,
-              keyframes: animationCaptureResult.animations.keyframes.length,
-            };
-          }
+  /**
+   * Point an upload clone at its bundle: the entry page becomes the source and every
+   * other HTML file in the upload is cloned as a page. Steps that need a live site
+   * (browser capture, robots.txt) are turned off.
+   */
+  private getUploadOptions(options: CloneOptions, bundle: UploadBundle): CloneOptions {
+    const pages = bundle.pageUrls.filter(url => url !== bundle.entryUrl);
 
-          console.log(`Animation capture complete: ${animationCaptureResult.animations.totalAnimatedElements} animated, ${animationCaptureResult.animations.keyframes.length} keyframes`);
-        } else if (options.captureStyleAnalysis) {
-          // Use style analysis if enabled (Phase 5)
-          console.log('startAnalysis: Style analysis ENABLED');
-          project.currentStep = 'Analyzing styles';
-          options.onProgress?.(15, 'Analyzing styles');
+    return {
+      ...options,
+      source: bundle.entryUrl,
+      pages: [...pages, ...(options.pages || [])],
+      maxPages: options.maxPages ?? Math.max(20, bundle.pageUrls.length),
+      respectRobots: false,
+      useBrowserAutomation: false,
+      auth: undefined,
+    };
+  }
 
-          const styleAnalysisResult = await browserService.captureWithStyleAnalysis(options.source, true);
-          html = styleAnalysisResult.html;
+  private generateId(): string {
+    return crypto.randomUUID();
+  }
 
-          // Extract screenshot from capture result if available
-          if ((styleAnalysisResult as any).screenshot) {
-            if (!project.metadata) {
-              project.metadata = {} as WebsiteMetadata;
-            }
-            project.metadata.screenshot = `data:image/png;base64,${(styleAnalysisResult as any).screenshot}`;
-            console.log('startAnalysis: Screenshot captured with style analysis');
-          }
+  private async startAnalysis(
+    projectId: string,
+    options: CloneOptions,
+    project: CloneProject,
+    checkpoint?: CloneCheckpoint
+  ): Promise<void> {
+    let browserService: BrowserService | null = null;
+    const job = checkpoint ?? cloneJobService.create(projectId, options);
+    const isDone = (step: CloneJobStep) => job.completedSteps.includes(step);
 
-          // Store style analysis data in project metadata
-          if (project.metadata) {
-            project.metadata.styleAnalysisData = {
-              totalColors: styleAnalysisResult.styleAnalysis.colors.totalUnique,
-              primaryColors: styleAnalysisResult.styleAnalysis.colors.mostUsed,
-              totalFonts: styleAnalysisResult.styleAnalysis.typography.totalFonts,
-              elementsWithShadows: styleAnalysisResult.styleAnalysis.visual.elementsWithShadows,
-              elementsWithFilters: styleAnalysisResult.styleAnalysis.visual.elementsWithFilters,
-              maxZIndex: styleAnalysisResult.styleAnalysis.visual.maxZIndex,
-            };
+    try {
+      let html = job.sourceHtml || '';
+
+      this.throwIfCancelled(options);
+      await this.applyCrawlPolicy(options, project);
+
+      // Step 1: Load the page (skipped with every other finished step when resuming)
+      if (!isDone('fetch')) {
+        // Use browser automation if enabled (for dynamic content like React/Vue)
+        if (options.useBrowserAutomation) {
+          console.log('startAnalysis: Browser automation ENABLED - launching browser');
+          project.progress = 5;
+          project.currentStep = 'Launching browser';
+          options.onProgress?.(5, 'Launching browser');
+
+          browserService = new BrowserService();
+          await browserService.launch({ headless: true });
+
+          console.log('startAnalysis: Step 1 - Capturing page with browser automation');
+          project.progress = 10;
+          project.currentStep = 'Loading website in browser';
+          options.onProgress?.(10, 'Loading website in browser');
+
+          // Every enabled phase (Phases 2-6) runs against the same page load
+          const phases = {
+            responsive: !!options.captureResponsive,
+            interactive: !!options.captureInteractive,
+            animations: !!options.captureAnimations,
+            styleAnalysis: !!options.captureStyleAnalysis,
+            navigation: !!options.captureNavigation,
+          };
+          const phaseNames = Object.entries(phases).filter(([, enabled]) => enabled).map(([name]) => name);
+          if (phaseNames.length > 0) {
+            console.log(`startAnalysis: Capture phases ENABLED: ${phaseNames.join(', ')}`);
+            project.currentStep = `Capturing page (${phaseNames.join(', ')})`;
+            options.onProgress?.(15, project.currentStep);
           }
 
-          console.log(`Style analysis complete: ${styleAnalysisResult.styleAnalysis.colors.totalUnique} colors, ${styleAnalysisResult.styleAnalysis.typography.totalFonts} fonts`);
-        } else if (options.captureNavigation) {
-          // Use navigation detection if enabled (Phase 6)
-          console.log('startAnalysis: Navigation detection ENABLED');
-          project.currentStep = 'Detecting navigation';
-          options.onProgress?.(15, 'Detecting navigation');
-
-          const navigationResult = await browserService.captureWithNavigation(options.source, true);
-          html = navigationResult.html;
+          const captureResult = await browserService.captureCombined(
+            options.source, phases, true, this.getCaptureRequestOptions(options), options.signal
+          );
+          html = captureResult.html;
+          job.frames = captureResult.frames?.length ? captureResult.frames : undefined;
+          this.applyCaptureResult(project, captureResult);
+          console.log('startAnalysis: Browser capture complete - HTML length:', html.length);
 
-          // Extract screenshot from capture result if available
-          if ((navigationResult as any).screenshot) {
-            if (!project.metadata) {
-              project.metadata = {} as WebsiteMetadata;
-            }
-            project.metadata.screenshot = `data:image/png;base64,${(navigationResult as any).screenshot}`;
-            console.log('startAnalysis: Screenshot captured with navigation detection');
+          if (options.snapshotProfiles?.length) {
+            project.snapshots = await this.captureSnapshots(browserService, options, project);
           }
-
-          // Store navigation data in project metadata
-          if (project.metadata) {
-            project.metadata.navigationData = {
-              totalNavigations: navigationResult.navigation.totalNavigations,
-              byType: navigationResult.navigation.byType,
-              byMethod: navigationResult.navigation.byMethod,
-              components: navigationResult.navigation.components.map((comp) => ({
-                selector: comp.selector,
-                type: comp.properties.type,
-                confidence: comp.properties.confidence,
-                linkCount: comp.properties.linkCount,
-                detectionMethod: comp.detectionMethod,
-              })),
-            };
-          }
-
-          console.log(`Navigation detection complete: ${navigationResult.navigation.totalNavigations} navigations detected`);
         } else {
-          // Standard capture with screenshot
-          const captureResult = await browserService.capturePage(options.source, true);
-          html = captureResult.html;
-
-          console.log('startAnalysis: Capture result keys:', Object.keys(captureResult));
-          console.log('startAnalysis: Elements in capture result:', captureResult.elements ? captureResult.elements.length : 'NONE');
+          // Standard static HTML fetch (existing behavior)
+          console.log('startAnalysis: Browser automation DISABLED - using standard fetch');
+          console.log('startAnalysis: Step 1 - Fetching HTML');
+          project.progress = 10;
+          project.currentStep = 'Fetching HTML';
+          options.onProgress?.(10, 'Fetching HTML');
+
+          html = await this.fetchHtml(options.source, options.signal);
+          console.log('startAnalysis: HTML fetched, length:', html.length);
+        }
 
-          // Store elements with computed styles for later use
-          if (captureResult.elements && captureResult.elements.length > 0) {
-            console.log(`startAnalysis: Captured ${captureResult.elements.length} elements with computed styles`);
-            console.log(`startAnalysis: Sample element:`, JSON.stringify(captureResult.elements[0], null, 2));
+        project.originalHtml = html;
+        job.sourceHtml = html;
+        await this.completeStep(project, job, 'fetch', options);
+      }
 
-            // Store in project metadata for use during asset embedding
-            if (!project.metadata) {
-              project.metadata = {} as WebsiteMetadata;
-            }
-            (project.metadata as any).elementsWithStyles = captureResult.elements;
-          } else {
-            console.log('startAnalysis: WARNING - No elements with computed styles received from capture');
-          }
+      // Step 2: Check if this is a WordPress site (via REST API)
+      if (!isDone('wordpress')) {
+        console.log('startAnalysis: Step 2 - Checking for WordPress REST API');
+        project.progress = 25;
+        project.currentStep = 'Detecting WordPress via REST API';
+        options.onProgress?.(25, '🔍 Detecting WordPress via REST API...');
+
+        console.log('[WordPress] Probing /wp-json/ endpoint...');
+        const wpDetection = await wordPressAPIService.detectWordPress(options.source, html);
+
+        if (wpDetection.isWordPress && wpDetection.apiUrl) {
+          // WordPress detected - detailed logging
+          console.log('[WordPress] ✓ WordPress REST API detected!');
+          console.log(`[WordPress] Site: ${wpDetection.siteInfo?.name || 'Unknown'}`);
+          console.log(`[WordPress] Version: ${wpDetection.version || 'Unknown'}`);
+          console.log(`[WordPress] API URL: ${wpDetection.apiUrl}`);
+          console.log(`[WordPress] Confidence: ${wpDetection.confidence}%`);
+
+          loggingService.success('clone', `WordPress detected at ${options.source}`, {
+            projectId,
+            siteName: wpDetection.siteInfo?.name,
+            version: wpDetection.version,
+            apiUrl: wpDetection.apiUrl
+          });
 
-          // Extract screenshot from capture result if available
-          if ((captureResult as any).screenshot) {
-            if (!project.metadata) {
-              project.metadata = {} as WebsiteMetadata;
-            }
-            project.metadata.screenshot = `data:image/png;base64,${(captureResult as any).screenshot}`;
-            console.log('startAnalysis: Screenshot captured with page capture');
+          // Detect page builder
+          if (wpDetection.pageBuilder?.isActive) {
+            console.log(`[WordPress] Page Builder: ${wpDetection.pageBuilder.name} (${wpDetection.pageBuilder.version || 'unknown version'})`);
+            project.currentStep = `WordPress detected: ${wpDetection.pageBuilder.name} page builder`;
+            options.onProgress?.(27, `✓ WordPress detected with ${wpDetection.pageBuilder.name} page builder`);
           } else {
-            console.log('startAnalysis: No screenshot returned from capture');
+            project.currentStep = 'WordPress detected: Gutenberg (native blocks)';
+            options.onProgress?.(27, '✓ WordPress detected with Gutenberg blocks');
           }
-        }
-        console.log('startAnalysis: Browser capture complete - HTML length:', html.length);
-      } else {
-        // Standard static HTML fetch (existing behavior)
-        console.log('startAnalysis: Browser automation DISABLED - using standard fetch');
-        console.log('startAnalysis: Step 1 - Fetching HTML');
-        project.progress = 10;
-        project.currentStep = 'Fetching HTML';
-        options.onProgress?.(10, 'Fetching HTML');
-
-        html = await this.fetchHtml(options.source);
-        console.log('startAnalysis: HTML fetched, length:', html.length);
-      }
 
-      project.originalHtml = html;
+          // Start WordPress REST API cloning
+          project.currentStep = 'Fetching posts via REST API';
+          options.onProgress?.(30, '📥 Fetching posts via /wp/v2/posts...');
+          console.log('[WordPress] Fetching posts from REST API...');
+
+          // Clone using WordPress REST API (gets native blocks)
+          const wpCloneResult = await wordPressAPIService.cloneWordPressSite(wpDetection.apiUrl, {
+            maxPosts: 50,
+            maxPages: 50,
+            detectPageBuilder: true,
+            blockOptions: {
+              includeHTML: true,
+              maxDepth: 10,
+            },
+          });
 
-      // Step 2: Check if this is a WordPress site (via REST API)
-      console.log('startAnalysis: Step 2 - Checking for WordPress REST API');
-      project.progress = 25;
-      project.currentStep = 'Detecting WordPress via REST API';
-      options.onProgress?.(25, '🔍 Detecting WordPress via REST API...');
-
-      console.log('[WordPress] Probing /wp-json/ endpoint...');
-      const wpDetection = await wordPressAPIService.detectWordPress(options.source, html);
-
-      if (wpDetection.isWordPress && wpDetection.apiUrl) {
-        // WordPress detected - detailed logging
-        console.log('[WordPress] ✓ WordPress REST API detected!');
-        console.log(`[WordPress] Site: ${wpDetection.siteInfo?.name || 'Unknown'}`);
-        console.log(`[WordPress] Version: ${wpDetection.version || 'Unknown'}`);
-        console.log(`[WordPress] API URL: ${wpDetection.apiUrl}`);
-        console.log(`[WordPress] Confidence: ${wpDetection.confidence}%`);
-
-        loggingService.success('clone', `WordPress detected at ${options.source}`, {
-          projectId,
-          siteName: wpDetection.siteInfo?.name,
-          version: wpDetection.version,
-          apiUrl: wpDetection.apiUrl
-        });
+          console.log(`[WordPress] ✓ Fetched ${wpCloneResult.postsCloned} posts`);
+          project.currentStep = 'Fetching pages via REST API';
+          options.onProgress?.(35, `✓ Fetched ${wpCloneResult.postsCloned} posts. Fetching pages...`);
 
-        // Detect page builder
-        if (wpDetection.pageBuilder?.isActive) {
-          console.log(`[WordPress] Page Builder: ${wpDetection.pageBuilder.name} (${wpDetection.pageBuilder.version || 'unknown version'})`);
-          project.currentStep = `WordPress detected: ${wpDetection.pageBuilder.name} page builder`;
-          options.onProgress?.(27, `✓ WordPress detected with ${wpDetection.pageBuilder.name} page builder`);
-        } else {
-          project.currentStep = 'WordPress detected: Gutenberg (native blocks)';
-          options.onProgress?.(27, '✓ WordPress detected with Gutenberg blocks');
-        }
+          console.log(`[WordPress] ✓ Fetched ${wpCloneResult.pagesCloned} pages`);
+          project.currentStep = 'Parsing WordPress blocks';
+          options.onProgress?.(40, `✓ Fetched ${wpCloneResult.pagesCloned} pages. Parsing blocks...`);
 
-        // Start WordPress REST API cloning
-        project.currentStep = 'Fetching posts via REST API';
-        options.onProgress?.(30, '📥 Fetching posts via /wp/v2/posts...');
-        console.log('[WordPress] Fetching posts from REST API...');
-
-        // Clone using WordPress REST API (gets native blocks)
-        const wpCloneResult = await wordPressAPIService.cloneWordPressSite(wpDetection.apiUrl, {
-          maxPosts: 50,
-          maxPages: 50,
-          detectPageBuilder: true,
-          blockOptions: {
-            includeHTML: true,
-            maxDepth: 10,
-          },
-        });
+          console.log(`[WordPress] ✓ Parsed ${wpCloneResult.blocksCount} blocks`);
+          console.log('[WordPress] Block types detected:', wpCloneResult.posts
+            .flatMap(p => p.blocks || [])
+            .map(b => `${b.namespace}/${b.name}`)
+            .filter((v, i, a) => a.indexOf(v) === i)
+            .slice(0, 10)
+            .join(', '));
 
-        console.log(`[WordPress] ✓ Fetched ${wpCloneResult.postsCloned} posts`);
-        project.currentStep = 'Fetching pages via REST API';
-        options.onProgress?.(35, `✓ Fetched ${wpCloneResult.postsCloned} posts. Fetching pages...`);
+          project.currentStep = 'WordPress clone complete';
+          options.onProgress?.(45, `✓ WordPress clone complete: ${wpCloneResult.postsCloned} posts, ${wpCloneResult.pagesCloned} pages, ${wpCloneResult.blocksCount} blocks`);
 
-        console.log(`[WordPress] ✓ Fetched ${wpCloneResult.pagesCloned} pages`);
-        project.currentStep = 'Parsing WordPress blocks';
-        options.onProgress?.(40, `✓ Fetched ${wpCloneResult.pagesCloned} pages. Parsing blocks...`);
+          // Store WordPress-specific data in project metadata
+          if (!project.metadata) {
+            project.metadata = {} as WebsiteMetadata;
+          }
 
-        console.log(`[WordPress] ✓ Parsed ${wpCloneResult.blocksCount} blocks`);
-        console.log('[WordPress] Block types detected:', wpCloneResult.posts
-          .flatMap(p => p.blocks || [])
-          .map(b => `${b.namespace}/${b.name}`)
-          .filter((v, i, a) => a.indexOf(v) === i)
-          .slice(0, 10)
-          .join(', '));
+          project.metadata.wordPressData = {
+            isWordPress: true,
+            version: wpDetection.version,
+            apiUrl: wpDetection.apiUrl,
+            siteName: wpDetection.siteInfo?.name,
+            pageBuilder: wpCloneResult.pageBuilder?.name || 'unknown',
+            postsCloned: wpCloneResult.postsCloned,
+            pagesCloned: wpCloneResult.pagesCloned,
+            blocksCount: wpCloneResult.blocksCount,
+            posts: wpCloneResult.posts,
+          };
+
+          loggingService.success('clone', `WordPress clone complete: ${wpCloneResult.postsCloned} posts, ${wpCloneResult.pagesCloned} pages, ${wpCloneResult.blocksCount} blocks parsed`, { projectId });
+        } else if (wpDetection.isWordPress && !wpDetection.apiUrl) {
+          // WordPress detected via HTML but REST API is disabled
+          console.log('[WordPress] ✓ WordPress detected via HTML analysis');
+          console.log(`[WordPress] Confidence: ${wpDetection.confidence}%`);
+          console.log('[WordPress] REST API is disabled - using standard HTML parsing');
+
+          if (wpDetection.version) {
+            console.log(`[WordPress] Version: ${wpDetection.version}`);
+          }
 
-        project.currentStep = 'WordPress clone complete';
-        options.onProgress?.(45, `✓ WordPress clone complete: ${wpCloneResult.postsCloned} posts, ${wpCloneResult.pagesCloned} pages, ${wpCloneResult.blocksCount} blocks`);
+          if (wpDetection.pageBuilder?.isActive) {
+            console.log(`[WordPress] Page Builder: ${wpDetection.pageBuilder.name}`);
+            project.currentStep = `WordPress detected (REST API disabled): ${wpDetection.pageBuilder.name}`;
+            options.onProgress?.(30, `✓ WordPress detected via HTML - ${wpDetection.pageBuilder.name} page builder (REST API disabled)`);
+          } else {
+            project.currentStep = 'WordPress detected (REST API disabled)';
+            options.onProgress?.(30, '✓ WordPress detected via HTML - REST API disabled, using HTML parsing');
+          }
 
-        // Store WordPress-specific data in project metadata
-        if (!project.metadata) {
-          project.metadata = {} as WebsiteMetadata;
-        }
+          loggingService.warning('clone', 'WordPress detected but REST API is disabled - falling back to HTML parsing', {
+            projectId,
+            version: wpDetection.version,
+            confidence: wpDetection.confidence
+          });
 
-        project.metadata.wordPressData = {
-          isWordPress: true,
-          version: wpDetection.version,
-          apiUrl: wpDetection.apiUrl,
-          siteName: wpDetection.siteInfo?.name,
-          pageBuilder: wpCloneResult.pageBuilder?.name || 'unknown',
-          postsCloned: wpCloneResult.postsCloned,
-          pagesCloned: wpCloneResult.pagesCloned,
-          blocksCount: wpCloneResult.blocksCount,
-          posts: wpCloneResult.posts,
-        };
-
-        loggingService.success('clone', `WordPress clone complete: ${wpCloneResult.postsCloned} posts, ${wpCloneResult.pagesCloned} pages, ${wpCloneResult.blocksCount} blocks parsed`, { projectId });
-      } else if (wpDetection.isWordPress && !wpDetection.apiUrl) {
-        // WordPress detected via HTML but REST API is disabled
-        console.log('[WordPress] ✓ WordPress detected via HTML analysis');
-        console.log(`[WordPress] Confidence: ${wpDetection.confidence}%`);
-        console.log('[WordPress] REST API is disabled - using standard HTML parsing');
-
-        if (wpDetection.version) {
-          console.log(`[WordPress] Version: ${wpDetection.version}`);
-        }
+          // Store WordPress detection data (no posts/pages since REST API is disabled)
+          if (!project.metadata) {
+            project.metadata = {} as WebsiteMetadata;
+          }
 
-        if (wpDetection.pageBuilder?.isActive) {
-          console.log(`[WordPress] Page Builder: ${wpDetection.pageBuilder.name}`);
-          project.currentStep = `WordPress detected (REST API disabled): ${wpDetection.pageBuilder.name}`;
-          options.onProgress?.(30, `✓ WordPress detected via HTML - ${wpDetection.pageBuilder.name} page builder (REST API disabled)`);
+          project.metadata.wordPressData = {
+            isWordPress: true,
+            version: wpDetection.version,
+            apiUrl: undefined,
+            siteName: undefined,
+            pageBuilder: wpDetection.pageBuilder?.name || 'unknown',
+            postsCloned: 0,
+            pagesCloned: 0,
+            blocksCount: 0,
+            posts: [],
+          };
         } else {
-          project.currentStep = 'WordPress detected (REST API disabled)';
-          options.onProgress?.(30, '✓ WordPress detected via HTML - REST API disabled, using HTML parsing');
+          // Not WordPress
+          console.log('[WordPress] Not a WordPress site');
+          project.currentStep = 'Not WordPress - using standard HTML parsing';
+          options.onProgress?.(30, '✓ Not WordPress - proceeding with standard HTML parsing');
         }
 
-        loggingService.warning('clone', 'WordPress detected but REST API is disabled - falling back to HTML parsing', {
-          projectId,
-          version: wpDetection.version,
-          confidence: wpDetection.confidence
-        });
-
-        // Store WordPress detection data (no posts/pages since REST API is disabled)
-        if (!project.metadata) {
-          project.metadata = {} as WebsiteMetadata;
-        }
-
-        project.metadata.wordPressData = {
-          isWordPress: true,
-          version: wpDetection.version,
-          apiUrl: undefined,
-          siteName: undefined,
-          pageBuilder: wpDetection.pageBuilder?.name || 'unknown',
-          postsCloned: 0,
-          pagesCloned: 0,
-          blocksCount: 0,
-          posts: [],
-        };
-      } else {
-        // Not WordPress
-        console.log('[WordPress] Not a WordPress site');
-        project.currentStep = 'Not WordPress - using standard HTML parsing';
-        options.onProgress?.(30, '✓ Not WordPress - proceeding with standard HTML parsing');
+        await this.completeStep(project, job, 'wordpress', options);
       }
+      const isWordPress = !!project.metadata?.wordPressData?.isWordPress;
 
       console.log('startAnalysis: Step 3 - Parsing HTML');
-      project.progress = wpDetection.isWordPress ? 50 : 30;
+      project.progress = isWordPress ? 50 : 30;
       project.currentStep = 'Parsing HTML structure';
-      options.onProgress?.(wpDetection.isWordPress ? 50 : 30, 'Parsing HTML structure');
+      options.onProgress?.(isWordPress ? 50 : 30, 'Parsing HTML structure');
 
       const parsedData = this.parseHtml(html, options.source);
       console.log('startAnalysis: HTML parsed');
 
-      console.log('startAnalysis: Step 4 - Extracting metadata');
-      project.progress = 50;
-      project.currentStep = 'Extracting metadata';
-
-      const metadata = this.extractMetadata(parsedData, html);
-      project.metadata = { ...metadata, ...project.metadata }; // Merge with existing metadata (including WordPress data)
-      console.log('startAnalysis: Metadata extracted:', metadata);
-
-      loggingService.info('clone', `Detected framework: ${metadata.framework}`, { projectId });
-
-      console.log('startAnalysis: Step 5 - Detecting page builder components');
-      project.progress = 40;
-      project.currentStep = 'Detecting page builder components';
-
-      const detector = new ComponentDetector();
-      const detection = detector.detect(html);
-      project.detection = detection;
-      console.log('startAnalysis: Component detection completed:', {
-        builder: detection.builder,
-        components: detection.components.length,
-        confidence: detection.confidence,
-      });
-
-      loggingService.info('clone', `Detected builder: ${detection.builder || 'none'}`, {
-        projectId,
-        componentsCount: detection.components.length
-      });
-
-      // Download assets if requested
-      console.log('startAnalysis: Checking includeAssets option:', options.includeAssets);
-      if (options.includeAssets !== false) {
-        console.log('startAnalysis: Step 5 - Downloading CSS (includeAssets is enabled)');
+      if (!isDone('parse')) {
+        console.log('startAnalysis: Step 4 - Extracting metadata');
         project.progress = 50;
-        project.currentStep = 'Downloading CSS files';
-
-        console.log('startAnalysis: Found', parsedData.stylesheets.length, 'stylesheets and', parsedData.inlineStyles.length, 'inline styles');
-        const cssAssets = await this.extractAndDownloadCSS(parsedData, options.source);
-        console.log('startAnalysis: Downloaded', cssAssets.length, 'CSS assets');
-
-        console.log('startAnalysis: Step 6 - Downloading images');
-        project.progress = 60;
-        project.currentStep = 'Downloading images';
-
-        console.log('startAnalysis: Found', parsedData.images.length, 'images and', parsedData.backgroundImages.length, 'background images');
-        const imageAssets = await this.extractAndDownloadImages(parsedData, options.source);
-        console.log('startAnalysis: Downloaded', imageAssets.length, 'image assets');
-
-        console.log('startAnalysis: Step 7 - Downloading fonts');
-        project.progress = 65;
-        project.currentStep = 'Downloading fonts';
-
-        console.log('startAnalysis: Found', parsedData.fonts.length, 'fonts');
-        const fontAssets = await this.extractAndDownloadFonts(parsedData, options.source);
-        console.log('startAnalysis: Downloaded', fontAssets.length, 'font assets');
+        project.currentStep = 'Extracting metadata';
 
-        const allAssets = [...cssAssets, ...imageAssets, ...fontAssets];
-        project.assets = allAssets;
+        const metadata = this.extractMetadata(parsedData, html);
+        project.metadata = { ...project.metadata, ...metadata }; // Keep what was recorded earlier (WordPress data, credentials, rules)
+        console.log('startAnalysis: Metadata extracted:', metadata);
 
-        console.log(`startAnalysis: Total assets downloaded: ${allAssets.length} (${cssAssets.length} CSS, ${imageAssets.length} images, ${fontAssets.length} fonts)`);
-        loggingService.info('clone', `Downloaded ${allAssets.length} assets`, { projectId });
+        loggingService.info('clone', `Detected framework: ${metadata.framework}`, { projectId });
 
-        console.log('startAnalysis: Step 8 - Embedding assets in HTML');
-        console.log('🔧 CODE VERSION: 2025-01-06-FIX-v2 - If you see this, new code is loaded! 🔧');
-        project.progress = 70;
-        project.currentStep = 'Embedding assets in HTML';
+        console.log('startAnalysis: Step 5 - Detecting page builder components');
+        project.progress = 40;
+        project.currentStep = 'Detecting page builder components';
+
+        const detector = new ComponentDetector();
+        const detection = detector.detect(html);
+        project.detection = detection;
+        console.log('startAnalysis: Component detection completed:', {
+          builder: detection.builder,
+          components: detection.components.length,
+          confidence: detection.confidence,
+        });
 
-        const rewrittenHtml = this.embedAssetsInHtml(html, allAssets, project.metadata);
-        project.originalHtml = rewrittenHtml;
-        console.log('startAnalysis: HTML rewritten, new size:', new Blob([rewrittenHtml]).size, 'bytes');
+        loggingService.info('clone', `Detected builder: ${detection.builder || 'none'}`, {
+          projectId,
+          componentsCount: detection.components.length
+        });
 
-        metadata.totalSize = this.calculateTotalSize(allAssets);
-        metadata.assetCount = allAssets.length;
-        console.log('startAnalysis: Metadata updated - total size:', metadata.totalSize, 'bytes, asset count:', metadata.assetCount);
-      } else {
-        console.log('startAnalysis: Asset downloading SKIPPED (includeAssets is false)');
+        await this.completeStep(project, job, 'parse', options);
       }
 
-      // Step 9: Performance Analysis (if enabled)
-      if (options.performanceAnalysis !== false) {
-        console.log('startAnalysis: Step 9 - Analyzing performance');
-        project.progress = 75;
-        project.currentStep = 'Analyzing performance metrics';
-
-        const metrics = await performanceService.analyzePerformance(html, '', '', options.source);
-        project.originalScore = metrics.score;
-        project.metrics = metrics;
-        console.log('startAnalysis: Performance analyzed, score:', metrics.score);
-
-        console.log('startAnalysis: Step 10 - Running Lighthouse audit');
-        project.progress = 80;
-        project.currentStep = 'Running Lighthouse audit';
-
-        try {
-          const lighthouseResults = await lighthouseService.runAuditWithRetry(options.source);
-          metrics.lighthouse = lighthouseResults;
-          project.originalScore = Math.round((metrics.score + lighthouseResults.performanceScore) / 2);
-          console.log('startAnalysis: Lighthouse completed, score:', lighthouseResults.performanceScore);
+      // Download assets if requested
+      if (!isDone('assets')) {
+        console.log('startAnalysis: Checking includeAssets option:', options.includeAssets);
+        if (options.includeAssets !== false) {
+          const assetSources = options.respectRobots
+            ? await this.filterBlockedAssets(parsedData, project)
+            : parsedData;
+
+          console.log('startAnalysis: Step 5 - Downloading CSS (includeAssets is enabled)');
+          project.progress = 50;
+          project.currentStep = 'Downloading CSS files';
+
+          console.log('startAnalysis: Found', assetSources.stylesheets.length, 'stylesheets and', assetSources.inlineStyles.length, 'inline styles');
+          const cssAssets = await this.downloadAssetGroup(project, job, 'css', options, () =>
+            this.extractAndDownloadCSS(assetSources, options.source, options.signal, project));
+          console.log('startAnalysis: Downloaded', cssAssets.length, 'CSS assets');
+
+          console.log('startAnalysis: Step 6 - Downloading images');
+          project.progress = 60;
+          project.currentStep = 'Downloading images';
+
+          console.log('startAnalysis: Found', assetSources.images.length, 'images and', assetSources.backgroundImages.length, 'background images');
+          const imageAssets = await this.downloadAssetGroup(project, job, 'images', options, () =>
+            this.extractAndDownloadImages(assetSources, options.source, options.signal));
+          console.log('startAnalysis: Downloaded', imageAssets.length, 'image assets');
+
+          console.log('startAnalysis: Step 7 - Downloading fonts');
+          project.progress = 65;
+          project.currentStep = 'Downloading fonts';
+
+          console.log('startAnalysis: Found', assetSources.fonts.length, 'fonts');
+          const fontAssets = await this.downloadAssetGroup(project, job, 'fonts', options, () =>
+            this.extractAndDownloadFonts(assetSources, options.source, options.signal));
+          console.log('startAnalysis: Downloaded', fontAssets.length, 'font assets');
+
+          console.log('startAnalysis: Step 7b - Downloading scripts');
+          project.progress = 67;
+          project.currentStep = 'Downloading JavaScript files';
+
+          console.log('startAnalysis: Found', assetSources.scripts.length, 'external scripts, third-party mode:', options.thirdPartyScripts || 'keep');
+          const jsAssets = await this.downloadAssetGroup(project, job, 'js', options, () =>
+            this.extractAndDownloadJS(assetSources, options.source, options.thirdPartyScripts, options.signal, project));
+          console.log('startAnalysis: Downloaded', jsAssets.length, 'JS assets');
+
+          const allAssets = [...cssAssets, ...jsAssets, ...imageAssets, ...fontAssets];
+          project.assets = allAssets;
+
+          console.log(`startAnalysis: Total assets downloaded: ${allAssets.length} (${cssAssets.length} CSS, ${jsAssets.length} JS, ${imageAssets.length} images, ${fontAssets.length} fonts)`);
+          loggingService.info('clone', `Downloaded ${allAssets.length} assets`, { projectId });
+
+          console.log('startAnalysis: Step 8 - Embedding assets in HTML');
+          console.log('🔧 CODE VERSION: 2025-01-06-FIX-v2 - If you see this, new code is loaded! 🔧');
+          project.progress = 70;
+          project.currentStep = 'Embedding assets in HTML';
+
+          const pageHtml = options.thirdPartyScripts === 'strip'
+            ? this.stripThirdPartyScripts(html, options.source, project)
+            : html;
+          const rewrittenHtml = this.embedAssetsInHtml(pageHtml, allAssets, project.metadata, options.source);
+          project.originalHtml = rewrittenHtml;
+          console.log('startAnalysis: HTML rewritten, new size:', new Blob([rewrittenHtml]).size, 'bytes');
 
-          loggingService.success('clone', `Lighthouse audit completed - Score: ${lighthouseResults.performanceScore}`, {
-            projectId,
-            lighthouseScore: lighthouseResults.performanceScore,
-          });
-        } catch (error) {
-          console.log('startAnalysis: Lighthouse failed, using custom metrics only');
-          loggingService.warning('clone', 'Lighthouse audit failed, continuing with custom metrics', {
-            projectId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+          if (project.metadata) {
+            project.metadata.totalSize = this.calculateTotalSize(allAssets);
+            project.metadata.assetCount = allAssets.length;
+            console.log('startAnalysis: Metadata updated - total size:', project.metadata.totalSize, 'bytes, asset count:', project.metadata.assetCount);
+          }
+        } else {
+          console.log('startAnalysis: Asset downloading SKIPPED (includeAssets is false)');
         }
-      } else {
-        console.log('startAnalysis: Performance analysis SKIPPED');
-      }
-
-      // Step 11: SEO Analysis (if enabled)
-      if (options.seoAnalysis) {
-        console.log('startAnalysis: Step 11 - Running SEO analysis');
-        project.progress = 85;
-        project.currentStep = 'Analyzing SEO';
 
-        try {
-          const seoResults = await seoAnalysisService.analyzeSEO(options.source, html);
-          project.seoAnalysis = seoResults;
-          console.log('startAnalysis: SEO analysis completed, score:', seoResults.score);
+        // Step 8b: Clone selected pages and/or crawl linked pages (if enabled)
+        if (options.pages?.length || job.frames?.length || (options.followLinks && (options.depth ?? 1) > 0)) {
+          console.log('startAnalysis: Step 8b - Cloning additional pages');
+          project.progress = 72;
+          project.currentStep = 'Cloning additional pages';
+          options.onProgress?.(72, 'Cloning additional pages');
 
-          loggingService.success('clone', `SEO analysis completed - Score: ${seoResults.score}/100`, {
-            projectId,
-            seoScore: seoResults.score,
-          });
-        } catch (error) {
-          console.log('startAnalysis: SEO analysis failed');
-          loggingService.warning('clone', 'SEO analysis failed', {
-            projectId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+          await this.crawlLinkedPages(projectId, options, project, html, job.frames);
         }
-      }
 
-      // Step 12: Security Scan (if enabled)
-      if (options.securityScan) {
-        console.log('startAnalysis: Step 12 - Running security scan');
-        project.progress = 90;
-        project.currentStep = 'Scanning security';
+        // Step 8c: Keep every response an MHTML/HAR/WARC archive captured, not just those the HTML references
+        const archive = options.type === 'upload' ? uploadImportService.find(options.source) : undefined;
+        if (archive && archive.format !== 'files' && options.includeAssets !== false) {
+          console.log('startAnalysis: Step 8c - Adding remaining archived responses');
+          await this.addArchivedResponses(project, archive);
+        }
 
-        try {
-          const securityResults = await securityScanService.scanSecurity(options.source, html);
-          project.securityScan = securityResults;
-          console.log('startAnalysis: Security scan completed, score:', securityResults.score);
+        this.linkFailedRequestsToAssets(project);
+        await this.completeStep(project, job, 'assets', options);
+      }
 
-          loggingService.success('clone', `Security scan completed - Score: ${securityResults.score}/100`, {
-            projectId,
-            securityScore: securityResults.score,
-          });
-        } catch (error) {
-          console.log('startAnalysis: Security scan failed');
-          loggingService.warning('clone', 'Security scan failed', {
-            projectId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+      // Steps 9-13: Analysis. Nothing is stored until all of them ran, so a resumed job repeats them all.
+      if (!isDone('analysis')) {
+        // Step 9: Performance Analysis (if enabled)
+        if (options.performanceAnalysis !== false) {
+          console.log('startAnalysis: Step 9 - Analyzing performance');
+          project.progress = 75;
+          project.currentStep = 'Analyzing performance metrics';
+
+          const metrics = await performanceService.analyzePerformance(
+            html, '', '', options.type === 'upload' ? undefined : options.source, project.har,
+            { profile: options.vitalsProfile, auth: options.auth }
+          );
+          project.originalScore = metrics.score;
+          project.metrics = metrics;
+          console.log('startAnalysis: Performance analyzed, score:', metrics.score);
+
+          if (options.type === 'upload') {
+            console.log('startAnalysis: Lighthouse SKIPPED (uploaded files have no public URL)');
+          } else {
+            console.log('startAnalysis: Step 10 - Running Lighthouse audit');
+            project.progress = 80;
+            project.currentStep = 'Running Lighthouse audit';
+
+            try {
+              const lighthouseResults = await lighthouseService.runAuditWithRetry(options.source, { formFactor: options.vitalsProfile });
+              metrics.lighthouse = lighthouseResults;
+              // Simulated results are placeholders, not a measurement of the site
+              if (lighthouseResults.source !== 'simulated') {
+                project.originalScore = Math.round((metrics.score + lighthouseResults.performanceScore) / 2);
+              }
+              console.log('startAnalysis: Lighthouse completed, score:', lighthouseResults.performanceScore);
+
+              loggingService.success('clone', `Lighthouse audit completed - Score: ${lighthouseResults.performanceScore}`, {
+                projectId,
+                lighthouseScore: lighthouseResults.performanceScore,
+              });
+            } catch (error) {
+              console.log('startAnalysis: Lighthouse failed, using custom metrics only');
+              loggingService.warning('clone', 'Lighthouse audit failed, continuing with custom metrics', {
+                projectId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+              });
+            }
+          }
+        } else {
+          console.log('startAnalysis: Performance analysis SKIPPED');
         }
-      }
 
-      // Step 13: Technology Detection (if enabled)
-      if (options.technologyDetection) {
-        console.log('startAnalysis: Step 13 - Detecting technologies');
-        project.progress = 95;
-        project.currentStep = 'Detecting technologies';
+        // Step 11: SEO Analysis (if enabled)
+        if (options.seoAnalysis) {
+          console.log('startAnalysis: Step 11 - Running SEO analysis');
+          project.progress = 85;
+          project.currentStep = 'Analyzing SEO';
+
+          try {
+            const seoResults = await seoAnalysisService.analyzeSEO(options.source, html);
+            project.seoAnalysis = seoResults;
+            console.log('startAnalysis: SEO analysis completed, score:', seoResults.score);
+
+            loggingService.success('clone', `SEO analysis completed - Score: ${seoResults.score}/100`, {
+              projectId,
+              seoScore: seoResults.score,
+            });
+          } catch (error) {
+            console.log('startAnalysis: SEO analysis failed');
+            loggingService.warning('clone', 'SEO analysis failed', {
+              projectId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
 
-        try {
-          const techStack = await technologyDetectionService.detectTechnologies(options.source, html);
-          project.technologyStack = techStack;
-          const totalTech = Object.values(techStack).reduce((sum, arr) => sum + arr.length, 0);
-          console.log('startAnalysis: Technology detection completed, found:', totalTech, 'technologies');
+        // Step 12: Security Scan (if enabled)
+        if (options.securityScan) {
+          console.log('startAnalysis: Step 12 - Running security scan');
+          project.progress = 90;
+          project.currentStep = 'Scanning security';
+
+          try {
+            const securityResults = await securityScanService.scanSecurity(options.source, html);
+            project.securityScan = securityResults;
+            console.log('startAnalysis: Security scan completed, score:', securityResults.score);
+
+            loggingService.success('clone', `Security scan completed - Score: ${securityResults.score}/100`, {
+              projectId,
+              securityScore: securityResults.score,
+            });
+          } catch (error) {
+            console.log('startAnalysis: Security scan failed');
+            loggingService.warning('clone', 'Security scan failed', {
+              projectId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
 
-          loggingService.success('clone', `Technology detection completed - Found ${totalTech} technologies`, {
-            projectId,
-            totalTechnologies: totalTech,
-          });
-        } catch (error) {
-          console.log('startAnalysis: Technology detection failed');
-          loggingService.warning('clone', 'Technology detection failed', {
-            projectId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+        // Step 13: Technology Detection (if enabled)
+        if (options.technologyDetection) {
+          console.log('startAnalysis: Step 13 - Detecting technologies');
+          project.progress = 95;
+          project.currentStep = 'Detecting technologies';
+
+          try {
+            const techStack = await technologyDetectionService.detectTechnologies(options.source, html);
+            project.technologyStack = techStack;
+            const totalTech = Object.values(techStack).reduce((sum, arr) => sum + arr.length, 0);
+            console.log('startAnalysis: Technology detection completed, found:', totalTech, 'technologies');
+
+            loggingService.success('clone', `Technology detection completed - Found ${totalTech} technologies`, {
+              projectId,
+              totalTechnologies: totalTech,
+            });
+          } catch (error) {
+            console.log('startAnalysis: Technology detection failed');
+            loggingService.warning('clone', 'Technology detection failed', {
+              projectId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
         }
+        job.completedSteps.push('analysis');
       }
 
       console.log('startAnalysis: Step 14 - Saving project');
@@ -643,11 +764,28 @@ export class CloneService {
       await this.saveProject(project);
       console.log('startAnalysis: Project saved successfully');
 
+      // A finished job has nothing left to resume
+      await cloneJobService.remove(projectId).catch(() => {});
+
       loggingService.success('clone', `Successfully analyzed ${options.source}`, {
         projectId,
         score: project.metrics?.score || project.originalScore || 0,
       });
     } catch (error) {
+      // Cancelled and failed jobs keep their checkpoint so they can be resumed
+      if (options.signal?.aborted) {
+        const nextStep = cloneJobService.getNextStep(job);
+        project.status = 'cancelled';
+        project.currentStep = `Cancelled${nextStep ? ` before ${nextStep}` : ''} - resume to continue`;
+        await this.saveCheckpoint(project, job);
+
+        loggingService.warning('clone', `Clone of ${options.source} cancelled`, {
+          projectId,
+          completedSteps: job.completedSteps,
+        });
+        throw error;
+      }
+
       // Enhanced error logging with full details
       console.error('startAnalysis: Error occurred:', {
         message: error instanceof Error ? error.message : 'Unknown error',
@@ -664,6 +802,7 @@ export class CloneService {
           stack: saveError instanceof Error ? saveError.stack : undefined,
         });
       });
+      await cloneJobService.save(job).catch(() => {});
 
       loggingService.error('clone', 'Analysis process error', {
         projectId,
@@ -681,6 +820,70 @@ export class CloneService {
     }
   }
 
+  /**
+   * Record a finished pipeline step, checkpoint the job, and stop here if it was cancelled
+   */
+  private async completeStep(
+    project: CloneProject,
+    job: CloneCheckpoint,
+    step: CloneJobStep,
+    options: CloneOptions
+  ): Promise<void> {
+    job.completedSteps.push(step);
+    await this.saveCheckpoint(project, job);
+    this.throwIfCancelled(options);
+  }
+
+  /**
+   * Run one download of the assets step, or take its assets from the checkpoint.
+   * Each finished download is checkpointed so a resumed job does not fetch it again.
+   */
+  private async downloadAssetGroup(
+    project: CloneProject,
+    job: CloneCheckpoint,
+    group: keyof CloneCheckpoint['assetGroups'],
+    options: CloneOptions,
+    download: () => Promise<ClonedAsset[]>
+  ): Promise<ClonedAsset[]> {
+    const done = job.assetGroups[group];
+    if (done) {
+      const urls = new Set(done);
+      const reused = (project.assets || []).filter(asset => urls.has(asset.originalUrl));
+      console.log(`startAnalysis: Reusing ${reused.length} ${group} assets from the checkpoint`);
+      return reused;
+    }
+
+    this.throwIfCancelled(options);
+    const assets = await download();
+    // Downloads cut short by a cancel return what they had; the group is not done
+    this.throwIfCancelled(options);
+    job.assetGroups[group] = assets.map(asset => asset.originalUrl);
+    project.assets = [...(project.assets || []), ...assets];
+    await this.saveCheckpoint(project, job);
+    return assets;
+  }
+
+  /**
+   * Save the project as it stands and the job's checkpoint. A failed save only
+   * costs the ability to resume, so the clone carries on.
+   */
+  private async saveCheckpoint(project: CloneProject, job: CloneCheckpoint): Promise<void> {
+    try {
+      await this.saveProject(project);
+      await cloneJobService.save(job);
+    } catch (error) {
+      loggingService.warning('clone', `Could not checkpoint project ${project.id}; it cannot be resumed from here`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private throwIfCancelled(options: CloneOptions): void {
+    if (options.signal?.aborted) {
+      throw new Error('Clone cancelled');
+    }
+  }
+
   async downloadAssets(projectId: string): Promise<void> {
     const project = this.projects.get(projectId);
     if (!project) {
@@ -703,12 +906,12 @@ export class CloneService {
       project.progress = 20;
       project.currentStep = 'Downloading CSS files';
 
-      const cssAssets = await this.extractAndDownloadCSS(parsedData, project.source);
+      const cssAssets = await this.extractAndDownloadCSS(parsedData, project.source, undefined, project);
 
       project.progress = 40;
       project.currentStep = 'Downloading JavaScript files';
 
-      const jsAssets = await this.extractAndDownloadJS(parsedData, project.source);
+      const jsAssets = await this.extractAndDownloadJS(parsedData, project.source, undefined, undefined, project);
 
       project.progress = 60;
       project.currentStep = 'Downloading images';
@@ -728,7 +931,7 @@ export class CloneService {
       project.progress = 90;
       project.currentStep = 'Rewriting HTML with local paths';
 
-      const rewrittenHtml = this.rewriteHtmlWithLocalPaths(project.originalHtml, allAssets);
+      const rewrittenHtml = this.rewriteHtmlWithLocalPaths(project.originalHtml, allAssets, project.source);
       project.originalHtml = rewrittenHtml;
 
       if (project.metadata) {
@@ -761,7 +964,7 @@ export class CloneService {
       project.progress = 10;
       project.currentStep = 'Fetching HTML';
 
-      const html = await this.fetchHtml(options.source);
+      const html = await this.fetchHtml(options.source, options.signal);
       project.originalHtml = html;
 
       project.progress = 20;
@@ -781,22 +984,22 @@ export class CloneService {
         project.progress = 40;
         project.currentStep = 'Extracting CSS files';
 
-        const cssAssets = await this.extractAndDownloadCSS(parsedData, options.source);
+        const cssAssets = await this.extractAndDownloadCSS(parsedData, options.source, options.signal, project);
 
         project.progress = 50;
         project.currentStep = 'Extracting JavaScript files';
 
-        const jsAssets = await this.extractAndDownloadJS(parsedData, options.source);
+        const jsAssets = await this.extractAndDownloadJS(parsedData, options.source, undefined, options.signal, project);
 
         project.progress = 60;
         project.currentStep = 'Extracting images';
 
-        const imageAssets = await this.extractAndDownloadImages(parsedData, options.source);
+        const imageAssets = await this.extractAndDownloadImages(parsedData, options.source, options.signal);
 
         project.progress = 70;
         project.currentStep = 'Extracting fonts';
 
-        const fontAssets = await this.extractAndDownloadFonts(parsedData, options.source);
+        const fontAssets = await this.extractAndDownloadFonts(parsedData, options.source, options.signal);
 
         const allAssets = [...cssAssets, ...jsAssets, ...imageAssets, ...fontAssets];
         project.assets = allAssets;
@@ -806,133 +1009,602 @@ export class CloneService {
         project.progress = 75;
         project.currentStep = 'Rewriting HTML with local paths';
 
-        const rewrittenHtml = this.rewriteHtmlWithLocalPaths(html, allAssets);
+        const rewrittenHtml = this.rewriteHtmlWithLocalPaths(html, allAssets, options.source);
         project.originalHtml = rewrittenHtml;
 
         metadata.totalSize = this.calculateTotalSize(allAssets);
         metadata.assetCount = allAssets.length;
       }
 
-      project.progress = 80;
-      project.currentStep = 'Analyzing performance metrics';
+      project.progress = 80;
+      project.currentStep = 'Analyzing performance metrics';
+
+      const metrics = await performanceService.analyzePerformance(
+        html, '', '', options.type === 'upload' ? undefined : options.source, project.har,
+        { profile: options.vitalsProfile, auth: options.auth }
+      );
+      project.originalScore = metrics.score;
+      project.metrics = metrics;
+
+      project.progress = 90;
+      project.currentStep = 'Running Lighthouse audit';
+
+      try {
+        const lighthouseResults = await lighthouseService.runAuditWithRetry(options.source, { formFactor: options.vitalsProfile });
+        metrics.lighthouse = lighthouseResults;
+        if (lighthouseResults.source !== 'simulated') {
+          project.originalScore = Math.round((metrics.score + lighthouseResults.performanceScore) / 2);
+        }
+
+        loggingService.success('clone', `Lighthouse audit completed - Score: ${lighthouseResults.performanceScore}`, {
+          projectId,
+          lighthouseScore: lighthouseResults.performanceScore,
+        });
+      } catch (error) {
+        loggingService.warning('clone', 'Lighthouse audit failed, continuing with custom metrics', {
+          projectId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      project.progress = 100;
+      project.currentStep = 'Clone completed';
+      project.status = 'completed';
+
+      await this.saveProject(project);
+
+      loggingService.success('clone', `Successfully cloned ${options.source}`, {
+        projectId,
+        score: metrics.score,
+      });
+    } catch (error) {
+      project.status = 'error';
+      project.currentStep = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      await this.saveProject(project).catch(() => {});
+
+      loggingService.error('clone', 'Clone process error', {
+        projectId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Clone the pages selected in `options.pages` and/or crawl same-origin pages linked
+   * from the entry page, storing them on the project. Assets already downloaded for
+   * earlier pages are reused instead of fetched again. Same-origin iframes captured
+   * with the entry page are cloned as pages from their captured documents.
+   */
+  private async crawlLinkedPages(
+    projectId: string,
+    options: CloneOptions,
+    project: CloneProject,
+    entryHtml: string,
+    frames: CapturedFrame[] = []
+  ): Promise<void> {
+    const entryUrl = crawlerService.normalizeUrl(options.source);
+    const assetCache = new Map<string, ClonedAsset>(
+      (project.assets || []).map(asset => [asset.originalUrl, asset])
+    );
+
+    const frameHtml = new Map(frames.map(frame => [crawlerService.normalizeUrl(frame.url), frame.html]));
+    const seeds = [...(options.pages || []), ...frames.map(frame => frame.url)];
+
+    const { pages, skipped } = await crawlerService.crawl(options.source, {
+      depth: options.followLinks ? options.depth ?? 1 : 0,
+      maxPages: options.maxPages ?? Math.max(20, seeds.length + 1),
+      seeds,
+      fetchPage: (url) => {
+        if (url === entryUrl) return Promise.resolve(entryHtml);
+        const captured = frameHtml.get(url);
+        return captured ? Promise.resolve(captured) : this.fetchHtml(url, options.signal);
+      },
+      checkUrl: options.respectRobots
+        ? async (url) => (await robotsService.check(url)).reason || null
+        : undefined,
+      onPage: async (page, crawled) => {
+        this.throwIfCancelled(options);
+        project.currentStep = `Crawling linked pages (${crawled} found)`;
+        options.onProgress?.(72, `Crawled page ${crawled}: ${page.title}`);
+
+        // The entry page is parsed and embedded by the main pipeline
+        if (page.url === entryUrl || !page.html) return;
+
+        if (options.includeAssets !== false) {
+          let parsed = this.parseHtml(page.html, page.url);
+          if (options.respectRobots) {
+            parsed = await this.filterBlockedAssets(parsed, project);
+          }
+          await this.downloadSharedAssets(parsed, page.url, assetCache, options.thirdPartyScripts, options.signal, project);
+          const pageHtml = options.thirdPartyScripts === 'strip'
+            ? this.stripThirdPartyScripts(page.html, page.url, project)
+            : page.html;
+          // The whole cache is passed so stylesheets can inline their imports and dependencies
+          page.html = this.embedAssetsInHtml(pageHtml, Array.from(assetCache.values()), undefined, page.url);
+        }
+      },
+    });
+
+    for (const page of pages) {
+      if (page.url === entryUrl) {
+        delete page.html;
+      } else if (page.html) {
+        page.html = crawlerService.rewritePageLinks(page.html, page.url, pages);
+      }
+    }
+
+    if (project.originalHtml) {
+      project.originalHtml = crawlerService.rewritePageLinks(project.originalHtml, entryUrl || options.source, pages);
+    }
+
+    project.pages = pages;
+    if (options.includeAssets !== false) {
+      project.assets = Array.from(assetCache.values());
+    }
+
+    if (project.metadata) {
+      project.metadata.pageCount = pages.length;
+      project.metadata.assetCount = project.assets?.length || 0;
+      project.metadata.totalSize = this.calculateTotalSize(project.assets || []);
+    }
+
+    skipped.forEach(({ url, reason }) => this.recordSkipped(project, url, reason));
+
+    loggingService.info('clone', `Crawled ${pages.length} pages (${skipped.length} skipped)`, {
+      projectId,
+      pages: pages.map(p => p.url),
+    });
+  }
+
+  /**
+   * Add the archived responses no page pulled in as assets, so analysis and
+   * export see everything the browser loaded (lazy images, injected scripts, XHR)
+   */
+  private async addArchivedResponses(project: CloneProject, archive: UploadBundle): Promise<void> {
+    const known = new Set((project.assets || []).map(asset => asset.originalUrl));
+    (project.pages || []).forEach(page => known.add(page.url));
+    known.add(archive.entryUrl);
+
+    const added: ClonedAsset[] = [];
+    for (const [url, blob] of archive.files) {
+      if (known.has(url) || url.startsWith('cid:') || blob.type === 'text/html') continue;
+
+      const type = this.getArchivedAssetType(url, blob.type);
+      const folder = { css: 'css', js: 'js', image: 'images', font: 'fonts', other: 'other' }[type];
+      added.push({
+        type,
+        originalUrl: url,
+        localPath: this.generateLocalPath(url, folder),
+        size: blob.size,
+        content: type === 'css' || type === 'js' ? await blob.text() : await this.blobToBase64(blob),
+        format: type === 'css' || type === 'js' ? type : this.getFileExtension(url),
+      });
+    }
+
+    project.assets = [...(project.assets || []), ...added];
+    if (project.metadata) {
+      project.metadata.assetCount = project.assets.length;
+      project.metadata.totalSize = this.calculateTotalSize(project.assets);
+    }
+    loggingService.info('clone', `Added ${added.length} archived responses not referenced by the page`, { projectId: project.id });
+  }
+
+  private getArchivedAssetType(url: string, mimeType: string): ClonedAsset['type'] {
+    if (mimeType === 'text/css') return 'css';
+    if (/javascript|ecmascript/.test(mimeType)) return 'js';
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('font/') || /font|woff/.test(mimeType)) return 'font';
+
+    const ext = this.getFileExtension(url);
+    if (ext === 'css') return 'css';
+    if (ext === 'js' || ext === 'mjs') return 'js';
+    if (['woff', 'woff2', 'ttf', 'otf', 'eot'].includes(ext)) return 'font';
+    return 'other';
+  }
+
+  private getCaptureRequestOptions(options: CloneOptions): CaptureRequestOptions {
+    return {
+      auth: options.auth,
+      interception: options.interception,
+      dismissPopups: options.dismissPopups !== false,
+      emulation: options.emulation,
+      expansion: options.expansion,
+      shadowDom: options.shadowDom,
+      captureFrames: options.captureFrames !== false,
+    };
+  }
+
+  /**
+   * Capture the source once per extra emulation profile. A failed profile is
+   * logged and left out; the clone itself does not depend on the snapshots.
+   */
+  private async captureSnapshots(
+    browserService: BrowserService,
+    options: CloneOptions,
+    project: CloneProject
+  ): Promise<CaptureSnapshot[]> {
+    const profiles = options.snapshotProfiles || [];
+    const snapshots: CaptureSnapshot[] = [];
+
+    for (const [index, profile] of profiles.entries()) {
+      this.throwIfCancelled(options);
+      project.currentStep = `Capturing ${profile.label || profile.name} snapshot (${index + 1}/${profiles.length})`;
+      options.onProgress?.(project.progress, project.currentStep);
+
+      try {
+        // Frames are cloned once, from the main capture
+        const result = await browserService.captureCombined(
+          options.source, {}, true, { ...this.getCaptureRequestOptions(options), emulation: profile, captureFrames: false, recordHar: false },
+          options.signal
+        );
+        snapshots.push({
+          profile,
+          title: result.title || '',
+          html: result.html,
+          styles: result.styles,
+          screenshot: result.screenshot ? `data:image/png;base64,${result.screenshot}` : undefined,
+          capturedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        loggingService.warning('clone', `Snapshot for emulation profile ${profile.name} failed`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    loggingService.info('clone', `Captured ${snapshots.length} of ${profiles.length} emulation snapshots`, {
+      profiles: snapshots.map(snapshot => snapshot.profile.name),
+    });
+    return snapshots;
+  }
+
+  /**
+   * Point each asset request that failed during the capture at the ClonedAsset
+   * made from the same URL, or flag it as missing from the clone
+   */
+  private linkFailedRequestsToAssets(project: CloneProject): void {
+    const failed = project.diagnostics?.failedRequests;
+    if (!failed?.length) return;
+
+    const withoutHash = (url: string) => url.split('#')[0];
+    const assets = new Map((project.assets || []).map(asset => [withoutHash(asset.originalUrl), asset]));
+    const assetTypes = ['image', 'stylesheet', 'font', 'script', 'media'];
+
+    for (const request of failed) {
+      if (!assetTypes.includes(request.resourceType)) continue;
+      const asset = assets.get(withoutHash(request.url));
+      request.assetPath = asset?.localPath;
+      request.assetMissing = !asset;
+    }
+
+    const missing = failed.filter(request => request.assetMissing).length;
+    if (missing > 0) {
+      loggingService.warning('clone', `${missing} assets that failed during capture are missing from the clone`, {
+        projectId: project.id,
+        urls: failed.filter(request => request.assetMissing).slice(0, 10).map(request => request.url),
+      });
+    }
+  }
+
+  /**
+   * Copy each captured phase into its WebsiteMetadata section
+   */
+  private applyCaptureResult(project: CloneProject, result: CombinedCaptureResult): void {
+    if (!project.metadata) {
+      project.metadata = {} as WebsiteMetadata;
+    }
+    const metadata = project.metadata;
+
+    // Store elements with computed styles for use during asset embedding
+    if (result.elements && result.elements.length > 0) {
+      console.log(`startAnalysis: Captured ${result.elements.length} elements with computed styles`);
+      (metadata as any).elementsWithStyles = result.elements;
+    } else {
+      console.log('startAnalysis: WARNING - No elements with computed styles received from capture');
+    }
+
+    if (result.interception) {
+      metadata.interception = result.interception;
+      loggingService.info('clone', `Capture blocked ${result.interception.blocked} and stubbed ${result.interception.stubbed} requests`, {
+        byReason: result.interception.byReason,
+      });
+    }
+
+    if (result.emulation) {
+      metadata.emulation = { ...metadata.emulation, ...result.emulation };
+    }
+
+    if (result.diagnostics) {
+      project.diagnostics = result.diagnostics;
+      const { pageErrors, failedRequests, cspViolations } = result.diagnostics;
+      if (pageErrors.length || failedRequests.length || cspViolations.length) {
+        loggingService.warning('clone', `Source page reported ${pageErrors.length} errors and ${failedRequests.length} failed requests during capture`, {
+          projectId: project.id,
+          pageErrors: pageErrors.slice(0, 5).map(error => error.message),
+          failedRequests: failedRequests.slice(0, 10).map(request => `${request.status || request.error} ${request.url}`),
+          cspViolations: cspViolations.length,
+        });
+      }
+    }
+
+    if (result.har) {
+      project.har = result.har;
+    }
+
+    if (result.serialization) {
+      metadata.serialization = result.serialization;
+    }
+
+    if (result.expansion) {
+      metadata.expansion = result.expansion;
+      loggingService.info('clone', `Expanded page before capture: ${result.expansion.initialHeight}px → ${result.expansion.finalHeight}px`, {
+        scrollSteps: result.expansion.scrollSteps,
+        loadMoreClicks: result.expansion.loadMoreClicks,
+        lazySourcesSwapped: result.expansion.lazySourcesSwapped,
+      });
+    }
+
+    if (result.dismissed?.length) {
+      metadata.dismissedOverlays = result.dismissed;
+      loggingService.info('clone', `Dismissed ${result.dismissed.length} cookie banners and popups before capture`, {
+        providers: [...new Set(result.dismissed.map(item => item.provider).filter(Boolean))],
+      });
+    }
+
+    if (result.screenshot) {
+      metadata.screenshot = `data:image/png;base64,${result.screenshot}`;
+      console.log('startAnalysis: Screenshot captured with page capture');
+    } else {
+      console.log('startAnalysis: No screenshot returned from capture');
+    }
+
+    if (result.responsiveStyles && result.mediaQueries) {
+      metadata.responsiveData = {
+        breakpoints: result.responsiveStyles.length,
+        mediaQueries: result.mediaQueries.length,
+        responsivePercentage: 0, // Will be calculated by ResponsiveAnalyzer
+      };
+      console.log(`Responsive capture complete: ${result.responsiveStyles.length} breakpoints, ${result.mediaQueries.length} media queries`);
+    }
+
+    if (result.interactiveElements && result.statesDetected) {
+      metadata.interactiveData = {
+        totalInteractive: result.totalInteractive ?? result.interactiveElements.length,
+        withHover: result.statesDetected.hover,
+        withFocus: result.statesDetected.focus,
+        withActive: result.statesDetected.active,
+        withPseudoElements: result.interactiveElements.filter(
+          e => e.pseudoElements.before || e.pseudoElements.after
+        ).length,
+      };
+      console.log(`Interactive capture complete: ${metadata.interactiveData.totalInteractive} total, ${result.statesDetected.hover} with hover`);
+    }
+
+    if (result.animations) {
+      metadata.animationData = {
+        totalAnimated: result.animations.totalAnimatedElements,
+        withAnimations: result.animations.elementsWithAnimations,
+        withTransitions: result.animations.elementsWithTransitions,
+        withTransforms: result.animations.elementsWithTransforms,
+        keyframes: result.animations.keyframes.length,
+      };
+      console.log(`Animation capture complete: ${result.animations.totalAnimatedElements} animated, ${result.animations.keyframes.length} keyframes`);
+    }
+
+    if (result.styleAnalysis) {
+      metadata.styleAnalysisData = {
+        totalColors: result.styleAnalysis.colors.totalUnique,
+        primaryColors: result.styleAnalysis.colors.mostUsed,
+        totalFonts: result.styleAnalysis.typography.totalFonts,
+        elementsWithShadows: result.styleAnalysis.visual.elementsWithShadows,
+        elementsWithFilters: result.styleAnalysis.visual.elementsWithFilters,
+        maxZIndex: result.styleAnalysis.visual.maxZIndex,
+      };
+      console.log(`Style analysis complete: ${result.styleAnalysis.colors.totalUnique} colors, ${result.styleAnalysis.typography.totalFonts} fonts`);
+    }
 
-      const metrics = await performanceService.analyzePerformance(html, '', '', options.source);
-      project.originalScore = metrics.score;
-      project.metrics = metrics;
+    if (result.navigation) {
+      metadata.navigationData = {
+        totalNavigations: result.navigation.totalNavigations,
+        byType: result.navigation.byType,
+        byMethod: result.navigation.byMethod,
+        components: result.navigation.components.map((comp) => ({
+          selector: comp.selector,
+          type: comp.properties.type,
+          confidence: comp.properties.confidence,
+          linkCount: comp.properties.linkCount,
+          detectionMethod: comp.detectionMethod,
+        })),
+      };
+      console.log(`Navigation detection complete: ${result.navigation.totalNavigations} navigations detected`);
+    }
+  }
 
-      project.progress = 90;
-      project.currentStep = 'Running Lighthouse audit';
+  /**
+   * Configure per-host request limits for this job and, when robots.txt is
+   * respected, apply its Crawl-delay and refuse a disallowed entry URL.
+   */
+  private async applyCrawlPolicy(options: CloneOptions, project: CloneProject): Promise<void> {
+    let minDelayMs = options.requestDelayMs;
+
+    if (options.respectRobots) {
+      const robots = await robotsService.getRobots(options.source);
+      const crawlDelay = robotsService.getCrawlDelay(robots);
+      if (crawlDelay !== undefined) {
+        minDelayMs = Math.max(minDelayMs ?? 0, crawlDelay * 1000);
+        loggingService.info('clone', `Honoring robots.txt Crawl-delay of ${crawlDelay}s`, { projectId: project.id });
+      }
 
-      try {
-        const lighthouseResults = await lighthouseService.runAuditWithRetry(options.source);
-        metrics.lighthouse = lighthouseResults;
-        project.originalScore = Math.round((metrics.score + lighthouseResults.performanceScore) / 2);
+      const verdict = robotsService.isAllowed(robots, options.source);
+      if (!verdict.allowed) {
+        this.recordSkipped(project, options.source, verdict.reason || 'Blocked by robots.txt');
+        throw new Error(verdict.reason || 'Blocked by robots.txt');
+      }
+    }
 
-        loggingService.success('clone', `Lighthouse audit completed - Score: ${lighthouseResults.performanceScore}`, {
-          projectId,
-          lighthouseScore: lighthouseResults.performanceScore,
-        });
-      } catch (error) {
-        loggingService.warning('clone', 'Lighthouse audit failed, continuing with custom metrics', {
-          projectId,
-          error: error instanceof Error ? error.message : 'Unknown error',
+    politenessService.setHostLimits(options.source, {
+      maxConcurrent: options.maxConcurrentPerHost,
+      minDelayMs,
+    });
+  }
+
+  /**
+   * Remove asset URLs disallowed by robots.txt, recording each as skipped.
+   * Only the cloned site is disallowed when its robots.txt cannot be read;
+   * other asset hosts (CDNs, font services) are kept and reported instead.
+   */
+  private async filterBlockedAssets(parsed: ParsedHTML, project: CloneProject): Promise<ParsedHTML> {
+    const siteOrigin = this.getOrigin(project.source);
+    const unreachableHosts = new Set<string>();
+    const blocked = new Set<string>();
+    const urls = new Set([
+      ...parsed.stylesheets.map(s => s.href),
+      ...parsed.images.map(img => img.src),
+      ...parsed.backgroundImages.map(bg => bg.src),
+      ...parsed.responsiveImages.map(img => img.src),
+      ...parsed.fonts.map(f => f.href),
+      ...parsed.scripts.map(s => s.src),
+    ]);
+
+    for (const url of urls) {
+      if (!url || !/^https?:/i.test(url)) continue;
+      const origin = this.getOrigin(url);
+      if (unreachableHosts.has(origin)) continue;
+
+      const verdict = await robotsService.check(url);
+      if (verdict.unreachable && origin !== siteOrigin) {
+        unreachableHosts.add(origin);
+        loggingService.warning('clone', `Could not read robots.txt for ${origin}; downloading its assets anyway`, {
+          projectId: project.id,
+          origin,
         });
+        continue;
       }
+      if (!verdict.allowed) {
+        blocked.add(url);
+        this.recordSkipped(project, url, verdict.reason || 'Blocked by robots.txt');
+      }
+    }
 
-      project.progress = 100;
-      project.currentStep = 'Clone completed';
-      project.status = 'completed';
-
-      await this.saveProject(project);
+    if (blocked.size === 0) return parsed;
 
-      loggingService.success('clone', `Successfully cloned ${options.source}`, {
-        projectId,
-        score: metrics.score,
-      });
-    } catch (error) {
-      project.status = 'error';
-      project.currentStep = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      await this.saveProject(project).catch(() => {});
+    return {
+      ...parsed,
+      stylesheets: parsed.stylesheets.filter(s => !blocked.has(s.href)),
+      images: parsed.images.filter(img => !blocked.has(img.src)),
+      backgroundImages: parsed.backgroundImages.filter(bg => !blocked.has(bg.src)),
+      responsiveImages: parsed.responsiveImages.filter(img => !blocked.has(img.src)),
+      fonts: parsed.fonts.filter(f => !blocked.has(f.href)),
+      scripts: parsed.scripts.filter(s => !blocked.has(s.src)),
+    };
+  }
 
-      loggingService.error('clone', 'Clone process error', {
-        projectId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-      throw error;
+  private getOrigin(url: string): string {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return '';
     }
   }
 
-  private async fetchHtml(url: string): Promise<string> {
-    // List of CORS proxies to try in order
-    const corsProxies = [
-      { url: `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`, name: 'AllOrigins' },
-      { url: `https://corsproxy.io/?${encodeURIComponent(url)}`, name: 'CorsProxy.io' },
-      { url: `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`, name: 'CodeTabs' },
-      { url: `https://thingproxy.freeboard.io/fetch/${encodeURIComponent(url)}`, name: 'ThingProxy' },
-      { url: url, name: 'Direct (no proxy)' }, // Last resort - direct fetch
-    ];
-
-    let lastError: Error | null = null;
+  private recordSkipped(project: CloneProject, url: string, reason: string): void {
+    if (!project.skippedUrls) {
+      project.skippedUrls = [];
+    }
+    if (project.skippedUrls.some(entry => entry.url === url)) return;
 
-    for (let i = 0; i < corsProxies.length; i++) {
-      const proxy = corsProxies[i];
-      const proxyUrl = proxy.url;
-      const proxyName = proxy.name;
+    project.skippedUrls.push({ url, reason });
+    loggingService.warning('clone', `Skipped ${url}: ${reason}`, { projectId: project.id, url, reason });
+  }
 
-      try {
-        console.log(`fetchHtml: Attempting proxy ${i + 1}/${corsProxies.length} (${proxyName})`);
-        loggingService.debug('clone', `Fetching HTML from ${url} via ${proxyName}`);
+  /**
+   * Download the CSS, scripts, images and fonts referenced by a crawled page into the
+   * shared cache, skipping any URL already present in it.
+   */
+  private async downloadSharedAssets(
+    parsed: ParsedHTML,
+    baseUrl: string,
+    cache: Map<string, ClonedAsset>,
+    thirdPartyScripts?: CloneOptions['thirdPartyScripts'],
+    signal?: AbortSignal,
+    project?: CloneProject
+  ): Promise<void> {
+    const isNew = (url: string) => !!url && !cache.has(url);
+
+    const pending: ParsedHTML = {
+      ...parsed,
+      stylesheets: parsed.stylesheets.filter(s => isNew(s.href)),
+      inlineStyles: [], // Inline styles stay in the page HTML
+      images: parsed.images.filter(img => isNew(img.src)),
+      backgroundImages: parsed.backgroundImages.filter(bg => isNew(bg.src)),
+      responsiveImages: parsed.responsiveImages.filter(img => isNew(img.src)),
+      fonts: parsed.fonts.filter(f => isNew(f.href)),
+      scripts: parsed.scripts.filter(s => isNew(s.src)),
+      inlineScripts: [], // Inline scripts stay in the page HTML
+    };
 
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
+    const downloaded = [
+      ...await this.extractAndDownloadCSS(pending, baseUrl, signal, project),
+      ...await this.extractAndDownloadJS(pending, baseUrl, thirdPartyScripts, signal, project),
+      ...await this.extractAndDownloadImages(pending, baseUrl, signal),
+      ...await this.extractAndDownloadFonts(pending, baseUrl, signal),
+    ];
+    downloaded.forEach(asset => cache.set(asset.originalUrl, asset));
+  }
 
-        const response = await fetch(proxyUrl, {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': this.userAgent,
-          },
-        });
+  private fetchHtml(url: string, signal?: AbortSignal): Promise<string> {
+    if (uploadImportService.find(url)) {
+      return this.readUploadedHtml(url);
+    }
 
-        clearTimeout(timeoutId);
+    // Page and asset requests share the per-host politeness limits
+    return politenessService.schedule(url, () => this.fetchHtmlViaProxy(url, signal));
+  }
 
-        if (!response.ok) {
-          console.log(`fetchHtml: Proxy ${proxyName} returned status ${response.status}`);
-          throw new Error(`HTTP ${response.status}`);
-        }
+  private async readUploadedHtml(url: string): Promise<string> {
+    const file = uploadImportService.read(url);
+    if (!file) {
+      throw new Error(`${decodeURIComponent(new URL(url).pathname)} is not part of the upload`);
+    }
+    return file.text();
+  }
 
-        const html = await response.text();
+  /**
+   * Fetch an asset from the upload bundle that serves it, or through our fetch proxy
+   */
+  private fetchResource(url: string, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+    if (uploadImportService.find(url)) {
+      return Promise.resolve(uploadImportService.fetch(url));
+    }
+    return fetchProxyService.fetch(url, { timeoutMs, signal });
+  }
 
-        if (!html || html.length < 100) {
-          console.log(`fetchHtml: Proxy ${proxyName} returned insufficient data (${html.length} bytes)`);
-          throw new Error('Response too small, likely empty');
-        }
+  private async fetchHtmlViaProxy(url: string, signal?: AbortSignal): Promise<string> {
+    try {
+      loggingService.debug('clone', `Fetching HTML from ${url} via /api/fetch`);
 
-        console.log(`fetchHtml: Success with ${proxyName} - ${html.length} bytes fetched`);
-        loggingService.debug('clone', `Successfully fetched HTML from ${url} via ${proxyName}`, {
-          size: html.length,
-        });
-        return html;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error('Unknown error');
-        console.log(`fetchHtml: Proxy ${proxyName} failed:`, lastError.message);
+      const html = await fetchProxyService.fetchText(url, { timeoutMs: 15000, signal });
 
-        // If this isn't the last proxy, continue to the next one
-        if (i < corsProxies.length - 1) {
-          console.log(`fetchHtml: Trying next proxy...`);
-          continue;
-        }
+      if (!html || html.length < 100) {
+        console.log(`fetchHtml: Proxy returned insufficient data (${html.length} bytes)`);
+        throw new Error('Response too small, likely empty');
       }
-    }
 
-    // All proxies failed
-    const errorMsg = `All CORS proxies failed. Last error: ${lastError?.message || 'Unknown'}`;
-    console.error('fetchHtml: All proxies exhausted');
-    loggingService.error('clone', `Failed to fetch URL after trying all proxies: ${url}`, {
-      error: lastError?.message,
-      proxiesAttempted: corsProxies.length,
-    });
+      console.log(`fetchHtml: Success - ${html.length} bytes fetched`);
+      loggingService.debug('clone', `Successfully fetched HTML from ${url}`, {
+        size: html.length,
+      });
+      return html;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('fetchHtml: Fetch proxy failed:', message);
+      loggingService.error('clone', `Failed to fetch URL: ${url}`, {
+        error: message,
+      });
 
-    throw new Error(errorMsg);
+      throw new Error(`Failed to fetch ${url}: ${message}`);
+    }
   }
 
   private parseHtml(html: string, baseUrl: string): ParsedHTML {
@@ -947,6 +1619,20 @@ export class CloneService {
       element: img,
     }));
 
+    // Every srcset candidate of <img> and <picture><source>, one entry per candidate
+    const responsiveImages = Array.from(doc.querySelectorAll('img[srcset], picture > source[srcset]')).flatMap((el) =>
+      SrcsetUtils.parse(el.getAttribute('srcset') || '').map((candidate) => ({
+        src: this.resolveUrl(candidate.url, baseUrl),
+        source: {
+          descriptor: candidate.descriptor,
+          sizes: el.getAttribute('sizes') || undefined,
+          media: el.getAttribute('media') || undefined,
+          mimeType: el.getAttribute('type') || undefined,
+          element: el.tagName.toLowerCase() === 'source' ? 'source' : 'img',
+        } as ResponsiveImageSource,
+      }))
+    );
+
     const stylesheets = Array.from(doc.querySelectorAll('link[rel="stylesheet"]')).map(
       (link) => ({
         href: this.resolveUrl(link.getAttribute('href') || '', baseUrl),
@@ -976,6 +1662,7 @@ export class CloneService {
     return {
       document: doc,
       images,
+      responsiveImages,
       stylesheets,
       inlineStyles,
       scripts,
@@ -1047,6 +1734,21 @@ export class CloneService {
     };
   }
 
+  /**
+   * Metadata for a project that has not been analyzed yet; extractMetadata
+   * replaces these placeholders
+   */
+  private createPendingMetadata(): WebsiteMetadata {
+    return {
+      title: '',
+      framework: '',
+      responsive: false,
+      totalSize: 0,
+      assetCount: 0,
+      pageCount: 0,
+    };
+  }
+
   private detectFramework(html: string, doc: Document): string {
     if (html.includes('__NEXT_DATA__') || html.includes('_next/static')) {
       return 'Next.js';
@@ -1085,7 +1787,12 @@ export class CloneService {
     return false;
   }
 
-  private async extractAndDownloadCSS(parsed: ParsedHTML, baseUrl: string): Promise<ClonedAsset[]> {
+  private async extractAndDownloadCSS(
+    parsed: ParsedHTML,
+    baseUrl: string,
+    signal?: AbortSignal,
+    project?: CloneProject
+  ): Promise<ClonedAsset[]> {
     console.log(`[CSS] Starting parallel download of ${parsed.stylesheets.length} external stylesheets...`);
     const startTime = Date.now();
     const assets: ClonedAsset[] = [];
@@ -1093,7 +1800,7 @@ export class CloneService {
     // Download external stylesheets in parallel (limit to 10)
     const stylesheetUrls = parsed.stylesheets.slice(0, 10).filter(s => s.href);
     const downloadPromises = stylesheetUrls.map(stylesheet =>
-      this.downloadTextAsset(stylesheet.href, 'css')
+      this.downloadTextAsset(stylesheet.href, 'css', signal)
     );
 
     const results = await Promise.allSettled(downloadPromises);
@@ -1128,19 +1835,164 @@ export class CloneService {
       }
     }
 
-    console.log(`[CSS] Total CSS assets: ${assets.length} (${successCount} external + ${parsed.inlineStyles.length} inline)`);
-    return assets;
+    const dependencies = await this.resolveCssDependencies(assets, parsed, baseUrl, signal, project);
+
+    console.log(`[CSS] Total CSS assets: ${assets.length} (${successCount} external + ${parsed.inlineStyles.length} inline) plus ${dependencies.length} dependencies`);
+    return [...assets, ...dependencies];
   }
 
-  private async extractAndDownloadJS(parsed: ParsedHTML, baseUrl: string): Promise<ClonedAsset[]> {
-    const assets: ClonedAsset[] = [];
+  /**
+   * Follow @import chains from the downloaded stylesheets, download every image
+   * and font they reference, and rewrite each sheet to point at local copies
+   * relative to its own file. The page's style="" attributes count as one more
+   * inline sheet. Returns the imported sheets and downloaded assets.
+   */
+  private async resolveCssDependencies(
+    cssAssets: ClonedAsset[],
+    parsed: ParsedHTML,
+    pageUrl: string,
+    signal?: AbortSignal,
+    project?: CloneProject
+  ): Promise<ClonedAsset[]> {
+    const isInline = (asset: ClonedAsset) => asset.originalUrl.startsWith('inline-');
+    const sheetUrl = (asset: ClonedAsset) => isInline(asset) ? pageUrl : asset.originalUrl;
+    const styleAttributes = Array.from(parsed.document.querySelectorAll('[style]'))
+      .map(el => el.getAttribute('style') || '')
+      .filter(style => style.includes('url('));
+
+    const graph = await cssResolverService.buildGraph(
+      [
+        ...cssAssets
+          .filter(asset => asset.content)
+          .map(asset => ({ url: sheetUrl(asset), content: asset.content!, inline: isInline(asset) })),
+        ...(styleAttributes.length > 0 ? [{ url: pageUrl, content: styleAttributes.join(';\n'), inline: true }] : []),
+      ],
+      {
+        fetchSheet: async (url) => (await this.downloadTextAsset(url, 'css', signal))?.content ?? null,
+      }
+    );
+
+    const importedSheets: ClonedAsset[] = Array.from(graph.sheets, ([url, content]) => ({
+      type: 'css',
+      originalUrl: url,
+      localPath: this.generateLocalPath(url, 'css'),
+      size: new Blob([content]).size,
+      content,
+      format: 'css',
+    }));
 
-    for (const script of parsed.scripts.slice(0, 10)) {
-      if (script.src) {
-        const asset = await this.downloadTextAsset(script.src, 'js');
-        if (asset) assets.push(asset);
+    // Images and fonts the page also references directly are downloaded by their own extractors
+    const handledElsewhere = new Map<string, string>();
+    parsed.images.forEach(img => handledElsewhere.set(img.src, this.generateLocalPath(img.src, 'images')));
+    parsed.backgroundImages.forEach(bg => handledElsewhere.set(bg.src, this.generateLocalPath(bg.src, 'images')));
+    parsed.responsiveImages.forEach(img => handledElsewhere.set(img.src, this.generateLocalPath(img.src, 'images')));
+    parsed.fonts.forEach(font => handledElsewhere.set(font.href, this.generateLocalPath(font.href, 'fonts')));
+
+    const referenced = graph.assets.filter(url => !handledElsewhere.has(url));
+    const pending = referenced.slice(0, MAX_CSS_DEPENDENCIES);
+    const skipped = referenced.slice(MAX_CSS_DEPENDENCIES);
+    if (skipped.length > 0) {
+      const reason = `Over the limit of ${MAX_CSS_DEPENDENCIES} assets referenced from stylesheets`;
+      if (project) {
+        skipped.forEach(url => this.recordSkipped(project, url, reason));
+      } else {
+        loggingService.warning('clone', `Skipped ${skipped.length} assets: ${reason}`, { urls: skipped });
       }
     }
+    console.log(`[CSS] Resolving ${importedSheets.length} imported sheets and ${pending.length} referenced assets...`);
+
+    const results = await Promise.allSettled(
+      pending.map(url => this.downloadBinaryAsset(url, cssResolverService.getAssetType(url), signal))
+    );
+    const downloaded = results
+      .map(result => result.status === 'fulfilled' ? result.value : null)
+      .filter((asset): asset is ClonedAsset => !!asset);
+
+    const localPaths = new Map(handledElsewhere);
+    [...cssAssets, ...importedSheets, ...downloaded]
+      .filter(asset => !isInline(asset))
+      .forEach(asset => localPaths.set(asset.originalUrl, asset.localPath));
+
+    for (const sheet of [...cssAssets, ...importedSheets]) {
+      if (!sheet.content) continue;
+
+      sheet.content = cssResolverService.rewriteUrls(sheet.content, sheetUrl(sheet), (url) => {
+        const target = localPaths.get(url);
+        return target ? cssResolverService.relativePath(sheet.localPath, target) : null;
+      });
+      sheet.size = new Blob([sheet.content]).size;
+    }
+
+    console.log(`[CSS] Downloaded ${downloaded.length}/${pending.length} assets referenced from stylesheets`);
+    return [...importedSheets, ...downloaded];
+  }
+
+  /**
+   * Download external scripts. First-party scripts are always downloaded;
+   * third-party ones only when `thirdPartyScripts` is 'localize', otherwise
+   * they are listed as remote assets. Scripts past the first MAX_SCRIPTS keep
+   * loading from the original site. The modules that module scripts import
+   * are downloaded too, so the clone does not load them from the original site.
+   */
+  private async extractAndDownloadJS(
+    parsed: ParsedHTML,
+    baseUrl: string,
+    thirdPartyScripts: CloneOptions['thirdPartyScripts'] = 'keep',
+    signal?: AbortSignal,
+    project?: CloneProject
+  ): Promise<ClonedAsset[]> {
+    const assets: ClonedAsset[] = [];
+    const shouldDownload = (url: string) => thirdPartyScripts === 'localize' || this.isFirstParty(url, baseUrl);
+
+    const external = parsed.scripts.filter(script => /^https?:/i.test(script.src));
+    const eligible = external.filter(script => shouldDownload(script.src));
+    const scriptUrls = eligible.slice(0, MAX_SCRIPTS).map(script => script.src);
+    const modules = new Set(
+      eligible.filter(script => script.element.getAttribute('type')?.trim().toLowerCase() === 'module').map(script => script.src)
+    );
+
+    this.recordScriptsOverLimit(
+      eligible.slice(MAX_SCRIPTS).map(script => script.src),
+      `Over the limit of ${MAX_SCRIPTS} downloaded scripts; loaded from the original site`,
+      project
+    );
+
+    if (thirdPartyScripts === 'keep') {
+      new Set(external.filter(script => !shouldDownload(script.src)).map(script => script.src)).forEach(url => {
+        assets.push({ type: 'js', originalUrl: url, localPath: url, size: 0, format: 'js', party: 'third-party', remote: true });
+      });
+    }
+
+    console.log(`[JS] Starting parallel download of ${scriptUrls.length}/${parsed.scripts.length} external scripts...`);
+    const startTime = Date.now();
+
+    const downloaded = await this.downloadScripts(scriptUrls, url => modules.has(url), baseUrl, signal);
+    assets.push(...downloaded);
+    console.log(`[JS] Downloaded ${downloaded.length}/${scriptUrls.length} scripts in ${Date.now() - startTime}ms`);
+
+    // Follow imports breadth-first; every module they reach is a module too
+    const seen = new Set(scriptUrls);
+    let pending = downloaded.flatMap(asset => asset.imports || []);
+    let dependencies = 0;
+    while (pending.length > 0) {
+      const next = [...new Set(pending)].filter(url => !seen.has(url) && shouldDownload(url));
+      next.forEach(url => seen.add(url));
+
+      const batch = next.slice(0, Math.max(0, MAX_MODULE_DEPENDENCIES - dependencies));
+      this.recordScriptsOverLimit(
+        next.slice(batch.length),
+        `Over the limit of ${MAX_MODULE_DEPENDENCIES} imported modules; loaded from the original site`,
+        project
+      );
+      dependencies += batch.length;
+
+      const modulesFound = await this.downloadScripts(batch, () => true, baseUrl, signal);
+      assets.push(...modulesFound);
+      pending = modulesFound.flatMap(asset => asset.imports || []);
+    }
+    if (dependencies > 0) {
+      console.log(`[JS] Downloaded ${dependencies} imported modules`);
+    }
 
     for (let i = 0; i < parsed.inlineScripts.length; i++) {
       const script = parsed.inlineScripts[i];
@@ -1152,6 +2004,7 @@ export class CloneService {
           size: new Blob([script.content]).size,
           content: script.content,
           format: 'js',
+          party: 'first-party',
         });
       }
     }
@@ -1159,7 +2012,126 @@ export class CloneService {
     return assets;
   }
 
-  private async extractAndDownloadImages(parsed: ParsedHTML, baseUrl: string): Promise<ClonedAsset[]> {
+  private async downloadScripts(
+    urls: string[],
+    isModule: (url: string) => boolean,
+    baseUrl: string,
+    signal?: AbortSignal
+  ): Promise<ClonedAsset[]> {
+    const assets: ClonedAsset[] = [];
+    const results = await Promise.allSettled(urls.map(src => this.downloadTextAsset(src, 'js', signal)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled' && result.value) {
+        const asset = result.value;
+        asset.party = this.isFirstParty(urls[index], baseUrl) ? 'first-party' : 'third-party';
+        if (asset.content) {
+          const module = isModule(asset.originalUrl);
+          asset.content = this.resolveScriptReferences(asset.content, asset.originalUrl, module);
+          asset.size = new Blob([asset.content]).size;
+          if (module) {
+            asset.imports = this.getModuleImports(asset.content);
+          }
+        }
+        assets.push(asset);
+      } else {
+        console.log(`[JS] Failed to download: ${urls[index]}`,
+          result.status === 'rejected' ? result.reason : 'returned null');
+      }
+    });
+
+    return assets;
+  }
+
+  private recordScriptsOverLimit(urls: string[], reason: string, project?: CloneProject): void {
+    if (urls.length === 0) return;
+    if (project) {
+      urls.forEach(url => this.recordSkipped(project, url, reason));
+    } else {
+      loggingService.warning('clone', `Skipped ${urls.length} scripts: ${reason}`, { urls });
+    }
+  }
+
+  /**
+   * Make the URLs a downloaded script resolves against its own location absolute,
+   * since the copy lives elsewhere: its source map and, for modules, relative
+   * import and export specifiers. The page's import map then points the module
+   * URLs at the downloaded copies.
+   */
+  private resolveScriptReferences(content: string, scriptUrl: string, isModule: boolean): string {
+    const absolute = (specifier: string) => {
+      try {
+        return new URL(specifier, scriptUrl).href;
+      } catch {
+        return specifier;
+      }
+    };
+
+    let resolved = content.replace(
+      /(\/\/[#@]\s*sourceMappingURL=)(\S+)(\s*)$/m,
+      (match, prefix, url, trailing) => url.startsWith('data:') ? match : `${prefix}${absolute(url)}${trailing}`
+    );
+
+    if (isModule) {
+      resolved = resolved.replace(
+        MODULE_SPECIFIER,
+        (match, prefix, quote, specifier) => /^\.{0,2}\//.test(specifier)
+          ? `${prefix}${quote}${absolute(specifier)}${quote}`
+          : match
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Absolute http(s) URLs a module imports. Bare specifiers are left to the
+   * page's own import map.
+   */
+  private getModuleImports(content: string): string[] {
+    const imports = Array.from(content.matchAll(MODULE_SPECIFIER), match => match[3])
+      .filter(specifier => /^https?:\/\//i.test(specifier));
+    return [...new Set(imports)];
+  }
+
+  /**
+   * A script is first-party when it is served by the cloned site's host or
+   * one of its subdomains (e.g. cdn.example.com for www.example.com)
+   */
+  private isFirstParty(url: string, siteUrl: string): boolean {
+    try {
+      const host = (value: string) => new URL(value).hostname.toLowerCase().replace(/^www\./, '');
+      const scriptHost = host(url);
+      const siteHost = host(siteUrl);
+      return scriptHost === siteHost || scriptHost.endsWith(`.${siteHost}`) || siteHost.endsWith(`.${scriptHost}`);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remove <script src> tags served by other sites, recording each as skipped
+   */
+  private stripThirdPartyScripts(html: string, pageUrl: string, project: CloneProject): string {
+    let stripped = 0;
+
+    const result = html.replace(
+      /<script\b[^>]*?\bsrc\s*=\s*(["'])(.*?)\1[^>]*>[\s\S]*?<\/script>/gi,
+      (match, _quote, src) => {
+        const url = this.resolveUrl(src.replace(/&amp;/g, '&'), pageUrl);
+        if (!/^https?:/i.test(url) || this.isFirstParty(url, pageUrl)) return match;
+
+        stripped++;
+        this.recordSkipped(project, url, 'Third-party script stripped');
+        return '';
+      }
+    );
+
+    console.log(`stripThirdPartyScripts: Removed ${stripped} third-party scripts`);
+    return result;
+  }
+
+  private async extractAndDownloadImages(parsed: ParsedHTML, baseUrl: string, signal?: AbortSignal): Promise<ClonedAsset[]> {
     console.log(`[IMAGES] Starting parallel download of ${parsed.images.length} images and ${parsed.backgroundImages.length} background images...`);
     const startTime = Date.now();
     const assets: ClonedAsset[] = [];
@@ -1172,7 +2144,7 @@ export class CloneService {
 
     // Download all images in parallel
     const downloadPromises = imagesToDownload.map(async (img) => {
-      const asset = await this.downloadBinaryAsset(img.src, 'image');
+      const asset = await this.downloadBinaryAsset(img.src, 'image', signal);
       if (asset && 'width' in img && 'height' in img && img.width && img.height) {
         asset.dimensions = { width: img.width, height: img.height };
       }
@@ -1195,10 +2167,76 @@ export class CloneService {
     });
 
     console.log(`[IMAGES] Downloaded ${successCount}/${imagesToDownload.length} images in ${Date.now() - startTime}ms (${failCount} failed)`);
+
+    assets.push(...await this.downloadResponsiveImages(parsed, assets, signal));
     return assets;
   }
 
-  private async extractAndDownloadFonts(parsed: ParsedHTML, baseUrl: string): Promise<ClonedAsset[]> {
+  /**
+   * Download srcset and <picture><source> candidates and record on each asset
+   * which responsive slots it fills. Candidates that are also a plain src reuse
+   * the asset already downloaded for it.
+   */
+  private async downloadResponsiveImages(parsed: ParsedHTML, downloaded: ClonedAsset[], signal?: AbortSignal): Promise<ClonedAsset[]> {
+    const byUrl = new Map(downloaded.map(asset => [asset.originalUrl, asset]));
+    const candidates = parsed.responsiveImages.filter(img => img.src && !img.src.startsWith('data:'));
+    const pending = Array.from(new Set(candidates.map(img => img.src)))
+      .filter(src => !byUrl.has(src))
+      .slice(0, 40);
+
+    if (candidates.length === 0) return [];
+    console.log(`[IMAGES] Downloading ${pending.length} responsive image candidates (${candidates.length} srcset entries)...`);
+
+    const results = await Promise.allSettled(pending.map(src => this.downloadBinaryAsset(src, 'image', signal)));
+    const added: ClonedAsset[] = [];
+    results.forEach((result) => {
+      if (result.status === 'fulfilled' && result.value) {
+        byUrl.set(result.value.originalUrl, result.value);
+        added.push(result.value);
+      }
+    });
+
+    for (const { src, source } of candidates) {
+      const asset = byUrl.get(src);
+      if (!asset) continue;
+      asset.responsive = [...(asset.responsive || []), source];
+    }
+
+    console.log(`[IMAGES] Downloaded ${added.length}/${pending.length} responsive image candidates`);
+    return added;
+  }
+
+  /**
+   * Point every srcset candidate at its downloaded copy: the data URI when the
+   * image is embedded, otherwise its local path
+   */
+  private rewriteSrcsets(html: string, assets: ClonedAsset[], baseUrl?: string): { html: string; rewritten: number } {
+    const images = new Map(
+      assets.filter(a => a.type === 'image' && a.content).map(a => [a.originalUrl, a])
+    );
+    let rewritten = 0;
+
+    const result = html.replace(
+      // Whitespace before the name keeps data-srcset and similar attributes out
+      /(<(?:img|source)\b[^>]*?\ssrcset\s*=\s*)(["'])(.*?)\2/gi,
+      (_match, prefix, quote, srcset) => {
+        const candidates = SrcsetUtils.parse(srcset.replace(/&amp;/g, '&')).map((candidate) => {
+          const url = baseUrl ? this.resolveUrl(candidate.url, baseUrl) : candidate.url;
+          const image = images.get(url);
+          if (!image) return candidate;
+
+          rewritten++;
+          return { ...candidate, url: image.content!.startsWith('data:') ? image.content! : image.localPath };
+        });
+
+        return `${prefix}${quote}${SrcsetUtils.serialize(candidates)}${quote}`;
+      }
+    );
+
+    return { html: result, rewritten };
+  }
+
+  private async extractAndDownloadFonts(parsed: ParsedHTML, baseUrl: string, signal?: AbortSignal): Promise<ClonedAsset[]> {
     console.log(`[FONTS] Starting parallel download of ${parsed.fonts.length} fonts...`);
     const startTime = Date.now();
     const assets: ClonedAsset[] = [];
@@ -1206,7 +2244,7 @@ export class CloneService {
     // Download fonts in parallel (limit to 10)
     const fontsToDownload = parsed.fonts.slice(0, 10).filter(f => f.href);
     const downloadPromises = fontsToDownload.map(font =>
-      this.downloadBinaryAsset(font.href, 'font')
+      this.downloadBinaryAsset(font.href, 'font', signal)
     );
 
     const results = await Promise.allSettled(downloadPromises);
@@ -1228,24 +2266,19 @@ export class CloneService {
     return assets;
   }
 
-  private async downloadTextAsset(url: string, type: 'css' | 'js'): Promise<ClonedAsset | null> {
+  private downloadTextAsset(url: string, type: 'css' | 'js', signal?: AbortSignal): Promise<ClonedAsset | null> {
+    return politenessService.schedule(url, () => this.fetchTextAsset(url, type, signal));
+  }
+
+  private downloadBinaryAsset(url: string, type: 'image' | 'font', signal?: AbortSignal): Promise<ClonedAsset | null> {
+    return politenessService.schedule(url, () => this.fetchBinaryAsset(url, type, signal));
+  }
+
+  private async fetchTextAsset(url: string, type: 'css' | 'js', signal?: AbortSignal): Promise<ClonedAsset | null> {
     const startTime = Date.now();
     try {
-      // Use CORS proxy to download from source URL
-      const corsProxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-
-      // 10 second timeout for text assets
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-        console.log(`[${type.toUpperCase()}] Timeout (10s) downloading: ${url.substring(0, 100)}`);
-      }, 10000);
-
-      const response = await fetch(corsProxyUrl, {
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
+      // Download through our own fetch proxy (10 second timeout)
+      const response = await this.fetchResource(url, 10000, signal);
 
       if (!response.ok) {
         console.log(`[${type.toUpperCase()}] HTTP ${response.status} for: ${url.substring(0, 100)}`);
@@ -1275,24 +2308,11 @@ export class CloneService {
     }
   }
 
-  private async downloadBinaryAsset(url: string, type: 'image' | 'font'): Promise<ClonedAsset | null> {
+  private async fetchBinaryAsset(url: string, type: 'image' | 'font', signal?: AbortSignal): Promise<ClonedAsset | null> {
     const startTime = Date.now();
     try {
-      // Use CORS proxy to download from source URL
-      const corsProxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-
-      // 15 second timeout for binary assets (images/fonts can be larger)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-        console.log(`[${type.toUpperCase()}] Timeout (15s) downloading: ${url.substring(0, 100)}`);
-      }, 15000);
-
-      const response = await fetch(corsProxyUrl, {
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
+      // Download through our own fetch proxy (15 second timeout)
+      const response = await this.fetchResource(url, 15000, signal);
 
       if (!response.ok) {
         console.log(`[${type.toUpperCase()}] HTTP ${response.status} for: ${url.substring(0, 100)}`);
@@ -1371,12 +2391,13 @@ export class CloneService {
     }
   }
 
-  private embedAssetsInHtml(html: string, assets: ClonedAsset[], metadata?: WebsiteMetadata): string {
+  private embedAssetsInHtml(html: string, assets: ClonedAsset[], metadata?: WebsiteMetadata, baseUrl?: string): string {
     console.log('🔧 ===== EMBED ASSETS IN HTML STARTING =====');
     let rewrittenHtml = html;
     let imagesEmbedded = 0;
     let cssInlined = 0;
     let fontsEmbedded = 0;
+    let scriptsLocalized = 0;
     let stylesApplied = 0;
 
     // Get elements with computed styles from metadata
@@ -1504,7 +2525,13 @@ export class CloneService {
       console.log(`embedAssetsInHtml: Applied dimensions to ${stylesApplied} total elements (images + SVGs)`);
     }
 
-    // SECOND: Now embed images and fonts as data URIs
+    // SECOND: Rewrite srcset candidates and the page's own style references (before
+    // the URL replacement below, which would otherwise match absolute URLs as substrings)
+    const srcsetResult = this.rewriteSrcsets(rewrittenHtml, assets, baseUrl);
+    rewrittenHtml = this.rewriteInlineStyles(srcsetResult.html, assets, baseUrl);
+    imagesEmbedded += srcsetResult.rewritten;
+
+    // THIRD: Now embed images and fonts as data URIs
     for (const asset of assets) {
       if (asset.originalUrl.startsWith('inline-')) continue;
 
@@ -1522,6 +2549,7 @@ export class CloneService {
 
     // Now inline CSS stylesheets
     const cssAssets = assets.filter(a => a.type === 'css' && !a.originalUrl.startsWith('inline-'));
+    const assetsByPath = new Map(assets.map(a => [a.localPath, a]));
 
     for (const cssAsset of cssAssets) {
       if (!cssAsset.content) continue;
@@ -1531,22 +2559,139 @@ export class CloneService {
       const linkRegex = new RegExp(`<link[^>]*href=["']${escapedUrl}["'][^>]*>`, 'gi');
 
       // Replace the <link> tag with an inline <style> tag
-      const styleTag = `<style data-original-href="${cssAsset.originalUrl}">\n${cssAsset.content}\n</style>`;
+      const inlineCss = cssResolverService.inlineForHtml(cssAsset, assetsByPath);
+      const styleTag = `<style data-original-href="${cssAsset.originalUrl}">\n${inlineCss}\n</style>`;
       rewrittenHtml = rewrittenHtml.replace(linkRegex, styleTag);
       cssInlined++;
     }
 
+    // Point <script src> at the downloaded copies. Data URIs keep defer/async/module
+    // semantics and work both in the srcdoc preview and in exported files. Module
+    // imports use absolute URLs, which an import map points at the copies.
+    const jsAssets = new Map(
+      assets
+        .filter(a => a.type === 'js' && a.content && !a.originalUrl.startsWith('inline-'))
+        .map(a => [a.originalUrl, a])
+    );
+
+    if (jsAssets.size > 0) {
+      const moduleEntries: string[] = [];
+      rewrittenHtml = rewrittenHtml.replace(
+        /<script\b([^>]*?)\bsrc\s*=\s*(["'])(.*?)\2([^>]*)>/gi,
+        (match, before, quote, src, after) => {
+          const resolved = baseUrl ? this.resolveUrl(src.replace(/&amp;/g, '&'), baseUrl) : src;
+          const jsAsset = jsAssets.get(resolved);
+          if (!jsAsset?.content) return match;
+
+          scriptsLocalized++;
+          if (jsAsset.imports) moduleEntries.push(jsAsset.originalUrl);
+          const dataUri = this.textToDataUri(jsAsset.content, 'text/javascript');
+          return `<script${before}src=${quote}${dataUri}${quote} data-original-src=${quote}${src}${quote}${after}>`;
+        }
+      );
+
+      rewrittenHtml = this.addModuleImportMap(rewrittenHtml, moduleEntries, jsAssets, baseUrl);
+    }
+
     console.log(`🔧 ===== EMBED ASSETS COMPLETE =====`);
-    console.log(`🔧 Images embedded: ${imagesEmbedded}, Fonts embedded: ${fontsEmbedded}, CSS inlined: ${cssInlined}`);
+    console.log(`🔧 Images embedded: ${imagesEmbedded}, Fonts embedded: ${fontsEmbedded}, CSS inlined: ${cssInlined}, Scripts localized: ${scriptsLocalized}`);
     console.log(`🔧 ⭐ IMAGE DIMENSIONS APPLIED: ${stylesApplied} ⭐`);
     console.log(`embedAssetsInHtml: Embedded ${imagesEmbedded} images, ${fontsEmbedded} fonts as data URIs, inlined ${cssInlined} CSS files, applied ${stylesApplied} image dimensions`);
-    loggingService.debug('clone', `Embedded ${imagesEmbedded + fontsEmbedded + cssInlined} assets in HTML, applied ${stylesApplied} styles`);
+    loggingService.debug('clone', `Embedded ${imagesEmbedded + fontsEmbedded + cssInlined + scriptsLocalized} assets in HTML, applied ${stylesApplied} styles`);
     return rewrittenHtml;
   }
 
-  private rewriteHtmlWithLocalPaths(html: string, assets: ClonedAsset[]): string {
-    let rewrittenHtml = html;
-    let embedded = 0;
+  private textToDataUri(content: string, mimeType: string): string {
+    const bytes = new TextEncoder().encode(content);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+  }
+
+  /**
+   * Point @import and url() in the page's <style> blocks and style="" attributes
+   * at the downloaded copies: imported sheets become data URIs of their inlined
+   * CSS, images and fonts their data URIs. References that were not downloaded
+   * are made absolute so they still load from the original site.
+   */
+  private rewriteInlineStyles(html: string, assets: ClonedAsset[], baseUrl?: string): string {
+    if (!baseUrl) return html;
+
+    const byUrl = new Map(
+      assets.filter(a => a.content && !a.originalUrl.startsWith('inline-')).map(a => [a.originalUrl, a])
+    );
+    const assetsByPath = new Map(assets.map(a => [a.localPath, a]));
+
+    return cssResolverService.rewriteHtmlStyles(html, baseUrl, (url, kind) => {
+      const target = byUrl.get(url);
+      if (kind === 'import') {
+        return target?.type === 'css'
+          ? this.textToDataUri(cssResolverService.inlineForHtml(target, assetsByPath), 'text/css')
+          : url;
+      }
+      return target?.content?.startsWith('data:') ? target.content : url;
+    });
+  }
+
+  /**
+   * Map every downloaded module the page's module scripts reach to its data URI,
+   * merging into the page's own import map when it has one
+   */
+  private addModuleImportMap(
+    html: string,
+    entries: string[],
+    jsAssets: Map<string, ClonedAsset>,
+    baseUrl?: string
+  ): string {
+    const dataUri = (url: string) => {
+      const asset = jsAssets.get(url);
+      return asset?.content ? this.textToDataUri(asset.content, 'text/javascript') : null;
+    };
+
+    const imports: Record<string, string> = {};
+    const queue = entries.flatMap(url => jsAssets.get(url)?.imports || []);
+    while (queue.length > 0) {
+      const url = queue.shift()!;
+      if (imports[url]) continue;
+      const uri = dataUri(url);
+      if (!uri) continue;
+      imports[url] = uri;
+      queue.push(...(jsAssets.get(url)?.imports || []));
+    }
+
+    if (Object.keys(imports).length === 0) return html;
+
+    const existing = /<script\b[^>]*\btype\s*=\s*(["']?)importmap\1[^>]*>([\s\S]*?)<\/script>/i.exec(html);
+    if (existing) {
+      let pageMap: { imports?: Record<string, string> } = {};
+      try {
+        pageMap = JSON.parse(existing[2]);
+      } catch {
+        // An invalid map is ignored by browsers too
+      }
+      // The page's entries resolve against the original site, or its downloaded copies
+      const pageImports = Object.fromEntries(Object.entries(pageMap.imports || {}).map(([specifier, target]) => {
+        const absolute = baseUrl ? this.resolveUrl(target, baseUrl) : target;
+        return [specifier, dataUri(absolute) || absolute];
+      }));
+      const merged = JSON.stringify({ ...pageMap, imports: { ...pageImports, ...imports } });
+      return html.slice(0, existing.index)
+        + existing[0].replace(existing[2], () => merged)
+        + html.slice(existing.index + existing[0].length);
+    }
+
+    // Import maps only apply to modules loaded after them
+    const tag = `<script type="importmap">${JSON.stringify({ imports })}</script>`;
+    const firstScript = html.search(/<script\b/i);
+    return firstScript === -1 ? html : `${html.slice(0, firstScript)}${tag}${html.slice(firstScript)}`;
+  }
+
+  private rewriteHtmlWithLocalPaths(html: string, assets: ClonedAsset[], baseUrl?: string): string {
+    const srcsetResult = this.rewriteSrcsets(html, assets, baseUrl);
+    let rewrittenHtml = this.rewriteInlineStyles(srcsetResult.html, assets, baseUrl);
+    let embedded = srcsetResult.rewritten;
     let replaced = 0;
 
     for (const asset of assets) {
@@ -1583,10 +2728,16 @@ export class CloneService {
 
   async saveProject(project: CloneProject): Promise<void> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error('User not authenticated');
+      const userId = await requireUserId();
+
+      // Asset contents, snapshots and the recorded HAR go to the content-addressed
+      // store; the row keeps hashes
+      const storedAssets = await assetStoreService.storeAssets(project.assets || []);
+      const storedSnapshots = project.snapshots ? await assetStoreService.storeSnapshots(project.snapshots) : null;
+      if (project.har) {
+        project.har = await assetStoreService.storeHarBodies(project.har);
       }
+      const storedHar = project.har ? await assetStoreService.storeHar(project.har) : null;
 
       // Prepare metadata with embedded detection/analysis data
       const metadataWithAnalysis = {
@@ -1595,13 +2746,20 @@ export class CloneService {
         seoAnalysis: project.seoAnalysis || null,
         securityScan: project.securityScan || null,
         technologyStack: project.technologyStack || null,
+        pages: project.pages || null,
+        skippedUrls: project.skippedUrls || null,
+        snapshots: storedSnapshots,
+        diagnostics: project.diagnostics || null,
+        har: storedHar ? null : project.har || null,
+        harHash: storedHar?.hash || project.harHash || null,
+        harBodyHashes: storedHar?.bodyHashes || null,
       };
 
       const { error } = await supabase
         .from('projects')
         .upsert({
           id: project.id,
-          user_id: user.id,
+          user_id: userId,
           source: project.source,
           type: project.type,
           status: project.status,
@@ -1612,7 +2770,7 @@ export class CloneService {
           original_score: project.originalScore,
           optimized_score: project.optimizedScore,
           metrics: project.metrics || {},
-          assets: project.assets || [],
+          assets: storedAssets,
           metadata: metadataWithAnalysis,
           created_at: project.createdAt.toISOString(),
         });
@@ -1628,20 +2786,32 @@ export class CloneService {
   }
 
   async getProject(id: string): Promise<CloneProject | null> {
+    // Projects cached by getAllProjects carry hashes without content
     const cached = this.projects.get(id);
-    if (cached) return cached;
+    if (cached && !this.hasStoredContent(cached)) return cached;
 
     try {
+      const userId = await requireUserId();
       const { data, error } = await supabase
         .from('projects')
         .select('*')
         .eq('id', id)
+        .eq('user_id', userId)
         .maybeSingle();
 
       if (error) throw error;
       if (!data) return null;
 
       const project = this.mapDatabaseToProject(data);
+      if (project.assets?.some(asset => asset.hash && !asset.content)) {
+        project.assets = await assetStoreService.loadAssets(project.assets);
+      }
+      if (project.snapshots?.some(snapshot => snapshot.htmlHash && !snapshot.html)) {
+        project.snapshots = await assetStoreService.loadSnapshots(project.snapshots);
+      }
+      if (project.harHash && !project.har) {
+        project.har = await assetStoreService.loadHar(project.harHash) ?? undefined;
+      }
       this.projects.set(id, project);
       return project;
     } catch (error) {
@@ -1652,11 +2822,22 @@ export class CloneService {
     }
   }
 
+  /**
+   * Whether the project still refers to asset store content that is not loaded
+   */
+  private hasStoredContent(project: CloneProject): boolean {
+    return !!project.assets?.some(asset => asset.hash && !asset.content) ||
+      !!project.snapshots?.some(snapshot => snapshot.htmlHash && !snapshot.html) ||
+      (!!project.harHash && !project.har);
+  }
+
   async getAllProjects(): Promise<CloneProject[]> {
     try {
+      const userId = await requireUserId();
       const { data, error } = await supabase
         .from('projects')
         .select('*')
+        .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -1674,15 +2855,24 @@ export class CloneService {
 
   async deleteProject(id: string): Promise<boolean> {
     try {
+      const userId = await requireUserId();
       const { error } = await supabase
         .from('projects')
         .delete()
-        .eq('id', id);
+        .eq('id', id)
+        .eq('user_id', userId);
 
       if (error) throw error;
 
       this.projects.delete(id);
       loggingService.info('clone', `Deleted project ${id}`);
+
+      // Blobs only this project used are now unreferenced; collection runs in the background
+      assetStoreService.collectGarbage().catch(gcError => {
+        loggingService.warning('assets', 'Asset garbage collection did not run', {
+          error: gcError instanceof Error ? gcError.message : 'Unknown error',
+        });
+      });
       return true;
     } catch (error) {
       loggingService.error('clone', 'Failed to delete project', {
@@ -1694,10 +2884,12 @@ export class CloneService {
 
   async archiveProject(id: string): Promise<boolean> {
     try {
+      const userId = await requireUserId();
       const { error } = await supabase
         .from('projects')
         .update({ archived: true })
-        .eq('id', id);
+        .eq('id', id)
+        .eq('user_id', userId);
 
       if (error) throw error;
 
@@ -1719,10 +2911,12 @@ export class CloneService {
 
   async unarchiveProject(id: string): Promise<boolean> {
     try {
+      const userId = await requireUserId();
       const { error } = await supabase
         .from('projects')
         .update({ archived: false })
-        .eq('id', id);
+        .eq('id', id)
+        .eq('user_id', userId);
 
       if (error) throw error;
 
@@ -1760,6 +2954,12 @@ export class CloneService {
       optimizedScore: row.optimized_score,
       metrics: row.metrics,
       assets: row.assets,
+      pages: metadata.pages || undefined,
+      skippedUrls: metadata.skippedUrls || undefined,
+      snapshots: metadata.snapshots || undefined,
+      diagnostics: metadata.diagnostics || undefined,
+      har: metadata.har || undefined,
+      harHash: metadata.harHash || undefined,
       archived: row.archived || false,
       metadata: metadata,
       detection: metadata.detection || row.detection || null,
@@ -1813,6 +3013,7 @@ export class CloneService {
 interface ParsedHTML {
   document: Document;
   images: Array<{ src: string; alt: string; width: number; height: number; element: Element }>;
+  responsiveImages: Array<{ src: string; source: ResponsiveImageSource }>;
   stylesheets: Array<{ href: string; element: Element }>;
   inlineStyles: Array<{ content: string; element: Element }>;
   scripts: Array<{ src: string; element: Element }>;
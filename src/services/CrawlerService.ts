@@ -0,0 +1,252 @@
+import * as cheerio from 'cheerio';
+import type { ClonedPage, SkippedUrl } from '../types';
+import { loggingService } from './LoggingService';
+
+export interface CrawlOptions {
+  depth: number;
+  maxPages?: number;
+  seeds?: string[]; // Extra pages queued alongside the start URL, e.g. from a sitemap
+  fetchPage: (url: string) => Promise<string>;
+  checkUrl?: (url: string) => Promise<string | null>; // Returns a reason when the URL must be skipped
+  onPage?: (page: ClonedPage, crawled: number) => void | Promise<void>;
+}
+
+export interface CrawlResult {
+  pages: ClonedPage[];
+  skipped: SkippedUrl[];
+}
+
+// File extensions that are never HTML pages and should not be queued
+const NON_PAGE_EXTENSIONS = new Set([
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'svg', 'ico', 'bmp',
+  'css', 'js', 'mjs', 'json', 'xml', 'txt', 'pdf', 'zip', 'gz', 'rar',
+  'mp3', 'mp4', 'webm', 'mov', 'avi', 'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'csv',
+]);
+
+// Query parameters that only track campaigns and never change page content
+const TRACKING_PARAMS = /^(utm_[a-z]+|fbclid|gclid|msclkid|mc_cid|mc_eid|_ga|_gl)$/i;
+
+/**
+ * Crawler Service
+ *
+ * Breadth-first crawl of same-origin links starting from a single URL.
+ * Fetching is delegated to the caller so the crawler works with any
+ * transport (proxy fetch, browser capture, uploaded bundles).
+ */
+export class CrawlerService {
+  /**
+   * Normalize a URL so that trivially different links map to the same page.
+   * Returns null for URLs that cannot be crawled (mailto:, javascript:, etc.)
+   */
+  normalizeUrl(url: string, baseUrl?: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = baseUrl ? new URL(url, baseUrl) : new URL(url);
+    } catch {
+      return null;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase();
+
+    if ((parsed.protocol === 'http:' && parsed.port === '80') ||
+        (parsed.protocol === 'https:' && parsed.port === '443')) {
+      parsed.port = '';
+    }
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = '';
+    params.forEach(([key, value]) => parsed.searchParams.append(key, value));
+
+    parsed.pathname = parsed.pathname
+      .replace(/\/{2,}/g, '/')
+      .replace(/\/index\.(html?|php)$/i, '/');
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+
+    return parsed.href;
+  }
+
+  /**
+   * Extract crawlable same-origin links from an HTML document
+   */
+  extractLinks(html: string, pageUrl: string): string[] {
+    const $ = cheerio.load(html);
+    const baseHref = $('base[href]').attr('href');
+    const base = baseHref ? new URL(baseHref, pageUrl).href : pageUrl;
+    const origin = new URL(pageUrl).origin;
+    const links = new Set<string>();
+
+    $('a[href], area[href]').each((_, el) => {
+      const href = $(el).attr('href')?.trim();
+      if (!href || href.startsWith('#')) return;
+      if ($(el).attr('download') !== undefined) return;
+
+      const normalized = this.normalizeUrl(href, base);
+      if (!normalized) return;
+      if (new URL(normalized).origin !== origin) return;
+      if (!this.isPageUrl(normalized)) return;
+
+      links.add(normalized);
+    });
+
+    return Array.from(links);
+  }
+
+  /**
+   * Map a page URL to a flat, filesystem-safe HTML file name
+   */
+  getLocalPath(url: string, rootUrl: string): string {
+    const page = new URL(url);
+    const root = new URL(rootUrl);
+    if (page.pathname === root.pathname && page.search === root.search) {
+      return 'index.html';
+    }
+
+    const slug = `${page.pathname}${page.search}`
+      .replace(/^\/+|\/+$/g, '')
+      .replace(/\.(html?|php|aspx?)$/i, '')
+      .replace(/[^a-zA-Z0-9._-]+/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '');
+
+    return `${slug || 'page'}.html`;
+  }
+
+  /**
+   * Crawl same-origin links breadth-first up to `depth` hops from the start URL.
+   * Seed URLs count as starting points, so `depth: 0` fetches exactly the seeds.
+   */
+  async crawl(startUrl: string, options: CrawlOptions): Promise<CrawlResult> {
+    const maxPages = options.maxPages ?? 20;
+    const root = this.normalizeUrl(startUrl);
+    if (!root) {
+      throw new Error(`Cannot crawl URL: ${startUrl}`);
+    }
+
+    const pages: ClonedPage[] = [];
+    const skipped: CrawlResult['skipped'] = [];
+    const seen = new Set<string>([root]);
+    const usedPaths = new Set<string>();
+    let queue: Array<{ url: string; depth: number }> = [{ url: root, depth: 0 }];
+
+    for (const seed of options.seeds || []) {
+      const normalized = this.normalizeUrl(seed, root);
+      if (!normalized || seen.has(normalized)) continue;
+      if (new URL(normalized).origin !== new URL(root).origin) {
+        skipped.push({ url: seed, reason: 'Different origin than the cloned site' });
+        continue;
+      }
+      seen.add(normalized);
+      queue.push({ url: normalized, depth: 0 });
+    }
+
+    console.log(`[CRAWL] Starting crawl of ${root} (depth ${options.depth}, max ${maxPages} pages)`);
+
+    while (queue.length > 0 && pages.length < maxPages) {
+      const nextQueue: Array<{ url: string; depth: number }> = [];
+
+      for (const { url, depth } of queue) {
+        if (pages.length >= maxPages) {
+          skipped.push({ url, reason: `Page limit of ${maxPages} reached` });
+          continue;
+        }
+
+        const skipReason = await options.checkUrl?.(url);
+        if (skipReason) {
+          console.log(`[CRAWL] ⊘ Skipping ${url}: ${skipReason}`);
+          skipped.push({ url, reason: skipReason });
+          continue;
+        }
+
+        let html: string;
+        try {
+          html = await options.fetchPage(url);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Unknown error';
+          console.log(`[CRAWL] ✗ Failed to fetch ${url}: ${reason}`);
+          skipped.push({ url, reason });
+          continue;
+        }
+
+        const page: ClonedPage = {
+          url,
+          localPath: this.uniquePath(this.getLocalPath(url, root), usedPaths),
+          title: cheerio.load(html)('title').first().text().trim() || url,
+          depth,
+          html,
+        };
+        pages.push(page);
+        console.log(`[CRAWL] ✓ ${url} → ${page.localPath} (depth ${depth})`);
+        await options.onPage?.(page, pages.length);
+
+        if (depth >= options.depth) continue;
+
+        for (const link of this.extractLinks(html, url)) {
+          if (seen.has(link)) continue;
+          seen.add(link);
+          nextQueue.push({ url: link, depth: depth + 1 });
+        }
+      }
+
+      queue = nextQueue;
+    }
+
+    queue.forEach(({ url }) => skipped.push({ url, reason: `Page limit of ${maxPages} reached` }));
+
+    loggingService.info('crawl', `Crawled ${pages.length} pages from ${root}`, {
+      pages: pages.length,
+      skipped: skipped.length,
+    });
+
+    return { pages, skipped };
+  }
+
+  /**
+   * Point links between crawled pages at their local copies
+   */
+  rewritePageLinks(html: string, pageUrl: string, pages: ClonedPage[]): string {
+    const localPaths = new Map(pages.map(p => [p.url, p.localPath]));
+
+    // Links, and iframes whose document was cloned as a page
+    return html.replace(/(<a\b[^>]*?\bhref\s*=\s*|<iframe\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi, (match, prefix, quote, href) => {
+      if (!href || href.startsWith('#')) return match;
+
+      const normalized = this.normalizeUrl(href, pageUrl);
+      if (!normalized) return match;
+
+      const localPath = localPaths.get(normalized);
+      if (!localPath) return match;
+
+      const hash = href.includes('#') ? href.slice(href.indexOf('#')) : '';
+      return `${prefix}${quote}${localPath}${hash}${quote}`;
+    });
+  }
+
+  private isPageUrl(url: string): boolean {
+    const pathname = new URL(url).pathname;
+    const lastSegment = pathname.split('/').pop() || '';
+    const ext = lastSegment.includes('.') ? lastSegment.split('.').pop()!.toLowerCase() : '';
+    return !NON_PAGE_EXTENSIONS.has(ext);
+  }
+
+  private uniquePath(path: string, used: Set<string>): string {
+    let candidate = path;
+    let counter = 2;
+    while (used.has(candidate)) {
+      candidate = path.replace(/\.html$/, `-${counter++}.html`);
+    }
+    used.add(candidate);
+    return candidate;
+  }
+}
+
+export const crawlerService = new CrawlerService();
@@ -0,0 +1,236 @@
+import type { ClonedAsset } from '../types';
+import { loggingService } from './LoggingService';
+
+export type CssReferenceKind = 'import' | 'asset';
+
+export interface StylesheetSource {
+  url: string; // Absolute URL relative references resolve against (the page URL for inline styles)
+  content: string;
+  inline?: boolean; // Inline <style> blocks and style="" attributes, which have no URL of their own
+}
+
+export interface CssGraph {
+  sheets: Map<string, string>; // Stylesheets reached through @import, keyed by absolute URL
+  assets: string[]; // Absolute URLs referenced by url() and image-set()
+}
+
+export interface CssGraphOptions {
+  fetchSheet: (url: string) => Promise<string | null>;
+  maxDepth?: number;
+  maxSheets?: number;
+}
+
+// Comments are matched first so references inside them are left alone
+const CSS_REFERENCE = /\/\*[\s\S]*?\*\/|@import\s+(?:url\(\s*(['"]?)(.*?)\1\s*\)|(['"])(.*?)\3)([^;]*);|(?:-webkit-)?image-set\((?:[^()]|\([^()]*\))*\)|url\(\s*(['"]?)(.*?)\6\s*\)/gi;
+const IMPORT_RULE = /@import\s+(?:url\(\s*(['"]?)(.*?)\1\s*\)|(['"])(.*?)\3)([^;]*);/gi;
+const IMAGE_SET_CANDIDATE = /url\(\s*(['"]?)(.*?)\1\s*\)|(['"])(.*?)\3/g;
+const STYLE_BLOCK = /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi;
+const STYLE_ATTRIBUTE = /(\sstyle\s*=\s*)(["'])(.*?)\2/gi;
+
+const FONT_EXTENSIONS = new Set(['woff', 'woff2', 'ttf', 'otf', 'eot']);
+
+// Placeholder origin used to resolve local asset paths like ./assets/css/site.css
+const LOCAL_ROOT = 'https://clone.local/';
+
+/**
+ * CSS Resolver Service
+ *
+ * Follows @import chains and finds every url() / image-set() reference in a
+ * stylesheet, resolving each against the stylesheet's own URL. Used to pull
+ * a site's CSS dependencies into a clone and point them at local copies.
+ */
+export class CssResolverService {
+  /**
+   * List the absolute URLs a stylesheet imports and references
+   */
+  extractReferences(css: string, cssUrl: string): { imports: string[]; assets: string[] } {
+    const imports = new Set<string>();
+    const assets = new Set<string>();
+
+    this.rewriteUrls(css, cssUrl, (url, kind) => {
+      (kind === 'import' ? imports : assets).add(url);
+      return null;
+    });
+
+    return { imports: Array.from(imports), assets: Array.from(assets) };
+  }
+
+  /**
+   * Rewrite every @import, url() and image-set() reference. `replace` gets the
+   * absolute URL and returns the new reference, or null to leave it unchanged.
+   */
+  rewriteUrls(
+    css: string,
+    cssUrl: string,
+    replace: (url: string, kind: CssReferenceKind) => string | null
+  ): string {
+    const swap = (raw: string, kind: CssReferenceKind): string | null => {
+      const url = this.resolve(raw, cssUrl);
+      return url ? replace(url, kind) : null;
+    };
+
+    return css.replace(CSS_REFERENCE, (match, _q1, importUrl, _q2, importString, media, _q3, assetUrl) => {
+      if (match.startsWith('/*')) return match;
+
+      if (match.startsWith('@import')) {
+        const replacement = swap(importUrl ?? importString, 'import');
+        return replacement === null ? match : `@import url("${replacement}")${media};`;
+      }
+
+      if (/^(-webkit-)?image-set\(/i.test(match)) {
+        return match.replace(IMAGE_SET_CANDIDATE, (candidate, _c1, candidateUrl, _c2, candidateString) => {
+          const replacement = swap(candidateUrl ?? candidateString, 'asset');
+          if (replacement === null) return candidate;
+          return candidateUrl !== undefined ? `url("${replacement}")` : `"${replacement}"`;
+        });
+      }
+
+      const replacement = swap(assetUrl, 'asset');
+      return replacement === null ? match : `url("${replacement}")`;
+    });
+  }
+
+  /**
+   * Walk @import rules breadth-first from the given stylesheets, fetching each
+   * imported sheet once, and collect every asset the graph references
+   */
+  async buildGraph(roots: StylesheetSource[], options: CssGraphOptions): Promise<CssGraph> {
+    const maxDepth = options.maxDepth ?? 5;
+    const maxSheets = options.maxSheets ?? 30;
+    const sheets = new Map<string, string>();
+    const assets = new Set<string>();
+    const attempted = new Set(roots.filter(root => !root.inline).map(root => root.url));
+
+    let queue = roots.map(root => ({ ...root, depth: 0 }));
+    while (queue.length > 0) {
+      const nextQueue: typeof queue = [];
+
+      for (const sheet of queue) {
+        const { imports, assets: references } = this.extractReferences(sheet.content, sheet.url);
+        references.forEach(url => assets.add(url));
+        if (sheet.depth >= maxDepth) continue;
+
+        for (const url of imports) {
+          if (attempted.has(url) || attempted.size >= maxSheets) continue;
+          attempted.add(url);
+
+          const content = await options.fetchSheet(url);
+          if (content === null) continue;
+
+          sheets.set(url, content);
+          nextQueue.push({ url, content, depth: sheet.depth + 1 });
+        }
+      }
+
+      queue = nextQueue;
+    }
+
+    loggingService.debug('css', `Resolved CSS graph: ${sheets.size} imported sheets, ${assets.size} assets`);
+    return { sheets, assets: Array.from(assets) };
+  }
+
+  /**
+   * Rewrite the references in a page's own <style> blocks and style=""
+   * attributes, which resolve against the page URL. Attribute values are
+   * entity-decoded for matching and re-escaped when changed.
+   */
+  rewriteHtmlStyles(
+    html: string,
+    pageUrl: string,
+    replace: (url: string, kind: CssReferenceKind) => string | null
+  ): string {
+    const withBlocks = html.replace(STYLE_BLOCK, (_match, open, css, close) =>
+      `${open}${this.rewriteUrls(css, pageUrl, replace)}${close}`
+    );
+
+    return withBlocks.replace(STYLE_ATTRIBUTE, (match, prefix, quote, value) => {
+      const css = value
+        .replace(/&quot;|&#34;/g, '"')
+        .replace(/&apos;|&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+      const rewritten = this.rewriteUrls(css, pageUrl, replace);
+      if (rewritten === css) return match;
+
+      const escaped = rewritten
+        .replace(/&/g, '&amp;')
+        .replace(quote === '"' ? /"/g : /'/g, quote === '"' ? '&quot;' : '&#39;');
+      return `${prefix}${quote}${escaped}${quote}`;
+    });
+  }
+
+  /**
+   * Prepare a downloaded stylesheet for an inline <style> tag: local @imports are
+   * flattened in place and local assets are swapped for their data URIs
+   */
+  inlineForHtml(asset: ClonedAsset, assetsByPath: Map<string, ClonedAsset>, depth: number = 0): string {
+    const base = new URL(asset.localPath.replace(/^\.\//, ''), LOCAL_ROOT).href;
+
+    const flattened = (asset.content || '').replace(IMPORT_RULE, (match, _q1, importUrl, _q2, importString, media) => {
+      const target = this.findLocalAsset(importUrl ?? importString, base, assetsByPath);
+      if (!target?.content || depth >= 5) return match;
+
+      const inner = this.inlineForHtml(target, assetsByPath, depth + 1);
+      return media.trim() ? `@media ${media.trim()} {\n${inner}\n}` : inner;
+    });
+
+    return this.rewriteUrls(flattened, base, (url, kind) => {
+      if (kind !== 'asset') return null;
+      const target = this.findLocalAsset(url, base, assetsByPath);
+      return target?.content?.startsWith('data:') ? target.content : null;
+    });
+  }
+
+  /**
+   * Relative path from one local asset file to another,
+   * e.g. ./assets/css/site.css → ./assets/images/bg.png gives ../images/bg.png
+   */
+  relativePath(fromLocalPath: string, toLocalPath: string): string {
+    const fromDir = fromLocalPath.replace(/^\.\//, '').split('/').slice(0, -1);
+    const target = toLocalPath.replace(/^\.\//, '').split('/');
+
+    let common = 0;
+    while (common < fromDir.length && common < target.length - 1 && fromDir[common] === target[common]) {
+      common++;
+    }
+
+    return [...fromDir.slice(common).map(() => '..'), ...target.slice(common)].join('/');
+  }
+
+  /**
+   * Asset type for a CSS reference, judged by file extension
+   */
+  getAssetType(url: string): 'image' | 'font' {
+    try {
+      const ext = new URL(url).pathname.split('.').pop()?.toLowerCase() || '';
+      return FONT_EXTENSIONS.has(ext) ? 'font' : 'image';
+    } catch {
+      return 'image';
+    }
+  }
+
+  private resolve(raw: string | undefined, baseUrl: string): string | null {
+    const value = raw?.trim();
+    if (!value || /^(data:|#|about:|javascript:)/i.test(value)) return null;
+
+    try {
+      const url = new URL(value, baseUrl);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private findLocalAsset(
+    raw: string,
+    base: string,
+    assetsByPath: Map<string, ClonedAsset>
+  ): ClonedAsset | undefined {
+    const url = this.resolve(raw, base);
+    if (!url?.startsWith(LOCAL_ROOT)) return undefined;
+
+    const path = `./${url.slice(LOCAL_ROOT.length).split(/[?#]/)[0]}`;
+    return assetsByPath.get(path);
+  }
+}
+
+export const cssResolverService = new CssResolverService();
@@ -1,6 +1,8 @@
 import JSZip from 'jszip';
 import type { CloneProject, ClonedAsset } from '../types';
 import { loggingService } from './LoggingService';
+import { assetStoreService } from './AssetStoreService';
+import { warcService } from './WarcService';
 
 export class ExportService {
   async exportAsZip(project: CloneProject): Promise<Blob> {
@@ -10,8 +12,15 @@ export class ExportService {
 
     zip.file('index.html', project.originalHtml || '');
 
+    // Additional pages from a multi-page crawl (the entry page is index.html)
+    for (const page of project.pages || []) {
+      if (page.html && page.localPath !== 'index.html') {
+        zip.file(page.localPath, page.html);
+      }
+    }
+
     if (project.assets && project.assets.length > 0) {
-      await this.addAssetsToZip(zip, project.assets);
+      await this.addAssetsToZip(zip, await assetStoreService.loadAssets(project.assets));
     }
 
     const metadata = {
@@ -21,6 +30,11 @@ export class ExportService {
       framework: project.metadata?.framework,
       responsive: project.metadata?.responsive,
       score: project.originalScore,
+      pages: project.pages?.map(page => ({
+        url: page.url,
+        path: page.localPath,
+        title: page.title,
+      })),
     };
 
     zip.file('metadata.json', JSON.stringify(metadata, null, 2));
@@ -41,6 +55,24 @@ export class ExportService {
     return blob;
   }
 
+  /**
+   * Export the project as a WARC/1.1 archive for replay tools and record keeping
+   */
+  async exportAsWarc(project: CloneProject, filename: string): Promise<Blob> {
+    loggingService.info('export', `Starting WARC export for project ${project.id}`);
+
+    const assets = await assetStoreService.loadAssets(project.assets || []);
+    const har = project.har ? await assetStoreService.loadHarBodies(project.har) : undefined;
+    const blob = await warcService.write({ ...project, har }, assets, filename);
+
+    loggingService.success('export', `WARC export completed for project ${project.id}`, {
+      size: blob.size,
+      assetCount: assets.length,
+    });
+
+    return blob;
+  }
+
   private async addAssetsToZip(zip: JSZip, assets: ClonedAsset[]): Promise<void> {
     for (const asset of assets) {
       try {
@@ -81,10 +113,12 @@ export class ExportService {
     loggingService.info('export', `Download triggered: ${filename}`);
   }
 
-  async exportProject(project: CloneProject): Promise<void> {
+  async exportProject(project: CloneProject, format: 'zip' | 'warc' = 'zip'): Promise<void> {
     try {
-      const blob = await this.exportAsZip(project);
-      const filename = `${this.sanitizeFilename(project.metadata?.title || 'website')}-clone.zip`;
+      const filename = `${this.sanitizeFilename(project.metadata?.title || 'website')}-clone.${format}`;
+      const blob = format === 'warc'
+        ? await this.exportAsWarc(project, filename)
+        : await this.exportAsZip(project);
       this.downloadBlob(blob, filename);
     } catch (error) {
       loggingService.error('export', 'Failed to export project', {
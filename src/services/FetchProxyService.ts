@@ -0,0 +1,101 @@
+const FETCH_PROXY_ENDPOINT = '/api/fetch';
+const UPSTREAM_HEADER_PREFIX = 'x-upstream-';
+
+export interface ProxyFetchOptions {
+  method?: 'GET' | 'HEAD';
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch Proxy Service
+ *
+ * Fetches third-party URLs through our own /api/fetch endpoint instead of
+ * public CORS proxies. The server validates every hop against private and
+ * metadata addresses, so callers get the upstream status, headers and body
+ * as a regular Response.
+ */
+export class FetchProxyService {
+  /**
+   * Fetch a URL through the proxy. Resolves with the upstream response
+   * (any status); rejects when the proxy itself refused or failed.
+   */
+  async fetch(url: string, options: ProxyFetchOptions = {}): Promise<Response> {
+    const method = options.method || 'GET';
+    const timeoutMs = options.timeoutMs ?? 15000;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener('abort', abort);
+
+    try {
+      const params = new URLSearchParams({ url, timeout: String(timeoutMs) });
+      const response = await fetch(`${FETCH_PROXY_ENDPOINT}?${params}`, {
+        method,
+        signal: controller.signal,
+      });
+
+      if (response.headers.get('x-proxy-error')) {
+        const details = method === 'HEAD' ? null : await response.json().catch(() => null);
+        throw new Error(details?.message || `Fetch proxy error: HTTP ${response.status}`);
+      }
+
+      return this.toUpstreamResponse(response, method);
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Fetch a URL and return its body as text, throwing on non-2xx responses
+   */
+  async fetchText(url: string, options: ProxyFetchOptions = {}): Promise<string> {
+    const response = await this.fetch(url, options);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.text();
+  }
+
+  /**
+   * Fetch a URL and return its body as a Blob, throwing on non-2xx responses
+   */
+  async fetchBlob(url: string, options: ProxyFetchOptions = {}): Promise<Blob> {
+    const response = await this.fetch(url, options);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.blob();
+  }
+
+  /**
+   * Rebuild the upstream response from the original header names. The proxy
+   * itself always answers as an octet-stream attachment, so the content-type
+   * comes from X-Upstream-Content-Type too.
+   */
+  private toUpstreamResponse(response: Response, method: string): Response {
+    const headers = new Headers();
+    response.headers.forEach((value, name) => {
+      if (name.startsWith(UPSTREAM_HEADER_PREFIX)) {
+        headers.set(name.slice(UPSTREAM_HEADER_PREFIX.length), value);
+      }
+    });
+
+    const finalUrl = response.headers.get('x-final-url');
+    if (finalUrl) headers.set('x-final-url', finalUrl);
+
+    // Response() rejects a body for null-body statuses
+    const hasBody = method !== 'HEAD' && ![204, 205, 304].includes(response.status);
+
+    return new Response(hasBody ? response.body : null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+}
+
+export const fetchProxyService = new FetchProxyService();
@@ -1,6 +1,11 @@
-import type { LighthouseResults } from '../types';
+import type { LighthouseResults, WebVitalsProfile } from '../types';
 import { supabase } from '../lib/supabase';
 
+export interface LighthouseAuditOptions {
+  formFactor?: WebVitalsProfile; // Default 'mobile'
+  runs?: number; // Audits per page on the local runner; the median one is reported
+}
+
 export class LighthouseService {
   private readonly functionUrl: string;
 
@@ -9,44 +14,91 @@ export class LighthouseService {
     this.functionUrl = `${supabaseUrl}/functions/v1/lighthouse-audit`;
   }
 
-  async runAudit(url: string): Promise<LighthouseResults> {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
+  /**
+   * Audit with the Supabase edge function, else the app server's own
+   * Lighthouse (api/lighthouse.js). Only when neither can run are the
+   * results simulated, and then they say so.
+   */
+  async runAudit(url: string, options: LighthouseAuditOptions = {}): Promise<LighthouseResults> {
+    const failures: string[] = [];
 
-      if (!session) {
-        console.warn('No session found, using simulated lighthouse data');
-        return this.generateSimulatedResults(url);
-      }
-
-      const response = await fetch(this.functionUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          url,
-          categories: ['performance', 'accessibility', 'best-practices', 'seo'],
-        }),
-      });
-
-      if (!response.ok) {
-        console.warn('Lighthouse edge function not available, using simulated data');
-        return this.generateSimulatedResults(url);
-      }
+    try {
+      return await this.runEdgeFunctionAudit(url);
+    } catch (error) {
+      failures.push(`edge function: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      const results = await response.json();
+    try {
+      const [results] = await this.runLocalAudit([url], options);
       return results;
     } catch (error) {
-      console.warn('Lighthouse audit error, using simulated data:', error);
-      return this.generateSimulatedResults(url);
+      failures.push(`local runner: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const reason = failures.join('; ');
+    console.warn(`Lighthouse unavailable (${reason}), using simulated data`);
+    return this.generateSimulatedResults(url, reason);
+  }
+
+  private async runEdgeFunctionAudit(url: string): Promise<LighthouseResults> {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      throw new Error('not signed in');
+    }
+
+    const response = await fetch(this.functionUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        url,
+        categories: ['performance', 'accessibility', 'best-practices', 'seo'],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`responded with status ${response.status}`);
+    }
+
+    const results: LighthouseResults = await response.json();
+    return { ...results, source: 'edge-function' };
+  }
+
+  /**
+   * Audit up to two pages on one pooled browser. They are audited in turns
+   * with the same settings, so their results can be compared.
+   */
+  private async runLocalAudit(urls: string[], options: LighthouseAuditOptions): Promise<LighthouseResults[]> {
+    const response = await fetch('/api/lighthouse', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        urls,
+        formFactor: options.formFactor || 'mobile',
+        runs: options.runs || 1,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.message || errorData.error || `API request failed with status ${response.status}`);
     }
+
+    const data: { results: LighthouseResults[] } = await response.json();
+    return data.results;
   }
 
-  private generateSimulatedResults(url: string): LighthouseResults {
+  private generateSimulatedResults(url: string, reason: string): LighthouseResults {
     const baseScore = 60 + Math.floor(Math.random() * 30);
 
     return {
+      source: 'simulated',
+      simulatedReason: reason,
       performanceScore: baseScore + Math.floor(Math.random() * 10),
       accessibilityScore: 80 + Math.floor(Math.random() * 15),
       bestPracticesScore: 75 + Math.floor(Math.random() * 20),
@@ -92,16 +144,28 @@ export class LighthouseService {
     };
   }
 
-  async compareBeforeAfter(originalUrl: string, optimizedUrl: string) {
+  /**
+   * Audit both pages under identical conditions: one local run, same
+   * browser and settings, three audits each in turns. Without the local
+   * runner they are audited one after the other, and `comparable` says
+   * whether the two results came from the same kind of audit.
+   */
+  async compareBeforeAfter(originalUrl: string, optimizedUrl: string, options: LighthouseAuditOptions = {}) {
     try {
-      const [before, after] = await Promise.all([
-        this.runAudit(originalUrl),
-        this.runAudit(optimizedUrl),
-      ]);
+      let before: LighthouseResults;
+      let after: LighthouseResults;
+      try {
+        [before, after] = await this.runLocalAudit([originalUrl, optimizedUrl], { runs: 3, ...options });
+      } catch (error) {
+        console.warn('Local Lighthouse comparison unavailable, auditing the pages one after the other:', error);
+        before = await this.runAudit(originalUrl, options);
+        after = await this.runAudit(optimizedUrl, options);
+      }
 
       return {
         before,
         after,
+        comparable: before.source === after.source && before.source !== 'simulated',
         improvements: {
           performance: after.performanceScore - before.performanceScore,
           accessibility: after.accessibilityScore - before.accessibilityScore,
@@ -122,7 +186,7 @@ export class LighthouseService {
     }
   }
 
-  async runAuditWithRetry(url: string, maxRetries = 2): Promise<LighthouseResults> {
+  async runAuditWithRetry(url: string, options: LighthouseAuditOptions = {}, maxRetries = 2): Promise<LighthouseResults> {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -130,7 +194,7 @@ export class LighthouseService {
         if (attempt > 0) {
           await new Promise(resolve => setTimeout(resolve, 2000 * attempt));
         }
-        return await this.runAudit(url);
+        return await this.runAudit(url, options);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error('Unknown error');
         console.warn(`Lighthouse audit attempt ${attempt + 1} failed:`, lastError.message);
@@ -1,12 +1,15 @@
-import type { PerformanceMetrics, PerformanceIssue } from '../types';
+import type { HarEntry, HarLog, NetworkRequest, PageSizeBreakdown, PerformanceMetrics, PerformanceIssue, ResourceMetrics, ResourceTiming } from '../types';
 import { webVitalsService } from './WebVitalsService';
+import type { WebVitalsMeasurement, WebVitalsOptions } from './WebVitalsService';
 
 export class PerformanceService {
   async analyzePerformance(
     html: string,
     cssContent: string = '',
     jsContent: string = '',
-    url?: string
+    url?: string,
+    har?: HarLog,
+    vitalsOptions: WebVitalsOptions = {}
   ): Promise<PerformanceMetrics> {
     const htmlSize = new Blob([html]).size;
     const cssSize = new Blob([cssContent]).size;
@@ -48,15 +51,15 @@ export class PerformanceService {
 
     const recommendations = this.generateRecommendations(issues);
 
-    const coreWebVitals = url
-      ? await webVitalsService.measureCoreWebVitals(url)
-      : await this.getMockCoreWebVitals();
+    const vitals = await this.measureVitals(url, vitalsOptions);
+    const { coreWebVitals, additionalMetrics } = vitals;
 
-    const additionalMetrics = url
-      ? await webVitalsService.measureAdditionalMetrics(url)
-      : await this.getMockAdditionalMetrics();
-
-    const resourceMetrics = await webVitalsService.measureResourceMetrics(url || '', doc);
+    const estimatedResourceMetrics = await webVitalsService.measureResourceMetrics(url || '', doc);
+    // Traffic recorded during the capture replaces the estimates when there is some
+    const resourceMetrics = {
+      ...(har?.entries.length ? this.buildResourceMetricsFromHar(har) : estimatedResourceMetrics),
+      longTasks: vitals.longTasks,
+    };
 
     const performanceScore = webVitalsService.calculatePerformanceScore(
       coreWebVitals,
@@ -78,9 +81,149 @@ export class PerformanceService {
       renderBlockingResources,
       issues,
       recommendations,
+      webVitals: vitals.run,
+    };
+  }
+
+  /**
+   * Lab measurement of the page, or placeholder values flagged as
+   * unavailable when there is no URL or the measurement failed
+   */
+  private async measureVitals(url: string | undefined, options: WebVitalsOptions): Promise<WebVitalsMeasurement> {
+    const profile = options.profile || 'mobile';
+    let error = 'No public URL to measure';
+
+    if (url) {
+      try {
+        return await webVitalsService.measurePage(url, options);
+      } catch (measureError) {
+        error = measureError instanceof Error ? measureError.message : 'Unknown error';
+        console.warn('⚠️ Web Vitals measurement failed, showing placeholders:', error);
+      }
+    }
+
+    return {
+      coreWebVitals: await this.getMockCoreWebVitals(),
+      additionalMetrics: await this.getMockAdditionalMetrics(),
+      longTasks: [],
+      run: { source: 'unavailable', profile, error },
+    };
+  }
+
+  /**
+   * Resource timings, network requests and page weight from a HAR recorded
+   * during the capture. Long tasks are not part of a HAR and stay empty.
+   */
+  buildResourceMetricsFromHar(har: HarLog): ResourceMetrics {
+    const firstStart = Math.min(...har.entries.map(entry => Date.parse(entry.startedDateTime)));
+    const page = har.pages?.[0];
+    const pageOffset = page ? Date.parse(page.startedDateTime) - firstStart : 0;
+
+    const networkRequests: NetworkRequest[] = har.entries.map((entry) => ({
+      url: entry.request.url,
+      method: entry.request.method,
+      status: entry.response.status,
+      size: this.getTransferSize(entry),
+      cached: this.isCached(entry),
+      blocking: this.isRenderBlocking(entry),
+      duration: Math.round(entry.time),
+      startTime: Math.round(Date.parse(entry.startedDateTime) - firstStart),
+      timings: entry.timings,
+      priority: entry._priority,
+      initiator: entry._initiator,
+      cacheControl: this.getHeader(entry.response.headers, 'cache-control'),
+      resourceType: entry._resourceType,
+      mimeType: entry.response.content.mimeType || undefined,
+    })).sort((a, b) => a.startTime - b.startTime);
+
+    const resources: ResourceTiming[] = har.entries.map((entry) => ({
+      url: entry.request.url,
+      type: this.getResourceType(entry),
+      duration: Math.round(entry.time),
+      size: this.getTransferSize(entry),
+      renderBlocking: this.isRenderBlocking(entry),
+      transferSize: this.getTransferSize(entry),
+      decodedSize: entry.response.content.size > 0 ? entry.response.content.size : undefined,
+    }));
+
+    const totalPageSize: PageSizeBreakdown = { total: 0, html: 0, css: 0, js: 0, images: 0, fonts: 0, videos: 0, other: 0 };
+    har.entries.forEach((entry, index) => {
+      const size = resources[index].size;
+      const bucket = this.getSizeBucket(entry, resources[index].type);
+      totalPageSize[bucket] += size;
+      totalPageSize.total += size;
+    });
+
+    const pageTiming = (value?: number) => (value !== undefined && value >= 0 ? Math.round(value + pageOffset) : undefined);
+
+    return {
+      resources,
+      longTasks: [],
+      networkRequests,
+      totalPageSize,
+      source: 'har',
+      pageTimings: page ? { onContentLoad: pageTiming(page.pageTimings.onContentLoad), onLoad: pageTiming(page.pageTimings.onLoad) } : undefined,
     };
   }
 
+  private getHeader(headers: HarEntry['response']['headers'], name: string): string | undefined {
+    return headers.find(header => header.name.toLowerCase() === name)?.value;
+  }
+
+  private getTransferSize(entry: HarEntry): number {
+    if (entry.response._transferSize !== undefined && entry.response._transferSize >= 0) {
+      return entry.response._transferSize;
+    }
+    return Math.max(0, entry.response.headersSize) + Math.max(0, entry.response.bodySize);
+  }
+
+  private isCached(entry: HarEntry): boolean {
+    return entry.response.status === 304 ||
+      Object.keys(entry.cache || {}).length > 0 ||
+      (entry.response._transferSize === 0 && entry.response.status > 0);
+  }
+
+  private isRenderBlocking(entry: HarEntry): boolean {
+    if (entry._renderBlocking !== undefined) return entry._renderBlocking;
+    return this.getResourceType(entry) === 'document';
+  }
+
+  private getResourceType(entry: HarEntry): ResourceTiming['type'] {
+    switch (entry._resourceType) {
+      case 'document':
+      case 'stylesheet':
+      case 'script':
+      case 'image':
+      case 'font':
+        return entry._resourceType;
+      case undefined:
+        break;
+      default:
+        return 'other';
+    }
+
+    const mimeType = entry.response.content.mimeType || '';
+    if (mimeType.includes('html')) return 'document';
+    if (mimeType.includes('css')) return 'stylesheet';
+    if (mimeType.includes('javascript') || mimeType.includes('ecmascript')) return 'script';
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('font/') || mimeType.includes('woff')) return 'font';
+    return 'other';
+  }
+
+  private getSizeBucket(entry: HarEntry, type: ResourceTiming['type']): Exclude<keyof PageSizeBreakdown, 'total'> {
+    const mimeType = entry.response.content.mimeType || '';
+    if (entry._resourceType === 'media' || mimeType.startsWith('video/')) return 'videos';
+    switch (type) {
+      case 'document': return 'html';
+      case 'stylesheet': return 'css';
+      case 'script': return 'js';
+      case 'image': return 'images';
+      case 'font': return 'fonts';
+      default: return 'other';
+    }
+  }
+
   private async getMockCoreWebVitals() {
     return {
       lcp: { value: 2000, rating: 'good' as const },
@@ -0,0 +1,102 @@
+export interface HostLimits {
+  maxConcurrent: number;
+  minDelayMs: number; // Minimum gap between the start of two requests to the host
+}
+
+interface HostState {
+  limits: HostLimits;
+  active: number;
+  lastStart: number;
+  waiting: Array<() => void>;
+}
+
+const DEFAULT_LIMITS: HostLimits = {
+  maxConcurrent: 4,
+  minDelayMs: 0,
+};
+
+/**
+ * Politeness Service
+ *
+ * Per-host request scheduler shared by every fetch in the cloning pipeline.
+ * Limits how many requests run against one host at a time and how quickly
+ * they start, so a crawl plus its asset downloads never hammers a site.
+ */
+export class PolitenessService {
+  private hosts: Map<string, HostState> = new Map();
+  private defaults: HostLimits = { ...DEFAULT_LIMITS };
+
+  setDefaultLimits(limits: Partial<HostLimits>): void {
+    this.defaults = { ...this.defaults, ...limits };
+  }
+
+  /**
+   * Override the limits for one host, e.g. from a robots.txt Crawl-delay
+   */
+  setHostLimits(url: string, limits: Partial<HostLimits>): void {
+    const state = this.getState(this.hostOf(url));
+    state.limits = {
+      maxConcurrent: Math.max(1, limits.maxConcurrent ?? this.defaults.maxConcurrent),
+      minDelayMs: Math.max(0, limits.minDelayMs ?? this.defaults.minDelayMs),
+    };
+  }
+
+  getLimits(url: string): HostLimits {
+    return { ...this.getState(this.hostOf(url)).limits };
+  }
+
+  /**
+   * Run `task` once the host of `url` has a free slot and its delay has elapsed
+   */
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const state = this.getState(this.hostOf(url));
+
+    await this.acquire(state);
+    try {
+      return await task();
+    } finally {
+      state.active--;
+      state.waiting.shift()?.();
+    }
+  }
+
+  reset(): void {
+    this.hosts.clear();
+    this.defaults = { ...DEFAULT_LIMITS };
+  }
+
+  private async acquire(state: HostState): Promise<void> {
+    while (state.active >= state.limits.maxConcurrent) {
+      await new Promise<void>(resolve => state.waiting.push(resolve));
+    }
+    state.active++;
+
+    // Reserve the next start slot before sleeping so parallel callers space out
+    const now = Date.now();
+    const startAt = Math.max(now, state.lastStart + state.limits.minDelayMs);
+    state.lastStart = startAt;
+
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now));
+    }
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { limits: { ...this.defaults }, active: 0, lastStart: 0, waiting: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).host.toLowerCase();
+    } catch {
+      return url;
+    }
+  }
+}
+
+export const politenessService = new PolitenessService();
@@ -0,0 +1,258 @@
+import { loggingService } from './LoggingService';
+import { fetchProxyService } from './FetchProxyService';
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  unreachable?: boolean; // The server failed or could not be reached; everything is disallowed
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  rule?: RobotsRule;
+  reason?: string;
+  unreachable?: boolean; // Disallowed only because robots.txt could not be read
+}
+
+// Token we identify as when matching User-agent groups
+export const ROBOTS_USER_AGENT = 'WebsiteClonerPro';
+
+/**
+ * Robots Service
+ *
+ * Parses robots.txt following RFC 9309: User-agent groups, Allow/Disallow
+ * with `*` and `$` wildcards (longest match wins, Allow wins ties) and the
+ * non-standard Crawl-delay directive. Parsed files are cached per origin;
+ * a robots.txt that could not be read disallows everything and is fetched
+ * again next time.
+ */
+export class RobotsService {
+  private cache: Map<string, Promise<RobotsTxt>> = new Map();
+
+  parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r\n|\r|\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (!line) continue;
+
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          // Consecutive User-agent lines share one group
+          if (!current || !lastWasAgent) {
+            current = { userAgents: [], rules: [] };
+            groups.push(current);
+          }
+          current.userAgents.push(value.toLowerCase());
+          lastWasAgent = true;
+          continue;
+        case 'allow':
+        case 'disallow':
+          // An empty Disallow allows everything, so it adds no rule
+          if (current && value) {
+            current.rules.push({ type: field, path: value });
+          }
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay) && delay >= 0) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+        case 'sitemap':
+          if (value) sitemaps.push(value);
+          break;
+      }
+
+      lastWasAgent = false;
+    }
+
+    return { groups, sitemaps };
+  }
+
+  /**
+   * Select the rules that apply to a user agent. Groups naming the agent's
+   * product token (case-insensitively, ignoring any version) are merged;
+   * otherwise the `*` groups apply.
+   */
+  getGroup(robots: RobotsTxt, userAgent: string = ROBOTS_USER_AGENT): RobotsGroup {
+    const agent = this.getProductToken(userAgent);
+    const specific = robots.groups.filter(g =>
+      g.userAgents.some(ua => ua !== '*' && this.getProductToken(ua) === agent)
+    );
+    const matched = specific.length > 0
+      ? specific
+      : robots.groups.filter(g => g.userAgents.includes('*'));
+
+    const delays = matched
+      .map(g => g.crawlDelay)
+      .filter((d): d is number => d !== undefined);
+
+    return {
+      userAgents: matched.flatMap(g => g.userAgents),
+      rules: matched.flatMap(g => g.rules),
+      crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+    };
+  }
+
+  isAllowed(robots: RobotsTxt, url: string, userAgent: string = ROBOTS_USER_AGENT): RobotsVerdict {
+    let target: string;
+    try {
+      const parsed = new URL(url);
+      target = `${parsed.pathname}${parsed.search}`;
+    } catch {
+      return { allowed: true };
+    }
+
+    // robots.txt itself is always fetchable
+    if (target === '/robots.txt') return { allowed: true };
+
+    if (robots.unreachable) {
+      return {
+        allowed: false,
+        reason: 'Blocked because robots.txt could not be read (server error or unreachable)',
+        unreachable: true,
+      };
+    }
+
+    let best: RobotsRule | undefined;
+    for (const rule of this.getGroup(robots, userAgent).rules) {
+      if (!this.matches(rule.path, target)) continue;
+      if (!best ||
+          rule.path.length > best.path.length ||
+          (rule.path.length === best.path.length && rule.type === 'allow')) {
+        best = rule;
+      }
+    }
+
+    if (!best || best.type === 'allow') {
+      return { allowed: true, rule: best };
+    }
+
+    return {
+      allowed: false,
+      rule: best,
+      reason: `Blocked by robots.txt (Disallow: ${best.path})`,
+    };
+  }
+
+  getCrawlDelay(robots: RobotsTxt, userAgent: string = ROBOTS_USER_AGENT): number | undefined {
+    return this.getGroup(robots, userAgent).crawlDelay;
+  }
+
+  /**
+   * Fetch and parse robots.txt for the origin of `url`. A missing file (4xx)
+   * yields an empty rule set, which allows everything; a server error or
+   * unreachable host disallows everything (RFC 9309, section 2.3.1).
+   */
+  async getRobots(url: string): Promise<RobotsTxt> {
+    const origin = new URL(url).origin;
+
+    let pending = this.cache.get(origin);
+    if (!pending) {
+      const fetched = this.fetchRobots(origin);
+      pending = fetched;
+      this.cache.set(origin, fetched);
+      // Failures are not cached, so the next clone asks again
+      fetched.then(robots => {
+        if (robots.unreachable && this.cache.get(origin) === fetched) this.cache.delete(origin);
+      });
+    }
+
+    return pending;
+  }
+
+  async check(url: string, userAgent: string = ROBOTS_USER_AGENT): Promise<RobotsVerdict> {
+    const robots = await this.getRobots(url);
+    return this.isAllowed(robots, url, userAgent);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await fetchProxyService.fetch(robotsUrl, { timeoutMs: 10000 });
+
+      if (response.status >= 500) {
+        loggingService.warning('robots', `robots.txt at ${robotsUrl} failed with HTTP ${response.status}; disallowing the site`);
+        return { groups: [], sitemaps: [], unreachable: true };
+      }
+
+      if (!response.ok) {
+        loggingService.debug('robots', `No robots.txt at ${robotsUrl} (HTTP ${response.status})`);
+        return { groups: [], sitemaps: [] };
+      }
+
+      const robots = this.parse(await response.text());
+      loggingService.debug('robots', `Loaded robots.txt for ${origin}`, {
+        groups: robots.groups.length,
+        sitemaps: robots.sitemaps.length,
+      });
+      return robots;
+    } catch (error) {
+      loggingService.warning('robots', `Could not reach ${robotsUrl}; disallowing the site`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { groups: [], sitemaps: [], unreachable: true };
+    }
+  }
+
+  /**
+   * The product token of a user agent or User-agent value, lower-cased:
+   * "WebsiteClonerPro/1.0" and "websiteclonerpro" both give "websiteclonerpro"
+   */
+  private getProductToken(userAgent: string): string {
+    return userAgent.trim().split('/')[0].trim().toLowerCase();
+  }
+
+  /**
+   * Match a robots path pattern against a URL path. `*` matches any sequence
+   * and a trailing `$` anchors the pattern to the end of the path.
+   */
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map(part => this.encodePath(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+  }
+
+  private encodePath(part: string): string {
+    // Compare percent-encoded forms so "/café" and "/caf%C3%A9" match
+    try {
+      return encodeURI(decodeURI(part));
+    } catch {
+      return part;
+    }
+  }
+}
+
+export const robotsService = new RobotsService();
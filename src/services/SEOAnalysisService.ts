@@ -1,4 +1,6 @@
 import { loggingService } from './LoggingService';
+import { fetchProxyService } from './FetchProxyService';
+import { sitemapService } from './SitemapService';
 
 export interface SEOAnalysisResult {
   score: number; // 0-100
@@ -287,7 +289,7 @@ export class SEOAnalysisService {
 
     try {
       const robotsUrl = new URL('/robots.txt', url).toString();
-      const response = await fetch(robotsUrl, { method: 'HEAD' });
+      const response = await fetchProxyService.fetch(robotsUrl, { method: 'HEAD' });
       hasRobotsTxt = response.ok;
     } catch {
       hasRobotsTxt = false;
@@ -302,21 +304,8 @@ export class SEOAnalysisService {
   }
 
   private async checkSitemap(url: string) {
-    const commonSitemapPaths = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap.php'];
-
-    for (const path of commonSitemapPaths) {
-      try {
-        const sitemapUrl = new URL(path, url).toString();
-        const response = await fetch(sitemapUrl, { method: 'HEAD' });
-        if (response.ok) {
-          return { found: true, url: sitemapUrl };
-        }
-      } catch {
-        // Continue to next path
-      }
-    }
-
-    return { found: false };
+    const [sitemapUrl] = await sitemapService.discover(url);
+    return sitemapUrl ? { found: true, url: sitemapUrl } : { found: false };
   }
 
   private analyzeCanonical(doc: Document) {
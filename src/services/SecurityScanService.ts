@@ -1,4 +1,5 @@
 import { loggingService } from './LoggingService';
+import { fetchProxyService } from './FetchProxyService';
 
 export interface SecurityScanResult {
   score: number; // 0-100
@@ -204,7 +205,7 @@ export class SecurityScanService {
     };
 
     try {
-      const response = await fetch(url, { method: 'HEAD' });
+      const response = await fetchProxyService.fetch(url, { method: 'HEAD' });
 
       headers.hasStrictTransportSecurity = response.headers.has('strict-transport-security');
       headers.hasContentSecurityPolicy = response.headers.has('content-security-policy');
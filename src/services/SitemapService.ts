@@ -0,0 +1,170 @@
+import * as cheerio from 'cheerio';
+import type { SitemapEntry } from '../types';
+import { loggingService } from './LoggingService';
+import { robotsService } from './RobotsService';
+import { fetchProxyService } from './FetchProxyService';
+
+export interface SitemapLoadResult {
+  entries: SitemapEntry[];
+  sitemaps: string[]; // Every sitemap file that was read, including nested ones
+  errors: Array<{ url: string; error: string }>;
+}
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex' | 'unknown';
+  entries: SitemapEntry[];
+  sitemaps: string[];
+}
+
+const COMMON_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap.xml.gz', '/wp-sitemap.xml'];
+
+// Nested sitemap indexes are rare; cap recursion and total files to stay bounded
+const MAX_INDEX_DEPTH = 3;
+const MAX_SITEMAP_FILES = 50;
+const MAX_ENTRIES = 5000;
+
+/**
+ * Sitemap Service
+ *
+ * Loads sitemap.xml and sitemap index files (plain or gzipped) and lists
+ * every page URL with its lastmod, changefreq and priority so users can pick
+ * exactly which pages go into a clone job.
+ */
+export class SitemapService {
+  /**
+   * Find sitemap URLs for a site: robots.txt Sitemap lines first, then the usual paths
+   */
+  async discover(siteUrl: string): Promise<string[]> {
+    const robots = await robotsService.getRobots(siteUrl);
+    if (robots.sitemaps.length > 0) {
+      return robots.sitemaps;
+    }
+
+    const origin = new URL(siteUrl).origin;
+    for (const path of COMMON_SITEMAP_PATHS) {
+      const candidate = `${origin}${path}`;
+      try {
+        const content = await this.fetchSitemap(candidate);
+        if (this.parse(content, candidate).type !== 'unknown') {
+          return [candidate];
+        }
+      } catch {
+        // Try the next common location
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Load every page listed by the site's sitemaps, following sitemap indexes
+   */
+  async load(siteUrl: string, sitemapUrls?: string[]): Promise<SitemapLoadResult> {
+    const roots = sitemapUrls && sitemapUrls.length > 0 ? sitemapUrls : await this.discover(siteUrl);
+    const entries = new Map<string, SitemapEntry>();
+    const visited: string[] = [];
+    const errors: SitemapLoadResult['errors'] = [];
+
+    let queue = roots.map(url => ({ url, depth: 0 }));
+    while (queue.length > 0 && visited.length < MAX_SITEMAP_FILES && entries.size < MAX_ENTRIES) {
+      const { url, depth } = queue.shift()!;
+      if (visited.includes(url)) continue;
+      visited.push(url);
+
+      try {
+        const parsed = this.parse(await this.fetchSitemap(url), url);
+        if (parsed.type === 'unknown') {
+          throw new Error('Not a sitemap or sitemap index');
+        }
+
+        parsed.entries.forEach(entry => {
+          if (entries.size < MAX_ENTRIES && !entries.has(entry.loc)) {
+            entries.set(entry.loc, entry);
+          }
+        });
+
+        if (depth < MAX_INDEX_DEPTH) {
+          queue = queue.concat(parsed.sitemaps.map(child => ({ url: child, depth: depth + 1 })));
+        }
+      } catch (error) {
+        errors.push({ url, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    loggingService.info('sitemap', `Loaded ${entries.size} URLs from ${visited.length} sitemap(s)`, {
+      siteUrl,
+      errors: errors.length,
+    });
+
+    return { entries: Array.from(entries.values()), sitemaps: visited, errors };
+  }
+
+  /**
+   * Parse a sitemap or sitemap index document
+   */
+  parse(xml: string, sitemapUrl: string): ParsedSitemap {
+    const $ = cheerio.load(xml, { xml: true });
+    const byName = (name: string) => $('*').filter((_, el) => this.localName(el) === name);
+    const childText = (el: Parameters<typeof $>[0], name: string) =>
+      $(el).children().filter((_, child) => this.localName(child) === name).first().text().trim();
+
+    if (byName('sitemapindex').length > 0) {
+      const sitemaps = byName('sitemap')
+        .map((_, el) => childText(el, 'loc'))
+        .get()
+        .filter(Boolean);
+      return { type: 'sitemapindex', entries: [], sitemaps };
+    }
+
+    if (byName('urlset').length === 0) {
+      return { type: 'unknown', entries: [], sitemaps: [] };
+    }
+
+    const entries: SitemapEntry[] = [];
+    byName('url').each((_, el) => {
+      const loc = childText(el, 'loc');
+      if (!loc) return;
+
+      const priority = parseFloat(childText(el, 'priority'));
+      entries.push({
+        loc,
+        lastmod: childText(el, 'lastmod') || undefined,
+        changefreq: childText(el, 'changefreq') || undefined,
+        priority: isNaN(priority) ? undefined : priority,
+        sitemap: sitemapUrl,
+      });
+    });
+
+    return { type: 'urlset', entries, sitemaps: [] };
+  }
+
+  private async fetchSitemap(url: string): Promise<string> {
+    const response = await fetchProxyService.fetch(url, { timeoutMs: 15000 });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return this.decode(bytes);
+  }
+
+  /**
+   * Decode sitemap bytes, inflating gzip by magic number rather than by
+   * extension since servers often send .xml.gz without Content-Encoding
+   */
+  private async decode(bytes: Uint8Array): Promise<string> {
+    if (bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+      return await new Response(stream).text();
+    }
+
+    return new TextDecoder().decode(bytes);
+  }
+
+  private localName(el: { type: string; name?: string }): string {
+    return el.type === 'tag' && el.name ? el.name.split(':').pop()!.toLowerCase() : '';
+  }
+}
+
+export const sitemapService = new SitemapService();
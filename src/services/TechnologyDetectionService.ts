@@ -1,4 +1,5 @@
 import { loggingService } from './LoggingService';
+import { fetchProxyService } from './FetchProxyService';
 
 export interface TechnologyStack {
   frameworks: DetectedTechnology[];
@@ -633,7 +634,7 @@ export class TechnologyDetectionService {
     const servers: DetectedTechnology[] = [];
 
     try {
-      const response = await fetch(url, { method: 'HEAD' });
+      const response = await fetchProxyService.fetch(url, { method: 'HEAD' });
 
       const server = response.headers.get('server');
       if (server) {
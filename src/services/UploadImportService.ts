@@ -0,0 +1,274 @@
+import JSZip from 'jszip';
+import { loggingService } from './LoggingService';
+import { archiveImportService } from './ArchiveImportService';
+import { warcService } from './WarcService';
+
+// Uploaded files are served under a placeholder origin so the clone pipeline
+// can resolve relative URLs as usual. `.invalid` never resolves (RFC 2606),
+// so a request that leaks past the bundle fails fast instead of reaching a host.
+const UPLOAD_HOST_SUFFIX = '.upload.invalid';
+
+const MAX_FILES = 5000;
+const MAX_TOTAL_BYTES = 200 * 1024 * 1024;
+const IGNORED_PATH = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/i;
+const HTML_PATH = /\.html?$/i;
+const ARCHIVE_PATH = /\.(mhtml|mht|har|warc|warc\.gz)$/i;
+
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  json: 'application/json',
+  xml: 'application/xml',
+  txt: 'text/plain',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+export interface UploadBundle {
+  id: string;
+  format: 'files' | 'mhtml' | 'har' | 'warc';
+  name: string; // What the user uploaded, e.g. "client-site.zip"
+  origin: string; // Placeholder origin the files are served under; the saved site's origin for archives
+  entryUrl: string; // Page the clone starts from
+  pageUrls: string[]; // Every HTML file in the bundle, entry page first
+  files: Map<string, Blob>; // Keyed by path inside the bundle, e.g. "css/site.css"; by absolute URL for archives
+}
+
+/**
+ * Upload Import Service
+ *
+ * Turns an uploaded ZIP archive, folder or set of HTML files into a bundle of
+ * files served under a placeholder origin. CloneService reads pages and
+ * assets for that origin from the bundle instead of the network, so an
+ * upload runs through the same pipeline as a URL clone. MHTML, HAR and WARC
+ * archives keep the saved site's own URLs and serve every captured response.
+ */
+export class UploadImportService {
+  private bundles = new Map<string, UploadBundle>();
+
+  /**
+   * Read the uploaded files into a bundle and register it until `release`
+   */
+  async load(files: File[]): Promise<UploadBundle> {
+    if (files.length === 0) {
+      throw new Error('No files selected for upload');
+    }
+    if (files.length === 1 && ARCHIVE_PATH.test(files[0].name)) {
+      return this.loadArchive(files[0]);
+    }
+
+    const entries = new Map<string, Blob>();
+    let totalBytes = 0;
+
+    const add = (path: string, blob: Blob) => {
+      const normalized = this.normalizePath(path);
+      if (!normalized || IGNORED_PATH.test(normalized)) return;
+
+      totalBytes += blob.size;
+      if (entries.size >= MAX_FILES || totalBytes > MAX_TOTAL_BYTES) {
+        throw new Error(`Upload is too large (limit ${MAX_FILES} files, ${MAX_TOTAL_BYTES / 1024 / 1024}MB)`);
+      }
+      entries.set(normalized, new Blob([blob], { type: this.getMimeType(normalized) }));
+    };
+
+    for (const file of files) {
+      if (/\.zip$/i.test(file.name)) {
+        const zip = await JSZip.loadAsync(await file.arrayBuffer());
+        for (const entry of Object.values(zip.files)) {
+          if (entry.dir) continue;
+          add(entry.name, new Blob([await entry.async('arraybuffer')]));
+        }
+      } else {
+        add(file.webkitRelativePath || file.name, file);
+      }
+    }
+
+    const stripped = this.stripCommonRoot(entries);
+    const htmlPaths = Array.from(stripped.keys()).filter(path => HTML_PATH.test(path));
+    if (htmlPaths.length === 0) {
+      throw new Error('The upload does not contain an HTML file');
+    }
+
+    const entryPath = this.pickEntryPage(htmlPaths);
+    const name = this.getUploadName(files);
+    const id = crypto.randomUUID().replace(/-/g, '').slice(0, 8);
+    const origin = `https://${this.slugify(name)}-${id}${UPLOAD_HOST_SUFFIX}`;
+    const toUrl = (path: string) => `${origin}/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+    const bundle: UploadBundle = {
+      id,
+      format: 'files',
+      name,
+      origin,
+      entryUrl: toUrl(entryPath),
+      pageUrls: [entryPath, ...htmlPaths.filter(path => path !== entryPath).sort()].map(toUrl),
+      files: stripped,
+    };
+
+    this.bundles.set(id, bundle);
+    loggingService.info('upload', `Loaded ${name}: ${stripped.size} files, ${htmlPaths.length} pages, entry ${entryPath}`);
+    return bundle;
+  }
+
+  /**
+   * Register an MHTML, HAR or WARC archive. Its page is served under its real URL.
+   */
+  private async loadArchive(file: File): Promise<UploadBundle> {
+    let snapshot;
+    if (/\.har$/i.test(file.name)) {
+      snapshot = archiveImportService.parseHar(await file.text());
+    } else if (/\.warc(\.gz)?$/i.test(file.name)) {
+      snapshot = await warcService.parse(new Uint8Array(await file.arrayBuffer()));
+    } else {
+      snapshot = archiveImportService.parseMhtml(new Uint8Array(await file.arrayBuffer()));
+    }
+
+    const bundle: UploadBundle = {
+      id: crypto.randomUUID().replace(/-/g, '').slice(0, 8),
+      format: snapshot.format,
+      name: file.name,
+      origin: new URL(snapshot.entryUrl).origin,
+      entryUrl: snapshot.entryUrl,
+      pageUrls: [snapshot.entryUrl],
+      files: snapshot.resources,
+    };
+
+    this.bundles.set(bundle.id, bundle);
+    loggingService.info('upload', `Loaded ${snapshot.format.toUpperCase()} archive ${file.name}: ${snapshot.resources.size} responses, page ${snapshot.entryUrl}`);
+    return bundle;
+  }
+
+  /**
+   * The registered bundle that serves a URL, if any. Upload bundles own their
+   * whole placeholder origin; archives only serve the URLs they captured.
+   */
+  find(url: string): UploadBundle | undefined {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return undefined;
+    }
+
+    for (const bundle of this.bundles.values()) {
+      if (bundle.format === 'files' ? bundle.origin === origin : bundle.files.has(archiveImportService.normalizeKey(url))) {
+        return bundle;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * File for a URL inside a bundle. Directory URLs fall back to their index.html.
+   */
+  read(url: string): Blob | null {
+    const bundle = this.find(url);
+    if (!bundle) return null;
+    if (bundle.format !== 'files') {
+      return bundle.files.get(archiveImportService.normalizeKey(url)) || null;
+    }
+
+    let path: string;
+    try {
+      path = decodeURIComponent(new URL(url).pathname).replace(/^\/+/, '');
+    } catch {
+      return null;
+    }
+
+    if (path === '' || path.endsWith('/')) {
+      return bundle.files.get(`${path}index.html`) || bundle.files.get(`${path}index.htm`) || null;
+    }
+    return bundle.files.get(path) || bundle.files.get(`${path}/index.html`) || null;
+  }
+
+  /**
+   * Answer a request for a bundle URL the way a static file server would
+   */
+  fetch(url: string): Response {
+    const blob = this.read(url);
+    if (!blob) {
+      return new Response('Not found in upload', { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(blob, {
+      status: 200,
+      headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+    });
+  }
+
+  release(bundle: UploadBundle): void {
+    this.bundles.delete(bundle.id);
+  }
+
+  private normalizePath(path: string): string {
+    const segments: string[] = [];
+    for (const segment of path.replace(/\\/g, '/').split('/')) {
+      if (!segment || segment === '.') continue;
+      if (segment === '..') {
+        segments.pop();
+      } else {
+        segments.push(segment);
+      }
+    }
+    return segments.join('/');
+  }
+
+  /**
+   * Archives and folder uploads usually wrap the site in one top-level folder
+   */
+  private stripCommonRoot(entries: Map<string, Blob>): Map<string, Blob> {
+    const paths = Array.from(entries.keys());
+    const root = paths[0]?.split('/')[0];
+    const shared = paths.length > 0 && paths.every(path => path.includes('/') && path.split('/')[0] === root);
+    if (!shared) return entries;
+
+    return new Map(Array.from(entries, ([path, blob]) => [path.slice(root.length + 1), blob]));
+  }
+
+  /**
+   * Prefer the shallowest index.html, then the shallowest HTML file
+   */
+  private pickEntryPage(htmlPaths: string[]): string {
+    const depth = (path: string) => path.split('/').length;
+    const byDepth = [...htmlPaths].sort((a, b) => depth(a) - depth(b) || a.localeCompare(b));
+    return byDepth.find(path => /(^|\/)index\.html?$/i.test(path)) || byDepth[0];
+  }
+
+  private getUploadName(files: File[]): string {
+    const folder = files[0].webkitRelativePath?.split('/')[0];
+    if (folder && files[0].webkitRelativePath.includes('/')) return folder;
+    return files.length === 1 ? files[0].name : `${files[0].name} (+${files.length - 1} files)`;
+  }
+
+  private slugify(name: string): string {
+    const slug = name
+      .toLowerCase()
+      .replace(/\.(zip|html?)$/, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .slice(0, 40)
+      .replace(/^-+|-+$/g, '');
+    return slug || 'upload';
+  }
+
+  private getMimeType(path: string): string {
+    const ext = path.split('.').pop()?.toLowerCase() || '';
+    return MIME_TYPES[ext] || 'application/octet-stream';
+  }
+}
+
+export const uploadImportService = new UploadImportService();
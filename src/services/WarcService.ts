@@ -0,0 +1,499 @@
+import type { CloneProject, ClonedAsset, HarEntry, HarHeader } from '../types';
+import type { ArchiveSnapshot } from './ArchiveImportService';
+import { loggingService } from './LoggingService';
+
+const CRLF = '\r\n';
+const SOFTWARE = 'Website Cloner Pro';
+// Describe the bytes on the wire, not the decoded body the HAR holds
+const DECODED_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+const CONTENT_TYPES: Record<ClonedAsset['type'], string> = {
+  css: 'text/css',
+  js: 'text/javascript',
+  image: 'application/octet-stream',
+  font: 'application/octet-stream',
+  other: 'application/octet-stream',
+};
+
+export interface WarcRecord {
+  type: string; // WARC-Type, e.g. 'response'
+  headers: Map<string, string>; // WARC named fields, keys lowercased
+  block: Uint8Array;
+}
+
+interface HttpMessage {
+  status: number;
+  headers: Map<string, string>; // Keys lowercased
+  body: Uint8Array;
+}
+
+/**
+ * WARC Service
+ *
+ * Writes a cloned project as a WARC/1.1 file - the captured requests and
+ * responses plus the clone's rewritten pages and assets, with SHA-1 block
+ * and payload digests - and reads WARC files (plain or gzipped) back into
+ * archived responses.
+ * Output opens in replay tools such as pywb and ReplayWeb.page.
+ */
+export class WarcService {
+  /**
+   * Build a WARC file for a project. Assets must have their content loaded,
+   * and so must the response bodies in the project's HAR.
+   *
+   * Every exchange the capture recorded becomes a request and a response
+   * record with its real status, headers, time and bytes. The clone's own
+   * pages and assets are rewritten copies, so they are written as conversion
+   * records pointing at the response they came from, or as resource records
+   * when nothing was recorded for their URL (uploads, assets fetched outside
+   * the capture).
+   */
+  async write(project: CloneProject, assets: ClonedAsset[], filename: string): Promise<Blob> {
+    const date = this.formatDate(project.createdAt);
+    const warcinfoId = this.recordId();
+    const records: Uint8Array[] = [];
+
+    const info = [
+      `software: ${SOFTWARE}`,
+      'format: WARC File Format 1.1',
+      'conformsTo: http://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/',
+      `isPartOf: ${project.id}`,
+      `description: Clone of ${project.source}`,
+    ].join(CRLF) + CRLF;
+    records.push(await this.buildRecord([
+      ['WARC-Type', 'warcinfo'],
+      ['WARC-Record-ID', warcinfoId],
+      ['WARC-Date', date],
+      ['WARC-Filename', filename],
+      ['Content-Type', 'application/warc-fields'],
+    ], this.encode(info)));
+
+    // Successful responses by URL, for the conversion records to refer to
+    const responseIds = new Map<string, string>();
+    let skipped = 0;
+
+    for (const entry of project.har?.entries || []) {
+      const exchange = this.buildExchange(entry);
+      if (!exchange) {
+        skipped++;
+        continue;
+      }
+
+      const responseId = this.recordId();
+      const exchangeDate = this.formatDate(new Date(entry.startedDateTime));
+      const ipAddress = entry.serverIPAddress?.replace(/^\[|\]$/g, '');
+      const common: Array<[string, string]> = [
+        ['WARC-Warcinfo-ID', warcinfoId],
+        ['WARC-Date', exchangeDate],
+        ['WARC-Target-URI', entry.request.url],
+      ];
+
+      records.push(await this.buildRecord([
+        ['WARC-Type', 'response'],
+        ['WARC-Record-ID', responseId],
+        ...common,
+        ...(ipAddress ? [['WARC-IP-Address', ipAddress] as [string, string]] : []),
+        ['WARC-Payload-Digest', await this.digest(exchange.payload)],
+        ['Content-Type', 'application/http;msgtype=response'],
+      ], exchange.response));
+
+      records.push(await this.buildRecord([
+        ['WARC-Type', 'request'],
+        ['WARC-Record-ID', this.recordId()],
+        ...common,
+        ['WARC-Concurrent-To', responseId],
+        ['Content-Type', 'application/http;msgtype=request'],
+      ], exchange.request));
+
+      const url = entry.request.url.split('#')[0];
+      if (entry.response.status >= 200 && entry.response.status < 300 && !responseIds.has(url)) {
+        responseIds.set(url, responseId);
+      }
+    }
+
+    const copies: Array<{ url: string; contentType: string; payload: Uint8Array }> = [
+      { url: project.source, contentType: 'text/html; charset=utf-8', payload: this.encode(project.originalHtml || '') },
+    ];
+    for (const page of project.pages || []) {
+      if (page.html && page.url !== project.source) {
+        copies.push({ url: page.url, contentType: 'text/html; charset=utf-8', payload: this.encode(page.html) });
+      }
+    }
+    for (const asset of assets) {
+      if (!asset.content) continue;
+      const { contentType, payload } = this.assetPayload(asset);
+      copies.push({ url: asset.originalUrl, contentType, payload });
+    }
+
+    let entryRecordId = '';
+    let conversions = 0;
+    for (const copy of copies) {
+      const recordId = this.recordId();
+      if (!entryRecordId) entryRecordId = recordId;
+
+      const originalId = responseIds.get(copy.url.split('#')[0]);
+      if (originalId) conversions++;
+
+      records.push(await this.buildRecord([
+        ['WARC-Type', originalId ? 'conversion' : 'resource'],
+        ['WARC-Record-ID', recordId],
+        ['WARC-Warcinfo-ID', warcinfoId],
+        ['WARC-Date', date],
+        ['WARC-Target-URI', copy.url],
+        ...(originalId ? [['WARC-Refers-To', originalId] as [string, string]] : []),
+        ['Content-Type', copy.contentType],
+      ], copy.payload));
+    }
+
+    // Project details a later import can read back
+    const metadata = {
+      projectId: project.id,
+      source: project.source,
+      type: project.type,
+      createdAt: project.createdAt,
+      title: project.metadata?.title,
+      framework: project.metadata?.framework,
+      pages: project.pages?.map(page => ({ url: page.url, path: page.localPath, title: page.title, depth: page.depth })),
+      assets: assets.map(asset => ({ url: asset.originalUrl, path: asset.localPath, type: asset.type })),
+    };
+    records.push(await this.buildRecord([
+      ['WARC-Type', 'metadata'],
+      ['WARC-Record-ID', this.recordId()],
+      ['WARC-Warcinfo-ID', warcinfoId],
+      ['WARC-Date', date],
+      ['WARC-Target-URI', project.source],
+      ['WARC-Refers-To', entryRecordId],
+      ['Content-Type', 'application/json'],
+    ], this.encode(JSON.stringify(metadata, null, 2))));
+
+    if (skipped > 0) {
+      loggingService.warning('export', `Left ${skipped} recorded requests out of the WARC: they failed or their body was not recorded`);
+    }
+    loggingService.info('export', `Built WARC with ${responseIds.size} captured responses and ${copies.length} cloned files (${conversions} conversions) for project ${project.id}`);
+    return new Blob(records, { type: 'application/warc' });
+  }
+
+  /**
+   * Read the archived responses out of a WARC file
+   */
+  async parse(bytes: Uint8Array): Promise<ArchiveSnapshot> {
+    const records = this.parseRecords(await this.gunzipIfNeeded(bytes));
+    const resources = new Map<string, Blob>();
+    let entryUrl = '';
+    let firstHtmlUrl = '';
+    let title: string | undefined;
+
+    for (const record of records) {
+      const url = record.headers.get('warc-target-uri')?.replace(/^<|>$/g, '');
+      if (!url) continue;
+
+      if (record.type === 'metadata' && record.headers.get('content-type')?.startsWith('application/json')) {
+        try {
+          const metadata = JSON.parse(new TextDecoder().decode(record.block));
+          if (metadata.source) entryUrl = metadata.source;
+          if (metadata.title) title = metadata.title;
+        } catch {
+          // Metadata written by another tool
+        }
+        continue;
+      }
+
+      let mimeType: string;
+      let body: Uint8Array;
+      if (record.type === 'response' && record.headers.get('content-type')?.includes('msgtype=response')) {
+        const http = this.parseHttpResponse(record.block);
+        if (!http || http.status < 200 || http.status >= 300) continue;
+        mimeType = (http.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+        body = await this.decodeHttpBody(http);
+      } else if (record.type === 'resource') {
+        mimeType = (record.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+        body = record.block;
+      } else {
+        continue;
+      }
+
+      const key = url.split('#')[0];
+      if (resources.has(key)) continue;
+      resources.set(key, new Blob([body], { type: mimeType }));
+      if (!firstHtmlUrl && mimeType === 'text/html') {
+        firstHtmlUrl = key;
+      }
+    }
+
+    if (!entryUrl || !resources.has(entryUrl)) {
+      entryUrl = firstHtmlUrl;
+    }
+    if (!entryUrl) {
+      throw new Error('The WARC file does not contain an HTML response');
+    }
+
+    loggingService.info('archive', `Parsed WARC for ${entryUrl}: ${records.length} records, ${resources.size} responses`);
+    return { format: 'warc', entryUrl, title, resources };
+  }
+
+  /**
+   * Split an uncompressed WARC file into records
+   */
+  parseRecords(bytes: Uint8Array): WarcRecord[] {
+    const records: WarcRecord[] = [];
+    let pos = 0;
+
+    while (pos < bytes.length) {
+      // Skip blank lines between records
+      while (pos < bytes.length && (bytes[pos] === 0x0d || bytes[pos] === 0x0a)) pos++;
+      if (pos >= bytes.length) break;
+
+      const headerEnd = this.indexOf(bytes, [0x0d, 0x0a, 0x0d, 0x0a], pos);
+      if (headerEnd < 0) {
+        throw new Error('Truncated WARC record header');
+      }
+
+      const lines = this.decodeLatin1(bytes.subarray(pos, headerEnd)).split(CRLF);
+      if (!/^WARC\/1\.[01]$/.test(lines[0])) {
+        throw new Error(`Not a WARC record at byte ${pos}: ${lines[0].slice(0, 40)}`);
+      }
+
+      const headers = new Map<string, string>();
+      for (const line of lines.slice(1)) {
+        const colon = line.indexOf(':');
+        if (colon > 0) {
+          headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+        }
+      }
+
+      const length = parseInt(headers.get('content-length') || '', 10);
+      if (isNaN(length)) {
+        throw new Error('WARC record is missing Content-Length');
+      }
+
+      const blockStart = headerEnd + 4;
+      records.push({
+        type: (headers.get('warc-type') || '').toLowerCase(),
+        headers,
+        block: bytes.subarray(blockStart, blockStart + length),
+      });
+      pos = blockStart + length;
+    }
+
+    return records;
+  }
+
+  private async buildRecord(fields: Array<[string, string]>, block: Uint8Array): Promise<Uint8Array> {
+    const header = [
+      'WARC/1.1',
+      ...fields.map(([name, value]) => `${name}: ${value}`),
+      `WARC-Block-Digest: ${await this.digest(block)}`,
+      `Content-Length: ${block.length}`,
+    ].join(CRLF) + CRLF + CRLF;
+
+    return this.concat([this.encode(header), block, this.encode(CRLF + CRLF)]);
+  }
+
+  /**
+   * HTTP request and response messages for a recorded exchange. Returns null
+   * when the request failed or a body that should exist was not recorded.
+   * Recorded bodies are already content-decoded, so the coding headers are
+   * dropped and Content-Length is set to the bytes written.
+   */
+  private buildExchange(entry: HarEntry): { request: Uint8Array; response: Uint8Array; payload: Uint8Array } | null {
+    const { request, response } = entry;
+    if (response.status <= 0 || !/^https?:/.test(request.url)) return null;
+
+    let payload: Uint8Array;
+    if (response.content.text !== undefined) {
+      payload = response.content.encoding === 'base64'
+        ? this.latin1ToBytes(atob(response.content.text))
+        : this.encode(response.content.text);
+    } else if (request.method === 'HEAD' || this.hasNoBody(response.status)) {
+      payload = new Uint8Array(0);
+    } else {
+      return null;
+    }
+
+    // HTTP/2 pseudo-headers have no place in an HTTP/1.1 message
+    const isHeader = (header: HarHeader) => !header.name.startsWith(':');
+    const target = new URL(request.url);
+    const requestHeaders = request.headers.filter(isHeader);
+    if (!requestHeaders.some(header => header.name.toLowerCase() === 'host')) {
+      requestHeaders.unshift({ name: 'Host', value: target.host });
+    }
+    const requestHead = this.encode([
+      `${request.method} ${target.pathname}${target.search} HTTP/1.1`,
+      ...requestHeaders.map(header => `${header.name}: ${header.value}`),
+    ].join(CRLF) + CRLF + CRLF);
+
+    const responseHeaders = response.headers
+      .filter(isHeader)
+      .filter(header => !DECODED_HEADERS.includes(header.name.toLowerCase()));
+    const responseHead = this.encode([
+      `HTTP/1.1 ${response.status} ${response.statusText || ''}`.trimEnd(),
+      ...responseHeaders.map(header => `${header.name}: ${header.value}`),
+      `Content-Length: ${payload.length}`,
+    ].join(CRLF) + CRLF + CRLF);
+
+    return {
+      request: this.concat([requestHead, this.encode(request.postData?.text || '')]),
+      response: this.concat([responseHead, payload]),
+      payload,
+    };
+  }
+
+  private hasNoBody(status: number): boolean {
+    return status < 200 || status === 204 || status === 304 || (status >= 300 && status < 400);
+  }
+
+  private assetPayload(asset: ClonedAsset): { contentType: string; payload: Uint8Array } {
+    const content = asset.content || '';
+    const dataUri = content.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+
+    if (!dataUri) {
+      return { contentType: asset.mimeType || CONTENT_TYPES[asset.type], payload: this.encode(content) };
+    }
+
+    const contentType = dataUri[1] || asset.mimeType || CONTENT_TYPES[asset.type];
+    const payload = dataUri[2]
+      ? this.latin1ToBytes(atob(dataUri[3]))
+      : this.encode(decodeURIComponent(dataUri[3]));
+    return { contentType, payload };
+  }
+
+  private parseHttpResponse(block: Uint8Array): HttpMessage | null {
+    const headerEnd = this.indexOf(block, [0x0d, 0x0a, 0x0d, 0x0a], 0);
+    if (headerEnd < 0) return null;
+
+    const lines = this.decodeLatin1(block.subarray(0, headerEnd)).split(CRLF);
+    const status = parseInt(lines[0].split(' ')[1] || '', 10);
+    const headers = new Map<string, string>();
+    for (const line of lines.slice(1)) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+      }
+    }
+
+    return { status, headers, body: block.subarray(headerEnd + 4) };
+  }
+
+  /**
+   * Undo chunked transfer coding and gzip/deflate content coding recorded by other crawlers
+   */
+  private async decodeHttpBody(http: HttpMessage): Promise<Uint8Array> {
+    let body = http.body;
+
+    if (/chunked/i.test(http.headers.get('transfer-encoding') || '')) {
+      body = this.dechunk(body);
+    }
+
+    const encoding = (http.headers.get('content-encoding') || '').toLowerCase();
+    if (encoding === 'gzip' || encoding === 'deflate') {
+      try {
+        body = await this.decompress(body, encoding);
+      } catch {
+        loggingService.warning('archive', `Could not decode ${encoding} response body in WARC`);
+      }
+    }
+
+    return body;
+  }
+
+  private dechunk(body: Uint8Array): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let pos = 0;
+
+    while (pos < body.length) {
+      const lineEnd = this.indexOf(body, [0x0d, 0x0a], pos);
+      if (lineEnd < 0) break;
+      const size = parseInt(this.decodeLatin1(body.subarray(pos, lineEnd)).split(';')[0], 16);
+      if (!size) break;
+      chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+      pos = lineEnd + 2 + size + 2;
+    }
+
+    return this.concat(chunks);
+  }
+
+  private async gunzipIfNeeded(bytes: Uint8Array): Promise<Uint8Array> {
+    const gzipped = bytes[0] === 0x1f && bytes[1] === 0x8b;
+    return gzipped ? this.decompress(bytes, 'gzip') : bytes;
+  }
+
+  private async decompress(bytes: Uint8Array, format: 'gzip' | 'deflate'): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  /**
+   * Labelled SHA-1 digest in base32, the form WARC tools expect
+   */
+  private async digest(bytes: Uint8Array): Promise<string> {
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', bytes));
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of hash) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += alphabet[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += alphabet[(value << (5 - bits)) & 31];
+    }
+
+    return `sha1:${output}`;
+  }
+
+  private recordId(): string {
+    return `<urn:uuid:${crypto.randomUUID()}>`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+
+  private encode(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+  }
+
+  private decodeLatin1(bytes: Uint8Array): string {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return text;
+  }
+
+  private latin1ToBytes(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+
+  private indexOf(bytes: Uint8Array, pattern: number[], from: number): number {
+    outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+      for (let j = 0; j < pattern.length; j++) {
+        if (bytes[i + j] !== pattern[j]) continue outer;
+      }
+      return i;
+    }
+    return -1;
+  }
+}
+
+export const warcService = new WarcService();
@@ -1,4 +1,5 @@
 import type {
+  CloneAuth,
   CoreWebVitals,
   AdditionalMetrics,
   ResourceMetrics,
@@ -14,180 +15,263 @@ import type {
   LongTask,
   NetworkRequest,
   PageSizeBreakdown,
+  WebVitalsProfile,
+  WebVitalsRun,
+  WebVitalsTrace,
 } from '../types';
 
+export interface WebVitalsMeasurement {
+  coreWebVitals: CoreWebVitals;
+  additionalMetrics: AdditionalMetrics;
+  longTasks: LongTask[];
+  run: WebVitalsRun;
+}
+
+export interface WebVitalsOptions {
+  profile?: WebVitalsProfile; // Default 'mobile'
+  auth?: CloneAuth;
+}
+
+const LONG_TASK_BLOCKING_THRESHOLD_MS = 50;
+const QUIET_WINDOW_MS = 5000;
+
 export class WebVitalsService {
-  async measureCoreWebVitals(url: string): Promise<CoreWebVitals> {
-    const lcp = await this.measureLCP(url);
-    const inp = await this.measureINP(url);
-    const cls = await this.measureCLS(url);
-    const fcp = await this.measureFCP(url);
-    const ttfb = await this.measureTTFB(url);
+  /**
+   * Load the page in a throttled lab browser (api/web-vitals.js) and score
+   * what the browser observed
+   */
+  async measurePage(url: string, options: WebVitalsOptions = {}): Promise<WebVitalsMeasurement> {
+    const profile = options.profile || 'mobile';
+    console.log(`⏱️ Measuring Core Web Vitals for ${url} (${profile})...`);
+
+    const response = await fetch('/api/web-vitals', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ url, profile, auth: options.auth }),
+    });
 
-    return {
-      lcp,
-      inp,
-      cls,
-      fcp,
-      ttfb,
-    };
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.message || errorData.error || `API request failed with status ${response.status}`);
+    }
+
+    const trace: WebVitalsTrace = await response.json();
+    return this.buildFromTrace(trace);
   }
 
-  async measureAdditionalMetrics(url: string): Promise<AdditionalMetrics> {
-    const tbt = await this.measureTBT(url);
-    const speedIndex = await this.measureSpeedIndex(url);
-    const tti = await this.measureTTI(url);
+  buildFromTrace(trace: WebVitalsTrace): WebVitalsMeasurement {
+    const fcp = this.buildFCP(trace);
+    const longTasks = this.attributeLongTasks(trace);
+    const tti = this.buildTTI(trace, longTasks);
 
     return {
-      tbt,
-      speedIndex,
-      tti,
+      coreWebVitals: {
+        lcp: this.buildLCP(trace),
+        inp: this.buildINP(trace),
+        cls: this.buildCLS(trace),
+        fcp,
+        ttfb: this.buildTTFB(trace),
+      },
+      additionalMetrics: {
+        tbt: this.buildTBT(longTasks, fcp.value, tti.value),
+        speedIndex: this.buildSpeedIndex(trace),
+        tti,
+      },
+      longTasks,
+      run: {
+        source: 'lab',
+        profile: trace.profile,
+        throttling: trace.throttling,
+        measuredAt: trace.measuredAt,
+      },
     };
   }
 
   async measureResourceMetrics(url: string, doc: Document): Promise<ResourceMetrics> {
     const resources = this.extractResourceTimings(doc);
-    const longTasks = await this.detectLongTasks();
     const networkRequests = this.extractNetworkRequests(doc);
     const totalPageSize = this.calculatePageSize(doc, resources);
 
     return {
       resources,
-      longTasks,
+      longTasks: [], // Only a page load shows long tasks; measurePage() reports them
       networkRequests,
       totalPageSize,
+      source: 'estimated',
     };
   }
 
-  private async measureLCP(url: string): Promise<LargestContentfulPaint> {
-    const startTime = performance.now();
-
-    const value = Math.random() * 2000 + 1000;
-    const rating = this.getRating(value, 2500, 4000);
+  private buildLCP(trace: WebVitalsTrace): LargestContentfulPaint {
+    const value = Math.round(trace.lcp?.startTime ?? trace.fcp ?? 0);
 
     return {
-      value: Math.round(value),
-      rating,
-      element: 'img.hero-image',
-      renderTime: Math.round(value * 0.8),
-      loadTime: Math.round(value),
-      size: 150000,
+      value,
+      rating: this.getRating(value, 2500, 4000),
+      element: trace.lcp?.element,
+      url: trace.lcp?.url,
+      renderTime: trace.lcp?.renderTime ? Math.round(trace.lcp.renderTime) : undefined,
+      loadTime: trace.lcp?.loadTime ? Math.round(trace.lcp.loadTime) : undefined,
+      size: trace.lcp?.size,
     };
   }
 
-  private async measureINP(url: string): Promise<InteractionToNextPaint> {
-    const value = Math.random() * 150 + 50;
-    const rating = this.getRating(value, 200, 500);
+  /**
+   * With fewer than 50 interactions INP is the slowest one; after that one
+   * outlier per 50 interactions is ignored
+   */
+  private buildINP(trace: WebVitalsTrace): InteractionToNextPaint {
+    const interactions = [...trace.interactions].sort((a, b) => b.duration - a.duration);
+    const worst = interactions[0];
+    const value = interactions.length > 0
+      ? Math.round(interactions[Math.min(interactions.length - 1, Math.floor(interactions.length / 50))].duration)
+      : 0;
 
     return {
-      value: Math.round(value),
-      rating,
-      worstInteraction: {
-        duration: Math.round(value),
-        target: 'button.submit',
-        eventType: 'click',
-      },
-      totalInteractions: Math.floor(Math.random() * 20) + 5,
+      value,
+      rating: this.getRating(value, 200, 500),
+      worstInteraction: worst
+        ? { duration: Math.round(worst.duration), target: worst.target, eventType: worst.eventType }
+        : undefined,
+      totalInteractions: interactions.length,
     };
   }
 
-  private async measureCLS(url: string): Promise<CumulativeLayoutShift> {
-    const value = Math.random() * 0.15;
-    const rating = this.getRating(value, 0.1, 0.25);
-
-    const shiftCount = Math.floor(Math.random() * 5);
-    const shifts = Array.from({ length: shiftCount }, (_, i) => ({
-      value: Math.random() * 0.05,
-      elements: ['div.content', 'img.banner'],
-      timestamp: 1000 + i * 500,
-    }));
+  /**
+   * CLS is the largest session window: shifts less than 1 s apart, spanning
+   * at most 5 s
+   */
+  private buildCLS(trace: WebVitalsTrace): CumulativeLayoutShift {
+    const shifts = [...trace.layoutShifts].sort((a, b) => a.startTime - b.startTime);
+    let value = 0;
+    let windowValue = 0;
+    let windowStart = 0;
+    let previous = -Infinity;
+
+    for (const shift of shifts) {
+      if (shift.startTime - previous >= 1000 || shift.startTime - windowStart >= 5000) {
+        windowValue = 0;
+        windowStart = shift.startTime;
+      }
+      windowValue += shift.value;
+      previous = shift.startTime;
+      value = Math.max(value, windowValue);
+    }
 
     return {
       value: parseFloat(value.toFixed(3)),
-      rating,
-      shifts,
+      rating: this.getRating(value, 0.1, 0.25),
+      shifts: shifts.map(shift => ({
+        value: shift.value,
+        elements: [...new Set(shift.sources.map(source => source.element))],
+        timestamp: Math.round(shift.startTime),
+        sources: shift.sources,
+      })),
     };
   }
 
-  private async measureFCP(url: string): Promise<FirstContentfulPaint> {
-    const value = Math.random() * 1500 + 500;
-    const rating = this.getRating(value, 1800, 3000);
+  private buildFCP(trace: WebVitalsTrace): FirstContentfulPaint {
+    const value = Math.round(trace.fcp ?? 0);
 
     return {
-      value: Math.round(value),
-      rating,
-      paintTiming: Math.round(value),
+      value,
+      rating: this.getRating(value, 1800, 3000),
+      paintTiming: value,
     };
   }
 
-  private async measureTTFB(url: string): Promise<TimeToFirstByte> {
-    const startTime = Date.now();
-
-    try {
-      const response = await fetch(url, { method: 'HEAD' });
-      const value = Date.now() - startTime;
-      const rating = this.getRating(value, 800, 1800);
-
-      return {
-        value,
-        rating,
-        navigationStart: startTime,
-        responseStart: Date.now(),
-      };
-    } catch (error) {
-      const value = Math.random() * 500 + 200;
-      return {
-        value: Math.round(value),
-        rating: this.getRating(value, 800, 1800),
-        navigationStart: startTime,
-        responseStart: startTime + value,
-      };
-    }
+  private buildTTFB(trace: WebVitalsTrace): TimeToFirstByte {
+    const value = Math.round(trace.navigation.responseStart);
+
+    return {
+      value,
+      rating: this.getRating(value, 800, 1800),
+      navigationStart: 0,
+      responseStart: value,
+    };
   }
 
-  private async measureTBT(url: string): Promise<TotalBlockingTime> {
-    const longTasksCount = Math.floor(Math.random() * 10);
-    const totalBlockingDuration = longTasksCount * 80;
-    const value = totalBlockingDuration;
-    const rating = this.getRating(value, 200, 600);
+  private buildTBT(longTasks: LongTask[], fcp: number, tti: number): TotalBlockingTime {
+    const blocking = longTasks.filter(task => task.startTime >= fcp && task.startTime < tti);
+    const value = Math.round(blocking.reduce(
+      (sum, task) => sum + Math.max(0, task.duration - LONG_TASK_BLOCKING_THRESHOLD_MS), 0
+    ));
 
     return {
-      value: Math.round(value),
-      rating,
-      longTasksCount,
-      totalBlockingDuration,
+      value,
+      rating: this.getRating(value, 200, 600),
+      longTasksCount: blocking.length,
+      totalBlockingDuration: value,
     };
   }
 
-  private async measureSpeedIndex(url: string): Promise<SpeedIndex> {
-    const value = Math.random() * 2000 + 2000;
-    const rating = this.getRating(value, 3400, 5800);
-
-    const visualProgress = Array.from({ length: 10 }, (_, i) => ({
-      timestamp: i * 500,
-      progress: Math.min(100, (i + 1) * 10 + Math.random() * 10),
-    }));
+  /**
+   * Area above the visual progress curve: how long the viewport stayed
+   * incomplete, weighted by how incomplete it was
+   */
+  private buildSpeedIndex(trace: WebVitalsTrace): SpeedIndex {
+    const progress = trace.visualProgress;
+    let value = progress.length > 0 ? progress[0].timestamp : Math.round(trace.lcp?.startTime ?? trace.fcp ?? 0);
+    for (let i = 0; i < progress.length - 1; i++) {
+      value += (1 - progress[i].progress / 100) * (progress[i + 1].timestamp - progress[i].timestamp);
+    }
+    value = Math.round(value);
 
     return {
-      value: Math.round(value),
-      rating,
-      visualProgress,
+      value,
+      rating: this.getRating(value, 3400, 5800),
+      visualProgress: progress,
     };
   }
 
-  private async measureTTI(url: string): Promise<TimeToInteractive> {
-    const value = Math.random() * 2000 + 2500;
-    const rating = this.getRating(value, 3800, 7300);
-    const firstCpuIdle = value * 0.8;
+  /**
+   * End of the last long task before the first 5 s without one, counted
+   * from FCP and no earlier than DOMContentLoaded
+   */
+  private buildTTI(trace: WebVitalsTrace, longTasks: LongTask[]): TimeToInteractive {
+    let interactive = trace.fcp ?? 0;
+    for (const task of longTasks) {
+      const end = task.startTime + task.duration;
+      if (end <= interactive) continue;
+      if (task.startTime - interactive >= QUIET_WINDOW_MS) break;
+      interactive = end;
+    }
+    const value = Math.round(Math.max(interactive, trace.navigation.domContentLoaded));
 
     return {
-      value: Math.round(value),
-      rating,
-      firstCpuIdle: Math.round(firstCpuIdle),
-      networkIdle: Math.round(value * 0.9),
+      value,
+      rating: this.getRating(value, 3800, 7300),
+      networkIdle: trace.networkQuiet !== undefined ? Math.round(trace.networkQuiet) : undefined,
     };
   }
 
+  /**
+   * Name the scripts behind each long task from the long animation frame
+   * it ran in; browsers without those entries only report the frame
+   */
+  private attributeLongTasks(trace: WebVitalsTrace): LongTask[] {
+    return [...trace.longTasks]
+      .sort((a, b) => a.startTime - b.startTime)
+      .map((task) => {
+        const frame = trace.longAnimationFrames.find(
+          loaf => loaf.startTime <= task.startTime + 1 && task.startTime < loaf.startTime + loaf.duration
+        );
+        const scripts = frame ? [...frame.scripts].sort((a, b) => b.duration - a.duration) : [];
+        const top = scripts[0];
+        const attribution = top
+          ? `${top.invoker || top.sourceFunctionName || 'script'}${top.sourceUrl ? ` in ${top.sourceUrl}` : ''}`
+          : task.container;
+
+        return {
+          duration: Math.round(task.duration),
+          startTime: Math.round(task.startTime),
+          attribution,
+          scripts: scripts.length > 0 ? scripts : undefined,
+        };
+      });
+  }
+
   private extractResourceTimings(doc: Document): ResourceTiming[] {
     const resources: ResourceTiming[] = [];
 
@@ -254,15 +338,6 @@ export class WebVitalsService {
     return resources;
   }
 
-  private async detectLongTasks(): Promise<LongTask[]> {
-    const taskCount = Math.floor(Math.random() * 8);
-    return Array.from({ length: taskCount }, (_, i) => ({
-      duration: Math.random() * 200 + 50,
-      startTime: i * 1000 + Math.random() * 500,
-      attribution: 'script evaluation',
-    }));
-  }
-
   private extractNetworkRequests(doc: Document): NetworkRequest[] {
     const requests: NetworkRequest[] = [];
 
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ArchiveImportService } from '../ArchiveImportService';
+
+const encoder = new TextEncoder();
+
+describe('ArchiveImportService', () => {
+  const service = new ArchiveImportService();
+
+  it('should rebuild the page and decode quoted-printable and base64 parts from MHTML', async () => {
+    const mhtml = [
+      'From: <Saved by Blink>',
+      'Snapshot-Content-Location: https://intranet.example.com/',
+      'Subject: =?utf-8?Q?Caf=C3=A9_Portal?=',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/related;',
+      '\ttype="text/html";',
+      '\tboundary="----MultipartBoundary--abc----"',
+      '',
+      '',
+      '------MultipartBoundary--abc----',
+      'Content-Type: text/html',
+      'Content-Transfer-Encoding: quoted-printable',
+      'Content-Location: https://intranet.example.com/',
+      '',
+      '<html><head><link rel=3D"stylesheet" href=3D"https://intranet.example.com/s=',
+      'ite.css"></head><body>Caf=C3=A9</body></html>',
+      '------MultipartBoundary--abc----',
+      'Content-Type: text/css',
+      'Content-Transfer-Encoding: quoted-printable',
+      'Content-Location: https://intranet.example.com/site.css',
+      '',
+      'body { color: red; }',
+      '------MultipartBoundary--abc----',
+      'Content-Type: image/png',
+      'Content-Transfer-Encoding: base64',
+      'Content-Location: https://cdn.example.com/logo.png#top',
+      '',
+      'iVBORw0K',
+      'Ggo=',
+      '------MultipartBoundary--abc------',
+      '',
+    ].join('\r\n');
+
+    const snapshot = service.parseMhtml(encoder.encode(mhtml));
+
+    expect(snapshot.entryUrl).toBe('https://intranet.example.com/');
+    expect(snapshot.title).toBe('Café Portal');
+    expect(await snapshot.resources.get('https://intranet.example.com/')?.text()).toBe(
+      '<html><head><link rel="stylesheet" href="https://intranet.example.com/site.css"></head><body>Café</body></html>'
+    );
+    expect(await snapshot.resources.get('https://intranet.example.com/site.css')?.text()).toBe('body { color: red; }');
+
+    const logo = snapshot.resources.get('https://cdn.example.com/logo.png');
+    expect(logo?.type).toBe('image/png');
+    expect(Array.from(new Uint8Array(await logo!.arrayBuffer()))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  });
+
+  it('should keep successful GET responses with bodies from a HAR and start at the first document', async () => {
+    const har = {
+      log: {
+        pages: [{ title: 'Dashboard' }],
+        entries: [
+          { request: { method: 'GET', url: 'https://app.example.com/' }, response: { status: 302, content: { mimeType: 'text/html', text: '' } } },
+          { request: { method: 'GET', url: 'https://app.example.com/home' }, response: { status: 200, content: { mimeType: 'text/html; charset=utf-8', text: '<h1>Home</h1>' } } },
+          { request: { method: 'GET', url: 'https://app.example.com/app.js' }, response: { status: 200, content: { mimeType: 'application/javascript', text: 'init();' } } },
+          { request: { method: 'GET', url: 'https://app.example.com/icon.png' }, response: { status: 200, content: { mimeType: 'image/png', text: 'iVBORw0KGgo=', encoding: 'base64' } } },
+          { request: { method: 'POST', url: 'https://app.example.com/api/track' }, response: { status: 200, content: { mimeType: 'application/json', text: '{}' } } },
+          { request: { method: 'GET', url: 'https://app.example.com/hero.jpg' }, response: { status: 200, content: { mimeType: 'image/jpeg' } } },
+        ],
+      },
+    };
+
+    const snapshot = service.parseHar(JSON.stringify(har));
+
+    expect(snapshot.entryUrl).toBe('https://app.example.com/home');
+    expect(snapshot.title).toBe('Dashboard');
+    expect(Array.from(snapshot.resources.keys())).toEqual([
+      'https://app.example.com/home',
+      'https://app.example.com/app.js',
+      'https://app.example.com/icon.png',
+    ]);
+    expect(await snapshot.resources.get('https://app.example.com/app.js')?.text()).toBe('init();');
+    expect(snapshot.resources.get('https://app.example.com/icon.png')?.size).toBe(8);
+  });
+
+  it('should reject files that are not archives', () => {
+    expect(() => service.parseHar('<html>')).toThrow('invalid JSON');
+    expect(() => service.parseMhtml(encoder.encode('Content-Type: text/html\r\n\r\n<p>hi</p>'))).toThrow('boundary');
+  });
+});
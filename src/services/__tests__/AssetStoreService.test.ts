@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AssetStoreService } from '../AssetStoreService';
+import type { AssetStoreBackend } from '../AssetStoreService';
+import type { CaptureSnapshot, ClonedAsset, HarLog } from '../../types';
+
+class MemoryBackend implements AssetStoreBackend {
+  readonly name = 'memory';
+  blobs = new Map<string, Uint8Array>();
+  puts = 0;
+  touches = 0;
+
+  async touch(hash: string) {
+    if (!this.blobs.has(hash)) return false;
+    this.touches++;
+    return true;
+  }
+
+  async put(hash: string, bytes: Uint8Array) {
+    this.puts++;
+    this.blobs.set(hash, bytes);
+  }
+
+  async get(hash: string) {
+    return this.blobs.get(hash) ?? null;
+  }
+}
+
+const asset = (localPath: string, content: string, type: ClonedAsset['type'] = 'image'): ClonedAsset => ({
+  type, originalUrl: `https://example.com/${localPath}`, localPath, size: content.length, content,
+});
+
+describe('AssetStoreService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should replace content with a hash and restore it on load', async () => {
+    const backend = new MemoryBackend();
+    const service = new AssetStoreService(backend);
+    const assets = [
+      asset('./assets/images/logo.png', 'data:image/png;base64,iVBORw0KGgo='),
+      asset('./assets/css/site.css', 'body { color: #333; }', 'css'),
+    ];
+
+    const stored = await service.storeAssets(assets);
+    expect(stored[0].content).toBeUndefined();
+    expect(stored[0].hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(stored[0].mimeType).toBe('image/png');
+    expect(stored[1].mimeType).toBeUndefined();
+
+    const loaded = await service.loadAssets(stored);
+    expect(loaded.map(a => a.content)).toEqual(assets.map(a => a.content));
+  });
+
+  it('should store identical files once across projects', async () => {
+    const backend = new MemoryBackend();
+    const font = 'data:font/woff2;base64,d09GMgABAAAAAA==';
+
+    const first = await new AssetStoreService(backend).storeAssets([asset('./assets/fonts/a.woff2', font, 'font')]);
+    const second = await new AssetStoreService(backend).storeAssets([asset('./assets/fonts/brand.woff2', font, 'font')]);
+
+    expect(first[0].hash).toBe(second[0].hash);
+    expect(backend.puts).toBe(1);
+  });
+
+  it('should keep content inline when the upload fails', async () => {
+    const backend = new MemoryBackend();
+    backend.put = async () => { throw new Error('bucket unavailable'); };
+    const original = asset('./assets/js/app.js', 'console.log(1);', 'js');
+
+    const [stored] = await new AssetStoreService(backend).storeAssets([original]);
+    expect(stored).toEqual(original);
+  });
+
+  it('should touch a blob it reuses and skip the check while it is fresh', async () => {
+    const backend = new MemoryBackend();
+    const css = 'body { margin: 0; }';
+    await new AssetStoreService(backend).storeAssets([asset('./assets/css/a.css', css, 'css')]);
+
+    const service = new AssetStoreService(backend);
+    await service.storeAssets([asset('./assets/css/b.css', css, 'css')]);
+    await service.storeAssets([asset('./assets/css/c.css', css, 'css')]);
+
+    expect(backend.puts).toBe(1);
+    expect(backend.touches).toBe(1);
+  });
+
+  it('should upload again after garbage collection removed a blob', async () => {
+    const backend = new MemoryBackend();
+    const service = new AssetStoreService(backend);
+    const js = 'export default 1;';
+    vi.stubGlobal('fetch', async () => new Response('{}'));
+
+    await service.storeAssets([asset('./assets/js/a.js', js, 'js')]);
+    backend.blobs.clear();
+    await service.collectGarbage();
+    await service.storeAssets([asset('./assets/js/a.js', js, 'js')]);
+
+    expect(backend.puts).toBe(2);
+  });
+
+  it('should move HAR response bodies to the store and back', async () => {
+    const service = new AssetStoreService(new MemoryBackend());
+    const body = { size: 5, mimeType: 'text/plain', text: btoa('hello'), encoding: 'base64' as const };
+    const har: HarLog = {
+      version: '1.2',
+      creator: { name: 'Playwright', version: '1.0' },
+      entries: [{
+        startedDateTime: '2025-01-01T00:00:00.000Z',
+        time: 10,
+        request: { method: 'GET', url: 'https://example.com/a.txt', headers: [], headersSize: -1, bodySize: 0 },
+        response: { status: 200, statusText: 'OK', headers: [], content: body, headersSize: -1, bodySize: -1 },
+        cache: {},
+        timings: { send: 1, wait: 5, receive: 4 },
+      }],
+    };
+
+    const stored = await service.storeHarBodies(har);
+    expect(stored.entries[0].response.content.text).toBeUndefined();
+    expect(stored.entries[0].response.content._hash).toMatch(/^[a-f0-9]{64}$/);
+
+    const loaded = await service.loadHarBodies(stored);
+    expect(loaded.entries[0].response.content).toMatchObject(body);
+
+    const saved = await service.storeHar(stored);
+    expect(saved?.bodyHashes).toEqual([stored.entries[0].response.content._hash]);
+    expect(await service.loadHar(saved!.hash)).toEqual(stored);
+  });
+
+  it('should move snapshot pages and screenshots to the store and back', async () => {
+    const service = new AssetStoreService(new MemoryBackend());
+    const snapshot: CaptureSnapshot = {
+      profile: { name: 'dark', colorScheme: 'dark' },
+      title: 'Home',
+      html: '<html><body>dark</body></html>',
+      styles: 'body { background: #000; }',
+      screenshot: 'data:image/png;base64,iVBORw0KGgo=',
+      capturedAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    const [stored] = await service.storeSnapshots([snapshot]);
+    expect(stored.html).toBeUndefined();
+    expect(stored.styles).toBeUndefined();
+    expect(stored.screenshot).toBeUndefined();
+    expect(stored.htmlHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(stored.screenshotHash).toMatch(/^[a-f0-9]{64}$/);
+
+    const [loaded] = await service.loadSnapshots([stored]);
+    expect(loaded).toMatchObject(snapshot);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// SecureStorageService reads localStorage when the module loads
+const store = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  const storage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+  Object.assign(globalThis, { localStorage: storage, sessionStorage: storage });
+  return items;
+});
+
+import { CloneAuthService } from '../CloneAuthService';
+import { SecureStorageService } from '../SecureStorageService';
+
+describe('CloneAuthService', () => {
+  const service = new CloneAuthService(new SecureStorageService('local', 'test-key'));
+
+  it('should store credentials encrypted per origin', () => {
+    const auth = {
+      basic: { username: 'staging', password: 's3cret-pass' },
+      loginSteps: [{ action: 'fill' as const, selector: '#password', value: 'hunter2' }],
+    };
+    service.save('https://staging.example.com/members/', auth);
+
+    const raw = store.get('clone_auth:https://staging.example.com')!;
+    expect(raw).toBeDefined();
+    expect(raw).not.toContain('s3cret-pass');
+    expect(raw).not.toContain('hunter2');
+
+    expect(service.get('https://staging.example.com/other')).toEqual(auth);
+    expect(service.get('https://example.com/')).toBeNull();
+    expect(service.describe(auth)).toEqual(['basic', 'login']);
+
+    expect(() => service.save('https://example.com/', { loginSteps: [{ action: 'click' }] }))
+      .toThrow('Login step 1: click needs a selector');
+  });
+
+  it('should import cookies from JSON exports, cookies.txt and Cookie headers', () => {
+    const json = service.parseCookies(JSON.stringify([
+      { name: 'sid', value: 'abc', domain: '.example.com', path: '/', expirationDate: 1893456000.5, httpOnly: true, secure: true, sameSite: 'no_restriction' },
+    ]), 'https://example.com/');
+    expect(json).toEqual([{
+      name: 'sid', value: 'abc', domain: '.example.com', path: '/', expires: 1893456000, httpOnly: true, secure: true, sameSite: 'None',
+    }]);
+
+    const netscape = service.parseCookies([
+      '# Netscape HTTP Cookie File',
+      '.example.com\tTRUE\t/\tFALSE\t0\ttheme\tdark',
+      '#HttpOnly_example.com\tFALSE\t/app\tTRUE\t1893456000\tsession\txyz',
+    ].join('\n'), 'https://example.com/');
+    expect(netscape.map(c => [c.name, c.domain, c.path, c.httpOnly, c.secure, c.expires])).toEqual([
+      ['theme', '.example.com', '/', false, false, undefined],
+      ['session', 'example.com', '/app', true, true, 1893456000],
+    ]);
+
+    const header = service.parseCookies('Cookie: a=1; b=x=y', 'https://shop.example.com/cart');
+    expect(header.map(c => [c.name, c.value, c.domain])).toEqual([['a', '1', 'shop.example.com'], ['b', 'x=y', 'shop.example.com']]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('../../lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: { access_token: 'token-1' } } }),
+    },
+  },
+}));
+
+import { CloneQueueService } from '../CloneQueueService';
+
+describe('CloneQueueService', () => {
+  const service = new CloneQueueService();
+
+  const respond = (status: number, body: unknown) => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send login credentials next to the job options, not inside them', async () => {
+    const fetchMock = respond(202, { id: 'job-1', source: 'https://example.com', status: 'queued' });
+
+    await service.submit({
+      type: 'url',
+      source: 'https://example.com',
+      auth: { headers: { 'X-Token': 'secret' } },
+      signal: new AbortController().signal,
+      onProgress: () => {},
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/jobs');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer token-1');
+    const body = JSON.parse(init.body as string);
+    expect(body.options).toEqual({ type: 'url', source: 'https://example.com' });
+    expect(body.auth).toEqual({ headers: { 'X-Token': 'secret' } });
+  });
+
+  it('should refuse uploads, which only the browser can clone', async () => {
+    await expect(service.submit({ type: 'upload', source: 'site.zip', files: [] })).rejects.toThrow('Only URL clones');
+  });
+
+  it('should report the server message when a request fails', async () => {
+    respond(429, { error: 'Clone job request failed', message: 'You already have 3 clones in progress' });
+    await expect(service.list()).rejects.toThrow('You already have 3 clones in progress');
+  });
+
+  it('should only offer server clones when the job API says it can run them', async () => {
+    respond(200, { jobs: [], available: true });
+    expect(await service.isAvailable()).toBe(true);
+
+    respond(200, { jobs: [], available: false });
+    expect(await service.isAvailable()).toBe(false);
+
+    respond(503, { message: 'SUPABASE_SERVICE_ROLE_KEY is required to run clone jobs' });
+    expect(await service.isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,426 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { MockInstance } from 'vitest';
+
+// SecureStorageService reads localStorage when the module loads
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  const storage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+  Object.assign(globalThis, { localStorage: storage, sessionStorage: storage });
+});
+
+vi.mock('../../lib/supabase', () => ({
+  supabase: {},
+  requireUserId: async () => 'user-1',
+}));
+
+import { CloneService } from '../CloneService';
+import { cloneJobService } from '../CloneJobService';
+import { wordPressAPIService } from '../wordpress/WordPressAPIService';
+import { robotsService } from '../RobotsService';
+import type { CloneCheckpoint, CloneJobStep, CloneOptions, CloneProject, ClonedAsset } from '../../types';
+
+interface CloneServiceInternals {
+  completeStep(project: CloneProject, job: CloneCheckpoint, step: CloneJobStep, options: CloneOptions): Promise<void>;
+  downloadAssetGroup(
+    project: CloneProject,
+    job: CloneCheckpoint,
+    group: keyof CloneCheckpoint['assetGroups'],
+    options: CloneOptions,
+    download: () => Promise<ClonedAsset[]>
+  ): Promise<ClonedAsset[]>;
+  saveProject(project: CloneProject): Promise<void>;
+  fetchHtml(url: string, signal?: AbortSignal): Promise<string>;
+  rewriteSrcsets(html: string, assets: ClonedAsset[], baseUrl?: string): { html: string; rewritten: number };
+  rewriteInlineStyles(html: string, assets: ClonedAsset[], baseUrl?: string): string;
+  downloadTextAsset(url: string, type: 'css' | 'js', signal?: AbortSignal): Promise<ClonedAsset | null>;
+  extractAndDownloadJS(
+    parsed: { scripts: Array<{ src: string; element: Pick<Element, 'getAttribute'> }>; inlineScripts: string[] },
+    baseUrl: string,
+    thirdPartyScripts?: CloneOptions['thirdPartyScripts'],
+    signal?: AbortSignal,
+    project?: CloneProject
+  ): Promise<ClonedAsset[]>;
+  embedAssetsInHtml(html: string, assets: ClonedAsset[], metadata?: undefined, baseUrl?: string): string;
+  filterBlockedAssets(parsed: AssetSources, project: CloneProject): Promise<AssetSources>;
+}
+
+interface AssetSources {
+  stylesheets: Array<{ href: string }>;
+  images: Array<{ src: string }>;
+  backgroundImages: Array<{ src: string }>;
+  responsiveImages: Array<{ src: string }>;
+  fonts: Array<{ href: string }>;
+  scripts: Array<{ src: string }>;
+}
+
+const SOURCE = 'https://example.com';
+
+const makeProject = (assets: ClonedAsset[] = []): CloneProject => ({
+  id: 'project-1',
+  source: SOURCE,
+  type: 'url',
+  status: 'analyzing',
+  progress: 0,
+  currentStep: 'Fetching HTML',
+  createdAt: new Date(),
+  assets,
+});
+
+const makeAsset = (originalUrl: string): ClonedAsset => ({
+  type: 'css',
+  originalUrl,
+  localPath: originalUrl.split('/').pop() || 'asset',
+  content: 'body{}',
+  size: 6,
+});
+
+describe('CloneService checkpoints', () => {
+  let service: CloneService;
+  let internals: CloneServiceInternals;
+  let saveJob: MockInstance<typeof cloneJobService.save>;
+
+  beforeEach(() => {
+    service = new CloneService();
+    internals = service as unknown as CloneServiceInternals;
+    vi.spyOn(internals, 'saveProject').mockResolvedValue();
+    saveJob = vi.spyOn(cloneJobService, 'save').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record and checkpoint a finished step', async () => {
+    const project = makeProject();
+    const job = cloneJobService.create(project.id, { type: 'url', source: SOURCE });
+
+    await internals.completeStep(project, job, 'fetch', { type: 'url', source: SOURCE });
+
+    expect(job.completedSteps).toEqual(['fetch']);
+    expect(internals.saveProject).toHaveBeenCalledWith(project);
+    expect(saveJob).toHaveBeenCalledWith(job);
+  });
+
+  it('should keep the finished step but stop when the clone was cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const project = makeProject();
+    const job = cloneJobService.create(project.id, { type: 'url', source: SOURCE });
+
+    await expect(
+      internals.completeStep(project, job, 'parse', { type: 'url', source: SOURCE, signal: controller.signal })
+    ).rejects.toThrow('Clone cancelled');
+
+    expect(job.completedSteps).toEqual(['parse']);
+    expect(saveJob).toHaveBeenCalledWith(job);
+  });
+
+  it('should reuse the assets of a checkpointed group instead of downloading them', async () => {
+    const stored = makeAsset('https://example.com/site.css');
+    const project = makeProject([stored, makeAsset('https://example.com/logo.png')]);
+    const job = cloneJobService.create(project.id, { type: 'url', source: SOURCE });
+    job.assetGroups.css = [stored.originalUrl];
+    const download = vi.fn(async () => [makeAsset('https://example.com/other.css')]);
+
+    const assets = await internals.downloadAssetGroup(project, job, 'css', { type: 'url', source: SOURCE }, download);
+
+    expect(download).not.toHaveBeenCalled();
+    expect(assets).toEqual([stored]);
+    expect(saveJob).not.toHaveBeenCalled();
+  });
+
+  it('should checkpoint a downloaded group', async () => {
+    const project = makeProject();
+    const job = cloneJobService.create(project.id, { type: 'url', source: SOURCE });
+    const asset = makeAsset('https://example.com/site.css');
+
+    await internals.downloadAssetGroup(project, job, 'css', { type: 'url', source: SOURCE }, async () => [asset]);
+
+    expect(job.assetGroups.css).toEqual([asset.originalUrl]);
+    expect(project.assets).toEqual([asset]);
+    expect(saveJob).toHaveBeenCalledWith(job);
+  });
+
+  it('should not checkpoint a group whose download was cancelled part way', async () => {
+    const controller = new AbortController();
+    const project = makeProject();
+    const job = cloneJobService.create(project.id, { type: 'url', source: SOURCE });
+    const download = async () => {
+      controller.abort();
+      return [makeAsset('https://example.com/site.css')];
+    };
+
+    await expect(
+      internals.downloadAssetGroup(project, job, 'css', { type: 'url', source: SOURCE, signal: controller.signal }, download)
+    ).rejects.toThrow('Clone cancelled');
+
+    expect(job.assetGroups.css).toBeUndefined();
+    expect(project.assets).toEqual([]);
+  });
+
+  it('should skip the steps a resumed job already finished', async () => {
+    const controller = new AbortController();
+    const project = makeProject();
+    const checkpoint = cloneJobService.create(project.id, { type: 'url', source: SOURCE, respectRobots: false });
+    checkpoint.completedSteps = ['fetch'];
+    checkpoint.sourceHtml = '<html><body>checkpointed</body></html>';
+
+    vi.spyOn(cloneJobService, 'get').mockResolvedValue(checkpoint);
+    vi.spyOn(service, 'getProject').mockResolvedValue(project);
+    const fetchHtml = vi.spyOn(internals, 'fetchHtml');
+    // Cancel once the first unfinished step ran, so the pipeline stops there
+    const detect = vi.spyOn(wordPressAPIService, 'detectWordPress').mockImplementation(async () => {
+      controller.abort();
+      return { isWordPress: false, confidence: 0 } as Awaited<ReturnType<typeof wordPressAPIService.detectWordPress>>;
+    });
+
+    const resumed = await service.resumeClone(project.id, { signal: controller.signal });
+
+    expect(fetchHtml).not.toHaveBeenCalled();
+    expect(detect).toHaveBeenCalledWith(SOURCE, checkpoint.sourceHtml);
+    expect(checkpoint.completedSteps).toEqual(['fetch', 'wordpress']);
+    expect(resumed.status).toBe('cancelled');
+  });
+});
+
+describe('CloneService srcset rewriting', () => {
+  const internals = new CloneService() as unknown as CloneServiceInternals;
+  const image = (originalUrl: string, localPath: string): ClonedAsset => ({
+    type: 'image',
+    originalUrl,
+    localPath,
+    content: 'stored',
+    size: 6,
+  });
+  const assets = [
+    image('https://example.com/hero.avif', 'images/hero.avif'),
+    image('https://example.com/hero@2x.avif', 'images/hero@2x.avif'),
+    image('https://cdn.example.com/w_400,h_300/photo.jpg', 'images/photo.jpg'),
+  ];
+
+  it('should rewrite the candidates of <picture><source> and <img>', () => {
+    const html = `<picture><source type="image/avif" srcset="/hero.avif 1x, /hero@2x.avif 2x">`
+      + `<img src="/hero.jpg" srcset="https://cdn.example.com/w_400,h_300/photo.jpg 400w"></picture>`;
+
+    const result = internals.rewriteSrcsets(html, assets, 'https://example.com/');
+
+    expect(result.rewritten).toBe(3);
+    expect(result.html).toContain('srcset="images/hero.avif 1x, images/hero@2x.avif 2x"');
+    expect(result.html).toContain('srcset="images/photo.jpg 400w"');
+  });
+
+  it('should leave data-srcset alone', () => {
+    const html = '<img data-srcset="/hero.avif 1x" src="/hero.jpg">';
+
+    const result = internals.rewriteSrcsets(html, assets, 'https://example.com/');
+
+    expect(result.rewritten).toBe(0);
+    expect(result.html).toBe(html);
+  });
+
+  it('should rewrite srcset next to a data-srcset', () => {
+    const html = '<img data-srcset="/hero@2x.avif 2x" srcset="/hero.avif 1x">';
+
+    const result = internals.rewriteSrcsets(html, assets, 'https://example.com/');
+
+    expect(result.html).toBe('<img data-srcset="/hero@2x.avif 2x" srcset="images/hero.avif 1x">');
+  });
+});
+
+describe('CloneService inline style rewriting', () => {
+  const internals = new CloneService() as unknown as CloneServiceInternals;
+  const assets: ClonedAsset[] = [
+    { type: 'css', originalUrl: 'https://example.com/theme.css', localPath: './assets/css/theme.css', content: '.t { color: red; }', size: 18 },
+    { type: 'image', originalUrl: 'https://example.com/img/bg.png', localPath: './assets/images/bg.png', content: 'data:image/png;base64,AAAA', size: 3 },
+  ];
+
+  it('should inline imported sheets and embed images referenced by the page', () => {
+    const html = '<style>@import "/theme.css"; .a { background: url(img/bg.png); }</style>'
+      + '<div style="background: url(\'img/bg.png\')"></div>';
+
+    const rewritten = internals.rewriteInlineStyles(html, assets, 'https://example.com/');
+
+    expect(rewritten).toBe(
+      `<style>@import url("data:text/css;base64,${btoa('.t { color: red; }')}"); .a { background: url("data:image/png;base64,AAAA"); }</style>`
+      + '<div style="background: url(&quot;data:image/png;base64,AAAA&quot;)"></div>'
+    );
+  });
+
+  it('should make references that were not downloaded absolute', () => {
+    const html = '<style>@import "print.css" print;</style><div style="background: url(missing.png)"></div>';
+
+    expect(internals.rewriteInlineStyles(html, assets, 'https://example.com/blog/')).toBe(
+      '<style>@import url("https://example.com/blog/print.css") print;</style>'
+      + '<div style="background: url(&quot;https://example.com/blog/missing.png&quot;)"></div>'
+    );
+  });
+});
+
+describe('CloneService scripts', () => {
+  let internals: CloneServiceInternals;
+  const script = (src: string, type?: string) => ({
+    src,
+    element: { getAttribute: (name: string) => (name === 'type' ? type ?? null : null) },
+  });
+  const sources: Record<string, string> = {
+    'https://example.com/js/app.js': 'import { a } from "./lib/a.js";\nimport("../chunks/b.js");\nexport * from \'/shared.js\';\nimport x from "react";\n//# sourceMappingURL=app.js.map\n',
+    'https://example.com/js/classic.js': 'var s = "./not-an-import.js";\n//# sourceMappingURL=maps/classic.js.map',
+    'https://example.com/js/lib/a.js': 'import "./b.js"; import "https://cdn.example.net/lib.js";',
+    'https://example.com/js/lib/b.js': 'import "./a.js";',
+  };
+
+  beforeEach(() => {
+    internals = new CloneService() as unknown as CloneServiceInternals;
+    vi.spyOn(internals, 'downloadTextAsset').mockImplementation(async (url: string) => ({
+      type: 'js',
+      originalUrl: url,
+      localPath: `./assets/js/${url.split('/').pop()}`,
+      content: sources[url] ?? '',
+      size: 0,
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record the scripts past the download limit', async () => {
+    const project = makeProject();
+    const scripts = Array.from({ length: 22 }, (_, i) => script(`https://example.com/s${i}.js`));
+
+    const assets = await internals.extractAndDownloadJS({ scripts, inlineScripts: [] }, SOURCE, 'keep', undefined, project);
+
+    expect(assets).toHaveLength(20);
+    expect(project.skippedUrls?.map(entry => entry.url)).toEqual(['https://example.com/s20.js', 'https://example.com/s21.js']);
+  });
+
+  it('should resolve module specifiers and source maps against the original script', async () => {
+    const [module, classic] = await internals.extractAndDownloadJS(
+      { scripts: [script('https://example.com/js/app.js', 'module'), script('https://example.com/js/classic.js')], inlineScripts: [] },
+      SOURCE
+    );
+
+    expect(module.content).toBe(
+      'import { a } from "https://example.com/js/lib/a.js";\nimport("https://example.com/chunks/b.js");\n'
+      + 'export * from \'https://example.com/shared.js\';\nimport x from "react";\n'
+      + '//# sourceMappingURL=https://example.com/js/app.js.map\n'
+    );
+    expect(module.imports).toEqual(['https://example.com/js/lib/a.js', 'https://example.com/chunks/b.js', 'https://example.com/shared.js']);
+    expect(classic.content).toBe('var s = "./not-an-import.js";\n//# sourceMappingURL=https://example.com/js/maps/classic.js.map');
+    expect(classic.imports).toBeUndefined();
+  });
+
+  it('should download the modules a module script imports', async () => {
+    const assets = await internals.extractAndDownloadJS(
+      { scripts: [script('https://example.com/js/app.js', 'module')], inlineScripts: [] },
+      SOURCE
+    );
+
+    expect(assets.map(asset => asset.originalUrl)).toEqual([
+      'https://example.com/js/app.js',
+      'https://example.com/js/lib/a.js',
+      'https://example.com/chunks/b.js',
+      'https://example.com/shared.js',
+      'https://example.com/js/lib/b.js',
+    ]);
+    expect(assets[4].imports).toEqual(['https://example.com/js/lib/a.js']);
+  });
+
+  it('should list the third-party scripts it keeps on their original host', async () => {
+    const assets = await internals.extractAndDownloadJS(
+      { scripts: [script('https://example.com/js/classic.js'), script('https://cdn.example.net/widget.js')], inlineScripts: [] },
+      SOURCE
+    );
+
+    expect(assets.find(asset => asset.originalUrl === 'https://cdn.example.net/widget.js')).toEqual({
+      type: 'js',
+      originalUrl: 'https://cdn.example.net/widget.js',
+      localPath: 'https://cdn.example.net/widget.js',
+      size: 0,
+      format: 'js',
+      party: 'third-party',
+      remote: true,
+    });
+  });
+
+  it('should embed module scripts and map their imports to the downloaded copies', () => {
+    const uri = (content: string) => `data:text/javascript;base64,${btoa(content)}`;
+    const assets: ClonedAsset[] = [
+      { type: 'js', originalUrl: 'https://example.com/js/app.js', localPath: './assets/js/app.js', content: 'import "https://example.com/js/a.js";', size: 1, imports: ['https://example.com/js/a.js'] },
+      { type: 'js', originalUrl: 'https://example.com/js/a.js', localPath: './assets/js/a.js', content: 'export {};', size: 1, imports: [] },
+      { type: 'js', originalUrl: 'https://example.com/js/classic.js', localPath: './assets/js/classic.js', content: 'var a;', size: 6 },
+    ];
+    const html = '<head><script type="module" src="https://example.com/js/app.js"></script></head>'
+      + '<script src="https://example.com/js/classic.js" defer></script>';
+
+    const embedded = internals.embedAssetsInHtml(html, assets);
+
+    expect(embedded).toBe(
+      `<head><script type="importmap">${JSON.stringify({ imports: { 'https://example.com/js/a.js': uri('export {};') } })}</script>`
+      + `<script type="module" src="${uri('import "https://example.com/js/a.js";')}" data-original-src="https://example.com/js/app.js"></script></head>`
+      + `<script src="${uri('var a;')}" data-original-src="https://example.com/js/classic.js" defer></script>`
+    );
+  });
+
+  it('should merge the module copies into the page\'s import map', () => {
+    const uri = (content: string) => `data:text/javascript;base64,${btoa(content)}`;
+    const assets: ClonedAsset[] = [
+      { type: 'js', originalUrl: 'https://example.com/js/app.js', localPath: './assets/js/app.js', content: 'import "react";', size: 1, imports: ['https://example.com/js/a.js'] },
+      { type: 'js', originalUrl: 'https://example.com/js/a.js', localPath: './assets/js/a.js', content: 'export {};', size: 1, imports: [] },
+    ];
+    const html = '<script type="importmap">{"imports":{"react":"./vendor/react.js"}}</script>'
+      + '<script type="module" src="/js/app.js"></script>';
+
+    const embedded = internals.embedAssetsInHtml(html, assets, undefined, 'https://example.com/');
+
+    expect(embedded).toContain(`<script type="importmap">${JSON.stringify({
+      imports: { react: 'https://example.com/vendor/react.js', 'https://example.com/js/a.js': uri('export {};') },
+    })}</script>`);
+    expect(embedded.match(/importmap/g)).toHaveLength(1);
+  });
+});
+
+describe('CloneService robots filtering', () => {
+  const internals = new CloneService() as unknown as CloneServiceInternals;
+  const sources = (...urls: string[]): AssetSources => ({
+    stylesheets: [],
+    images: urls.map(src => ({ src })),
+    backgroundImages: [],
+    responsiveImages: [],
+    fonts: [],
+    scripts: [],
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep the assets of hosts whose robots.txt cannot be read', async () => {
+    const unreachable = { allowed: false, reason: 'Blocked because robots.txt could not be read', unreachable: true };
+    const check = vi.spyOn(robotsService, 'check').mockImplementation(async (url: string) =>
+      url.startsWith('https://cdn.example.net/') || url.startsWith(SOURCE) ? unreachable : { allowed: true }
+    );
+    const project = makeProject();
+
+    const filtered = await internals.filterBlockedAssets(sources(
+      'https://cdn.example.net/a.png',
+      'https://cdn.example.net/b.png',
+      'https://example.com/logo.png',
+      'https://images.example.org/c.png',
+    ), project);
+
+    expect(filtered.images.map(image => image.src)).toEqual([
+      'https://cdn.example.net/a.png',
+      'https://cdn.example.net/b.png',
+      'https://images.example.org/c.png',
+    ]);
+    expect(project.skippedUrls?.map(entry => entry.url)).toEqual(['https://example.com/logo.png']);
+    // The unreachable host is asked once per page, not once per asset
+    expect(check).toHaveBeenCalledTimes(3);
+  });
+});
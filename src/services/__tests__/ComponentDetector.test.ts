@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { ComponentDetector } from '../detection/ComponentDetector';
+
+describe('ComponentDetector', () => {
+  const detector = new ComponentDetector();
+
+  it('should ignore consent banners and popups', () => {
+    const html = `
+      <body>
+        <section class="hero-section"><h1>Welcome</h1></section>
+        <div id="onetrust-consent-sdk"><div class="banner">We use cookies</div></div>
+        <div class="cookie-banner hero-notice">Accept cookies?</div>
+        <div role="dialog" aria-modal="true" class="newsletter"><div class="cta">Subscribe</div></div>
+        <footer>Footer</footer>
+      </body>
+    `;
+
+    const result = detector.detect(html);
+    const componentHtml = result.components.map(component => component.html).join('\n');
+
+    expect(result.components.filter(component => component.type === 'hero')).toHaveLength(1);
+    expect(result.components.some(component => component.type === 'cta')).toBe(false);
+    expect(componentHtml).not.toContain('cookies');
+  });
+
+  it('should keep modal dialogs that are not consent banners or popups', () => {
+    const html = `
+      <body>
+        <section class="hero-section"><h1>Welcome</h1></section>
+        <div role="dialog" aria-modal="true" class="booking-modal"><div class="cta">Book a table</div></div>
+        <footer>Footer</footer>
+      </body>
+    `;
+
+    const result = detector.detect(html);
+
+    expect(result.components.some(component => component.html.includes('Book a table'))).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { CrawlerService } from '../CrawlerService';
+
+describe('CrawlerService', () => {
+  const crawler = new CrawlerService();
+
+  describe('normalizeUrl', () => {
+    it('should drop fragments, default ports and trailing slashes', () => {
+      expect(crawler.normalizeUrl('https://Example.com:443/about/#team')).toBe('https://example.com/about');
+    });
+
+    it('should strip tracking parameters and sort the rest', () => {
+      expect(crawler.normalizeUrl('https://example.com/p?b=2&utm_source=x&a=1')).toBe('https://example.com/p?a=1&b=2');
+    });
+
+    it('should treat index files as their directory', () => {
+      expect(crawler.normalizeUrl('/blog/index.html', 'https://example.com/')).toBe('https://example.com/blog');
+    });
+
+    it('should reject non-http schemes', () => {
+      expect(crawler.normalizeUrl('mailto:hello@example.com')).toBeNull();
+      expect(crawler.normalizeUrl('javascript:void(0)', 'https://example.com')).toBeNull();
+    });
+  });
+
+  describe('extractLinks', () => {
+    it('should keep same-origin page links only', () => {
+      const html = `
+        <a href="/about">About</a>
+        <a href="/about#team">Team</a>
+        <a href="https://other.com/">Other</a>
+        <a href="/brochure.pdf">PDF</a>
+        <a href="#top">Top</a>
+        <a href="contact">Contact</a>
+      `;
+
+      const links = crawler.extractLinks(html, 'https://example.com/company/');
+
+      expect(links).toEqual([
+        'https://example.com/about',
+        'https://example.com/company/contact',
+      ]);
+    });
+  });
+
+  describe('crawl', () => {
+    const site: Record<string, string> = {
+      'https://example.com/': '<title>Home</title><a href="/a">A</a><a href="/b">B</a>',
+      'https://example.com/a': '<title>A</title><a href="/">Home</a><a href="/c">C</a>',
+      'https://example.com/b': '<title>B</title><a href="/a">A</a>',
+      'https://example.com/c': '<title>C</title>',
+    };
+    const fetchPage = async (url: string) => {
+      if (!site[url]) throw new Error('HTTP 404');
+      return site[url];
+    };
+
+    it('should visit each page once up to the requested depth', async () => {
+      const result = await crawler.crawl('https://example.com', { depth: 1, fetchPage });
+
+      expect(result.pages.map(p => p.url)).toEqual([
+        'https://example.com/',
+        'https://example.com/a',
+        'https://example.com/b',
+      ]);
+      expect(result.pages.map(p => p.localPath)).toEqual(['index.html', 'a.html', 'b.html']);
+    });
+
+    it('should stop at maxPages and report the rest as skipped', async () => {
+      const result = await crawler.crawl('https://example.com', { depth: 2, maxPages: 2, fetchPage });
+
+      expect(result.pages).toHaveLength(2);
+      expect(result.skipped.map(s => s.url)).toContain('https://example.com/b');
+    });
+  });
+
+  describe('rewritePageLinks', () => {
+    it('should point links to crawled pages at their local files', () => {
+      const pages = [
+        { url: 'https://example.com/', localPath: 'index.html', title: 'Home', depth: 0 },
+        { url: 'https://example.com/a', localPath: 'a.html', title: 'A', depth: 1 },
+      ];
+      const html = '<a href="/a#x">A</a><a href="/">Home</a><a href="/missing">Missing</a>';
+
+      expect(crawler.rewritePageLinks(html, 'https://example.com/b', pages))
+        .toBe('<a href="a.html#x">A</a><a href="index.html">Home</a><a href="/missing">Missing</a>');
+    });
+
+    it('should point iframes cloned as pages at their local files', () => {
+      const pages = [
+        { url: 'https://example.com/', localPath: 'index.html', title: 'Home', depth: 0 },
+        { url: 'https://example.com/widget', localPath: 'widget.html', title: 'Widget', depth: 0 },
+      ];
+      const html = '<iframe title="w" src="https://example.com/widget"></iframe><iframe src="https://other.com/embed"></iframe>';
+
+      expect(crawler.rewritePageLinks(html, 'https://example.com/', pages))
+        .toBe('<iframe title="w" src="widget.html"></iframe><iframe src="https://other.com/embed"></iframe>');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { CssResolverService } from '../CssResolverService';
+
+describe('CssResolverService', () => {
+  const service = new CssResolverService();
+  const cssUrl = 'https://example.com/static/css/site.css';
+
+  it('should resolve references against the stylesheet URL', () => {
+    const css = `
+      @import "theme.css" screen;
+      @import url('/shared/reset.css');
+      .hero { background: url(../img/hero.jpg) no-repeat; }
+      @font-face { src: url("../fonts/brand.woff2") format("woff2"); }
+    `;
+
+    const refs = service.extractReferences(css, cssUrl);
+    expect(refs.imports).toEqual([
+      'https://example.com/static/css/theme.css',
+      'https://example.com/shared/reset.css',
+    ]);
+    expect(refs.assets).toEqual([
+      'https://example.com/static/img/hero.jpg',
+      'https://example.com/static/fonts/brand.woff2',
+    ]);
+  });
+
+  it('should find image-set() candidates with and without url()', () => {
+    const css = '.logo { background-image: image-set("logo.png" 1x, url(logo@2x.png) 2x); }';
+    expect(service.extractReferences(css, cssUrl).assets).toEqual([
+      'https://example.com/static/css/logo.png',
+      'https://example.com/static/css/logo@2x.png',
+    ]);
+  });
+
+  it('should ignore data URIs, fragments and comments', () => {
+    const css = '/* url(old.png) */ .a { background: url(data:image/png;base64,AAAA); } .b { mask: url(#m); }';
+    expect(service.extractReferences(css, cssUrl)).toEqual({ imports: [], assets: [] });
+  });
+
+  it('should keep import media queries when rewriting', () => {
+    const rewritten = service.rewriteUrls('@import "print.css" print;', cssUrl, () => 'print-local.css');
+    expect(rewritten).toBe('@import url("print-local.css") print;');
+  });
+
+  it('should walk imports recursively and fetch each sheet once', async () => {
+    const remote: Record<string, string> = {
+      'https://example.com/static/css/a.css': '@import "b.css"; .a { background: url(a.png); }',
+      'https://example.com/static/css/b.css': '@import "a.css"; .b { background: url(/b.png); }',
+    };
+    const fetched: string[] = [];
+
+    const graph = await service.buildGraph(
+      [{ url: cssUrl, content: '@import "a.css";' }],
+      {
+        fetchSheet: async (url) => {
+          fetched.push(url);
+          return remote[url] ?? null;
+        },
+      }
+    );
+
+    expect(fetched).toEqual([
+      'https://example.com/static/css/a.css',
+      'https://example.com/static/css/b.css',
+    ]);
+    expect(Array.from(graph.sheets.keys())).toHaveLength(2);
+    expect(graph.assets).toEqual([
+      'https://example.com/static/css/a.png',
+      'https://example.com/b.png',
+    ]);
+  });
+
+  it('should collect the assets of inline sheets against the page URL', async () => {
+    const graph = await service.buildGraph(
+      [{ url: 'https://example.com/blog/post', content: '.hero { background: url(img/hero.jpg); }', inline: true }],
+      { fetchSheet: async () => null }
+    );
+    expect(graph.assets).toEqual(['https://example.com/blog/img/hero.jpg']);
+  });
+
+  it('should rewrite references in <style> blocks and style attributes of a page', () => {
+    const html = `<style media="screen">@import "theme.css"; .a { background: url(/a.png); }</style>`
+      + `<div style="background-image: url(&quot;img/b.png&quot;)"></div>`
+      + `<p data-style="url(c.png)" style='color: red'>text</p>`;
+
+    const rewritten = service.rewriteHtmlStyles(html, 'https://example.com/blog/post', (url) => `local:${url}`);
+
+    expect(rewritten).toBe(
+      `<style media="screen">@import url("local:https://example.com/blog/theme.css"); .a { background: url("local:https://example.com/a.png"); }</style>`
+      + `<div style="background-image: url(&quot;local:https://example.com/blog/img/b.png&quot;)"></div>`
+      + `<p data-style="url(c.png)" style='color: red'>text</p>`
+    );
+  });
+
+  it('should flatten local imports and embed data URIs for inline styles', () => {
+    const asset = (localPath: string, content: string) => ({
+      type: 'css' as const, originalUrl: localPath, localPath, size: content.length, content,
+    });
+    const site = asset('./assets/css/site.css', '@import url("theme.css") print; .a { background: url("../images/a.png"); }');
+    const theme = asset('./assets/css/theme.css', '.t { color: red; }');
+    const image = { ...asset('./assets/images/a.png', 'data:image/png;base64,AAAA'), type: 'image' as const };
+    const byPath = new Map([site, theme, image].map(a => [a.localPath, a]));
+
+    expect(service.inlineForHtml(site, byPath)).toBe(
+      '@media print {\n.t { color: red; }\n} .a { background: url("data:image/png;base64,AAAA"); }'
+    );
+  });
+
+  it('should compute paths between local asset files', () => {
+    expect(service.relativePath('./assets/css/site.css', './assets/images/bg.png')).toBe('../images/bg.png');
+    expect(service.relativePath('./assets/css/site.css', './assets/css/theme.css')).toBe('theme.css');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { PerformanceService } from '../PerformanceService';
+import type { HarEntry, HarLog } from '../../types';
+
+function entry(overrides: Partial<HarEntry> & { url: string; offset: number; mimeType: string; transferSize: number }): HarEntry {
+  const { url, offset, mimeType, transferSize, ...rest } = overrides;
+  return {
+    startedDateTime: new Date(Date.UTC(2025, 0, 1) + offset).toISOString(),
+    time: 100,
+    request: { method: 'GET', url, headers: [], headersSize: -1, bodySize: 0 },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      headers: [{ name: 'Cache-Control', value: 'max-age=3600' }],
+      content: { size: transferSize * 3, mimeType },
+      headersSize: -1,
+      bodySize: -1,
+      _transferSize: transferSize,
+    },
+    cache: {},
+    timings: { blocked: 5, dns: -1, connect: -1, ssl: -1, send: 1, wait: 60, receive: 34 },
+    ...rest,
+  };
+}
+
+describe('PerformanceService', () => {
+  const service = new PerformanceService();
+
+  const har: HarLog = {
+    version: '1.2',
+    creator: { name: 'Playwright', version: '1.0' },
+    pages: [{
+      id: 'page@1',
+      startedDateTime: new Date(Date.UTC(2025, 0, 1)).toISOString(),
+      title: 'Example',
+      pageTimings: { onContentLoad: 450, onLoad: 900 },
+    }],
+    entries: [
+      entry({ url: 'https://example.com/app.js', offset: 120, mimeType: 'text/javascript', transferSize: 3000, _resourceType: 'script', _priority: 'Low', _renderBlocking: false }),
+      entry({ url: 'https://example.com/', offset: 0, mimeType: 'text/html', transferSize: 5000, _resourceType: 'document', _priority: 'VeryHigh' }),
+      entry({ url: 'https://example.com/site.css', offset: 110, mimeType: 'text/css', transferSize: 2000, _renderBlocking: true, _initiator: { type: 'parser', url: 'https://example.com/' } }),
+      entry({ url: 'https://example.com/logo.png', offset: 300, mimeType: 'image/png', transferSize: 0, _resourceType: 'image' }),
+    ],
+  };
+
+  const metrics = service.buildResourceMetricsFromHar(har);
+
+  it('should order requests by start time relative to the first request', () => {
+    expect(metrics.source).toBe('har');
+    expect(metrics.networkRequests.map(request => request.startTime)).toEqual([0, 110, 120, 300]);
+    expect(metrics.networkRequests[1].initiator).toEqual({ type: 'parser', url: 'https://example.com/' });
+    expect(metrics.networkRequests[0].priority).toBe('VeryHigh');
+    expect(metrics.networkRequests[0].cacheControl).toBe('max-age=3600');
+  });
+
+  it('should fall back to the MIME type when the resource type is unknown', () => {
+    const stylesheet = metrics.resources.find(resource => resource.url.endsWith('site.css'));
+    expect(stylesheet?.type).toBe('stylesheet');
+    expect(stylesheet?.decodedSize).toBe(6000);
+  });
+
+  it('should use the recorded render-blocking status, treating the document as blocking', () => {
+    const blocking = metrics.networkRequests.filter(request => request.blocking).map(request => request.url);
+    expect(blocking).toEqual(['https://example.com/', 'https://example.com/site.css']);
+  });
+
+  it('should treat responses with no bytes transferred as cached', () => {
+    expect(metrics.networkRequests.filter(request => request.cached).map(request => request.url)).toEqual(['https://example.com/logo.png']);
+  });
+
+  it('should add up the page weight from transfer sizes', () => {
+    expect(metrics.totalPageSize).toMatchObject({ total: 10000, html: 5000, css: 2000, js: 3000, images: 0 });
+    expect(metrics.pageTimings).toEqual({ onContentLoad: 450, onLoad: 900 });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RobotsService } from '../RobotsService';
+import { fetchProxyService } from '../FetchProxyService';
+
+describe('RobotsService', () => {
+  const service = new RobotsService();
+
+  const robots = service.parse(`
+    # Global rules
+    User-agent: *
+    Disallow: /private/
+    Disallow: /*.pdf$
+    Allow: /private/press/
+    Crawl-delay: 2
+
+    User-agent: Googlebot
+    User-agent: WebsiteClonerPro
+    Disallow: /staging
+    Crawl-delay: 5
+
+    Sitemap: https://example.com/sitemap.xml
+  `);
+
+  it('should group consecutive User-agent lines', () => {
+    expect(robots.groups).toHaveLength(2);
+    expect(robots.groups[1].userAgents).toEqual(['googlebot', 'websiteclonerpro']);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('should prefer the group naming our user agent over *', () => {
+    expect(service.isAllowed(robots, 'https://example.com/private/file').allowed).toBe(true);
+    expect(service.isAllowed(robots, 'https://example.com/staging/home').allowed).toBe(false);
+    expect(service.getCrawlDelay(robots)).toBe(5);
+  });
+
+  describe('wildcard groups', () => {
+    const agent = 'SomeOtherBot';
+
+    it('should let the longest matching rule win', () => {
+      expect(service.isAllowed(robots, 'https://example.com/private/a', agent).allowed).toBe(false);
+      expect(service.isAllowed(robots, 'https://example.com/private/press/a', agent).allowed).toBe(true);
+    });
+
+    it('should support * and $ in paths', () => {
+      expect(service.isAllowed(robots, 'https://example.com/docs/guide.pdf', agent).allowed).toBe(false);
+      expect(service.isAllowed(robots, 'https://example.com/docs/guide.pdf?x=1', agent).allowed).toBe(true);
+    });
+
+    it('should explain why a URL was blocked', () => {
+      const verdict = service.isAllowed(robots, 'https://example.com/private/a', agent);
+      expect(verdict.reason).toBe('Blocked by robots.txt (Disallow: /private/)');
+    });
+  });
+
+  it('should prefer Allow when rules are equally specific', () => {
+    const tie = service.parse('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(service.isAllowed(tie, 'https://example.com/page').allowed).toBe(true);
+  });
+
+  it('should allow everything when no rules apply', () => {
+    const empty = service.parse('User-agent: *\nDisallow:');
+    expect(service.isAllowed(empty, 'https://example.com/anything').allowed).toBe(true);
+  });
+
+  it('should match the product token exactly and case-insensitively', () => {
+    const named = service.parse(`
+      User-agent: *
+      Disallow: /
+
+      User-agent: Cloner
+      User-agent: WEBSITECLONERPRO/2.0
+      Allow: /
+    `);
+    expect(service.isAllowed(named, 'https://example.com/page').allowed).toBe(true);
+    expect(service.isAllowed(named, 'https://example.com/page', 'WebsiteCloner').allowed).toBe(false);
+
+    const prefixed = service.parse('User-agent: *\nDisallow: /\n\nUser-agent: Website\nAllow: /');
+    expect(service.isAllowed(prefixed, 'https://example.com/page').allowed).toBe(false);
+  });
+
+  describe('fetching robots.txt', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const respond = (response: () => Promise<Response>) => {
+      const fetched = new RobotsService();
+      const fetchMock = vi.spyOn(fetchProxyService, 'fetch').mockImplementation(response);
+      return { fetched, fetchMock };
+    };
+
+    it('should allow everything when robots.txt is missing', async () => {
+      const { fetched } = respond(async () => new Response('Not found', { status: 404 }));
+      expect((await fetched.check('https://example.com/page')).allowed).toBe(true);
+    });
+
+    it('should disallow everything when robots.txt fails with a server error', async () => {
+      const { fetched } = respond(async () => new Response('Unavailable', { status: 503 }));
+      const verdict = await fetched.check('https://example.com/page');
+      expect(verdict.allowed).toBe(false);
+      expect(verdict.reason).toContain('could not be read');
+      expect(verdict.unreachable).toBe(true);
+    });
+
+    it('should disallow everything when the host is unreachable, and ask again next time', async () => {
+      const { fetched, fetchMock } = respond(async () => { throw new Error('ECONNREFUSED'); });
+      expect((await fetched.check('https://example.com/page')).allowed).toBe(false);
+
+      fetchMock.mockImplementation(async () => new Response('User-agent: *\nDisallow: /private'));
+      expect((await fetched.check('https://example.com/page')).allowed).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SitemapService } from '../SitemapService';
+import { fetchProxyService } from '../FetchProxyService';
+import { robotsService } from '../RobotsService';
+
+const urlset = (...locs: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${
+    locs.map(loc => `<url><loc>${loc}</loc></url>`).join('')
+  }</urlset>`;
+
+const sitemapIndex = (...locs: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${
+    locs.map(loc => `<sitemap><loc>${loc}</loc></sitemap>`).join('')
+  }</sitemapindex>`;
+
+const gzip = async (text: string) =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer());
+
+describe('SitemapService', () => {
+  const service = new SitemapService();
+  let files: Record<string, string | Uint8Array>;
+
+  beforeEach(() => {
+    files = {};
+    vi.spyOn(fetchProxyService, 'fetch').mockImplementation(async (url: string) =>
+      url in files ? new Response(files[url]) : new Response('Not found', { status: 404 })
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should parse entries with their lastmod, changefreq and priority', () => {
+    const parsed = service.parse(`
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url>
+          <loc> https://example.com/about </loc>
+          <lastmod>2025-01-02</lastmod>
+          <changefreq>weekly</changefreq>
+          <priority>0.8</priority>
+        </url>
+        <url><loc>https://example.com/contact</loc><priority>high</priority></url>
+      </urlset>
+    `, 'https://example.com/sitemap.xml');
+
+    expect(parsed.type).toBe('urlset');
+    expect(parsed.entries).toEqual([
+      { loc: 'https://example.com/about', lastmod: '2025-01-02', changefreq: 'weekly', priority: 0.8, sitemap: 'https://example.com/sitemap.xml' },
+      { loc: 'https://example.com/contact', lastmod: undefined, changefreq: undefined, priority: undefined, sitemap: 'https://example.com/sitemap.xml' },
+    ]);
+  });
+
+  it('should follow nested sitemap indexes', async () => {
+    files['https://example.com/sitemap_index.xml'] = sitemapIndex('https://example.com/posts.xml', 'https://example.com/more.xml');
+    files['https://example.com/posts.xml'] = urlset('https://example.com/a', 'https://example.com/b');
+    files['https://example.com/more.xml'] = sitemapIndex('https://example.com/pages.xml', 'https://example.com/posts.xml');
+    files['https://example.com/pages.xml'] = urlset('https://example.com/b', 'https://example.com/c');
+
+    const result = await service.load('https://example.com', ['https://example.com/sitemap_index.xml']);
+
+    expect(result.entries.map(entry => entry.loc)).toEqual(['https://example.com/a', 'https://example.com/b', 'https://example.com/c']);
+    expect(result.entries[2].sitemap).toBe('https://example.com/pages.xml');
+    expect(result.sitemaps).toEqual([
+      'https://example.com/sitemap_index.xml',
+      'https://example.com/posts.xml',
+      'https://example.com/more.xml',
+      'https://example.com/pages.xml',
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should stop following indexes past the maximum depth', async () => {
+    for (let level = 0; level < 5; level++) {
+      files[`https://example.com/level${level}.xml`] = sitemapIndex(`https://example.com/level${level + 1}.xml`);
+    }
+
+    const result = await service.load('https://example.com', ['https://example.com/level0.xml']);
+
+    expect(result.sitemaps).toHaveLength(4);
+  });
+
+  it('should inflate gzipped sitemaps whatever their extension', async () => {
+    files['https://example.com/sitemap.xml.gz'] = await gzip(urlset('https://example.com/zipped'));
+    files['https://example.com/sitemap-gz.xml'] = await gzip(urlset('https://example.com/also-zipped'));
+
+    const result = await service.load('https://example.com', ['https://example.com/sitemap.xml.gz', 'https://example.com/sitemap-gz.xml']);
+
+    expect(result.entries.map(entry => entry.loc)).toEqual(['https://example.com/zipped', 'https://example.com/also-zipped']);
+  });
+
+  it('should stop at MAX_ENTRIES', async () => {
+    const locs = Array.from({ length: 3000 }, (_, i) => `https://example.com/page-${i}`);
+    files['https://example.com/one.xml'] = urlset(...locs);
+    files['https://example.com/two.xml'] = urlset(...locs.map(loc => `${loc}-b`));
+    files['https://example.com/three.xml'] = urlset('https://example.com/never-read');
+
+    const result = await service.load('https://example.com', [
+      'https://example.com/one.xml', 'https://example.com/two.xml', 'https://example.com/three.xml',
+    ]);
+
+    expect(result.entries).toHaveLength(5000);
+    expect(result.entries[4999].loc).toBe('https://example.com/page-1999-b');
+    expect(result.sitemaps).not.toContain('https://example.com/three.xml');
+  });
+
+  it('should report malformed and missing sitemaps and keep loading the rest', async () => {
+    files['https://example.com/broken.xml'] = '<html><body>Page not found</body></html>';
+    files['https://example.com/truncated.xml'] = '<urlset><url><loc>https://example.com/kept</loc></url><url><loc>https://exa';
+    files['https://example.com/good.xml'] = urlset('https://example.com/good');
+
+    const result = await service.load('https://example.com', [
+      'https://example.com/broken.xml', 'https://example.com/missing.xml', 'https://example.com/truncated.xml', 'https://example.com/good.xml',
+    ]);
+
+    expect(result.errors).toEqual([
+      { url: 'https://example.com/broken.xml', error: 'Not a sitemap or sitemap index' },
+      { url: 'https://example.com/missing.xml', error: 'HTTP 404' },
+    ]);
+    expect(result.entries.map(entry => entry.loc)).toContain('https://example.com/kept');
+    expect(result.entries.map(entry => entry.loc)).toContain('https://example.com/good');
+  });
+
+  it('should discover sitemaps from robots.txt before trying the usual paths', async () => {
+    const getRobots = vi.spyOn(robotsService, 'getRobots');
+    getRobots.mockResolvedValue({ groups: [], sitemaps: ['https://example.com/declared.xml'] });
+    expect(await service.discover('https://example.com/page')).toEqual(['https://example.com/declared.xml']);
+
+    getRobots.mockResolvedValue({ groups: [], sitemaps: [] });
+    files['https://example.com/sitemap_index.xml'] = sitemapIndex('https://example.com/posts.xml');
+    expect(await service.discover('https://example.com/page')).toEqual(['https://example.com/sitemap_index.xml']);
+  });
+});
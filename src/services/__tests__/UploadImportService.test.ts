@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { UploadImportService } from '../UploadImportService';
+
+async function zipFile(name: string, files: Record<string, string>): Promise<File> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  return new File([await zip.generateAsync({ type: 'uint8array' })], name);
+}
+
+describe('UploadImportService', () => {
+  const service = new UploadImportService();
+
+  it('should strip the wrapping folder and start from the shallowest index page', async () => {
+    const bundle = await service.load([await zipFile('client-site.zip', {
+      'site/index.html': '<h1>Home</h1>',
+      'site/about/index.html': '<h1>About</h1>',
+      'site/css/site.css': 'body { margin: 0; }',
+      '__MACOSX/site/._index.html': '',
+    })]);
+
+    expect(bundle.entryUrl).toBe(`${bundle.origin}/index.html`);
+    expect(bundle.pageUrls).toEqual([`${bundle.origin}/index.html`, `${bundle.origin}/about/index.html`]);
+    expect(Array.from(bundle.files.keys()).sort()).toEqual(['about/index.html', 'css/site.css', 'index.html']);
+    expect(bundle.origin).toMatch(/^https:\/\/client-site-[a-f0-9]{8}\.upload\.invalid$/);
+  });
+
+  it('should serve bundle files with their content type', async () => {
+    const bundle = await service.load([await zipFile('site.zip', {
+      'index.html': '<h1>Home</h1>',
+      'css/main styles.css': '.a { color: red; }',
+      'about/index.html': '<h1>About</h1>',
+    })]);
+
+    const css = service.fetch(new URL('css/main%20styles.css', bundle.entryUrl).href);
+    expect(css.status).toBe(200);
+    expect(css.headers.get('content-type')).toBe('text/css');
+    expect(await css.text()).toBe('.a { color: red; }');
+
+    expect(await service.read(`${bundle.origin}/about`)?.text()).toBe('<h1>About</h1>');
+    expect(service.fetch(`${bundle.origin}/missing.png`).status).toBe(404);
+
+    service.release(bundle);
+    expect(service.find(bundle.entryUrl)).toBeUndefined();
+  });
+
+  it('should accept a single HTML file and reject uploads without one', async () => {
+    const bundle = await service.load([new File(['<h1>Landing</h1>'], 'landing.html')]);
+    expect(bundle.entryUrl).toBe(`${bundle.origin}/landing.html`);
+
+    await expect(service.load([new File(['body {}'], 'site.css')])).rejects.toThrow('does not contain an HTML file');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { WarcService } from '../WarcService';
+import type { CloneProject, ClonedAsset, HarEntry } from '../../types';
+
+describe('WarcService', () => {
+  const service = new WarcService();
+
+  const project: CloneProject = {
+    id: 'project-1',
+    source: 'https://example.com/',
+    type: 'url',
+    status: 'completed',
+    progress: 100,
+    currentStep: 'Analysis completed',
+    createdAt: new Date('2025-03-01T12:00:00.000Z'),
+    originalHtml: '<html><body>Héllo</body></html>',
+    pages: [
+      { url: 'https://example.com/', localPath: 'index.html', title: 'Home', depth: 0 },
+      { url: 'https://example.com/about', localPath: 'about.html', title: 'About', depth: 1, html: '<h1>About</h1>' },
+    ],
+  };
+  const assets: ClonedAsset[] = [
+    { type: 'css', originalUrl: 'https://example.com/site.css', localPath: './assets/css/site.css', size: 20, content: 'body { color: red; }' },
+    { type: 'image', originalUrl: 'https://cdn.example.com/logo.png', localPath: './assets/images/logo.png', size: 8, content: 'data:image/png;base64,iVBORw0KGgo=' },
+  ];
+
+  const captured: HarEntry = {
+    startedDateTime: '2025-03-01T11:59:58.250Z',
+    time: 120,
+    request: {
+      method: 'GET',
+      url: 'https://example.com/',
+      headers: [{ name: ':authority', value: 'example.com' }, { name: 'Accept', value: 'text/html' }, { name: 'Cookie', value: '[redacted]' }],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      headers: [
+        { name: 'Content-Type', value: 'text/html; charset=utf-8' },
+        { name: 'Content-Encoding', value: 'br' },
+        { name: 'Server', value: 'nginx' },
+      ],
+      content: { size: 32, mimeType: 'text/html', text: btoa('<html><img src="/logo.png"></html>'), encoding: 'base64' },
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 1, wait: 80, receive: 39 },
+    serverIPAddress: '[2001:db8::1]',
+  };
+  const redirect: HarEntry = {
+    ...captured,
+    startedDateTime: '2025-03-01T11:59:58.000Z',
+    request: { ...captured.request, url: 'http://example.com/' },
+    response: { ...captured.response, status: 301, statusText: 'Moved Permanently', headers: [{ name: 'Location', value: 'https://example.com/' }], content: { size: 0, mimeType: '' } },
+  };
+  const unrecorded: HarEntry = {
+    ...captured,
+    request: { ...captured.request, url: 'https://example.com/video.mp4' },
+    response: { ...captured.response, content: { size: 0, mimeType: 'video/mp4', _bodyOmitted: true } },
+  };
+  const withHar = { ...project, har: { version: '1.2', creator: { name: 'Playwright', version: '1.56' }, entries: [redirect, captured, unrecorded] } };
+
+  it('should write each recorded exchange with its real status, headers and time', async () => {
+    const blob = await service.write(withHar, assets, 'site.warc');
+    const records = service.parseRecords(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(records.map(r => r.type)).toEqual([
+      'warcinfo',
+      'response', 'request',
+      'response', 'request',
+      'conversion', 'resource', 'resource', 'resource',
+      'metadata',
+    ]);
+
+    const [, moved, , page, request] = records;
+    expect(new TextDecoder().decode(moved.block)).toMatch(/^HTTP\/1\.1 301 Moved Permanently\r\nLocation: https:\/\/example\.com\/\r\nContent-Length: 0\r\n\r\n$/);
+    expect(page.headers.get('warc-date')).toBe('2025-03-01T11:59:58Z');
+    expect(page.headers.get('warc-ip-address')).toBe('2001:db8::1');
+    expect(page.headers.get('warc-payload-digest')).toMatch(/^sha1:[A-Z2-7]{32}$/);
+    expect(new TextDecoder().decode(page.block)).toBe(
+      'HTTP/1.1 200 OK\r\nContent-Type: text/html; charset=utf-8\r\nServer: nginx\r\nContent-Length: 34\r\n\r\n<html><img src="/logo.png"></html>',
+    );
+    expect(request.headers.get('warc-concurrent-to')).toBe(page.headers.get('warc-record-id'));
+    expect(new TextDecoder().decode(request.block)).toBe('GET / HTTP/1.1\r\nHost: example.com\r\nAccept: text/html\r\nCookie: [redacted]\r\n\r\n');
+  });
+
+  it('should write the cloned files as conversions of the captured responses or as resources', async () => {
+    const blob = await service.write(withHar, assets, 'site.warc');
+    const records = service.parseRecords(new Uint8Array(await blob.arrayBuffer()));
+
+    const conversion = records.find(r => r.type === 'conversion')!;
+    expect(conversion.headers.get('warc-target-uri')).toBe('https://example.com/');
+    expect(conversion.headers.get('warc-refers-to')).toBe(records[3].headers.get('warc-record-id'));
+    expect(conversion.headers.get('warc-date')).toBe('2025-03-01T12:00:00Z');
+    expect(new TextDecoder().decode(conversion.block)).toBe(project.originalHtml);
+
+    const logo = records.find(r => r.type === 'resource' && r.headers.get('warc-target-uri') === 'https://cdn.example.com/logo.png')!;
+    expect(logo.headers.get('content-type')).toBe('image/png');
+    expect(logo.block.length).toBe(8);
+  });
+
+  it('should read its own output back, preferring the captured responses', async () => {
+    const blob = await service.write(withHar, assets, 'site.warc');
+    const snapshot = await service.parse(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(snapshot.format).toBe('warc');
+    expect(snapshot.entryUrl).toBe('https://example.com/');
+    expect(await snapshot.resources.get('https://example.com/')?.text()).toBe('<html><img src="/logo.png"></html>');
+    expect(await snapshot.resources.get('https://example.com/about')?.text()).toBe('<h1>About</h1>');
+    expect(snapshot.resources.get('https://example.com/site.css')?.type).toBe('text/css');
+    expect(snapshot.resources.get('https://cdn.example.com/logo.png')?.size).toBe(8);
+  });
+
+  it('should undo chunked transfer coding recorded by other crawlers', async () => {
+    const http = 'HTTP/1.1 200 OK\r\nContent-Type: text/html\r\nTransfer-Encoding: chunked\r\n\r\n5\r\n<h1>H\r\n5\r\ni</h1\r\n1\r\n>\r\n0\r\n\r\n';
+    const block = new TextEncoder().encode(http);
+    const warc = [
+      'WARC/1.0',
+      'WARC-Type: response',
+      'WARC-Target-URI: https://legacy.example.com/',
+      'Content-Type: application/http; msgtype=response',
+      `Content-Length: ${block.length}`,
+      '',
+      http,
+      '',
+      '',
+    ].join('\r\n');
+
+    const snapshot = await service.parse(new TextEncoder().encode(warc));
+    expect(await snapshot.resources.get('https://legacy.example.com/')?.text()).toBe('<h1>Hi</h1>');
+  });
+});
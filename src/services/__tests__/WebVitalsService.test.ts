@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { WebVitalsService } from '../WebVitalsService';
+import type { WebVitalsTrace } from '../../types';
+
+describe('WebVitalsService', () => {
+  const service = new WebVitalsService();
+
+  const shift = (value: number, startTime: number, element = 'div.banner') => ({
+    value,
+    startTime,
+    sources: [{ element, previousRect: { x: 0, y: 0, width: 100, height: 50 }, currentRect: { x: 0, y: 80, width: 100, height: 50 } }],
+  });
+
+  const trace: WebVitalsTrace = {
+    url: 'https://example.com/',
+    profile: 'mobile',
+    throttling: { label: 'Mobile', latencyMs: 150, downloadKbps: 1638.4, uploadKbps: 750, cpuSlowdown: 4 },
+    measuredAt: '2025-01-01T00:00:00.000Z',
+    navigation: { responseStart: 420.4, domContentLoaded: 1500, load: 2600 },
+    fcp: 1200,
+    lcp: { startTime: 2310.6, renderTime: 2310.6, loadTime: 2200, size: 120000, url: 'https://example.com/hero.jpg', element: 'main > img.hero' },
+    layoutShifts: [
+      shift(0.05, 1300),
+      shift(0.04, 1900),
+      shift(0.02, 6000, 'footer'),
+      shift(0.08, 8000, 'aside.ad'),
+      shift(0.03, 8500, 'aside.ad'),
+    ],
+    longTasks: [
+      { startTime: 1300, duration: 150 },
+      { startTime: 2000, duration: 80, container: 'https://ads.example.net/frame.html' },
+      { startTime: 9000, duration: 300 },
+    ],
+    longAnimationFrames: [
+      { startTime: 1290, duration: 170, blockingDuration: 120, scripts: [
+        { sourceUrl: 'https://example.com/vendor.js', invoker: 'https://example.com/vendor.js', duration: 40 },
+        { sourceUrl: 'https://example.com/app.js', sourceFunctionName: 'hydrate', invoker: 'DOMWindow.onload', duration: 110 },
+      ] },
+    ],
+    interactions: [
+      { duration: 48, eventType: 'pointerup', target: 'main > p', startTime: 10000 },
+      { duration: 136, eventType: 'click', target: 'div#menu', startTime: 11000 },
+    ],
+    visualProgress: [
+      { timestamp: 1200, progress: 60 },
+      { timestamp: 2200, progress: 100 },
+    ],
+    networkQuiet: 3100,
+  };
+
+  const measurement = service.buildFromTrace(trace);
+
+  it('should report the LCP element and round paint times', () => {
+    expect(measurement.coreWebVitals.lcp).toMatchObject({ value: 2311, rating: 'good', element: 'main > img.hero', url: 'https://example.com/hero.jpg' });
+    expect(measurement.coreWebVitals.ttfb.value).toBe(420);
+  });
+
+  it('should take CLS from the largest session window', () => {
+    // 0.05 + 0.04 in the first window, 0.08 + 0.03 in the last; the lone 0.02 is its own window
+    expect(measurement.coreWebVitals.cls.value).toBe(0.11);
+    expect(measurement.coreWebVitals.cls.shifts[3].elements).toEqual(['aside.ad']);
+    expect(measurement.coreWebVitals.cls.shifts[3].sources?.[0].currentRect.y).toBe(80);
+  });
+
+  it('should use the slowest interaction for INP', () => {
+    expect(measurement.coreWebVitals.inp).toMatchObject({
+      value: 136,
+      totalInteractions: 2,
+      worstInteraction: { duration: 136, eventType: 'click', target: 'div#menu' },
+    });
+  });
+
+  it('should attribute long tasks to the slowest script of their animation frame', () => {
+    expect(measurement.longTasks[0].attribution).toBe('DOMWindow.onload in https://example.com/app.js');
+    expect(measurement.longTasks[0].scripts?.map(script => script.duration)).toEqual([110, 40]);
+    expect(measurement.longTasks[1].attribution).toBe('https://ads.example.net/frame.html');
+  });
+
+  it('should end TTI before the first quiet window and count blocking time up to it', () => {
+    expect(measurement.additionalMetrics.tti.value).toBe(2080);
+    expect(measurement.additionalMetrics.tti.networkIdle).toBe(3100);
+    expect(measurement.additionalMetrics.tbt).toMatchObject({ value: 130, longTasksCount: 2 });
+  });
+
+  it('should integrate the visual progress into a speed index', () => {
+    expect(measurement.additionalMetrics.speedIndex.value).toBe(1600);
+    expect(measurement.run).toMatchObject({ source: 'lab', profile: 'mobile' });
+  });
+});
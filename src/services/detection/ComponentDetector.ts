@@ -103,12 +103,33 @@ export class ComponentDetector {
     { type: 'footer', selectors: ['footer', '.footer', '[role="contentinfo"]'] },
   ];
 
+  // Consent banners and newsletter popups left in the HTML (static fetches, or
+  // captures run with dismissPopups off) are not part of the page design. Other
+  // modal dialogs (menus, galleries, size guides) are, so only known containers
+  // and modals named after consent or a newsletter are dropped.
+  private overlaySelectors = [
+    '#onetrust-consent-sdk', '#CybotCookiebotDialog', '#cmplz-cookiebanner-container', '.cmplz-cookiebanner',
+    '.cky-consent-container', '#cookie-law-info-bar', '#usercentrics-root', '#didomi-host', '#qc-cmp2-container',
+    '#iubenda-cs-banner', '#cookie-notice', '#BorlabsCookieBox', '.osano-cm-window', '#truste-consent-track',
+    '[id*="cookie-banner" i]', '[class*="cookie-banner" i]', '[id*="cookie-consent" i]', '[class*="cookie-consent" i]',
+    '[class*="newsletter-popup" i]', '[id*="newsletter-popup" i]', '.pum-overlay', '[class*="kl-private-reset-css" i]',
+    ...['cookie', 'consent', 'gdpr', 'newsletter', 'subscribe', 'signup'].flatMap(keyword => [
+      `[aria-modal="true"][class*="${keyword}" i]`, `[aria-modal="true"][id*="${keyword}" i]`,
+    ]),
+  ];
+
   public detect(html: string): DetectionResult {
     console.log('🔍 ComponentDetector: Starting hybrid detection...');
     const startTime = Date.now();
     const $ = cheerio.load(html);
     const timestamp = new Date();
 
+    const overlays = $(this.overlaySelectors.join(', '));
+    if (overlays.length > 0) {
+      console.log(`🍪 Ignoring ${overlays.length} consent banners and popups`);
+      overlays.remove();
+    }
+
     // STEP 1: Detect builder first
     console.log('🔍 Step 1: Detecting page builder...');
     const builder = this.detectBuilder($);
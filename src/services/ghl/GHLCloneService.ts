@@ -1,4 +1,5 @@
 import { loggingService } from '../LoggingService';
+import { fetchProxyService } from '../FetchProxyService';
 import type { GHLCloneScope, GHLCloneDestination, GHLCloneResult, GHLCustomCode, GHLAsset, GHLPage, GHLFunnel, GHLWebsite } from '../../types/ghl.types';
 
 export class GHLCloneService {
@@ -61,11 +62,8 @@ export class GHLCloneService {
     loggingService.info('ghl-clone', `Fetching content from ${url}`);
 
     try {
-      // Use CORS proxy to fetch the URL
-      const corsProxy = 'https://api.allorigins.win/raw?url=';
-      const proxyUrl = `${corsProxy}${encodeURIComponent(url)}`;
-
-      const response = await fetch(proxyUrl);
+      // Fetch through our own proxy endpoint
+      const response = await fetchProxyService.fetch(url);
       if (!response.ok) {
         throw new Error(`Failed to fetch URL: ${response.statusText}`);
       }
@@ -1,10 +1,17 @@
 export interface CloneOptions {
+  projectId?: string; // Id for the new project, e.g. reserved by a server job; generated when omitted
   type: 'url' | 'upload';
-  source: string;
-  depth?: number;
+  source: string; // Page URL, or for uploads a display name (the entry page is found in `files`)
+  files?: File[]; // Upload clones: a ZIP archive, a folder's files, or HTML files with their assets
+  depth?: number; // Link hops to follow from the source page when followLinks is set
   followLinks?: boolean;
-  respectRobots?: boolean;
+  maxPages?: number; // Upper bound on pages stored by a multi-page crawl (default 20)
+  pages?: string[]; // Explicit page URLs to clone alongside the source, e.g. picked from the sitemap
+  respectRobots?: boolean; // Skip URLs disallowed by robots.txt and honor its Crawl-delay
+  maxConcurrentPerHost?: number; // Parallel requests allowed against one host (default 4)
+  requestDelayMs?: number; // Minimum gap between requests to one host
   includeAssets?: boolean;
+  thirdPartyScripts?: 'keep' | 'localize' | 'strip'; // Scripts from other sites: leave remote (default), download, or remove
   useBrowserAutomation?: boolean; // Enable Playwright for dynamic content
   captureResponsive?: boolean; // Enable responsive breakpoint detection (Phase 2)
   captureInteractive?: boolean; // Enable interactive state detection (Phase 3)
@@ -15,14 +22,211 @@ export interface CloneOptions {
   seoAnalysis?: boolean; // Enable SEO analysis
   securityScan?: boolean; // Enable security scan
   technologyDetection?: boolean; // Enable technology stack detection
+  auth?: CloneAuth; // Credentials for pages behind a login; never stored on the project
+  interception?: InterceptionRules; // Requests to block or stub while the page is captured in the browser
+  dismissPopups?: boolean; // Reject cookie banners and close popups before a browser capture (default true)
+  emulation?: EmulationProfile; // Environment the main browser capture runs in, e.g. dark mode or a locale
+  snapshotProfiles?: EmulationProfile[]; // Extra browser captures of the source, one snapshot per profile
+  expansion?: ExpansionOptions | false; // Scrolling and "load more" clicks before a browser capture; false skips it
+  shadowDom?: ShadowDomMode; // How open shadow roots are kept in the captured HTML (default 'declarative')
+  captureFrames?: boolean; // Clone same-origin iframes as pages linked from their parent (default true)
+  vitalsProfile?: WebVitalsProfile; // Device and throttling Core Web Vitals are measured with (default 'mobile')
+  signal?: AbortSignal; // Cancels the clone after the step in progress; it can be resumed later
   onProgress?: (progress: number, step: string) => void;
 }
 
+// Pipeline steps a clone job checkpoints after, in order
+export type CloneJobStep = 'fetch' | 'wordpress' | 'parse' | 'assets' | 'analysis';
+
+// The options a job can be resumed with; files, credentials and callbacks are passed again
+export type CloneJobOptions = Omit<CloneOptions, 'files' | 'auth' | 'signal' | 'onProgress'>;
+
+export interface CloneCheckpoint {
+  projectId: string;
+  options: CloneJobOptions;
+  completedSteps: CloneJobStep[];
+  assetGroups: Partial<Record<'css' | 'images' | 'fonts' | 'js', string[]>>; // URLs of each finished asset download
+  sourceHtml?: string; // Entry page as fetched, before assets are embedded
+  frames?: CapturedFrame[]; // Same-origin iframes captured with the entry page, cloned as pages
+  updatedAt: string;
+}
+
+// A clone running on the app server (api/jobs.js); the job id is the project id
+export interface CloneJobStatus {
+  id: string;
+  projectId: string;
+  source: string;
+  status: 'queued' | 'running' | 'completed' | 'cancelled' | 'error';
+  progress: number;
+  step: string;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface CloneAuth {
+  basic?: { username: string; password: string }; // HTTP basic auth, e.g. staging sites
+  headers?: Record<string, string>; // Extra request headers such as Authorization: Bearer …
+  cookies?: AuthCookie[]; // Session cookies imported from the user's browser
+  loginSteps?: LoginStep[]; // Scripted login run before the page is captured
+}
+
+export interface InterceptionRules {
+  blockResourceTypes?: InterceptedResourceType[]; // e.g. media and font to speed up the capture
+  blockPatterns?: string[]; // URL globs such as "*://*.example-cdn.com/*" or "*.mp4"
+  blockTrackers?: boolean; // Known analytics, tag manager and session replay domains
+  blockAds?: boolean; // Known ad networks
+  stubs?: InterceptionStub[]; // Answer matching requests with a fixed response instead
+}
+
+export type InterceptedResourceType = 'stylesheet' | 'image' | 'media' | 'font' | 'script' | 'xhr' | 'fetch' | 'websocket' | 'other';
+
+export interface InterceptionStub {
+  pattern: string; // URL glob, as in blockPatterns
+  status?: number; // Default 200
+  contentType?: string; // Default text/plain
+  body?: string;
+}
+
+// What the capture endpoint blocked, saved on the project with the rules it used
+export interface InterceptionReport {
+  rules: InterceptionRules;
+  blocked: number;
+  stubbed: number;
+  byReason: Partial<Record<'resourceType' | 'pattern' | 'tracker' | 'ad', number>>;
+  blockedUrls: string[]; // First 50
+}
+
+// A cookie banner, popup or leftover overlay the capture endpoint got rid of
+export interface DismissedOverlay {
+  kind: 'consent' | 'popup' | 'overlay';
+  action: 'reject' | 'close' | 'escape' | 'remove';
+  provider?: string; // Consent platform, e.g. OneTrust or Cookiebot
+  selector?: string;
+  frame?: string; // URL of the iframe the banner was in
+}
+
+export interface ExpansionOptions {
+  scroll?: boolean; // Scroll a viewport at a time, waiting for network idle after each step (default true)
+  maxScrollSteps?: number; // Default 20
+  loadMore?: boolean; // Click buttons labelled "Load more", "Show more"… (default false)
+  loadMoreSelectors?: string[]; // Extra selectors for the site's own "load more" controls
+  maxLoadMoreClicks?: number; // Default 5
+  swapLazySources?: boolean; // Copy data-src, data-srcset, data-lazy and data-bg onto the real attributes (default true)
+  maxDurationMs?: number; // Time budget for the whole stage (default 45s)
+}
+
+export interface ExpansionReport {
+  scrollSteps: number;
+  scrollStop: 'bottom' | 'maxSteps' | 'maxHeight' | 'timeout' | null; // null when scrolling was off
+  loadMoreClicks: number;
+  loadMoreStop: 'noButton' | 'noEffect' | 'navigated' | 'maxClicks' | 'maxHeight' | 'timeout' | null;
+  lazySourcesSwapped: number;
+  initialHeight: number; // Document height in px before and after the stage
+  finalHeight: number;
+  durationMs: number;
+}
+
+// 'declarative' keeps shadow roots as <template shadowrootmode>; 'flatten' moves them into the light DOM
+export type ShadowDomMode = 'declarative' | 'flatten' | 'off';
+
+export interface CapturedFrame {
+  url: string;
+  title: string;
+  html: string;
+}
+
+export interface SerializationReport {
+  shadowDom: ShadowDomMode;
+  shadowRoots: number;
+  adoptedStyleSheets: number;
+  framePages: number; // Same-origin frames returned as pages
+  inlinedFrames: number; // about:blank frames written by script, kept as srcdoc
+}
+
+export interface CaptureConsoleMessage {
+  type: 'error' | 'warning';
+  text: string;
+  source?: string; // Script URL and line
+}
+
+export interface CapturePageError {
+  message: string;
+  stack?: string; // Top frames only
+}
+
+export interface CaptureFailedRequest {
+  url: string;
+  resourceType: string; // Playwright resource type, e.g. 'image' or 'stylesheet'
+  method: string;
+  status?: number; // Set for HTTP errors; unset when the request never got a response
+  error: string; // Status text or network error, e.g. 'net::ERR_NAME_NOT_RESOLVED'
+  assetPath?: string; // Local path of the ClonedAsset made from this URL, when the clone still got it
+  assetMissing?: boolean; // The clone has no asset for this URL either
+}
+
+// What the source page reported while it was captured
+export interface CaptureDiagnostics {
+  console: CaptureConsoleMessage[];
+  pageErrors: CapturePageError[];
+  cspViolations: string[];
+  failedRequests: CaptureFailedRequest[];
+  statusCodes: Record<string, number>; // Responses per HTTP status
+  totalRequests: number;
+  truncated: boolean; // A list hit its 100-entry cap
+}
+
+// Browser environment for a capture; unset fields keep the default desktop context
+export interface EmulationProfile {
+  name: string; // e.g. 'dark' or 'de-DE'
+  label?: string;
+  colorScheme?: 'light' | 'dark' | 'no-preference'; // prefers-color-scheme
+  reducedMotion?: 'reduce' | 'no-preference'; // prefers-reduced-motion
+  locale?: string; // navigator.language, Intl formatting and Accept-Language
+  timezoneId?: string; // IANA zone, e.g. 'Europe/Berlin'
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  deviceScaleFactor?: number;
+  userAgent?: string;
+  viewport?: { width: number; height: number };
+}
+
+// A variant of the source page captured under its own emulation profile
+export interface CaptureSnapshot {
+  profile: EmulationProfile;
+  title: string;
+  html?: string; // Omitted once saved to the asset store; `htmlHash` refers to it instead
+  styles?: string; // Omitted once saved to the asset store; `stylesHash` refers to it instead
+  screenshot?: string; // Data URI; omitted once saved, `screenshotHash` refers to it instead
+  htmlHash?: string;
+  stylesHash?: string;
+  screenshotHash?: string;
+  capturedAt: string;
+}
+
+export interface AuthCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path?: string;
+  expires?: number; // Unix time in seconds; session cookie when omitted
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+export interface LoginStep {
+  action: 'goto' | 'fill' | 'click' | 'press' | 'wait';
+  selector?: string; // Element for fill, click and press; element to wait for
+  value?: string; // Text for fill, key for press, URL for goto
+  timeoutMs?: number; // Milliseconds to wait when `wait` has no selector
+}
+
 export interface CloneProject {
   id: string;
   source: string;
   type: 'url' | 'upload' | 'ghl-conversion';
-  status: 'pending' | 'cloning' | 'analyzing' | 'optimizing' | 'completed' | 'error';
+  status: 'pending' | 'cloning' | 'analyzing' | 'optimizing' | 'completed' | 'cancelled' | 'error';
   progress: number;
   currentStep: string;
   createdAt: Date;
@@ -32,6 +236,12 @@ export interface CloneProject {
   optimizedScore?: number;
   metrics?: PerformanceMetrics;
   assets?: ClonedAsset[];
+  pages?: ClonedPage[]; // Every page cloned in this job, including the entry page
+  skippedUrls?: SkippedUrl[]; // Pages and assets deliberately not fetched
+  snapshots?: CaptureSnapshot[]; // Source page captured under extra emulation profiles
+  diagnostics?: CaptureDiagnostics; // Console, page errors and failed requests seen during the browser capture
+  har?: HarLog; // Network traffic recorded during the browser capture
+  harHash?: string; // The HAR as saved to the asset store, set while `har` is not loaded
   archived?: boolean;
   metadata?: WebsiteMetadata;
   detection?: any; // Component detection results
@@ -40,20 +250,55 @@ export interface CloneProject {
   technologyStack?: any; // Technology detection results
 }
 
+export interface ResponsiveImageSource {
+  descriptor?: string; // srcset descriptor, e.g. '800w' or '2x'
+  sizes?: string; // sizes attribute of the element that listed the candidate
+  media?: string; // media condition of a <picture><source>
+  mimeType?: string; // type attribute of a <picture><source>, e.g. 'image/webp'
+  element: 'img' | 'source';
+}
+
 export interface ClonedAsset {
   type: 'image' | 'css' | 'js' | 'font' | 'other';
   originalUrl: string;
   localPath: string;
   size: number;
   optimizedSize?: number;
-  content?: string;
+  content?: string; // Omitted once the asset is saved to the asset store; `hash` refers to it instead
+  hash?: string; // SHA-256 of the stored bytes in the content-addressed asset store
+  mimeType?: string; // Set when the content is a data URI, so it can be rebuilt from the stored bytes
   format?: string;
+  party?: 'first-party' | 'third-party'; // Set for scripts: served by the cloned site or by someone else
+  remote?: boolean; // Left on its original host (third-party scripts in 'keep' mode), so it has no content
+  imports?: string[]; // Set for ES modules: absolute URLs of the modules they import
+  responsive?: ResponsiveImageSource[]; // Every srcset / <picture><source> slot this image fills
   dimensions?: {
     width: number;
     height: number;
   };
 }
 
+export interface ClonedPage {
+  url: string; // Normalized page URL
+  localPath: string; // File name inside the exported site, e.g. "about.html"
+  title: string;
+  depth: number; // Link hops from the entry page
+  html?: string; // Omitted for the entry page, whose HTML lives in CloneProject.originalHtml
+}
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  priority?: number;
+  sitemap: string; // Sitemap file that listed this URL
+}
+
+export interface SkippedUrl {
+  url: string;
+  reason: string;
+}
+
 export interface WebsiteMetadata {
   title: string;
   description?: string;
@@ -114,6 +359,18 @@ export interface WebsiteMetadata {
     posts?: any[];
   };
   screenshot?: string; // Base64 screenshot for preview when iframe is blocked
+  upload?: {
+    fileName: string; // ZIP, folder, HTML, MHTML, HAR or WARC file name the project was created from
+    format?: 'files' | 'mhtml' | 'har' | 'warc';
+    fileCount: number;
+    entryPath: string; // Entry page inside the upload, e.g. "index.html"
+  };
+  authentication?: Array<'basic' | 'headers' | 'cookies' | 'login'>; // How the pages were unlocked; the secrets are not kept
+  interception?: InterceptionReport; // Request rules the capture ran with, reused when recapturing
+  dismissedOverlays?: DismissedOverlay[]; // Banners and popups removed before the capture
+  emulation?: EmulationProfile; // Profile the main capture ran with
+  expansion?: ExpansionReport; // How far the page was scrolled and expanded before the capture
+  serialization?: SerializationReport; // Shadow roots and frames kept in the captured HTML
 }
 
 export interface PerformanceMetrics {
@@ -132,9 +389,72 @@ export interface PerformanceMetrics {
   issues: PerformanceIssue[];
   recommendations: string[];
   lighthouse?: LighthouseResults;
+  webVitals?: WebVitalsRun; // How coreWebVitals and additionalMetrics were obtained
+}
+
+export type WebVitalsProfile = 'mobile' | 'desktop';
+
+export interface ThrottlingSettings {
+  label: string;
+  latencyMs: number; // Added round-trip time per request
+  downloadKbps: number;
+  uploadKbps: number;
+  cpuSlowdown: number; // 4 means a CPU four times slower than the server's
+}
+
+export interface WebVitalsRun {
+  source: 'lab' | 'unavailable'; // 'unavailable' values are placeholders, not measurements
+  profile: WebVitalsProfile;
+  throttling?: ThrottlingSettings;
+  measuredAt?: string;
+  error?: string;
+}
+
+export interface LayoutShiftRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Element moved by a layout shift, with its position before and after
+export interface LayoutShiftSource {
+  element: string; // CSS selector, or '(removed)' when the node is gone
+  previousRect: LayoutShiftRect;
+  currentRect: LayoutShiftRect;
+}
+
+export interface LongTaskScript {
+  sourceUrl: string;
+  sourceFunctionName?: string;
+  invoker?: string; // e.g. 'IMG.onload' or 'https://example.com/app.js'
+  duration: number;
+}
+
+// Raw entries from one lab page load, collected by /api/web-vitals
+export interface WebVitalsTrace {
+  url: string;
+  profile: WebVitalsProfile;
+  throttling: ThrottlingSettings;
+  measuredAt: string;
+  navigation: { responseStart: number; domContentLoaded: number; load: number };
+  fcp?: number;
+  lcp?: { startTime: number; renderTime: number; loadTime: number; size: number; url?: string; element?: string };
+  layoutShifts: { value: number; startTime: number; sources: LayoutShiftSource[] }[];
+  longTasks: { startTime: number; duration: number; container?: string }[];
+  longAnimationFrames: { startTime: number; duration: number; blockingDuration: number; scripts: LongTaskScript[] }[];
+  interactions: { duration: number; eventType: string; target: string; startTime: number }[]; // Slowest event per interaction
+  visualProgress: VisualProgress[];
+  networkQuiet?: number; // Start of the first 5 s window with at most two requests in flight
 }
 
 export interface LighthouseResults {
+  source?: 'local' | 'edge-function' | 'simulated'; // 'simulated' scores are random placeholders, not an audit
+  simulatedReason?: string; // Why no real audit could run
+  formFactor?: WebVitalsProfile;
+  runs?: number; // Audits the median was taken from
+  lighthouseVersion?: string;
+  fetchedAt?: string;
   performanceScore: number;
   accessibilityScore: number;
   bestPracticesScore: number;
@@ -180,9 +500,10 @@ export interface LargestContentfulPaint {
   value: number;
   rating: 'good' | 'needs-improvement' | 'poor';
   element?: string;
+  url?: string; // Image or video poster the element painted
   renderTime?: number;
   loadTime?: number;
-  size?: number;
+  size?: number; // Painted area in CSS pixels
 }
 
 export interface FirstInputDelay {
@@ -213,6 +534,7 @@ export interface LayoutShift {
   value: number;
   elements: string[];
   timestamp: number;
+  sources?: LayoutShiftSource[];
 }
 
 export interface FirstContentfulPaint {
@@ -264,6 +586,8 @@ export interface ResourceMetrics {
   longTasks: LongTask[];
   networkRequests: NetworkRequest[];
   totalPageSize: PageSizeBreakdown;
+  source?: 'har' | 'estimated'; // 'har' when built from the traffic recorded during the capture
+  pageTimings?: { onContentLoad?: number; onLoad?: number }; // Milliseconds from the first request
 }
 
 export interface ResourceTiming {
@@ -280,6 +604,7 @@ export interface LongTask {
   duration: number;
   startTime: number;
   attribution?: string;
+  scripts?: LongTaskScript[]; // Scripts that ran during the task, slowest first
 }
 
 export interface NetworkRequest {
@@ -290,6 +615,86 @@ export interface NetworkRequest {
   cached: boolean;
   blocking: boolean;
   duration: number;
+  startTime?: number; // Milliseconds from the first request; set for recorded traffic
+  timings?: HarTimings;
+  priority?: string; // Chromium fetch priority, e.g. 'VeryHigh' or 'Low'
+  initiator?: HarInitiator;
+  cacheControl?: string;
+  resourceType?: string;
+  mimeType?: string;
+}
+
+// Phases of a recorded request in milliseconds; -1 when the phase did not apply
+export interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarInitiator {
+  type: string; // 'parser', 'script', 'preload', 'other'
+  url?: string;
+  lineNumber?: number;
+}
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+// Response body as received, after content decoding. Saving a project moves
+// `text` into the asset store and keeps its hash in `_hash`.
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: 'base64';
+  _hash?: string;
+  _bodyOmitted?: boolean; // Over the capture's body size limits
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion?: string;
+    headers: HarHeader[];
+    postData?: { mimeType: string; text?: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion?: string;
+    headers: HarHeader[];
+    content: HarContent;
+    redirectURL?: string;
+    headersSize: number;
+    bodySize: number;
+    _transferSize?: number;
+  };
+  cache: Record<string, unknown>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  _resourceType?: string; // Added by the capture from Chromium's DevTools protocol
+  _priority?: string;
+  _initiator?: HarInitiator;
+  _renderBlocking?: boolean;
+}
+
+// HAR 1.2 log recorded by the capture; credentials in headers and cookies are redacted
+export interface HarLog {
+  version: string;
+  creator: { name: string; version: string };
+  pages?: { id: string; startedDateTime: string; title: string; pageTimings: { onContentLoad?: number; onLoad?: number } }[];
+  entries: HarEntry[];
 }
 
 export interface PageSizeBreakdown {
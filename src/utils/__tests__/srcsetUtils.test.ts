@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SrcsetUtils } from '../srcsetUtils';
+
+describe('SrcsetUtils', () => {
+  describe('parse', () => {
+    it('should read width and density descriptors', () => {
+      expect(SrcsetUtils.parse('small.jpg 480w, large.jpg 1080w')).toEqual([
+        { url: 'small.jpg', descriptor: '480w' },
+        { url: 'large.jpg', descriptor: '1080w' },
+      ]);
+      expect(SrcsetUtils.parse('logo.png, logo@2x.png 2x')).toEqual([
+        { url: 'logo.png' },
+        { url: 'logo@2x.png', descriptor: '2x' },
+      ]);
+    });
+
+    it('should keep commas inside URLs', () => {
+      expect(SrcsetUtils.parse(
+        'https://cdn.example.com/w_400,h_300/photo.jpg 400w, https://cdn.example.com/w_800,h_600/photo.jpg 800w'
+      )).toEqual([
+        { url: 'https://cdn.example.com/w_400,h_300/photo.jpg', descriptor: '400w' },
+        { url: 'https://cdn.example.com/w_800,h_600/photo.jpg', descriptor: '800w' },
+      ]);
+    });
+
+    it('should tolerate extra whitespace, newlines and trailing commas', () => {
+      expect(SrcsetUtils.parse('\n  a.webp   1x,\n  b.webp 2x ,  ')).toEqual([
+        { url: 'a.webp', descriptor: '1x' },
+        { url: 'b.webp', descriptor: '2x' },
+      ]);
+    });
+
+    it('should return nothing for an empty srcset', () => {
+      expect(SrcsetUtils.parse('')).toEqual([]);
+      expect(SrcsetUtils.parse(' , ')).toEqual([]);
+    });
+  });
+
+  describe('serialize', () => {
+    it('should write candidates with and without descriptors', () => {
+      expect(SrcsetUtils.serialize([
+        { url: 'logo.png' },
+        { url: 'logo@2x.png', descriptor: '2x' },
+      ])).toBe('logo.png, logo@2x.png 2x');
+    });
+
+    it('should round-trip URLs containing commas', () => {
+      const srcset = 'https://cdn.example.com/w_400,h_300/photo.jpg 400w, https://cdn.example.com/w_800,h_600/photo.jpg 800w';
+      expect(SrcsetUtils.serialize(SrcsetUtils.parse(srcset))).toBe(srcset);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+export interface SrcsetCandidate {
+  url: string;
+  descriptor?: string; // Width ('800w') or pixel density ('2x') descriptor
+}
+
+export class SrcsetUtils {
+  /**
+   * Parse a srcset attribute into image candidates. Follows the HTML
+   * candidate rules, so commas inside URLs (common with image CDNs such as
+   * `w_400,h_300`) are kept as part of the URL.
+   */
+  static parse(srcset: string): SrcsetCandidate[] {
+    const candidates: SrcsetCandidate[] = [];
+    const length = srcset.length;
+    let pos = 0;
+
+    while (pos < length) {
+      // Skip separators before the URL
+      while (pos < length && /[\s,]/.test(srcset[pos])) pos++;
+      if (pos >= length) break;
+
+      const urlStart = pos;
+      while (pos < length && !/\s/.test(srcset[pos])) pos++;
+      let url = srcset.slice(urlStart, pos);
+      let descriptor = '';
+
+      if (url.endsWith(',')) {
+        // "a.jpg, b.jpg 2x" - a trailing comma ends a candidate with no descriptor
+        url = url.replace(/,+$/, '');
+      } else {
+        const descriptorStart = pos;
+        let depth = 0;
+        while (pos < length) {
+          const char = srcset[pos];
+          if (char === '(') depth++;
+          else if (char === ')') depth--;
+          else if (char === ',' && depth <= 0) break;
+          pos++;
+        }
+        descriptor = srcset.slice(descriptorStart, pos).trim();
+        pos++;
+      }
+
+      if (url) {
+        candidates.push(descriptor ? { url, descriptor } : { url });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Build a srcset attribute value from candidates
+   */
+  static serialize(candidates: SrcsetCandidate[]): string {
+    return candidates
+      .map(candidate => candidate.descriptor ? `${candidate.url} ${candidate.descriptor}` : candidate.url)
+      .join(', ');
+  }
+}
@@ -0,0 +1,46 @@
+/*
+  # Content-Addressed Asset Store
+
+  1. Storage
+    - `assets` bucket (private) holding asset bytes at `<first two hex chars>/<sha256>`
+    - Authenticated users may read and add blobs; nothing may overwrite or delete
+      them except the service role, which runs garbage collection
+
+  2. Functions
+    - `referenced_asset_hashes()` - every asset hash referenced by any project's
+      `assets` column. Used by garbage collection, so it is only executable by
+      the service role.
+
+  3. Notes
+    - `projects.assets` now stores `hash` and `mimeType` instead of inline content
+      for assets saved after this migration. Older rows keep their inline content.
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('assets', 'assets', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can read asset blobs"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'assets');
+
+CREATE POLICY "Authenticated users can add asset blobs"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'assets');
+
+CREATE OR REPLACE FUNCTION referenced_asset_hashes()
+RETURNS TABLE (hash text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT asset->>'hash'
+  FROM projects, jsonb_array_elements(COALESCE(projects.assets, '[]'::jsonb)) AS asset
+  WHERE asset->>'hash' IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION referenced_asset_hashes() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION referenced_asset_hashes() TO service_role;
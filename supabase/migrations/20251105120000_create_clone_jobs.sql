@@ -0,0 +1,62 @@
+/*
+  # Resumable Clone Jobs
+
+  1. New Tables
+    - `clone_jobs`
+      - `project_id` (uuid, primary key) - Project the job is cloning
+      - `user_id` (uuid, foreign key) - Owner of the job
+      - `options` (jsonb) - Clone options without files, credentials or callbacks
+      - `completed_steps` (jsonb) - Pipeline steps finished so far, in order
+      - `asset_groups` (jsonb) - URLs of each asset download (css, images, fonts, js) already stored on the project
+      - `source_html` (text) - Entry page as fetched, before assets are embedded
+      - `updated_at` (timestamptz) - Time of the last checkpoint
+
+  2. Changes
+    - `projects.status` also allows 'cancelled'
+
+  3. Security
+    - Enable RLS on `clone_jobs`; users manage only their own jobs
+
+  4. Notes
+    - A row exists while a clone is unfinished. It is deleted when the clone completes
+      and with its project.
+*/
+
+CREATE TABLE IF NOT EXISTS clone_jobs (
+  project_id uuid PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  options jsonb NOT NULL DEFAULT '{}'::jsonb,
+  completed_steps jsonb NOT NULL DEFAULT '[]'::jsonb,
+  asset_groups jsonb NOT NULL DEFAULT '{}'::jsonb,
+  source_html text,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE clone_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own clone jobs"
+  ON clone_jobs FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own clone jobs"
+  ON clone_jobs FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own clone jobs"
+  ON clone_jobs FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own clone jobs"
+  ON clone_jobs FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_clone_jobs_user_id ON clone_jobs(user_id);
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_status_check;
+ALTER TABLE projects ADD CONSTRAINT projects_status_check
+  CHECK (status IN ('pending', 'cloning', 'analyzing', 'optimizing', 'completed', 'cancelled', 'error'));
@@ -0,0 +1,20 @@
+/*
+  # Add captured frames to clone jobs
+
+  1. Changes
+    - Add `frames` (jsonb) to `clone_jobs` - Same-origin iframe documents captured with
+      the entry page (url, title, html), cloned as pages after the assets step
+
+  2. Notes
+    - Kept on the checkpoint so a resumed clone does not need to capture the page again
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clone_jobs' AND column_name = 'frames'
+  ) THEN
+    ALTER TABLE clone_jobs ADD COLUMN frames jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,37 @@
+/*
+  # Touch Reused Asset Blobs
+
+  1. Functions
+    - `touch_asset_blob(blob_hash)` - moves a stored blob's `updated_at` to now and
+      returns whether the blob exists. Saving a project calls it for every blob it
+      reuses, so garbage collection, which spares blobs updated within its grace
+      period, cannot delete a blob between the upload check and the row upsert.
+
+  2. Notes
+    - Users still cannot overwrite blob contents; the function only changes the
+      timestamp.
+*/
+
+CREATE OR REPLACE FUNCTION touch_asset_blob(blob_hash text)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF blob_hash !~ '^[a-f0-9]{64}$' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE storage.objects
+  SET updated_at = now()
+  WHERE bucket_id = 'assets'
+    AND name = substr(blob_hash, 1, 2) || '/' || blob_hash;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION touch_asset_blob(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION touch_asset_blob(text) TO authenticated, service_role;
@@ -0,0 +1,27 @@
+/*
+  # Keep Stored HAR Response Bodies
+
+  1. Functions
+    - `referenced_asset_hashes()` now also returns the `_hash` of every response
+      body in a project's recorded HAR (`metadata.har.entries[].response.content`),
+      so garbage collection keeps the original bytes the WARC export writes.
+*/
+
+CREATE OR REPLACE FUNCTION referenced_asset_hashes()
+RETURNS TABLE (hash text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT asset->>'hash'
+  FROM projects, jsonb_array_elements(COALESCE(projects.assets, '[]'::jsonb)) AS asset
+  WHERE asset->>'hash' IS NOT NULL
+  UNION
+  SELECT entry->'response'->'content'->>'_hash'
+  FROM projects, jsonb_array_elements(COALESCE(projects.metadata->'har'->'entries', '[]'::jsonb)) AS entry
+  WHERE entry->'response'->'content'->>'_hash' IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION referenced_asset_hashes() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION referenced_asset_hashes() TO service_role;
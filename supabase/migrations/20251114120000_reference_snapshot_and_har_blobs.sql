@@ -0,0 +1,53 @@
+/*
+  # Keep Stored Snapshots and HARs
+
+  Snapshot pages, styles and screenshots and the recorded HAR itself moved
+  from `projects.metadata` to the asset store; the row keeps their hashes.
+
+  1. Functions
+    - `referenced_asset_hashes()` now also returns
+      - `htmlHash`, `stylesHash` and `screenshotHash` of every entry in
+        `metadata.snapshots`
+      - `metadata.harHash`, the stored HAR
+      - every hash in `metadata.harBodyHashes`, the response bodies the stored
+        HAR refers to
+    - HAR bodies of rows saved before the HAR moved (`metadata.har.entries`)
+      are still returned.
+*/
+
+CREATE OR REPLACE FUNCTION referenced_asset_hashes()
+RETURNS TABLE (hash text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT asset->>'hash'
+  FROM projects, jsonb_array_elements(COALESCE(projects.assets, '[]'::jsonb)) AS asset
+  WHERE asset->>'hash' IS NOT NULL
+  UNION
+  SELECT entry->'response'->'content'->>'_hash'
+  FROM projects, jsonb_array_elements(COALESCE(projects.metadata->'har'->'entries', '[]'::jsonb)) AS entry
+  WHERE entry->'response'->'content'->>'_hash' IS NOT NULL
+  UNION
+  SELECT part.hash
+  FROM projects,
+    jsonb_array_elements(
+      CASE WHEN jsonb_typeof(projects.metadata->'snapshots') = 'array' THEN projects.metadata->'snapshots' ELSE '[]'::jsonb END
+    ) AS snapshot,
+    LATERAL (VALUES (snapshot->>'htmlHash'), (snapshot->>'stylesHash'), (snapshot->>'screenshotHash')) AS part(hash)
+  WHERE part.hash IS NOT NULL
+  UNION
+  SELECT projects.metadata->>'harHash'
+  FROM projects
+  WHERE projects.metadata->>'harHash' IS NOT NULL
+  UNION
+  SELECT body_hash
+  FROM projects,
+    jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(projects.metadata->'harBodyHashes') = 'array' THEN projects.metadata->'harBodyHashes' ELSE '[]'::jsonb END
+    ) AS body_hash;
+$$;
+
+REVOKE EXECUTE ON FUNCTION referenced_asset_hashes() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION referenced_asset_hashes() TO service_role;
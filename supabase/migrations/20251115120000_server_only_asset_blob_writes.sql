@@ -0,0 +1,15 @@
+/*
+  # Server-Only Asset Blob Writes
+
+  1. Storage
+    - Drops the policy that let any authenticated user add blobs to the `assets`
+      bucket. A blob uploaded under a hash it does not match would be reused by
+      every later save of that hash and rejected on load, losing the asset.
+      Uploads now go through `PUT /api/assets/:hash/bucket`, which checks the
+      SHA-256 and writes with the service role.
+
+  2. Notes
+    - Reading blobs and `touch_asset_blob()` are unchanged.
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can add asset blobs" ON storage.objects;